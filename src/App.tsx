@@ -1,6 +1,7 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { CartProvider } from './contexts/CartContext';
 import Layout from './components/Layout';
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
@@ -8,6 +9,19 @@ import MenuPage from './components/MenuPage';
 import OrdersPage from './components/OrdersPage';
 import AIAgent from './components/AIAgent';
 import AddMenuItem from './components/AddMenuItem';
+import TablesPage from './components/TablesPage';
+import FloorPlanEditor from './components/FloorPlanEditor';
+import ReservationsPage from './components/ReservationsPage';
+import CartPage from './components/CartPage';
+import InventoryPage from './components/InventoryPage';
+import PurchasingPage from './components/PurchasingPage';
+import MenuEngineeringReport from './components/MenuEngineeringReport';
+import ReportsPage from './components/ReportsPage';
+import CloseoutPage from './components/CloseoutPage';
+import StaffPage from './components/StaffPage';
+import SchedulePage from './components/SchedulePage';
+import PricingSettingsPage from './components/PricingSettingsPage';
+import PromoCodesPage from './components/PromoCodesPage';
 
 function AppContent() {
   const { user, loading } = useAuth();
@@ -38,15 +52,23 @@ function AppContent() {
         <Route path="/orders" element={<OrdersPage />} />
         <Route path="/menu" element={<MenuPage />} />
         <Route path="/add-menu-item" element={<AddMenuItem />} />
-        <Route path="/staff" element={<div className="p-8 text-center text-gray-500">Staff overview coming soon...</div>} />
-        <Route path="/reports" element={<div className="p-8 text-center text-gray-500">Sales reports coming soon...</div>} />
+        <Route path="/menu-engineering" element={<MenuEngineeringReport />} />
+        <Route path="/staff" element={<StaffPage />} />
+        <Route path="/schedule" element={<SchedulePage />} />
+        <Route path="/reports" element={<ReportsPage />} />
+        <Route path="/closeout" element={<CloseoutPage />} />
+        <Route path="/pricing" element={<PricingSettingsPage />} />
+        <Route path="/promotions" element={<PromoCodesPage />} />
         <Route path="/take-order" element={<div className="p-8 text-center text-gray-500">Take order page coming soon...</div>} />
-        <Route path="/tables" element={<div className="p-8 text-center text-gray-500">Table view coming soon...</div>} />
+        <Route path="/tables" element={<TablesPage />} />
+        <Route path="/floor-plan" element={<FloorPlanEditor />} />
+        <Route path="/reservations" element={<ReservationsPage />} />
         <Route path="/my-orders" element={<OrdersPage />} />
         <Route path="/pending-orders" element={<OrdersPage />} />
         <Route path="/completed" element={<div className="p-8 text-center text-gray-500">Completed dishes coming soon...</div>} />
-        <Route path="/inventory" element={<div className="p-8 text-center text-gray-500">Inventory view coming soon...</div>} />
-        <Route path="/cart" element={<div className="p-8 text-center text-gray-500">Cart/checkout coming soon...</div>} />
+        <Route path="/inventory" element={<InventoryPage />} />
+        <Route path="/purchasing" element={<PurchasingPage />} />
+        <Route path="/cart" element={<CartPage />} />
         <Route path="/ai" element={<AIAgent />} />
         <Route path="*" element={<Navigate to="/dashboard" replace />} />
       </Routes>
@@ -57,9 +79,11 @@ function AppContent() {
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <AppContent />
-      </Router>
+      <CartProvider>
+        <Router>
+          <AppContent />
+        </Router>
+      </CartProvider>
     </AuthProvider>
   );
 }
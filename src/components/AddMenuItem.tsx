@@ -3,6 +3,10 @@ import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, Plus, AlertCircle, CheckCircle, Utensils } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { ModifierGroupDraft, validateGroupDrafts, saveModifierGroups } from '../lib/modifiers';
+import { ALLERGENS, DIETARY_TAGS } from '../lib/allergens';
+import ModifierGroupsEditor from './ModifierGroupsEditor';
+import TagChips from './TagChips';
 
 export default function AddMenuItem() {
   const [formData, setFormData] = useState({
@@ -10,8 +14,11 @@ export default function AddMenuItem() {
     description: '',
     category: 'Food',
     price: '',
-    available: true
+    available: true,
+    allergens: [] as string[],
+    dietary_tags: [] as string[]
   });
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroupDraft[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
@@ -79,6 +86,13 @@ export default function AddMenuItem() {
       return;
     }
 
+    const groupsError = validateGroupDrafts(modifierGroups);
+    if (groupsError) {
+      setError(groupsError);
+      setLoading(false);
+      return;
+    }
+
     try {
       console.log('Creating menu item:', formData);
 
@@ -90,7 +104,9 @@ export default function AddMenuItem() {
             description: formData.description.trim(),
             category: formData.category,
             price: parseFloat(formData.price),
-            available: formData.available
+            available: formData.available,
+            allergens: formData.allergens,
+            dietary_tags: formData.dietary_tags
           }
         ])
         .select()
@@ -103,6 +119,13 @@ export default function AddMenuItem() {
       }
 
       console.log('Menu item created successfully:', data);
+
+      const { error: groupsSaveError } = await saveModifierGroups(data.id, modifierGroups);
+      if (groupsSaveError) {
+        setError(`Menu item created, but its options could not be saved: ${groupsSaveError}. Add them from the menu page.`);
+        return;
+      }
+
       setSuccess('Menu item created successfully!');
       
       // Reset form
@@ -111,8 +134,11 @@ export default function AddMenuItem() {
         description: '',
         category: 'Food',
         price: '',
-        available: true
+        available: true,
+        allergens: [],
+        dietary_tags: []
       });
+      setModifierGroups([]);
 
       // Auto-redirect after success
       setTimeout(() => {
@@ -259,6 +285,28 @@ export default function AddMenuItem() {
               </div>
             </div>
 
+            {/* Allergens and Diets */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Contains allergens</label>
+                <TagChips
+                  options={ALLERGENS}
+                  selected={formData.allergens}
+                  onChange={(allergens) => setFormData(prev => ({ ...prev, allergens }))}
+                  tone="red"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Suitable for</label>
+                <TagChips
+                  options={DIETARY_TAGS}
+                  selected={formData.dietary_tags}
+                  onChange={(dietary_tags) => setFormData(prev => ({ ...prev, dietary_tags }))}
+                  tone="green"
+                />
+              </div>
+            </div>
+
             {/* Availability Toggle */}
             <div className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg">
               <input
@@ -283,6 +331,9 @@ export default function AddMenuItem() {
               </div>
             </div>
 
+            {/* Option Groups */}
+            <ModifierGroupsEditor groups={modifierGroups} onChange={setModifierGroups} />
+
             {/* Submit Button */}
             <div className="flex gap-4 pt-4">
               <button
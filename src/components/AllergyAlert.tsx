@@ -0,0 +1,36 @@
+import { AlertTriangle } from 'lucide-react';
+import { Order, OrderItem } from '../lib/supabase';
+import { getOrderAllergyWarnings, allergenLabel } from '../lib/allergens';
+
+interface AllergyAlertProps {
+  order: Order & { order_items?: OrderItem[] };
+}
+
+export default function AllergyAlert({ order }: AllergyAlertProps) {
+  const { declared, conflicts } = getOrderAllergyWarnings(order);
+  if (declared.length === 0) return null;
+
+  if (conflicts.length === 0) {
+    return (
+      <div className="mb-3 p-2 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800">
+        Allergies declared: {declared.map(allergenLabel).join(', ')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-3 p-3 bg-red-50 border-2 border-red-400 rounded-lg">
+      <p className="flex items-center gap-2 font-bold text-red-800">
+        <AlertTriangle className="w-5 h-5" />
+        ALLERGY: {declared.map(allergenLabel).join(', ')}
+      </p>
+      <ul className="mt-1 text-sm text-red-700">
+        {conflicts.map(({ item, allergens }) => (
+          <li key={item.id}>
+            {item.menu_item?.name || 'Unknown Item'} contains {allergens.map(allergenLabel).join(', ')}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import { X, CalendarDays, Users, Phone, Mail, AlertCircle, CheckCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getTimeSlots, formatSlotTime, DEFAULT_DINING_MINUTES } from '../lib/reservations';
+
+interface BookTableModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onBooked: () => void;
+}
+
+const toDateInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+export default function BookTableModal({ isOpen, onClose, onBooked }: BookTableModalProps) {
+  const { user } = useAuth();
+  const [formData, setFormData] = useState({
+    date: toDateInputValue(new Date()),
+    slot: '',
+    partySize: '2',
+    name: '',
+    phone: '',
+    email: '',
+    notes: ''
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      // Reset form when modal opens
+      setFormData({
+        date: toDateInputValue(new Date()),
+        slot: '',
+        partySize: '2',
+        name: user?.name || '',
+        phone: '',
+        email: user?.email || '',
+        notes: ''
+      });
+      setError('');
+      setSuccess('');
+    }
+  }, [isOpen, user]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value,
+      // Picking another day invalidates the chosen time
+      ...(name === 'date' ? { slot: '' } : {})
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!formData.slot) {
+      setError('Please choose a time');
+      return;
+    }
+
+    if (!formData.name.trim()) {
+      setError('Please enter the name for the booking');
+      return;
+    }
+
+    if (!formData.phone.trim() && !formData.email.trim()) {
+      setError('Please leave a phone number or email so we can reach you');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const { error: insertError } = await supabase
+        .from('reservations')
+        .insert([
+          {
+            customer_id: user.id,
+            customer_name: formData.name.trim(),
+            contact_phone: formData.phone.trim() || null,
+            contact_email: formData.email.trim() || null,
+            party_size: parseInt(formData.partySize),
+            reserved_for: formData.slot,
+            duration_minutes: DEFAULT_DINING_MINUTES,
+            notes: formData.notes.trim() || null,
+            status: 'booked',
+            created_by: user.id
+          }
+        ]);
+
+      if (insertError) {
+        console.error('Error booking table:', insertError);
+        setError(`Failed to book table: ${insertError.message}`);
+        return;
+      }
+
+      setSuccess(`Table booked for ${formData.partySize} at ${formatSlotTime(formData.slot)}!`);
+
+      setTimeout(() => {
+        onBooked();
+        onClose();
+      }, 1500);
+    } catch (err) {
+      console.error('Error booking table:', err);
+      setError('An unexpected error occurred while booking your table');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const slots = getTimeSlots(new Date(`${formData.date}T00:00:00`));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <CalendarDays className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold">Book a Table</h2>
+                <p className="opacity-90">Reserve your spot in a few taps</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="booking-date" className="block text-sm font-medium text-gray-700 mb-2">
+                Date *
+              </label>
+              <input
+                type="date"
+                id="booking-date"
+                name="date"
+                value={formData.date}
+                min={toDateInputValue(new Date())}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="booking-party" className="block text-sm font-medium text-gray-700 mb-2">
+                <Users className="w-4 h-4 inline mr-1" />
+                Guests *
+              </label>
+              <select
+                id="booking-party"
+                name="partySize"
+                value={formData.partySize}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                {Array.from({ length: 12 }, (_, i) => i + 1).map((size) => (
+                  <option key={size} value={size}>{size} {size === 1 ? 'guest' : 'guests'}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Time *</label>
+            {slots.length > 0 ? (
+              <div className="grid grid-cols-4 gap-2">
+                {slots.map((slot) => (
+                  <button
+                    key={slot.toISOString()}
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, slot: slot.toISOString() }))}
+                    className={`py-2 rounded-lg text-sm transition-colors ${
+                      formData.slot === slot.toISOString()
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {formatSlotTime(slot)}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No more times available on this day.</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="booking-name" className="block text-sm font-medium text-gray-700 mb-2">
+              Name *
+            </label>
+            <input
+              type="text"
+              id="booking-name"
+              name="name"
+              value={formData.name}
+              onChange={handleInputChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="booking-phone" className="block text-sm font-medium text-gray-700 mb-2">
+                <Phone className="w-4 h-4 inline mr-1" />
+                Phone
+              </label>
+              <input
+                type="tel"
+                id="booking-phone"
+                name="phone"
+                value={formData.phone}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="booking-email" className="block text-sm font-medium text-gray-700 mb-2">
+                <Mail className="w-4 h-4 inline mr-1" />
+                Email
+              </label>
+              <input
+                type="email"
+                id="booking-email"
+                name="email"
+                value={formData.email}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="booking-notes" className="block text-sm font-medium text-gray-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="booking-notes"
+              name="notes"
+              value={formData.notes}
+              onChange={handleInputChange}
+              placeholder="Birthday, high chair, window seat..."
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {success && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="w-4 h-4 text-green-600" />
+                <p className="text-green-700 text-sm">{success}</p>
+              </div>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading || !!success}
+            className="w-full bg-gradient-to-r from-purple-500 to-purple-600 text-white py-3 px-4 rounded-lg font-medium flex items-center justify-center gap-2 hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? (
+              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <>
+                <CalendarDays className="w-5 h-5" />
+                Confirm Booking
+              </>
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
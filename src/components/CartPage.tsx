@@ -0,0 +1,382 @@
+import { useState, useEffect } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import {
+  ShoppingCart, Plus, Minus, Trash2, Utensils, AlertCircle, CheckCircle, ArrowLeft, ClipboardCheck, Tag, X
+} from 'lucide-react';
+import { CartItem } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCart } from '../hooks/useCart';
+import { getUnitPrice, formatModifiers } from '../lib/modifiers';
+import { PricingConfig, calculateOrderTotals, loadPricingConfig } from '../lib/pricing';
+import { PromoPreview, checkPromoCode, describeDiscountValue } from '../lib/discounts';
+
+export default function CartPage() {
+  const { user } = useAuth();
+  const { items, loading, itemCount, subtotal, updateQuantity, updateNotes, removeItem, checkout } = useCart();
+  const [step, setStep] = useState<'cart' | 'review'>('cart');
+  const [customerName, setCustomerName] = useState(user?.name || '');
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [placedOrderId, setPlacedOrderId] = useState<string | null>(null);
+  const [pricing, setPricing] = useState<PricingConfig | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [promo, setPromo] = useState<PromoPreview | null>(null);
+  const [promoError, setPromoError] = useState('');
+  const [checkingPromo, setCheckingPromo] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    setCustomerName(user?.name || '');
+  }, [user]);
+
+  useEffect(() => {
+    loadPricing();
+  }, []);
+
+  const loadPricing = async () => {
+    const { config } = await loadPricingConfig();
+    setPricing(config);
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.role !== 'customer') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const unitPrice = (item: CartItem) => (item.menu_item ? getUnitPrice(item.menu_item, item.modifiers) : 0);
+
+  const totals = calculateOrderTotals(
+    items.map(item => ({ category: item.menu_item?.category || '', amount: unitPrice(item) * item.quantity })),
+    null,
+    pricing,
+    promo
+  );
+
+  const handleQuantity = async (item: CartItem, quantity: number) => {
+    const { error: updateError } = await updateQuantity(item.id, quantity);
+    setError(updateError || '');
+  };
+
+  const handleRemove = async (item: CartItem) => {
+    const { error: removeError } = await removeItem(item.id);
+    setError(removeError || '');
+  };
+
+  const saveNotes = async (item: CartItem) => {
+    const draft = noteDrafts[item.id];
+    if (draft === undefined || draft.trim() === (item.notes || '')) return;
+
+    const { error: notesError } = await updateNotes(item.id, draft);
+    setError(notesError || '');
+  };
+
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim()) return;
+
+    setCheckingPromo(true);
+    setPromoError('');
+    const { promo: found, error: promoCheckError } = await checkPromoCode(promoInput);
+    setCheckingPromo(false);
+
+    if (promoCheckError || !found) {
+      setPromoError(promoCheckError || 'That code is not valid');
+      return;
+    }
+    setPromo(found);
+    setPromoInput('');
+  };
+
+  const handlePlaceOrder = async () => {
+    setSubmitting(true);
+    setError('');
+
+    const { orderId, error: checkoutError } = await checkout(customerName, promo?.code);
+
+    setSubmitting(false);
+    if (checkoutError) {
+      setError(checkoutError);
+      return;
+    }
+
+    setPlacedOrderId(orderId);
+    setPromo(null);
+    setStep('cart');
+  };
+
+  if (placedOrderId) {
+    return (
+      <div className="max-w-xl mx-auto text-center py-12">
+        <div className="bg-white rounded-xl shadow-md border border-gray-100 p-8">
+          <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Order placed!</h2>
+          <p className="text-gray-600 mb-6">
+            Order #{placedOrderId.slice(0, 8)} has been sent to the kitchen.
+          </p>
+          <div className="flex gap-3 justify-center">
+            <button
+              onClick={() => navigate('/orders')}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              Track My Order
+            </button>
+            <button
+              onClick={() => {
+                setPlacedOrderId(null);
+                navigate('/menu');
+              }}
+              className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Order More
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading && items.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-gray-300 border-t-purple-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const unavailableItems = items.filter(item => !item.menu_item?.available);
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            {step === 'cart' ? 'Your Cart' : 'Review Your Order'}
+          </h1>
+          <p className="text-gray-600">
+            {itemCount} {itemCount === 1 ? 'item' : 'items'} • ${subtotal.toFixed(2)}
+          </p>
+        </div>
+        {step === 'review' && (
+          <button
+            onClick={() => setStep('cart')}
+            className="flex items-center gap-2 text-purple-600 hover:text-purple-700 text-sm font-medium"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Cart
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 p-8">
+            <ShoppingCart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-600 mb-2">Your cart is empty</h3>
+            <p className="text-gray-500 mb-4">Add some dishes from the menu to get started.</p>
+            <button
+              onClick={() => navigate('/menu')}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              Browse Menu
+            </button>
+          </div>
+        </div>
+      ) : step === 'cart' ? (
+        <>
+          {/* Cart Lines */}
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 divide-y divide-gray-100">
+            {items.map((item) => (
+              <div key={item.id} className="p-6">
+                <div className="flex items-start gap-4">
+                  <div className="w-16 h-16 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex items-center justify-center flex-shrink-0">
+                    {item.menu_item?.image_url ? (
+                      <img src={item.menu_item.image_url} alt={item.menu_item.name} className="w-full h-full object-cover rounded-lg" />
+                    ) : (
+                      <Utensils className="w-6 h-6 text-gray-400" />
+                    )}
+                  </div>
+                  <div className="flex-1">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <h4 className="font-medium text-gray-900">{item.menu_item?.name || 'Unknown Item'}</h4>
+                        {item.modifiers && item.modifiers.length > 0 && (
+                          <p className="text-sm text-gray-700">{formatModifiers(item.modifiers)}</p>
+                        )}
+                        <p className="text-sm text-gray-500">${unitPrice(item).toFixed(2)} each</p>
+                        {!item.menu_item?.available && (
+                          <p className="text-sm text-red-600">Currently unavailable</p>
+                        )}
+                      </div>
+                      <span className="font-bold text-gray-900">
+                        ${(unitPrice(item) * item.quantity).toFixed(2)}
+                      </span>
+                    </div>
+
+                    <div className="flex items-center gap-3 mt-3">
+                      <button
+                        onClick={() => handleQuantity(item, item.quantity - 1)}
+                        className="p-1 rounded-full bg-gray-200 hover:bg-gray-300 transition-colors"
+                      >
+                        <Minus className="w-4 h-4" />
+                      </button>
+                      <span className="font-medium w-8 text-center">{item.quantity}</span>
+                      <button
+                        onClick={() => handleQuantity(item, item.quantity + 1)}
+                        className="p-1 rounded-full bg-gray-200 hover:bg-gray-300 transition-colors"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleRemove(item)}
+                        className="ml-auto flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Remove
+                      </button>
+                    </div>
+
+                    <input
+                      type="text"
+                      value={noteDrafts[item.id] ?? item.notes ?? ''}
+                      onChange={(e) => setNoteDrafts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      onBlur={() => saveNotes(item)}
+                      placeholder="Special instructions (e.g. no onions)"
+                      className="mt-3 w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-500">Subtotal</p>
+              <p className="text-2xl font-bold text-gray-900">${subtotal.toFixed(2)}</p>
+            </div>
+            <button
+              onClick={() => setStep('review')}
+              disabled={unavailableItems.length > 0}
+              className="bg-gradient-to-r from-purple-500 to-purple-600 text-white py-3 px-6 rounded-lg font-medium flex items-center gap-2 hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ClipboardCheck className="w-5 h-5" />
+              Review Order
+            </button>
+          </div>
+          {unavailableItems.length > 0 && (
+            <p className="text-sm text-red-600 text-right">Remove unavailable items to continue.</p>
+          )}
+        </>
+      ) : (
+        /* Review Step */
+        <div className="bg-white rounded-xl shadow-md border border-gray-100">
+          <div className="p-6 border-b border-gray-100">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name for the order</label>
+            <input
+              type="text"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+          <div className="p-6 space-y-3">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-start justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {item.quantity}x {item.menu_item?.name || 'Unknown Item'}
+                  </p>
+                  {item.modifiers && item.modifiers.length > 0 && (
+                    <p className="text-sm text-gray-700">{formatModifiers(item.modifiers)}</p>
+                  )}
+                  {item.notes && <p className="text-sm text-gray-600 italic">Note: {item.notes}</p>}
+                </div>
+                <span className="text-gray-900">${(unitPrice(item) * item.quantity).toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="p-6 border-t border-gray-100">
+            {promo ? (
+              <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-lg">
+                <div className="flex items-center gap-2 text-green-700">
+                  <Tag className="w-4 h-4" />
+                  <span className="font-medium">{promo.code}</span>
+                  <span className="text-sm">
+                    {describeDiscountValue(promo)}{promo.description && ` • ${promo.description}`}
+                  </span>
+                </div>
+                <button
+                  onClick={() => setPromo(null)}
+                  className="p-1 text-green-700 hover:bg-green-100 rounded"
+                  title="Remove code"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="promo-code" className="block text-sm font-medium text-gray-700 mb-2">Promo code</label>
+                <div className="flex gap-2">
+                  <input
+                    id="promo-code"
+                    type="text"
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                    onKeyDown={(e) => e.key === 'Enter' && handleApplyPromo()}
+                    placeholder="Enter a code"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={handleApplyPromo}
+                    disabled={checkingPromo || !promoInput.trim()}
+                    className="border border-purple-600 text-purple-600 px-4 py-2 rounded-lg hover:bg-purple-50 transition-colors disabled:opacity-50"
+                  >
+                    {checkingPromo ? 'Checking...' : 'Apply'}
+                  </button>
+                </div>
+                {promoError && <p className="text-sm text-red-600 mt-1">{promoError}</p>}
+              </div>
+            )}
+          </div>
+          <div className="p-6 border-t border-gray-100 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-500">
+                Subtotal ${totals.subtotal.toFixed(2)}
+                {totals.discount > 0 && ` • Discount -$${totals.discount.toFixed(2)}`} • Tax{pricing?.settings?.tax_inclusive ? ' included' : ''} ${totals.tax.toFixed(2)}
+              </p>
+              <div className="text-lg font-bold">
+                Total: <span className="text-purple-600">${totals.total.toFixed(2)}</span>
+              </div>
+            </div>
+            <button
+              onClick={handlePlaceOrder}
+              disabled={submitting}
+              className="bg-gradient-to-r from-purple-500 to-purple-600 text-white py-3 px-6 rounded-lg font-medium flex items-center gap-2 hover:shadow-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? (
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              ) : (
+                <>
+                  <ShoppingCart className="w-5 h-5" />
+                  Place Order
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { AlertCircle, AlertTriangle, CheckCircle, Lock, Printer, RefreshCw } from 'lucide-react';
+import { supabase, DayCloseout, DayCloseoutPreview } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getBusinessDate,
+  formatBusinessDate,
+  previewCloseout,
+  closeBusinessDay,
+  getCloseoutLines,
+  printCloseout
+} from '../lib/closeout';
+
+export default function CloseoutPage() {
+  const [today, setToday] = useState('');
+  const [selectedDate, setSelectedDate] = useState('');
+  const [closeouts, setCloseouts] = useState<DayCloseout[]>([]);
+  const [preview, setPreview] = useState<DayCloseoutPreview | null>(null);
+  const [notes, setNotes] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [closing, setClosing] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user?.role === 'manager') {
+      loadHistory();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const closedDay = closeouts.find(closeout => closeout.business_date === selectedDate) || null;
+
+  useEffect(() => {
+    if (selectedDate && !closedDay) {
+      loadPreview(selectedDate);
+    } else {
+      setPreview(null);
+    }
+  }, [selectedDate, closedDay]);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const [dateResult, closeoutResult] = await Promise.all([
+        getBusinessDate(),
+        supabase
+          .from('day_closeouts')
+          .select('*')
+          .order('business_date', { ascending: false })
+          .limit(90)
+      ]);
+
+      const failure = dateResult.error || closeoutResult.error?.message;
+      if (failure) {
+        setError(`Failed to load closeouts: ${failure}`);
+        return;
+      }
+
+      setCloseouts(closeoutResult.data || []);
+      if (dateResult.businessDate) {
+        setToday(dateResult.businessDate);
+        setSelectedDate(current => current || dateResult.businessDate);
+      }
+    } catch (err) {
+      console.error('Error loading closeouts:', err);
+      setError('An unexpected error occurred while loading closeouts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPreview = async (businessDate: string) => {
+    setError('');
+    setAcknowledged(false);
+    const { preview: figures, error: previewError } = await previewCloseout(businessDate);
+    if (previewError) {
+      setError(previewError);
+      return;
+    }
+    setPreview(figures);
+  };
+
+  const handleClose = async () => {
+    if (!preview) return;
+
+    if (!confirm(`Close out ${formatBusinessDate(selectedDate)}? The day's orders will be locked and this cannot be undone.`)) {
+      return;
+    }
+
+    setClosing(true);
+    setError('');
+    setSuccess('');
+
+    const { closeout, error: closeError } = await closeBusinessDay(selectedDate, notes, acknowledged);
+    if (closeError || !closeout) {
+      setError(closeError || 'Failed to close the day');
+    } else {
+      setCloseouts(current => [closeout, ...current]
+        .sort((a, b) => b.business_date.localeCompare(a.business_date)));
+      setNotes('');
+      setSuccess(`${formatBusinessDate(closeout.business_date)} has been closed out`);
+    }
+
+    setClosing(false);
+  };
+
+  const handlePrint = (closeout: DayCloseout) => {
+    if (!printCloseout(closeout)) {
+      setError('Please allow pop-ups for this site to print the Z report');
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.role !== 'manager') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const figures = closedDay || preview;
+  const payments = Object.entries(figures?.payment_breakdown || {});
+  const openOrders = preview?.open_orders || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Day Closeout</h1>
+          <p className="text-gray-600">Close the business day and keep its Z report on record</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={selectedDate}
+            max={today}
+            onChange={(e) => setSelectedDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={loadHistory}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-700">{success}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <>
+          {selectedDate && (
+            <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{formatBusinessDate(selectedDate)}</h3>
+                  {closedDay ? (
+                    <p className="text-sm text-gray-600 flex items-center gap-1">
+                      <Lock className="w-4 h-4" />
+                      Closed by {closedDay.closed_by_name || 'Unknown'} at {new Date(closedDay.closed_at).toLocaleString()}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-600">Not closed yet • figures so far</p>
+                  )}
+                </div>
+                {closedDay && (
+                  <button
+                    onClick={() => handlePrint(closedDay)}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <Printer className="w-4 h-4" />
+                    Print Z Report
+                  </button>
+                )}
+              </div>
+
+              {figures && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {getCloseoutLines(figures).map(line => (
+                    <div key={line.label} className="p-4 bg-gray-50 rounded-lg">
+                      <p className="text-sm text-gray-600">{line.label}</p>
+                      <p className="text-xl font-bold text-gray-900">{line.value}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {payments.length > 0 && (
+                <div className="mt-4">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Payments</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {payments.map(([method, amount]) => (
+                      <span key={method} className="px-3 py-1 bg-blue-50 text-blue-800 rounded-full text-sm capitalize">
+                        {method}: ${Number(amount).toFixed(2)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {closedDay?.notes && (
+                <p className="mt-4 text-sm text-gray-700"><span className="font-medium">Notes:</span> {closedDay.notes}</p>
+              )}
+
+              {!closedDay && preview && (
+                <div className="mt-6 space-y-4">
+                  {openOrders.length > 0 && (
+                    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                      <div className="flex items-center gap-2 mb-2">
+                        <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                        <p className="font-medium text-yellow-800">
+                          {openOrders.length} order{openOrders.length === 1 ? ' is' : 's are'} still open
+                        </p>
+                      </div>
+                      <ul className="text-sm text-yellow-800 space-y-1 mb-3">
+                        {openOrders.map(order => (
+                          <li key={order.id}>
+                            #{order.id.slice(0, 8)} • {order.table_number ? `Table ${order.table_number}` : order.customer_name} •{' '}
+                            <span className="capitalize">{order.status}</span> • ${Number(order.total).toFixed(2)}
+                          </li>
+                        ))}
+                      </ul>
+                      <label className="flex items-center gap-2 text-sm text-yellow-900">
+                        <input
+                          type="checkbox"
+                          checked={acknowledged}
+                          onChange={(e) => setAcknowledged(e.target.checked)}
+                          className="rounded border-gray-300"
+                        />
+                        Close anyway. Open orders can still be completed but no longer changed or cancelled.
+                      </label>
+                    </div>
+                  )}
+
+                  <div>
+                    <label htmlFor="closeout-notes" className="block text-sm font-medium text-gray-700 mb-1">
+                      Notes (optional)
+                    </label>
+                    <textarea
+                      id="closeout-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={2}
+                      placeholder="e.g. Cash drawer short $5, private event in the back room"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  <button
+                    onClick={handleClose}
+                    disabled={closing || (openOrders.length > 0 && !acknowledged)}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    <Lock className="w-4 h-4" />
+                    {closing ? 'Closing...' : 'Close Day'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* History */}
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-x-auto">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">Past Closeouts</h3>
+            </div>
+            {closeouts.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="text-left px-6 py-3 font-medium">Day</th>
+                    <th className="text-right px-6 py-3 font-medium">Net Sales</th>
+                    <th className="text-right px-6 py-3 font-medium">Orders</th>
+                    <th className="text-right px-6 py-3 font-medium">Voids</th>
+                    <th className="text-left px-6 py-3 font-medium">Closed By</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {closeouts.map(closeout => (
+                    <tr
+                      key={closeout.id}
+                      onClick={() => setSelectedDate(closeout.business_date)}
+                      className={`cursor-pointer hover:bg-gray-50 ${closeout.business_date === selectedDate ? 'bg-blue-50' : ''}`}
+                    >
+                      <td className="px-6 py-3 font-medium text-gray-900">{formatBusinessDate(closeout.business_date)}</td>
+                      <td className="px-6 py-3 text-right text-gray-900">${Number(closeout.net_sales).toFixed(2)}</td>
+                      <td className="px-6 py-3 text-right text-gray-700">{closeout.order_count}</td>
+                      <td className="px-6 py-3 text-right text-gray-700">{closeout.void_count}</td>
+                      <td className="px-6 py-3 text-gray-700">{closeout.closed_by_name || 'Unknown'}</td>
+                      <td className="px-6 py-3 text-right">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handlePrint(closeout);
+                          }}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Print Z report"
+                        >
+                          <Printer className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-gray-500 text-center py-8">No days have been closed yet.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState, useEffect } from 'react';
+import { X, Tag, AlertCircle, Trash2 } from 'lucide-react';
+import { Order, OrderItem, MenuItem } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchOrderWithItems } from '../lib/liveOrders';
+import { formatModifiers } from '../lib/modifiers';
+import {
+  DiscountType,
+  applyDiscount,
+  removeDiscount,
+  describeDiscountValue,
+  discountKindLabels
+} from '../lib/discounts';
+
+interface DiscountModalProps {
+  order: Order;
+  onClose: () => void;
+  // Called after a discount is added or removed
+  onChanged: () => void;
+}
+
+type DiscountOrder = Order & { order_items?: (OrderItem & { menu_item?: MenuItem })[] };
+
+export default function DiscountModal({ order, onClose, onChanged }: DiscountModalProps) {
+  const [current, setCurrent] = useState<DiscountOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [itemId, setItemId] = useState('');
+  const [kind, setKind] = useState<'discount' | 'comp'>('discount');
+  const [discountType, setDiscountType] = useState<DiscountType>('percent');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    loadOrder(order.id);
+  }, [order.id]);
+
+  const loadOrder = async (orderId: string) => {
+    const loaded = await fetchOrderWithItems(orderId) as DiscountOrder | null;
+    if (!loaded) {
+      setError('Could not load this order');
+    } else {
+      setCurrent(loaded);
+    }
+    setLoading(false);
+  };
+
+  const isManager = user?.role === 'manager';
+  const items = current?.order_items || [];
+  const discounts = current?.order_discounts || [];
+
+  const itemName = (orderItemId: string) => {
+    const item = items.find(entry => entry.id === orderItemId);
+    return item ? `${item.quantity}x ${item.menu_item?.name || 'Unknown Item'}` : 'an item';
+  };
+
+  const handleApply = async () => {
+    if (!current) return;
+
+    const amount = kind === 'comp' ? 100 : parseFloat(value);
+    if (!amount || amount <= 0) {
+      setError('Enter the discount to give');
+      return;
+    }
+    if (kind === 'comp' && !reason.trim()) {
+      setError('Give a reason for the comp');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const { error: applyError } = await applyDiscount({
+      orderId: current.id,
+      kind,
+      discountType: kind === 'comp' ? 'percent' : discountType,
+      value: amount,
+      reason: reason.trim(),
+      orderItemId: itemId || null
+    });
+
+    if (applyError) {
+      setError(applyError);
+    } else {
+      setValue('');
+      setReason('');
+      await loadOrder(current.id);
+      onChanged();
+    }
+    setSaving(false);
+  };
+
+  const handleRemove = async (discountId: string) => {
+    if (!current || !confirm('Remove this discount?')) return;
+
+    setError('');
+    const { error: removeError } = await removeDiscount(discountId);
+    if (removeError) {
+      setError(removeError);
+      return;
+    }
+    await loadOrder(current.id);
+    onChanged();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="bg-gradient-to-r from-blue-500 to-blue-600 p-6 text-white flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-white/20 rounded-lg">
+              <Tag className="w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold">Discounts</h2>
+              <p className="opacity-90">
+                Order #{order.id.slice(0, 8)} • {order.table_number ? `Table ${order.table_number}` : order.customer_name}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+          </div>
+        ) : current && (
+          <div className="p-6 space-y-6 overflow-y-auto">
+            <div className="p-4 border border-gray-200 rounded-lg space-y-1 text-sm">
+              <div className="flex justify-between text-gray-700">
+                <span>Subtotal</span>
+                <span>${Number(current.subtotal).toFixed(2)}</span>
+              </div>
+              {discounts.map(discount => (
+                <div key={discount.id} className="flex items-center justify-between gap-2 text-green-700">
+                  <span>
+                    {discountKindLabels[discount.kind]}: {describeDiscountValue(discount)}
+                    {discount.order_item_id ? ` on ${itemName(discount.order_item_id)}` : ' on the order'}
+                    {discount.reason && ` (${discount.reason})`}
+                    {discount.created_by_name && <span className="text-gray-500"> • by {discount.created_by_name}</span>}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    -${Number(discount.amount).toFixed(2)}
+                    {isManager && (
+                      <button
+                        onClick={() => handleRemove(discount.id)}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded"
+                        title="Remove discount"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold text-gray-900 pt-1 border-t border-gray-100">
+                <span>Total</span>
+                <span>${Number(current.total).toFixed(2)}</span>
+              </div>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+                <AlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="discount-target" className="block text-sm font-medium text-gray-700 mb-1">Apply to</label>
+                <select
+                  id="discount-target"
+                  value={itemId}
+                  onChange={(e) => setItemId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Whole order</option>
+                  {items.map(item => (
+                    <option key={item.id} value={item.id}>
+                      {item.quantity}x {item.menu_item?.name || 'Unknown Item'}
+                      {item.modifiers && item.modifiers.length > 0 ? ` (${formatModifiers(item.modifiers)})` : ''}
+                    </option>
+                  ))}
+                </select>
+                {itemId && discounts.some(discount => discount.order_item_id === itemId) && (
+                  <p className="text-xs text-gray-500 mt-1">This replaces the discount already on this item.</p>
+                )}
+              </div>
+
+              {/* Comping takes a manager; it removes the whole charge */}
+              {isManager && (
+                <div className="flex gap-2">
+                  {(['discount', 'comp'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setKind(option)}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        kind === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {discountKindLabels[option]}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {kind === 'discount' && (
+                <div className="flex gap-2">
+                  <select
+                    value={discountType}
+                    onChange={(e) => setDiscountType(e.target.value as DiscountType)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="percent">Percent off</option>
+                    <option value="fixed">Amount off</option>
+                  </select>
+                  <input
+                    type="number"
+                    min="0.01"
+                    max={discountType === 'percent' ? 99.99 : undefined}
+                    step="0.01"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    placeholder={discountType === 'percent' ? '10' : '5.00'}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="discount-reason" className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason{kind === 'comp' ? ' (required)' : ' (required for large discounts)'}
+                </label>
+                <input
+                  id="discount-reason"
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={kind === 'comp' ? 'e.g. Dish sent back' : 'e.g. Regular guest'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  Close
+                </button>
+                <button
+                  onClick={handleApply}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Applying...' : kind === 'comp' ? 'Comp' : 'Apply Discount'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Ban, RotateCcw } from 'lucide-react';
+import { supabase, MenuItem } from '../lib/supabase';
+import { describeUnavailable, eightySixMenuItem, restoreMenuItem } from '../lib/availability';
+
+interface EightySixBoardProps {
+  // Bumped by the parent when stock may have moved, e.g. after dishes are marked ready
+  refreshKey?: number;
+}
+
+export default function EightySixBoard({ refreshKey = 0 }: EightySixBoardProps) {
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedItemId, setSelectedItemId] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadMenuItems();
+  }, [refreshKey]);
+
+  const loadMenuItems = async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('menu_items')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (fetchError) {
+        console.error('Error loading menu items:', fetchError);
+        setError('Failed to load menu items');
+        return;
+      }
+
+      setMenuItems(data || []);
+    } catch (error) {
+      console.error('Error loading menu items:', error);
+      setError('Failed to load menu items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replaceItem = (updated: MenuItem) => {
+    setMenuItems(prev => prev.map(item => item.id === updated.id ? updated : item));
+  };
+
+  const handleEightySix = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!selectedItemId) {
+      setError('Please choose a menu item');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Please give a reason');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const { item, error: saveError } = await eightySixMenuItem(selectedItemId, reason.trim());
+    setSaving(false);
+
+    if (saveError || !item) {
+      setError(saveError || 'Failed to 86 menu item');
+      return;
+    }
+
+    replaceItem(item);
+    setSelectedItemId('');
+    setReason('');
+  };
+
+  const handleRestore = async (menuItem: MenuItem) => {
+    setError('');
+    const { item, error: restoreError } = await restoreMenuItem(menuItem.id);
+    if (restoreError || !item) {
+      setError(restoreError || 'Failed to bring the item back');
+      return;
+    }
+
+    replaceItem(item);
+  };
+
+  const availableItems = menuItems.filter(item => item.available);
+  const eightySixedItems = menuItems.filter(item => !item.available);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-100">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">86 Board</h3>
+        <span className="text-sm text-gray-500">{eightySixedItems.length} off the menu</span>
+      </div>
+      <div className="p-6 space-y-4">
+        <form onSubmit={handleEightySix} className="flex flex-col md:flex-row gap-3">
+          <select
+            value={selectedItemId}
+            onChange={(e) => setSelectedItemId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          >
+            <option value="">Choose an item…</option>
+            {availableItems.map(item => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason, e.g. fryer down"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Ban className="w-4 h-4" />
+            {saving ? 'Saving...' : '86 This Item Now'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="w-8 h-8 border-2 border-gray-300 border-t-orange-600 rounded-full animate-spin"></div>
+          </div>
+        ) : eightySixedItems.length > 0 ? (
+          <div className="space-y-2">
+            {eightySixedItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-900">{item.name}</p>
+                  <p className="text-sm text-red-700">
+                    {describeUnavailable(item) || 'Marked unavailable'}
+                    {item.eighty_sixed_at && (
+                      <span className="text-gray-500"> · since {new Date(item.eighty_sixed_at).toLocaleTimeString()}</span>
+                    )}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRestore(item)}
+                  className="px-3 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700 flex items-center gap-1"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Bring Back
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-center py-4">Everything is on the menu.</p>
+        )}
+      </div>
+    </div>
+  );
+}
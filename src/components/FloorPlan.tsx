@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import { Table, Section } from '../lib/supabase';
+import {
+  FLOOR_WIDTH, FLOOR_HEIGHT, GRID_SIZE,
+  tableStatusColors, getTableSize, clampTablePosition, getElapsedMinutes
+} from '../lib/floorPlan';
+
+interface FloorPlanProps {
+  tables: Table[];
+  sections: Section[];
+  colorBy: 'status' | 'section';
+  selectedTableId?: string | null;
+  onSelectTable?: (table: Table) => void;
+  // Providing this makes tables draggable
+  onMoveTable?: (table: Table, x: number, y: number) => void;
+}
+
+interface DragState {
+  tableId: string;
+  offsetX: number;
+  offsetY: number;
+  x: number;
+  y: number;
+  moved: boolean;
+}
+
+export default function FloorPlan({ tables, sections, colorBy, selectedTableId, onSelectTable, onMoveTable }: FloorPlanProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const toCanvasPoint = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const transformed = point.matrixTransform(matrix.inverse());
+    return { x: transformed.x, y: transformed.y };
+  };
+
+  const getSectionColor = (table: Table) => {
+    return sections.find(section => section.id === table.section_id)?.color || '#9ca3af';
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, table: Table) => {
+    if (!onMoveTable) return;
+
+    const point = toCanvasPoint(e);
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    setDrag({
+      tableId: table.id,
+      offsetX: point.x - table.pos_x,
+      offsetY: point.y - table.pos_y,
+      x: table.pos_x,
+      y: table.pos_y,
+      moved: false
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+
+    const table = tables.find(t => t.id === drag.tableId);
+    if (!table) return;
+
+    const point = toCanvasPoint(e);
+    const { x, y } = clampTablePosition(table, point.x - drag.offsetX, point.y - drag.offsetY);
+    if (x !== drag.x || y !== drag.y) {
+      setDrag({ ...drag, x, y, moved: true });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+
+    const table = tables.find(t => t.id === drag.tableId);
+    if (table && drag.moved && onMoveTable) {
+      onMoveTable(table, drag.x, drag.y);
+    }
+    setDrag(null);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${FLOOR_WIDTH} ${FLOOR_HEIGHT}`}
+      className="w-full h-auto bg-white rounded-xl border border-gray-200 select-none touch-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+    >
+      <defs>
+        <pattern id="floor-grid" width={GRID_SIZE} height={GRID_SIZE} patternUnits="userSpaceOnUse">
+          <path d={`M ${GRID_SIZE} 0 L 0 0 0 ${GRID_SIZE}`} fill="none" stroke="#f3f4f6" strokeWidth="1" />
+        </pattern>
+      </defs>
+      <rect width={FLOOR_WIDTH} height={FLOOR_HEIGHT} fill="url(#floor-grid)" />
+
+      {tables.map((table) => {
+        const isDragging = drag?.tableId === table.id;
+        const x = isDragging ? drag.x : table.pos_x;
+        const y = isDragging ? drag.y : table.pos_y;
+        const { width, height } = getTableSize(table);
+        const isSelected = selectedTableId === table.id;
+        const sectionColor = getSectionColor(table);
+        const fill = colorBy === 'status' ? tableStatusColors[table.status].fill : `${sectionColor}33`;
+        const stroke = colorBy === 'status' ? tableStatusColors[table.status].stroke : sectionColor;
+        const order = colorBy === 'status' ? table.current_order : undefined;
+
+        return (
+          <g
+            key={table.id}
+            transform={`translate(${x}, ${y})`}
+            className={onMoveTable ? 'cursor-move' : onSelectTable ? 'cursor-pointer' : ''}
+            onPointerDown={(e) => handlePointerDown(e, table)}
+            onClick={() => onSelectTable?.(table)}
+          >
+            {table.shape === 'round' ? (
+              <circle
+                r={width / 2}
+                fill={fill}
+                stroke={stroke}
+                strokeWidth={isSelected ? 4 : 2}
+              />
+            ) : (
+              <rect
+                x={-width / 2}
+                y={-height / 2}
+                width={width}
+                height={height}
+                rx={10}
+                fill={fill}
+                stroke={stroke}
+                strokeWidth={isSelected ? 4 : 2}
+              />
+            )}
+            <text y={order ? -10 : -2} textAnchor="middle" className="fill-gray-900 font-bold" fontSize="18">
+              T{table.number}
+            </text>
+            <text y={order ? 6 : 16} textAnchor="middle" className="fill-gray-500" fontSize="11">
+              {table.seats} seats
+            </text>
+            {order && (
+              <text y={22} textAnchor="middle" className="fill-gray-700 font-medium" fontSize="11">
+                ${Number(order.total).toFixed(2)} • {getElapsedMinutes(order.created_at)}m
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,498 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { LayoutGrid, Plus, Trash2, Save, AlertCircle, Users, Palette } from 'lucide-react';
+import { supabase, Table, Section, User } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { clampTablePosition, FLOOR_WIDTH, FLOOR_HEIGHT } from '../lib/floorPlan';
+import FloorPlan from './FloorPlan';
+
+export default function FloorPlanEditor() {
+  const [tables, setTables] = useState<Table[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [waiters, setWaiters] = useState<User[]>([]);
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [tableForm, setTableForm] = useState({
+    number: '',
+    seats: '4',
+    shape: 'square' as Table['shape'],
+    section_id: ''
+  });
+  const [newSection, setNewSection] = useState({ name: '', color: '#3b82f6' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user && user.role === 'manager') {
+      loadFloorPlan();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadFloorPlan = async () => {
+    try {
+      setError('');
+
+      const [tablesResult, sectionsResult, waitersResult] = await Promise.all([
+        supabase.from('tables').select('*').order('number', { ascending: true }),
+        supabase.from('sections').select('*').order('name', { ascending: true }),
+        supabase.from('users').select('*').eq('role', 'waiter').eq('active', true).order('name', { ascending: true })
+      ]);
+
+      if (tablesResult.error || sectionsResult.error || waitersResult.error) {
+        const fetchError = tablesResult.error || sectionsResult.error || waitersResult.error;
+        console.error('Error loading floor plan:', fetchError);
+        setError(`Failed to load floor plan: ${fetchError?.message}`);
+        return;
+      }
+
+      setTables(tablesResult.data || []);
+      setSections(sectionsResult.data || []);
+      setWaiters(waitersResult.data || []);
+    } catch (err) {
+      console.error('Error loading floor plan:', err);
+      setError('An unexpected error occurred while loading the floor plan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectTable = (table: Table) => {
+    setSelectedTableId(table.id);
+    setTableForm({
+      number: table.number.toString(),
+      seats: table.seats.toString(),
+      shape: table.shape,
+      section_id: table.section_id || ''
+    });
+  };
+
+  const moveTable = async (table: Table, x: number, y: number) => {
+    // Update locally first so the table doesn't jump back while saving
+    setTables(prev => prev.map(t => t.id === table.id ? { ...t, pos_x: x, pos_y: y } : t));
+
+    const { error: updateError } = await supabase
+      .from('tables')
+      .update({ pos_x: x, pos_y: y })
+      .eq('id', table.id);
+
+    if (updateError) {
+      console.error('Error moving table:', updateError);
+      setError(`Failed to save table position: ${updateError.message}`);
+      setTables(prev => prev.map(t => t.id === table.id ? table : t));
+    }
+  };
+
+  const addTable = async () => {
+    try {
+      setSaving(true);
+      setError('');
+
+      const nextNumber = tables.reduce((max, table) => Math.max(max, table.number), 0) + 1;
+      const { data, error: insertError } = await supabase
+        .from('tables')
+        .insert([
+          {
+            number: nextNumber,
+            seats: 4,
+            shape: 'square',
+            pos_x: FLOOR_WIDTH / 2,
+            pos_y: FLOOR_HEIGHT / 2,
+            section_id: sections[0]?.id || null
+          }
+        ])
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error adding table:', insertError);
+        setError(`Failed to add table: ${insertError.message}`);
+        return;
+      }
+
+      setTables(prev => [...prev, data]);
+      selectTable(data);
+    } catch (err) {
+      console.error('Error adding table:', err);
+      setError('An unexpected error occurred while adding the table');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveTable = async () => {
+    const table = tables.find(t => t.id === selectedTableId);
+    if (!table) return;
+
+    const number = parseInt(tableForm.number);
+    const seats = parseInt(tableForm.seats);
+
+    if (isNaN(number) || number <= 0) {
+      setError('Please enter a valid table number');
+      return;
+    }
+
+    if (isNaN(seats) || seats <= 0 || seats > 20) {
+      setError('Seat count must be between 1 and 20');
+      return;
+    }
+
+    if (tables.some(t => t.id !== table.id && t.number === number)) {
+      setError(`Table ${number} already exists`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError('');
+
+      // A bigger table may no longer fit where it was placed
+      const position = clampTablePosition({ shape: tableForm.shape, seats }, table.pos_x, table.pos_y);
+      const updates = {
+        number,
+        seats,
+        shape: tableForm.shape,
+        section_id: tableForm.section_id || null,
+        pos_x: position.x,
+        pos_y: position.y
+      };
+
+      const { error: updateError } = await supabase
+        .from('tables')
+        .update(updates)
+        .eq('id', table.id);
+
+      if (updateError) {
+        console.error('Error saving table:', updateError);
+        setError(`Failed to save table: ${updateError.message}`);
+        return;
+      }
+
+      setTables(prev => prev.map(t =>
+        t.id === table.id ? { ...t, ...updates, section_id: updates.section_id || undefined } : t
+      ));
+    } catch (err) {
+      console.error('Error saving table:', err);
+      setError('An unexpected error occurred while saving the table');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteTable = async () => {
+    const table = tables.find(t => t.id === selectedTableId);
+    if (!table) return;
+
+    if (table.status === 'occupied' || table.status === 'needs_bill') {
+      setError(`Table ${table.number} has guests seated and cannot be removed`);
+      return;
+    }
+
+    if (!confirm(`Remove table ${table.number} from the floor plan?`)) {
+      return;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('tables')
+      .delete()
+      .eq('id', table.id);
+
+    if (deleteError) {
+      console.error('Error deleting table:', deleteError);
+      setError(`Failed to delete table: ${deleteError.message}`);
+      return;
+    }
+
+    setTables(prev => prev.filter(t => t.id !== table.id));
+    setSelectedTableId(null);
+  };
+
+  const addSection = async () => {
+    if (!newSection.name.trim()) {
+      setError('Please enter a section name');
+      return;
+    }
+
+    const { data, error: insertError } = await supabase
+      .from('sections')
+      .insert([{ name: newSection.name.trim(), color: newSection.color }])
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error adding section:', insertError);
+      setError(`Failed to add section: ${insertError.message}`);
+      return;
+    }
+
+    setSections(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    setNewSection({ name: '', color: '#3b82f6' });
+    setError('');
+  };
+
+  const updateSection = async (section: Section, updates: { color?: string; waiter_id?: string | null }) => {
+    const { error: updateError } = await supabase
+      .from('sections')
+      .update(updates)
+      .eq('id', section.id);
+
+    if (updateError) {
+      console.error('Error updating section:', updateError);
+      setError(`Failed to update section: ${updateError.message}`);
+      return;
+    }
+
+    setSections(prev => prev.map(s =>
+      s.id === section.id ? { ...s, ...updates, waiter_id: updates.waiter_id === undefined ? s.waiter_id : updates.waiter_id || undefined } : s
+    ));
+  };
+
+  const deleteSection = async (section: Section) => {
+    if (!confirm(`Delete section "${section.name}"? Its tables will become unassigned.`)) {
+      return;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('sections')
+      .delete()
+      .eq('id', section.id);
+
+    if (deleteError) {
+      console.error('Error deleting section:', deleteError);
+      setError(`Failed to delete section: ${deleteError.message}`);
+      return;
+    }
+
+    setSections(prev => prev.filter(s => s.id !== section.id));
+    setTables(prev => prev.map(t => t.section_id === section.id ? { ...t, section_id: undefined } : t));
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.role !== 'manager') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const selectedTable = tables.find(t => t.id === selectedTableId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Floor Plan</h1>
+          <p className="text-gray-600">Drag tables into place, then group them into sections</p>
+        </div>
+        <button
+          onClick={addTable}
+          disabled={saving}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add Table
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+        {/* Canvas */}
+        <div className="xl:col-span-3 space-y-3">
+          <FloorPlan
+            tables={tables}
+            sections={sections}
+            colorBy="section"
+            selectedTableId={selectedTableId}
+            onSelectTable={selectTable}
+            onMoveTable={moveTable}
+          />
+          <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+            {sections.map((section) => (
+              <span key={section.id} className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: section.color }}></span>
+                {section.name}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Side Panel */}
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+              <LayoutGrid className="w-5 h-5 text-blue-600" />
+              {selectedTable ? `Table ${selectedTable.number}` : 'Table Details'}
+            </h3>
+
+            {selectedTable ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Number</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={tableForm.number}
+                      onChange={(e) => setTableForm(prev => ({ ...prev, number: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Seats</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="20"
+                      value={tableForm.seats}
+                      onChange={(e) => setTableForm(prev => ({ ...prev, seats: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Shape</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(['square', 'round', 'rectangle'] as const).map((shape) => (
+                      <button
+                        key={shape}
+                        type="button"
+                        onClick={() => setTableForm(prev => ({ ...prev, shape }))}
+                        className={`py-2 rounded-lg text-sm capitalize transition-colors ${
+                          tableForm.shape === shape
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {shape}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Section</label>
+                  <select
+                    value={tableForm.section_id}
+                    onChange={(e) => setTableForm(prev => ({ ...prev, section_id: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Unassigned</option>
+                    {sections.map((section) => (
+                      <option key={section.id} value={section.id}>{section.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={saveTable}
+                    disabled={saving}
+                    className="flex-1 flex items-center justify-center gap-2 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    Save
+                  </button>
+                  <button
+                    onClick={deleteTable}
+                    className="px-3 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors"
+                    title="Remove table"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Select a table on the floor plan to edit it.</p>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+              <Users className="w-5 h-5 text-blue-600" />
+              Sections
+            </h3>
+
+            <div className="space-y-3 mb-4">
+              {sections.map((section) => (
+                <div key={section.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={section.color}
+                        onChange={(e) => updateSection(section, { color: e.target.value })}
+                        className="w-6 h-6 rounded cursor-pointer border-0 p-0"
+                        title="Section color"
+                      />
+                      <span className="font-medium text-gray-900">{section.name}</span>
+                    </div>
+                    <button
+                      onClick={() => deleteSection(section)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Delete section"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <select
+                    value={section.waiter_id || ''}
+                    onChange={(e) => updateSection(section, { waiter_id: e.target.value || null })}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">No waiter assigned</option>
+                    {waiters.map((waiter) => (
+                      <option key={waiter.id} value={waiter.id}>{waiter.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Palette className="w-4 h-4 text-gray-400" />
+              <input
+                type="color"
+                value={newSection.color}
+                onChange={(e) => setNewSection(prev => ({ ...prev, color: e.target.value }))}
+                className="w-8 h-8 rounded cursor-pointer border-0 p-0"
+              />
+              <input
+                type="text"
+                value={newSection.name}
+                onChange={(e) => setNewSection(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="New section"
+                className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={addSection}
+                className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                title="Add section"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
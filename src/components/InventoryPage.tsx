@@ -0,0 +1,692 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import {
+  Package, AlertTriangle, BookOpen, Plus, Trash2, AlertCircle, RefreshCw, ClipboardCheck, History, X
+} from 'lucide-react';
+import { supabase, Ingredient, MenuItem, RecipeItem, StockAdjustment } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  INGREDIENT_UNITS, adjustmentReasonLabels, isLowStock, formatQuantity, adjustStock
+} from '../lib/inventory';
+
+type InventoryTab = 'stock' | 'recipes' | 'history';
+type ManualReason = 'delivery' | 'waste' | 'correction';
+
+export default function InventoryPage() {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [menuItems, setMenuItems] = useState<Pick<MenuItem, 'id' | 'name' | 'category'>[]>([]);
+  const [recipeItems, setRecipeItems] = useState<RecipeItem[]>([]);
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [tab, setTab] = useState<InventoryTab>('stock');
+  const [ingredientForm, setIngredientForm] = useState({ name: '', unit: 'g', threshold: '', opening: '' });
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [savingCounts, setSavingCounts] = useState(false);
+  const [adjusting, setAdjusting] = useState<{ ingredientId: string; reason: ManualReason; quantity: string; note: string } | null>(null);
+  const [selectedMenuItemId, setSelectedMenuItemId] = useState('');
+  const [recipeForm, setRecipeForm] = useState({ ingredientId: '', quantity: '' });
+  const { user } = useAuth();
+
+  const canUseInventory = user?.role === 'kitchen' || user?.role === 'manager';
+
+  useEffect(() => {
+    if (user && (user.role === 'kitchen' || user.role === 'manager')) {
+      loadData();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadData = async () => {
+    try {
+      setError('');
+
+      const [ingredientsResult, menuResult, recipesResult, adjustmentsResult] = await Promise.all([
+        supabase
+          .from('ingredients')
+          .select('*')
+          .order('name', { ascending: true }),
+        supabase
+          .from('menu_items')
+          .select('id, name, category')
+          .order('name', { ascending: true }),
+        supabase
+          .from('recipe_items')
+          .select(`
+            *,
+            ingredient:ingredients (*)
+          `),
+        supabase
+          .from('stock_adjustments')
+          .select(`
+            *,
+            ingredient:ingredients (*)
+          `)
+          .order('created_at', { ascending: false })
+          .limit(100)
+      ]);
+
+      const failed = [ingredientsResult, menuResult, recipesResult, adjustmentsResult].find(result => result.error);
+      if (failed?.error) {
+        console.error('Error loading inventory:', failed.error);
+        setError(`Failed to load inventory: ${failed.error.message}`);
+        return;
+      }
+
+      setIngredients(ingredientsResult.data || []);
+      setMenuItems(menuResult.data || []);
+      setRecipeItems(recipesResult.data || []);
+      setAdjustments(adjustmentsResult.data || []);
+    } catch (err) {
+      console.error('Error loading inventory:', err);
+      setError('An unexpected error occurred while loading inventory');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addIngredient = async () => {
+    const name = ingredientForm.name.trim();
+    if (!name) {
+      setError('Please enter an ingredient name');
+      return;
+    }
+
+    const threshold = parseFloat(ingredientForm.threshold) || 0;
+    const opening = parseFloat(ingredientForm.opening) || 0;
+    if (threshold < 0 || opening < 0) {
+      setError('Quantities cannot be negative');
+      return;
+    }
+
+    const { data, error: insertError } = await supabase
+      .from('ingredients')
+      .insert([{ name, unit: ingredientForm.unit, low_stock_threshold: threshold }])
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error adding ingredient:', insertError);
+      setError(insertError.code === '23505'
+        ? `${name} is already in the inventory`
+        : `Failed to add ingredient: ${insertError.message}`);
+      return;
+    }
+
+    // Opening stock goes through a count so it shows up in the history
+    if (opening > 0) {
+      const { error: countError } = await adjustStock(data.id, 'count', opening, 'Opening stock');
+      if (countError) {
+        setError(`Ingredient added, but its opening stock was not recorded: ${countError}`);
+      }
+    }
+
+    setIngredientForm({ name: '', unit: ingredientForm.unit, threshold: '', opening: '' });
+    loadData();
+  };
+
+  const saveThreshold = async (ingredient: Ingredient, value: string) => {
+    const threshold = parseFloat(value);
+    if (isNaN(threshold) || threshold < 0 || threshold === Number(ingredient.low_stock_threshold)) return;
+
+    const { error: updateError } = await supabase
+      .from('ingredients')
+      .update({ low_stock_threshold: threshold })
+      .eq('id', ingredient.id);
+
+    if (updateError) {
+      console.error('Error updating threshold:', updateError);
+      setError(`Failed to update threshold: ${updateError.message}`);
+      return;
+    }
+
+    setIngredients(prev => prev.map(existing =>
+      existing.id === ingredient.id ? { ...existing, low_stock_threshold: threshold } : existing
+    ));
+  };
+
+  const deleteIngredient = async (ingredient: Ingredient) => {
+    if (!confirm(`Remove ${ingredient.name} from the inventory? Its stock history will be deleted too.`)) {
+      return;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('ingredients')
+      .delete()
+      .eq('id', ingredient.id);
+
+    if (deleteError) {
+      console.error('Error deleting ingredient:', deleteError);
+      setError(deleteError.code === '23503'
+        ? `${ingredient.name} is used in a recipe. Remove it from recipes first.`
+        : `Failed to remove ingredient: ${deleteError.message}`);
+      return;
+    }
+
+    loadData();
+  };
+
+  // Save every counted level that differs from what the system expects
+  const saveCounts = async () => {
+    const changed = ingredients.filter(ingredient => {
+      const counted = counts[ingredient.id];
+      return counted !== undefined && counted !== '' && parseFloat(counted) !== Number(ingredient.on_hand);
+    });
+
+    if (changed.length === 0) {
+      setCounts({});
+      return;
+    }
+
+    setSavingCounts(true);
+    setError('');
+
+    const failures: string[] = [];
+    for (const ingredient of changed) {
+      const { error: countError } = await adjustStock(ingredient.id, 'count', parseFloat(counts[ingredient.id]));
+      if (countError) failures.push(`${ingredient.name}: ${countError}`);
+    }
+
+    setSavingCounts(false);
+    if (failures.length > 0) {
+      setError(`Some counts were not saved. ${failures.join('; ')}`);
+    }
+    setCounts({});
+    loadData();
+  };
+
+  const submitAdjustment = async () => {
+    if (!adjusting) return;
+
+    const quantity = parseFloat(adjusting.quantity);
+    if (isNaN(quantity) || quantity === 0) {
+      setError('Please enter a quantity');
+      return;
+    }
+
+    const { error: adjustError } = await adjustStock(adjusting.ingredientId, adjusting.reason, quantity, adjusting.note);
+    if (adjustError) {
+      setError(`Failed to adjust stock: ${adjustError}`);
+      return;
+    }
+
+    setAdjusting(null);
+    setError('');
+    loadData();
+  };
+
+  const addRecipeLine = async () => {
+    const quantity = parseFloat(recipeForm.quantity);
+    if (!selectedMenuItemId || !recipeForm.ingredientId || isNaN(quantity) || quantity <= 0) {
+      setError('Pick an ingredient and a quantity greater than 0');
+      return;
+    }
+
+    // Adding an ingredient that is already in the recipe updates its quantity
+    const { error: upsertError } = await supabase
+      .from('recipe_items')
+      .upsert(
+        [{ menu_item_id: selectedMenuItemId, ingredient_id: recipeForm.ingredientId, quantity }],
+        { onConflict: 'menu_item_id,ingredient_id' }
+      );
+
+    if (upsertError) {
+      console.error('Error saving recipe line:', upsertError);
+      setError(`Failed to save recipe: ${upsertError.message}`);
+      return;
+    }
+
+    setRecipeForm({ ingredientId: '', quantity: '' });
+    setError('');
+    loadData();
+  };
+
+  const removeRecipeLine = async (recipeItemId: string) => {
+    const { error: deleteError } = await supabase
+      .from('recipe_items')
+      .delete()
+      .eq('id', recipeItemId);
+
+    if (deleteError) {
+      console.error('Error removing recipe line:', deleteError);
+      setError(`Failed to update recipe: ${deleteError.message}`);
+      return;
+    }
+
+    setRecipeItems(prev => prev.filter(item => item.id !== recipeItemId));
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (!canUseInventory) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-gray-300 border-t-orange-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const lowStock = ingredients.filter(isLowStock);
+  const recipeMenuItemIds = new Set(recipeItems.map(item => item.menu_item_id));
+  const selectedRecipe = recipeItems.filter(item => item.menu_item_id === selectedMenuItemId);
+  const pendingCounts = Object.values(counts).filter(value => value !== '').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Inventory</h1>
+          <p className="text-gray-600">Stock levels, recipes and every stock movement</p>
+        </div>
+        <button
+          onClick={loadData}
+          className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700 flex-1">{error}</p>
+          <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Ingredients</p>
+            <p className="text-2xl font-bold text-gray-900">{ingredients.length}</p>
+          </div>
+          <div className="p-3 bg-orange-50 rounded-lg">
+            <Package className="w-6 h-6 text-orange-600" />
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Low Stock</p>
+            <p className="text-2xl font-bold text-gray-900">{lowStock.length}</p>
+          </div>
+          <div className="p-3 bg-red-50 rounded-lg">
+            <AlertTriangle className="w-6 h-6 text-red-600" />
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Dishes with Recipes</p>
+            <p className="text-2xl font-bold text-gray-900">{recipeMenuItemIds.size} / {menuItems.length}</p>
+          </div>
+          <div className="p-3 bg-blue-50 rounded-lg">
+            <BookOpen className="w-6 h-6 text-blue-600" />
+          </div>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2 border-b border-gray-200">
+        {([
+          ['stock', 'Stock', ClipboardCheck],
+          ['recipes', 'Recipes', BookOpen],
+          ['history', 'History', History]
+        ] as const).map(([value, label, Icon]) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`flex items-center gap-2 px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+              tab === value ? 'border-orange-600 text-orange-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'stock' && (
+        <>
+          {/* Add Ingredient */}
+          <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Add Ingredient</h3>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+              <input
+                type="text"
+                value={ingredientForm.name}
+                onChange={(e) => setIngredientForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Name, e.g. Mozzarella"
+                className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              />
+              <select
+                value={ingredientForm.unit}
+                onChange={(e) => setIngredientForm(prev => ({ ...prev, unit: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              >
+                {INGREDIENT_UNITS.map(unit => (
+                  <option key={unit} value={unit}>{unit}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={ingredientForm.opening}
+                onChange={(e) => setIngredientForm(prev => ({ ...prev, opening: e.target.value }))}
+                placeholder="Opening stock"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              />
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={ingredientForm.threshold}
+                onChange={(e) => setIngredientForm(prev => ({ ...prev, threshold: e.target.value }))}
+                placeholder="Low stock at"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={addIngredient}
+              className="mt-3 flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Ingredient
+            </button>
+          </div>
+
+          {/* Stock Levels */}
+          <div className="bg-white rounded-xl shadow-md border border-gray-100">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Stock Levels</h3>
+                <p className="text-sm text-gray-500">Enter what you counted and save; only changed rows are recorded</p>
+              </div>
+              <button
+                onClick={saveCounts}
+                disabled={savingCounts || pendingCounts === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ClipboardCheck className="w-4 h-4" />
+                {savingCounts ? 'Saving...' : `Save Count${pendingCounts > 0 ? ` (${pendingCounts})` : ''}`}
+              </button>
+            </div>
+            {ingredients.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="text-left px-6 py-3 font-medium">Ingredient</th>
+                      <th className="text-right px-6 py-3 font-medium">On hand</th>
+                      <th className="text-right px-6 py-3 font-medium">Low stock at</th>
+                      <th className="text-right px-6 py-3 font-medium">Counted</th>
+                      <th className="px-6 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {ingredients.map((ingredient) => (
+                      <tr key={ingredient.id} className={isLowStock(ingredient) ? 'bg-red-50' : ''}>
+                        <td className="px-6 py-3">
+                          <span className="font-medium text-gray-900">{ingredient.name}</span>
+                          {isLowStock(ingredient) && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Low</span>
+                          )}
+                        </td>
+                        <td className={`px-6 py-3 text-right font-medium ${Number(ingredient.on_hand) < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                          {formatQuantity(ingredient.on_hand, ingredient.unit)}
+                        </td>
+                        <td className="px-6 py-3 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            defaultValue={Number(ingredient.low_stock_threshold)}
+                            onBlur={(e) => saveThreshold(ingredient, e.target.value)}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded text-right"
+                          />
+                        </td>
+                        <td className="px-6 py-3 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={counts[ingredient.id] ?? ''}
+                            onChange={(e) => setCounts(prev => ({ ...prev, [ingredient.id]: e.target.value }))}
+                            placeholder={String(Number(ingredient.on_hand))}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded text-right"
+                          />
+                        </td>
+                        <td className="px-6 py-3">
+                          <div className="flex items-center justify-end gap-2">
+                            <button
+                              onClick={() => {
+                                setError('');
+                                setAdjusting({ ingredientId: ingredient.id, reason: 'delivery', quantity: '', note: '' });
+                              }}
+                              className="px-2 py-1 text-xs text-orange-600 border border-orange-200 rounded hover:bg-orange-50"
+                            >
+                              Adjust
+                            </button>
+                            <button
+                              onClick={() => deleteIngredient(ingredient)}
+                              className="p-1 text-gray-400 hover:text-red-600"
+                              title="Remove ingredient"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-8">No ingredients yet. Add the first one above.</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {tab === 'recipes' && (
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Dish</label>
+            <select
+              value={selectedMenuItemId}
+              onChange={(e) => setSelectedMenuItemId(e.target.value)}
+              className="w-full md:w-96 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            >
+              <option value="">Select a menu item</option>
+              {menuItems.map(item => (
+                <option key={item.id} value={item.id}>
+                  {item.name}{recipeMenuItemIds.has(item.id) ? '' : ' (no recipe)'}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {selectedMenuItemId && (
+            <>
+              <p className="text-sm text-gray-500">
+                Quantities are per portion and are taken out of stock when the dish is marked ready.
+              </p>
+              {selectedRecipe.length > 0 ? (
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {selectedRecipe.map((line) => (
+                    <div key={line.id} className="flex items-center justify-between px-4 py-3">
+                      <span className="text-gray-900">{line.ingredient?.name || 'Unknown ingredient'}</span>
+                      <div className="flex items-center gap-4">
+                        <span className="text-gray-700">
+                          {line.ingredient ? formatQuantity(line.quantity, line.ingredient.unit) : line.quantity}
+                        </span>
+                        <button
+                          onClick={() => removeRecipeLine(line.id)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Remove from recipe"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400 italic">No ingredients yet. Sales of this dish will not touch stock.</p>
+              )}
+
+              <div className="flex flex-col md:flex-row gap-3">
+                <select
+                  value={recipeForm.ingredientId}
+                  onChange={(e) => setRecipeForm(prev => ({ ...prev, ingredientId: e.target.value }))}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                >
+                  <option value="">Select an ingredient</option>
+                  {ingredients.map(ingredient => (
+                    <option key={ingredient.id} value={ingredient.id}>
+                      {ingredient.name} ({ingredient.unit})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={recipeForm.quantity}
+                  onChange={(e) => setRecipeForm(prev => ({ ...prev, quantity: e.target.value }))}
+                  placeholder="Per portion"
+                  className="w-full md:w-36 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+                <button
+                  onClick={addRecipeLine}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {tab === 'history' && (
+        <div className="bg-white rounded-xl shadow-md border border-gray-100">
+          <div className="p-6 border-b border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-900">Recent Stock Movements</h3>
+          </div>
+          {adjustments.length > 0 ? (
+            <div className="divide-y divide-gray-100">
+              {adjustments.map((adjustment) => (
+                <div key={adjustment.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{adjustment.ingredient?.name || 'Removed ingredient'}</p>
+                    <p className="text-gray-500">
+                      {adjustmentReasonLabels[adjustment.reason]}
+                      {adjustment.created_by_name && ` • ${adjustment.created_by_name}`}
+                      {' • '}{new Date(adjustment.created_at).toLocaleString()}
+                      {adjustment.note && ` • ${adjustment.note}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`font-medium ${Number(adjustment.change) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {Number(adjustment.change) > 0 ? '+' : ''}
+                      {adjustment.ingredient
+                        ? formatQuantity(adjustment.change, adjustment.ingredient.unit)
+                        : Number(adjustment.change)}
+                    </p>
+                    <p className="text-gray-400">
+                      now {adjustment.ingredient
+                        ? formatQuantity(adjustment.on_hand_after, adjustment.ingredient.unit)
+                        : Number(adjustment.on_hand_after)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-8">No stock movements recorded yet.</p>
+          )}
+        </div>
+      )}
+
+      {/* Adjust Stock Modal */}
+      {adjusting && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full overflow-hidden">
+            <div className="bg-gradient-to-r from-orange-500 to-orange-600 p-6 text-white flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold">Adjust Stock</h2>
+                <p className="opacity-90">{ingredients.find(i => i.id === adjusting.ingredientId)?.name}</p>
+              </div>
+              <button onClick={() => setAdjusting(null)} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                <select
+                  value={adjusting.reason}
+                  onChange={(e) => setAdjusting(prev => prev && { ...prev, reason: e.target.value as ManualReason })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                >
+                  <option value="delivery">Delivery (adds stock)</option>
+                  <option value="waste">Waste (removes stock)</option>
+                  <option value="correction">Correction (+/-)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={adjusting.quantity}
+                  onChange={(e) => setAdjusting(prev => prev && { ...prev, quantity: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Note</label>
+                <input
+                  type="text"
+                  value={adjusting.note}
+                  onChange={(e) => setAdjusting(prev => prev && { ...prev, note: e.target.value })}
+                  placeholder="Optional, e.g. dropped tray"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                />
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setAdjusting(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={submitAdjustment}
+                  className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
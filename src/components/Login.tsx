@@ -1,18 +1,53 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Users, LogIn, UserPlus, AlertCircle, Info } from 'lucide-react';
+import { Users, LogIn, UserPlus, AlertCircle, Info, Ticket } from 'lucide-react';
+import { InviteRole, checkStaffInvite, getInviteTokenFromUrl } from '../lib/invites';
+import { roleLabels } from '../lib/staff';
 
 export default function Login() {
-  const [isSignUp, setIsSignUp] = useState(false);
+  const [inviteToken, setInviteToken] = useState(getInviteTokenFromUrl);
+  const [inviteRole, setInviteRole] = useState<InviteRole | null>(null);
+  const [isSignUp, setIsSignUp] = useState(() => inviteToken !== '');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
-  const [role, setRole] = useState<'manager' | 'waiter' | 'kitchen' | 'customer'>('customer');
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [loading, setLoading] = useState(false);
   const { signIn, signUp } = useAuth();
 
+  // Check the invite from the link the page was opened with
+  useEffect(() => {
+    const token = getInviteTokenFromUrl();
+    if (token) {
+      lookUpInvite(token);
+    }
+  }, []);
+
+  // Returns the invite when it can be used, and explains why when it cannot
+  const lookUpInvite = async (token: string) => {
+    if (!token.trim()) {
+      setInviteRole(null);
+      return null;
+    }
+
+    const { invite, error: inviteError } = await checkStaffInvite(token);
+    setInviteRole(invite?.role || null);
+    if (inviteError) {
+      setError('Could not check the invite code. Please try again.');
+    } else if (!invite) {
+      setError('This invite code is not valid. It may have expired or already been used; ask a manager for a new one, or clear it to sign up as a customer.');
+    } else {
+      setError('');
+      if (invite.email) {
+        setEmail(current => current || invite.email || '');
+      }
+    }
+    return invite;
+  };
+
+  const role = inviteRole || 'customer';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -27,7 +62,22 @@ export default function Login() {
           return;
         }
 
-        const { error } = await signUp(email, password, name, role);
+        let token: string | undefined;
+        if (inviteToken.trim()) {
+          const invite = await lookUpInvite(inviteToken);
+          if (!invite) {
+            setLoading(false);
+            return;
+          }
+          if (invite.email && invite.email.toLowerCase() !== email.trim().toLowerCase()) {
+            setError(`This invite is for ${invite.email}. Please sign up with that email address.`);
+            setLoading(false);
+            return;
+          }
+          token = inviteToken.trim();
+        }
+
+        const { error } = await signUp(email, password, name, token);
         if (error) {
           console.error('Sign up error:', error);
           
@@ -43,7 +93,9 @@ export default function Login() {
             setError(error.message || 'Failed to create account. Please try again.');
           }
         } else {
-          setSuccess('Account created successfully! You can now sign in.');
+          setSuccess(token
+            ? `${roleLabels[role]} account created successfully! You can now sign in.`
+            : 'Account created successfully! You can now sign in.');
           // Switch to sign in mode after successful signup
           setTimeout(() => {
             setIsSignUp(false);
@@ -145,18 +197,25 @@ export default function Login() {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Role
+                    Staff Invite Code
                   </label>
-                  <select
-                    value={role}
-                    onChange={(e) => setRole(e.target.value as typeof role)}
+                  <input
+                    type="text"
+                    value={inviteToken}
+                    onChange={(e) => {
+                      setInviteToken(e.target.value);
+                      setInviteRole(null);
+                    }}
+                    onBlur={() => lookUpInvite(inviteToken)}
+                    placeholder="Leave empty to sign up as a customer"
                     className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                  >
-                    <option value="customer">Customer</option>
-                    <option value="waiter">Waiter</option>
-                    <option value="kitchen">Kitchen Staff</option>
-                    <option value="manager">Manager</option>
-                  </select>
+                  />
+                  {inviteRole && (
+                    <p className="mt-2 text-sm text-green-700 flex items-center gap-1">
+                      <Ticket className="w-4 h-4" />
+                      You are joining as {roleLabels[inviteRole].toLowerCase()} staff
+                    </p>
+                  )}
                 </div>
               </>
             )}
@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { ArrowLeft, AlertCircle, RefreshCw, Star, Tractor, HelpCircle, Dog, Download } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  MenuClass,
+  MenuEngineeringRow,
+  menuClassLabels,
+  menuClassDescriptions,
+  loadFoodCosts,
+  loadItemSales,
+  buildMenuEngineering
+} from '../lib/menuEngineering';
+import { downloadCsv } from '../lib/export';
+import { toDateInputValue } from '../lib/reports';
+
+const PERIODS = [7, 30, 90];
+
+// Laid out as the usual matrix: profitability up, popularity across
+const QUADRANTS: { value: MenuClass; icon: typeof Star; style: string }[] = [
+  { value: 'puzzle', icon: HelpCircle, style: 'border-blue-200 bg-blue-50 text-blue-800' },
+  { value: 'star', icon: Star, style: 'border-green-200 bg-green-50 text-green-800' },
+  { value: 'dog', icon: Dog, style: 'border-red-200 bg-red-50 text-red-800' },
+  { value: 'plowhorse', icon: Tractor, style: 'border-yellow-200 bg-yellow-50 text-yellow-800' }
+];
+
+export default function MenuEngineeringReport() {
+  const [rows, setRows] = useState<MenuEngineeringRow[]>([]);
+  const [days, setDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (user?.role === 'manager') {
+      loadReport(days);
+    } else {
+      setLoading(false);
+    }
+  }, [user, days]);
+
+  const loadReport = async (periodDays: number) => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - (periodDays - 1));
+
+      const [menuResult, costsResult, salesResult] = await Promise.all([
+        supabase
+          .from('menu_items')
+          .select('id, name, category, price')
+          .order('name', { ascending: true }),
+        loadFoodCosts(),
+        loadItemSales(since)
+      ]);
+
+      const failure = menuResult.error?.message || costsResult.error || salesResult.error;
+      if (failure) {
+        console.error('Error loading menu engineering:', failure);
+        setError(`Failed to load the report: ${failure}`);
+        return;
+      }
+
+      setRows(buildMenuEngineering(menuResult.data || [], costsResult.foodCosts, salesResult.sales));
+    } catch (err) {
+      console.error('Error loading menu engineering:', err);
+      setError('An unexpected error occurred while loading the report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.role !== 'manager') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const uncosted = rows.filter(row => row.classification === null);
+  const sortedRows = [...rows].sort((a, b) => (b.totalContribution ?? -Infinity) - (a.totalContribution ?? -Infinity));
+
+  const exportReport = () => {
+    downloadCsv(
+      `menu-engineering-${days}-days-${toDateInputValue(new Date())}.csv`,
+      ['Dish', 'Category', 'Sold', 'Mix %', 'Price', 'Cost', 'Contribution', 'Total Contribution', 'Class'],
+      sortedRows.map(row => [
+        row.item.name,
+        row.item.category,
+        row.quantitySold,
+        row.mixPercent.toFixed(1),
+        Number(row.item.price).toFixed(2),
+        row.cost === null ? '' : row.cost.toFixed(2),
+        row.contribution === null ? '' : row.contribution.toFixed(2),
+        row.totalContribution === null ? '' : row.totalContribution.toFixed(2),
+        row.classification ? menuClassLabels[row.classification] : 'Not costed'
+      ])
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/menu')}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Menu Engineering</h1>
+            <p className="text-gray-600">Popularity and contribution of every dish</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {PERIODS.map(period => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                days === period ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {period} days
+            </button>
+          ))}
+          <button
+            onClick={exportReport}
+            disabled={loading || rows.length === 0}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+            title="Export CSV"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => loadReport(days)}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <>
+          {/* Matrix */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {QUADRANTS.map(({ value, icon: Icon, style }) => {
+              const items = rows.filter(row => row.classification === value);
+              return (
+                <div key={value} className={`p-5 rounded-xl border ${style}`}>
+                  <div className="flex items-center gap-2 mb-1">
+                    <Icon className="w-5 h-5" />
+                    <h3 className="font-semibold">{menuClassLabels[value]} ({items.length})</h3>
+                  </div>
+                  <p className="text-sm opacity-80 mb-3">{menuClassDescriptions[value]}</p>
+                  {items.length > 0 ? (
+                    <ul className="text-sm text-gray-900 space-y-1">
+                      {items.map(row => (
+                        <li key={row.item.id} className="flex justify-between">
+                          <span>{row.item.name}</span>
+                          <span className="text-gray-600">{row.quantitySold} sold</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500 italic">None</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {uncosted.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              {uncosted.length} dish{uncosted.length === 1 ? ' has' : 'es have'} no cost and {uncosted.length === 1 ? 'is' : 'are'} not classified:{' '}
+              {uncosted.map(row => row.item.name).join(', ')}. Add a recipe with costed ingredients or a manual cost on the menu page.
+            </div>
+          )}
+
+          {/* Detail */}
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="text-left px-6 py-3 font-medium">Dish</th>
+                  <th className="text-right px-6 py-3 font-medium">Sold</th>
+                  <th className="text-right px-6 py-3 font-medium">Mix</th>
+                  <th className="text-right px-6 py-3 font-medium">Price</th>
+                  <th className="text-right px-6 py-3 font-medium">Cost</th>
+                  <th className="text-right px-6 py-3 font-medium">Contribution</th>
+                  <th className="text-right px-6 py-3 font-medium">Total</th>
+                  <th className="text-left px-6 py-3 font-medium">Class</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {sortedRows.map(row => (
+                  <tr key={row.item.id}>
+                    <td className="px-6 py-3">
+                      <span className="font-medium text-gray-900">{row.item.name}</span>
+                      <span className="ml-2 text-xs text-gray-400">{row.item.category}</span>
+                    </td>
+                    <td className="px-6 py-3 text-right text-gray-900">{row.quantitySold}</td>
+                    <td className="px-6 py-3 text-right text-gray-700">{row.mixPercent.toFixed(1)}%</td>
+                    <td className="px-6 py-3 text-right text-gray-700">${Number(row.item.price).toFixed(2)}</td>
+                    <td className="px-6 py-3 text-right text-gray-700">{row.cost === null ? '—' : `$${row.cost.toFixed(2)}`}</td>
+                    <td className="px-6 py-3 text-right text-gray-900">
+                      {row.contribution === null ? '—' : `$${row.contribution.toFixed(2)}`}
+                    </td>
+                    <td className="px-6 py-3 text-right font-medium text-gray-900">
+                      {row.totalContribution === null ? '—' : `$${row.totalContribution.toFixed(2)}`}
+                    </td>
+                    <td className="px-6 py-3 text-gray-700">
+                      {row.classification ? menuClassLabels[row.classification] : 'Not costed'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
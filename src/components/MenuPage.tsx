@@ -1,8 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Filter, Utensils, AlertCircle, RefreshCw, Plus, Edit, Trash2, Power, PowerOff, X, Check } from 'lucide-react';
+import { Search, Filter, Utensils, AlertCircle, RefreshCw, Plus, Edit, Trash2, Power, PowerOff, X, Check, ShoppingCart, BarChart3 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { supabase, MenuItem } from '../lib/supabase';
+import { supabase, MenuItem, MenuItemFoodCost, SelectedModifier } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCart } from '../hooks/useCart';
+import {
+  MENU_ITEM_WITH_MODIFIERS,
+  ModifierGroupDraft,
+  getModifierGroups,
+  hasModifiers,
+  toGroupDrafts,
+  validateGroupDrafts,
+  saveModifierGroups
+} from '../lib/modifiers';
+import { ALLERGENS, DIETARY_TAGS, allergenLabel, dietaryLabel, containsAny } from '../lib/allergens';
+import { describeUnavailable, eightySixMenuItem, restoreMenuItem } from '../lib/availability';
+import { getMargin, loadFoodCosts, saveManualCost } from '../lib/menuEngineering';
+import ModifierGroupsEditor from './ModifierGroupsEditor';
+import TagChips from './TagChips';
+import ModifierPickerModal from './ModifierPickerModal';
 
 export default function MenuPage() {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
@@ -18,11 +34,21 @@ export default function MenuPage() {
     description: '',
     category: '',
     price: '',
-    available: true
+    available: true,
+    unavailable_reason: '',
+    manual_cost: '',
+    allergens: [] as string[],
+    dietary_tags: [] as string[]
   });
+  const [dietFilter, setDietFilter] = useState<string[]>([]);
+  const [freeFromFilter, setFreeFromFilter] = useState<string[]>([]);
+  const [editGroups, setEditGroups] = useState<ModifierGroupDraft[]>([]);
+  const [pickingItem, setPickingItem] = useState<MenuItem | null>(null);
+  const [foodCosts, setFoodCosts] = useState<Map<string, MenuItemFoodCost>>(new Map());
   const [editLoading, setEditLoading] = useState(false);
   const [editError, setEditError] = useState('');
   const { user } = useAuth();
+  const { addItem, itemCount } = useCart();
   const navigate = useNavigate();
 
   const predefinedCategories = [
@@ -50,7 +76,7 @@ export default function MenuPage() {
 
   useEffect(() => {
     filterItems();
-  }, [menuItems, searchTerm, selectedCategory]);
+  }, [menuItems, searchTerm, selectedCategory, dietFilter, freeFromFilter]);
 
   const loadMenuItems = async () => {
     if (!user) {
@@ -66,7 +92,7 @@ export default function MenuPage() {
       
       const { data, error: fetchError } = await supabase
         .from('menu_items')
-        .select('*')
+        .select(MENU_ITEM_WITH_MODIFIERS)
         .order('category', { ascending: true })
         .order('name', { ascending: true });
 
@@ -85,6 +111,11 @@ export default function MenuPage() {
       }
 
       setMenuItems(data);
+
+      if (user.role === 'manager') {
+        const { foodCosts: costs } = await loadFoodCosts();
+        setFoodCosts(costs);
+      }
       
       // Extract unique categories
       const uniqueCategories = [...new Set(data.map(item => item.category))];
@@ -116,33 +147,50 @@ export default function MenuPage() {
       filtered = filtered.filter(item => item.category === selectedCategory);
     }
 
+    // Every chosen diet must be met, and none of the excluded allergens present
+    if (dietFilter.length > 0) {
+      filtered = filtered.filter(item => dietFilter.every(tag => (item.dietary_tags || []).includes(tag)));
+    }
+
+    if (freeFromFilter.length > 0) {
+      filtered = filtered.filter(item => containsAny(item, freeFromFilter).length === 0);
+    }
+
     setFilteredItems(filtered);
   };
 
+  const marginFor = (item: MenuItem) => getMargin(item.price, foodCosts.get(item.id)?.cost);
+
   const toggleAvailability = async (item: MenuItem) => {
     try {
-      const newAvailability = !item.available;
-      
-      const { error } = await supabase
-        .from('menu_items')
-        .update({ available: newAvailability })
-        .eq('id', item.id);
+      let result;
+      if (item.available) {
+        const reason = prompt(`Why is ${item.name} coming off the menu?`);
+        if (reason === null) return;
+        if (!reason.trim()) {
+          alert('Please give a reason');
+          return;
+        }
+        result = await eightySixMenuItem(item.id, reason.trim());
+      } else {
+        result = await restoreMenuItem(item.id);
+      }
 
-      if (error) {
-        console.error('Error updating availability:', error);
-        alert('Failed to update item availability');
+      if (result.error || !result.item) {
+        alert(`Failed to update item availability: ${result.error}`);
         return;
       }
 
-      // Update local state
+      // Update local state, keeping the loaded option groups
+      const updated = result.item;
       setMenuItems(prev => prev.map(menuItem => 
         menuItem.id === item.id 
-          ? { ...menuItem, available: newAvailability }
+          ? { ...menuItem, ...updated }
           : menuItem
       ));
 
       // Show success message
-      const statusText = newAvailability ? 'available' : 'unavailable';
+      const statusText = updated.available ? 'available' : 'unavailable';
       alert(`${item.name} is now ${statusText}`);
       
     } catch (error) {
@@ -158,8 +206,13 @@ export default function MenuPage() {
       description: item.description,
       category: item.category,
       price: item.price.toString(),
-      available: item.available
+      available: item.available,
+      unavailable_reason: item.unavailable_reason || '',
+      manual_cost: foodCosts.get(item.id)?.manual_cost?.toString() ?? '',
+      allergens: item.allergens || [],
+      dietary_tags: item.dietary_tags || []
     });
+    setEditGroups(toGroupDrafts(item));
     setEditError('');
   };
 
@@ -170,8 +223,13 @@ export default function MenuPage() {
       description: '',
       category: '',
       price: '',
-      available: true
+      available: true,
+      unavailable_reason: '',
+      manual_cost: '',
+      allergens: [],
+      dietary_tags: []
     });
+    setEditGroups([]);
     setEditError('');
   };
 
@@ -217,6 +275,26 @@ export default function MenuPage() {
       return;
     }
 
+    const manualCost = editFormData.manual_cost.trim() === '' ? null : parseFloat(editFormData.manual_cost);
+    if (manualCost !== null && (isNaN(manualCost) || manualCost < 0)) {
+      setEditError('Please enter a valid cost, or leave it blank to use the recipe cost');
+      setEditLoading(false);
+      return;
+    }
+
+    if (!editFormData.available && !editFormData.unavailable_reason.trim()) {
+      setEditError('Please give a reason for taking the item off the menu');
+      setEditLoading(false);
+      return;
+    }
+
+    const groupsError = validateGroupDrafts(editGroups);
+    if (groupsError) {
+      setEditError(groupsError);
+      setEditLoading(false);
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('menu_items')
@@ -225,7 +303,8 @@ export default function MenuPage() {
           description: editFormData.description.trim(),
           category: editFormData.category,
           price: parseFloat(editFormData.price),
-          available: editFormData.available
+          allergens: editFormData.allergens,
+          dietary_tags: editFormData.dietary_tags
         })
         .eq('id', editingItem.id);
 
@@ -235,19 +314,52 @@ export default function MenuPage() {
         return;
       }
 
-      // Update local state
-      setMenuItems(prev => prev.map(item => 
-        item.id === editingItem.id 
-          ? {
-              ...item,
-              name: editFormData.name.trim(),
-              description: editFormData.description.trim(),
-              category: editFormData.category,
-              price: parseFloat(editFormData.price),
-              available: editFormData.available
-            }
-          : item
-      ));
+      // Availability goes through the 86 functions so the reason and who is recorded
+      const reason = editFormData.unavailable_reason.trim();
+      if (editFormData.available && !editingItem.available) {
+        const { error: restoreError } = await restoreMenuItem(editingItem.id);
+        if (restoreError) {
+          setEditError(`Item saved, but it could not be put back on the menu: ${restoreError}`);
+          return;
+        }
+      } else if (!editFormData.available && (editingItem.available || reason !== editingItem.unavailable_reason)) {
+        const { error: eightySixError } = await eightySixMenuItem(editingItem.id, reason);
+        if (eightySixError) {
+          setEditError(`Item saved, but it could not be taken off the menu: ${eightySixError}`);
+          return;
+        }
+      }
+
+      const previousCost = foodCosts.get(editingItem.id)?.manual_cost;
+      if (manualCost !== (previousCost === null || previousCost === undefined ? null : Number(previousCost))) {
+        const { error: costError } = await saveManualCost(editingItem.id, manualCost);
+        if (costError) {
+          setEditError(`Item saved, but its cost could not be saved: ${costError}`);
+          return;
+        }
+        const { foodCosts: costs } = await loadFoodCosts();
+        setFoodCosts(costs);
+      }
+
+      const { error: groupsSaveError } = await saveModifierGroups(editingItem.id, editGroups);
+      if (groupsSaveError) {
+        setEditError(`Item saved, but its options could not be saved: ${groupsSaveError}`);
+        return;
+      }
+
+      // Reload the item so its option groups carry their new ids
+      const { data: savedItem, error: reloadError } = await supabase
+        .from('menu_items')
+        .select(MENU_ITEM_WITH_MODIFIERS)
+        .eq('id', editingItem.id)
+        .single();
+
+      if (reloadError) {
+        console.error('Error reloading menu item:', reloadError);
+        loadMenuItems();
+      } else {
+        setMenuItems(prev => prev.map(item => item.id === editingItem.id ? savedItem : item));
+      }
 
       closeEditModal();
       alert('Menu item updated successfully!');
@@ -287,59 +399,21 @@ export default function MenuPage() {
     }
   };
 
-  const addToCart = async (item: MenuItem) => {
-    if (!user) {
-      alert('Please sign in to add items to cart');
+  const addToCart = async (item: MenuItem, modifiers?: SelectedModifier[], notes?: string) => {
+    // Items with options go through the picker first
+    if (!modifiers && hasModifiers(item)) {
+      setPickingItem(item);
       return;
     }
 
-    try {
-      console.log('Adding item to cart:', item);
-      
-      // Create a new order
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert([
-          {
-            customer_id: user.id,
-            customer_name: user.name || 'Customer',
-            status: 'pending',
-            total: item.price,
-          },
-        ])
-        .select()
-        .single();
-
-      if (orderError) {
-        console.error('Error creating order:', orderError);
-        alert('Failed to add item to cart');
-        return;
-      }
-
-      // Add order item
-      const { error: orderItemError } = await supabase
-        .from('order_items')
-        .insert([
-          {
-            order_id: orderData.id,
-            menu_item_id: item.id,
-            quantity: 1,
-            price: item.price,
-          },
-        ]);
-
-      if (orderItemError) {
-        console.error('Error creating order item:', orderItemError);
-        alert('Failed to add item to cart');
-        return;
-      }
-
-      alert(`${item.name} added to cart!`);
-      
-    } catch (error) {
-      console.error('Error adding to cart:', error);
-      alert('Failed to add item to cart');
+    const { error: cartError } = await addItem(item, 1, notes, modifiers);
+    if (cartError) {
+      alert(cartError);
+      return;
     }
+
+    setPickingItem(null);
+    alert(`${item.name} added to cart!`);
   };
 
   // Don't show loading if user is not logged in
@@ -379,6 +453,16 @@ export default function MenuPage() {
     );
   }
 
+  // Margin preview in the edit modal; a blank cost falls back to the recipe cost
+  const editMargin = editingItem
+    ? getMargin(
+      parseFloat(editFormData.price) || 0,
+      editFormData.manual_cost.trim() === ''
+        ? foodCosts.get(editingItem.id)?.cost
+        : parseFloat(editFormData.manual_cost) || 0
+    )
+    : null;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -397,6 +481,15 @@ export default function MenuPage() {
           <div className="text-sm text-gray-500">
             {filteredItems.length} of {menuItems.length} items
           </div>
+          {user?.role === 'manager' && (
+            <button
+              onClick={() => navigate('/menu-engineering')}
+              className="flex items-center gap-2 border border-blue-600 text-blue-600 px-4 py-2 rounded-lg hover:bg-blue-50 transition-colors"
+            >
+              <BarChart3 className="w-4 h-4" />
+              Menu Engineering
+            </button>
+          )}
           {user?.role === 'manager' && (
             <button
               onClick={() => navigate('/add-menu-item')}
@@ -406,6 +499,15 @@ export default function MenuPage() {
               Add Menu Item
             </button>
           )}
+          {user?.role === 'customer' && (
+            <button
+              onClick={() => navigate('/cart')}
+              className="flex items-center gap-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              <ShoppingCart className="w-4 h-4" />
+              View Cart ({itemCount})
+            </button>
+          )}
         </div>
       </div>
 
@@ -439,6 +541,25 @@ export default function MenuPage() {
             </select>
           </div>
         </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Suitable for</p>
+            <TagChips options={DIETARY_TAGS} selected={dietFilter} onChange={setDietFilter} tone="green" />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Free from</p>
+            <TagChips options={ALLERGENS} selected={freeFromFilter} onChange={setFreeFromFilter} tone="red" />
+            {user?.role === 'customer' && (user.allergies?.length ?? 0) > 0 && (
+              <button
+                onClick={() => setFreeFromFilter(user.allergies || [])}
+                className="mt-2 text-xs text-purple-600 hover:text-purple-700"
+              >
+                Use my allergies
+              </button>
+            )}
+          </div>
+        </div>
       </div>
 
       {/* Debug Info */}
@@ -498,6 +619,37 @@ export default function MenuPage() {
                 </div>
                 
                 <p className="text-gray-600 text-sm mb-3">{item.description}</p>
+                {user?.role !== 'customer' && describeUnavailable(item) && (
+                  <p className="flex items-center gap-1 text-xs font-medium text-red-700 mb-3">
+                    <PowerOff className="w-3 h-3" />
+                    {describeUnavailable(item)}
+                  </p>
+                )}
+                {((item.dietary_tags?.length ?? 0) > 0 || (item.allergens?.length ?? 0) > 0) && (
+                  <div className="flex flex-wrap gap-1 mb-3">
+                    {(item.dietary_tags || []).map(tag => (
+                      <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">
+                        {dietaryLabel(tag)}
+                      </span>
+                    ))}
+                    {(item.allergens || []).map(allergen => (
+                      <span key={allergen} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">
+                        {allergenLabel(allergen)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {user?.role === 'customer' && containsAny(item, user.allergies || []).length > 0 && (
+                  <p className="flex items-center gap-1 text-xs font-medium text-red-700 mb-3">
+                    <AlertCircle className="w-3 h-3" />
+                    Contains your allergens: {containsAny(item, user.allergies || []).map(allergenLabel).join(', ')}
+                  </p>
+                )}
+                {hasModifiers(item) && (
+                  <p className="text-xs text-gray-500 mb-3">
+                    Options: {getModifierGroups(item).map(group => group.name).join(', ')}
+                  </p>
+                )}
                 
                 <div className="flex items-center justify-between mb-4">
                   <span className="text-sm text-gray-500 bg-gray-100 px-2 py-1 rounded">
@@ -507,6 +659,24 @@ export default function MenuPage() {
                     ${typeof item.price === 'number' ? item.price.toFixed(2) : item.price}
                   </span>
                 </div>
+
+                {user?.role === 'manager' && (
+                  <div className="text-sm mb-4 p-2 bg-gray-50 rounded">
+                    {marginFor(item) ? (
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-600">
+                          Cost ${Number(foodCosts.get(item.id)?.cost).toFixed(2)}
+                          <span className="text-gray-400"> ({foodCosts.get(item.id)?.cost_source})</span>
+                        </span>
+                        <span className={`font-medium ${(marginFor(item)?.marginPercent ?? 0) < 65 ? 'text-red-600' : 'text-green-700'}`}>
+                          {marginFor(item)?.marginPercent?.toFixed(1) ?? '—'}% • ${marginFor(item)?.contribution.toFixed(2)}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-gray-400">No cost yet. Add a recipe or a manual cost.</span>
+                    )}
+                  </div>
+                )}
                 
                 {user?.role === 'customer' && (
                   <button
@@ -549,16 +719,18 @@ export default function MenuPage() {
           <Utensils className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-lg font-semibold text-gray-600 mb-2">No menu items found</h3>
           <p className="text-gray-500 mb-4">
-            {searchTerm || selectedCategory !== 'all' 
+            {searchTerm || selectedCategory !== 'all' || dietFilter.length > 0 || freeFromFilter.length > 0
               ? 'Try adjusting your search or filter criteria'
               : 'No menu items are currently available'
             }
           </p>
-          {(searchTerm || selectedCategory !== 'all') && (
+          {(searchTerm || selectedCategory !== 'all' || dietFilter.length > 0 || freeFromFilter.length > 0) && (
             <button
               onClick={() => {
                 setSearchTerm('');
                 setSelectedCategory('all');
+                setDietFilter([]);
+                setFreeFromFilter([]);
               }}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
             >
@@ -685,6 +857,53 @@ export default function MenuPage() {
                 </div>
               </div>
 
+              {/* Cost */}
+              <div>
+                <label htmlFor="edit-manual-cost" className="block text-sm font-medium text-gray-700 mb-2">
+                  Cost per portion ($)
+                </label>
+                <input
+                  type="number"
+                  id="edit-manual-cost"
+                  name="manual_cost"
+                  value={editFormData.manual_cost}
+                  onChange={handleEditInputChange}
+                  min="0"
+                  step="0.01"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  placeholder={foodCosts.get(editingItem.id)?.cost_source === 'recipe'
+                    ? `Recipe cost $${Number(foodCosts.get(editingItem.id)?.cost).toFixed(2)}`
+                    : 'Leave blank to use the recipe cost'}
+                />
+                {editMargin?.marginPercent != null && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Margin at this price: {editMargin.marginPercent.toFixed(1)}%
+                  </p>
+                )}
+              </div>
+
+              {/* Allergens and Diets */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Contains allergens</label>
+                  <TagChips
+                    options={ALLERGENS}
+                    selected={editFormData.allergens}
+                    onChange={(allergens) => setEditFormData(prev => ({ ...prev, allergens }))}
+                    tone="red"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Suitable for</label>
+                  <TagChips
+                    options={DIETARY_TAGS}
+                    selected={editFormData.dietary_tags}
+                    onChange={(dietary_tags) => setEditFormData(prev => ({ ...prev, dietary_tags }))}
+                    tone="green"
+                  />
+                </div>
+              </div>
+
               {/* Availability Toggle */}
               <div className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg">
                 <input
@@ -708,6 +927,24 @@ export default function MenuPage() {
                   </span>
                 </div>
               </div>
+              {!editFormData.available && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Reason *
+                  </label>
+                  <input
+                    type="text"
+                    name="unavailable_reason"
+                    value={editFormData.unavailable_reason}
+                    onChange={handleEditInputChange}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    placeholder="e.g., Out of fresh basil"
+                  />
+                </div>
+              )}
+
+              {/* Option Groups */}
+              <ModifierGroupsEditor groups={editGroups} onChange={setEditGroups} />
 
               {/* Action Buttons */}
               <div className="flex gap-4 pt-4">
@@ -737,6 +974,16 @@ export default function MenuPage() {
           </div>
         </div>
       )}
+
+      {pickingItem && (
+        <ModifierPickerModal
+          menuItem={pickingItem}
+          onClose={() => setPickingItem(null)}
+          onConfirm={(modifiers, notes) => addToCart(pickingItem, modifiers, notes)}
+          confirmLabel="Add to Cart"
+          showNotes
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
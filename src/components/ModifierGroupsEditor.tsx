@@ -0,0 +1,182 @@
+import { Plus, Trash2, ListPlus } from 'lucide-react';
+import { ModifierGroupDraft, ModifierOptionDraft } from '../lib/modifiers';
+
+interface ModifierGroupsEditorProps {
+  groups: ModifierGroupDraft[];
+  onChange: (groups: ModifierGroupDraft[]) => void;
+}
+
+const emptyOption = (): ModifierOptionDraft => ({ name: '', priceDelta: '0.00', available: true });
+
+export default function ModifierGroupsEditor({ groups, onChange }: ModifierGroupsEditorProps) {
+  const updateGroup = (index: number, changes: Partial<ModifierGroupDraft>) => {
+    onChange(groups.map((group, i) => (i === index ? { ...group, ...changes } : group)));
+  };
+
+  const updateOption = (groupIndex: number, optionIndex: number, changes: Partial<ModifierOptionDraft>) => {
+    const group = groups[groupIndex];
+    updateGroup(groupIndex, {
+      options: group.options.map((option, i) => (i === optionIndex ? { ...option, ...changes } : option))
+    });
+  };
+
+  const addGroup = () => {
+    onChange([
+      ...groups,
+      { name: '', required: false, minSelections: 0, maxSelections: 1, options: [emptyOption()] }
+    ]);
+  };
+
+  const removeGroup = (index: number) => {
+    onChange(groups.filter((_, i) => i !== index));
+  };
+
+  const addOption = (groupIndex: number) => {
+    updateGroup(groupIndex, { options: [...groups[groupIndex].options, emptyOption()] });
+  };
+
+  const removeOption = (groupIndex: number, optionIndex: number) => {
+    const group = groups[groupIndex];
+    const options = group.options.filter((_, i) => i !== optionIndex);
+    updateGroup(groupIndex, {
+      options,
+      maxSelections: Math.max(1, Math.min(group.maxSelections, options.length))
+    });
+  };
+
+  const toggleRequired = (index: number, required: boolean) => {
+    const group = groups[index];
+    updateGroup(index, { required, minSelections: required ? Math.max(1, group.minSelections) : 0 });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Options</h3>
+          <p className="text-xs text-gray-500">Sizes, add-ons and removals guests can choose</p>
+        </div>
+        <button
+          type="button"
+          onClick={addGroup}
+          className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+        >
+          <ListPlus className="w-4 h-4" />
+          Add Group
+        </button>
+      </div>
+
+      {groups.length === 0 && (
+        <p className="text-sm text-gray-400 italic">No option groups. This item is sold as is.</p>
+      )}
+
+      {groups.map((group, groupIndex) => (
+        <div key={group.id || `new-${groupIndex}`} className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={group.name}
+              onChange={(e) => updateGroup(groupIndex, { name: e.target.value })}
+              placeholder="Group name, e.g. Size"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => removeGroup(groupIndex)}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              title="Remove group"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={group.required}
+                onChange={(e) => toggleRequired(groupIndex, e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Required
+            </label>
+            <label className="flex items-center gap-2">
+              Min
+              <input
+                type="number"
+                min={group.required ? 1 : 0}
+                max={group.maxSelections}
+                value={group.minSelections}
+                disabled={!group.required}
+                onChange={(e) => updateGroup(groupIndex, { minSelections: parseInt(e.target.value) || 0 })}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-lg disabled:bg-gray-100 disabled:text-gray-400"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Max
+              <input
+                type="number"
+                min={1}
+                max={group.options.length || 1}
+                value={group.maxSelections}
+                onChange={(e) => updateGroup(groupIndex, { maxSelections: parseInt(e.target.value) || 1 })}
+                className="w-16 px-2 py-1 border border-gray-300 rounded-lg"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map((option, optionIndex) => (
+              <div key={option.id || `new-${optionIndex}`} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={option.name}
+                  onChange={(e) => updateOption(groupIndex, optionIndex, { name: e.target.value })}
+                  placeholder="Option, e.g. Large"
+                  className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+                <div className="relative">
+                  <span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">±$</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={option.priceDelta}
+                    onChange={(e) => updateOption(groupIndex, optionIndex, { priceDelta: e.target.value })}
+                    className="w-24 pl-7 pr-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                    title="Added to the item price"
+                  />
+                </div>
+                <label className="flex items-center gap-1 text-xs text-gray-600" title="Available">
+                  <input
+                    type="checkbox"
+                    checked={option.available}
+                    onChange={(e) => updateOption(groupIndex, optionIndex, { available: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  On
+                </label>
+                <button
+                  type="button"
+                  onClick={() => removeOption(groupIndex, optionIndex)}
+                  disabled={group.options.length === 1}
+                  className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                  title="Remove option"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => addOption(groupIndex)}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              Add option
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
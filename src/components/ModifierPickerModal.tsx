@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { X, Plus, AlertCircle, SlidersHorizontal } from 'lucide-react';
+import { MenuItem, ModifierGroup, SelectedModifier } from '../lib/supabase';
+import {
+  getModifierGroups,
+  validateSelection,
+  buildSelection,
+  getUnitPrice,
+  formatPriceDelta,
+  describeSelectionLimit
+} from '../lib/modifiers';
+
+interface ModifierPickerModalProps {
+  menuItem: MenuItem;
+  onClose: () => void;
+  onConfirm: (modifiers: SelectedModifier[], notes: string) => void;
+  confirmLabel?: string;
+  showNotes?: boolean;
+}
+
+export default function ModifierPickerModal({
+  menuItem,
+  onClose,
+  onConfirm,
+  confirmLabel = 'Add',
+  showNotes = false
+}: ModifierPickerModalProps) {
+  const groups = getModifierGroups(menuItem);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const toggleOption = (group: ModifierGroup, optionId: string) => {
+    setError('');
+    setSelectedIds(prev => {
+      if (prev.includes(optionId)) {
+        return prev.filter(id => id !== optionId);
+      }
+
+      const groupOptionIds = (group.options || []).map(option => option.id);
+      // A single-choice group swaps its choice instead of refusing the click
+      if (group.max_selections === 1) {
+        return [...prev.filter(id => !groupOptionIds.includes(id)), optionId];
+      }
+
+      const chosenInGroup = prev.filter(id => groupOptionIds.includes(id)).length;
+      return chosenInGroup >= group.max_selections ? prev : [...prev, optionId];
+    });
+  };
+
+  const selection = buildSelection(groups, selectedIds);
+  const unitPrice = getUnitPrice(menuItem, selection);
+
+  const handleConfirm = () => {
+    const selectionError = validateSelection(groups, selectedIds);
+    if (selectionError) {
+      setError(selectionError);
+      return;
+    }
+    onConfirm(selection, notes);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-white/20 rounded-lg">
+                <SlidersHorizontal className="w-6 h-6" />
+              </div>
+              <div>
+                <h2 className="text-xl font-bold">{menuItem.name}</h2>
+                <p className="opacity-90">${menuItem.price.toFixed(2)} • Choose your options</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {groups.map((group) => {
+            const options = group.options || [];
+            const chosenInGroup = options.filter(option => selectedIds.includes(option.id)).length;
+            const groupFull = group.max_selections > 1 && chosenInGroup >= group.max_selections;
+
+            return (
+              <div key={group.id}>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-medium text-gray-900">{group.name}</h3>
+                  <span className={`text-xs px-2 py-1 rounded-full ${
+                    group.required ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-600'
+                  }`}>
+                    {group.required ? 'Required' : 'Optional'} • {describeSelectionLimit(group)}
+                  </span>
+                </div>
+                <div className="space-y-2">
+                  {options.map((option) => {
+                    const selected = selectedIds.includes(option.id);
+                    const disabled = !option.available || (groupFull && !selected);
+
+                    return (
+                      <label
+                        key={option.id}
+                        className={`flex items-center justify-between p-3 border rounded-lg transition-colors ${
+                          selected ? 'border-purple-400 bg-purple-50' : 'border-gray-200'
+                        } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-50'}`}
+                      >
+                        <span className="flex items-center gap-3">
+                          <input
+                            type={group.max_selections === 1 ? 'radio' : 'checkbox'}
+                            name={group.id}
+                            checked={selected}
+                            disabled={disabled}
+                            onChange={() => toggleOption(group, option.id)}
+                            onClick={() => {
+                              // Radios cannot be unticked on their own; allow it for optional groups
+                              if (group.max_selections === 1 && selected && !group.required) {
+                                toggleOption(group, option.id);
+                              }
+                            }}
+                            className="w-4 h-4 text-purple-600 border-gray-300 focus:ring-purple-500"
+                          />
+                          <span className="text-sm text-gray-900">{option.name}</span>
+                          {!option.available && <span className="text-xs text-red-600">Unavailable</span>}
+                        </span>
+                        <span className="text-sm text-gray-500">{formatPriceDelta(Number(option.price_delta))}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+
+          {showNotes && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Special instructions</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. well done, sauce on the side"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 space-y-3">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            </div>
+          )}
+          <button
+            onClick={handleConfirm}
+            className="w-full bg-gradient-to-r from-purple-500 to-purple-600 text-white py-3 px-4 rounded-lg font-medium flex items-center justify-center gap-2 hover:shadow-lg transition-all duration-200"
+          >
+            <Plus className="w-5 h-5" />
+            {confirmLabel} • ${unitPrice.toFixed(2)}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
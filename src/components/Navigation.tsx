@@ -4,7 +4,7 @@ import { useAuth } from '../contexts/AuthContext';
 import {
   Home, ClipboardList, Users, BarChart3, Bot,
   ShoppingCart, Eye, FileText, ChefHat, Package,
-  Menu, ShoppingBag, User
+  Menu, ShoppingBag, LayoutGrid, CalendarDays, User, Truck, Lock, CalendarClock, Percent, Ticket
 } from 'lucide-react';
 
 const navigationItems = {
@@ -12,14 +12,23 @@ const navigationItems = {
     { path: '/dashboard', icon: Home, label: 'Home' },
     { path: '/orders', icon: ClipboardList, label: 'Orders Overview' },
     { path: '/menu', icon: Menu, label: 'Menu Management' },
+    { path: '/floor-plan', icon: LayoutGrid, label: 'Floor Plan' },
+    { path: '/reservations', icon: CalendarDays, label: 'Reservations' },
+    { path: '/inventory', icon: Package, label: 'Inventory' },
+    { path: '/purchasing', icon: Truck, label: 'Purchasing' },
     { path: '/staff', icon: Users, label: 'Staff Overview' },
+    { path: '/schedule', icon: CalendarClock, label: 'Schedule' },
     { path: '/reports', icon: BarChart3, label: 'Sales Reports' },
+    { path: '/closeout', icon: Lock, label: 'Day Closeout' },
+    { path: '/pricing', icon: Percent, label: 'Tax & Service' },
+    { path: '/promotions', icon: Ticket, label: 'Promotions' },
     { path: '/ai', icon: Bot, label: 'AI Agent' },
   ],
   waiter: [
     { path: '/dashboard', icon: Home, label: 'Home' },
     { path: '/take-order', icon: ShoppingCart, label: 'Take Order' },
     { path: '/tables', icon: Eye, label: 'Table View' },
+    { path: '/reservations', icon: CalendarDays, label: 'Reservations' },
     { path: '/my-orders', icon: FileText, label: 'My Orders' },
     { path: '/ai', icon: Bot, label: 'AI Agent' },
   ],
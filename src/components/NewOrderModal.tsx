@@ -1,41 +1,123 @@
 import React, { useState, useEffect } from 'react';
-import { X, Plus, Minus, ShoppingCart, User, MapPin, Utensils, AlertCircle, CheckCircle } from 'lucide-react';
-import { supabase, MenuItem } from '../lib/supabase';
+import { X, Plus, Minus, ShoppingCart, User, Users, MapPin, Utensils, AlertCircle, CheckCircle, CalendarDays } from 'lucide-react';
+import { supabase, MenuItem, Table, Reservation, SelectedModifier } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { formatSlotTime, DEFAULT_DINING_MINUTES } from '../lib/reservations';
+import { placeOrder } from '../lib/orders';
+import { MENU_ITEM_WITH_MODIFIERS, hasModifiers, sameModifiers, getUnitPrice, formatModifiers } from '../lib/modifiers';
+import { describeUnavailable } from '../lib/availability';
+import { PricingConfig, calculateOrderTotals, formatRate, loadPricingConfig } from '../lib/pricing';
+import ModifierPickerModal from './ModifierPickerModal';
 
 interface NewOrderModalProps {
   isOpen: boolean;
   onClose: () => void;
   onOrderPlaced: () => void;
+  initialTableNumber?: number;
+  initialCustomerName?: string;
 }
 
 interface OrderItem {
+  key: string;
   menuItem: MenuItem;
+  modifiers: SelectedModifier[];
   quantity: number;
 }
 
-export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrderModalProps) {
+// The same dish with different options is a separate line
+const lineKey = (menuItemId: string, modifiers: SelectedModifier[]) =>
+  [menuItemId, ...modifiers.map(modifier => modifier.option_id).sort()].join(':');
+
+export default function NewOrderModal({ isOpen, onClose, onOrderPlaced, initialTableNumber, initialCustomerName }: NewOrderModalProps) {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [freeTables, setFreeTables] = useState<Table[]>([]);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [customerName, setCustomerName] = useState('');
   const [tableNumber, setTableNumber] = useState('');
+  const [partySize, setPartySize] = useState('');
+  const [pricing, setPricing] = useState<PricingConfig | null>(null);
+  const [conflicts, setConflicts] = useState<Reservation[]>([]);
+  const [overrideConflicts, setOverrideConflicts] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [loadingMenu, setLoadingMenu] = useState(true);
+  const [pickingItem, setPickingItem] = useState<MenuItem | null>(null);
   const { user } = useAuth();
 
   useEffect(() => {
     if (isOpen) {
       loadMenuItems();
+      loadFreeTables();
+      loadPricing();
       // Reset form when modal opens
       setOrderItems([]);
-      setCustomerName('');
-      setTableNumber('');
+      setPickingItem(null);
+      setCustomerName(initialCustomerName || '');
+      setTableNumber(initialTableNumber ? initialTableNumber.toString() : '');
+      setPartySize('');
+      setConflicts([]);
+      setOverrideConflicts(false);
       setError('');
       setSuccess('');
     }
-  }, [isOpen]);
+  }, [isOpen, initialTableNumber, initialCustomerName]);
+
+  useEffect(() => {
+    const table = freeTables.find(t => t.number.toString() === tableNumber);
+    setOverrideConflicts(false);
+    if (table) {
+      loadConflicts(table);
+    } else {
+      setConflicts([]);
+    }
+  }, [tableNumber, freeTables]);
+
+  const loadFreeTables = async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('tables')
+        .select(`
+          *,
+          section:sections (*)
+        `)
+        .in('status', ['available', 'reserved'])
+        .order('number', { ascending: true });
+
+      if (fetchError) {
+        console.error('Error loading tables:', fetchError);
+        setError('Failed to load available tables');
+        return;
+      }
+
+      setFreeTables(data || []);
+    } catch (error) {
+      console.error('Error loading tables:', error);
+      setError('Failed to load available tables');
+    }
+  };
+
+  // Upcoming bookings that a walk-in seated at this table now would run into
+  const loadConflicts = async (table: Table) => {
+    const { data, error: rpcError } = await supabase.rpc('get_table_conflicts', {
+      p_table_id: table.id,
+      p_duration_minutes: DEFAULT_DINING_MINUTES
+    });
+
+    if (rpcError) {
+      console.error('Error checking reservations:', rpcError);
+      setConflicts([]);
+      return;
+    }
+
+    setConflicts(data || []);
+  };
+
+  // Only used to preview tax and service charge; the order is priced by the database
+  const loadPricing = async () => {
+    const { config } = await loadPricingConfig();
+    setPricing(config);
+  };
 
   const loadMenuItems = async () => {
     try {
@@ -44,8 +126,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
 
       const { data, error: fetchError } = await supabase
         .from('menu_items')
-        .select('*')
-        .eq('available', true)
+        .select(MENU_ITEM_WITH_MODIFIERS)
         .order('category', { ascending: true })
         .order('name', { ascending: true });
 
@@ -64,28 +145,40 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
     }
   };
 
-  const addToOrder = (menuItem: MenuItem) => {
+  const addToOrder = (menuItem: MenuItem, modifiers?: SelectedModifier[]) => {
+    if (!menuItem.available) return;
+
+    // Items with options go through the picker first
+    if (!modifiers && hasModifiers(menuItem)) {
+      setPickingItem(menuItem);
+      return;
+    }
+
+    const chosen = modifiers || [];
+    setPickingItem(null);
     setOrderItems(prev => {
-      const existingItem = prev.find(item => item.menuItem.id === menuItem.id);
+      const existingItem = prev.find(item =>
+        item.menuItem.id === menuItem.id && sameModifiers(item.modifiers, chosen)
+      );
       if (existingItem) {
         return prev.map(item =>
-          item.menuItem.id === menuItem.id
+          item.key === existingItem.key
             ? { ...item, quantity: item.quantity + 1 }
             : item
         );
       } else {
-        return [...prev, { menuItem, quantity: 1 }];
+        return [...prev, { key: lineKey(menuItem.id, chosen), menuItem, modifiers: chosen, quantity: 1 }];
       }
     });
   };
 
-  const updateQuantity = (menuItemId: string, newQuantity: number) => {
+  const updateQuantity = (key: string, newQuantity: number) => {
     if (newQuantity <= 0) {
-      setOrderItems(prev => prev.filter(item => item.menuItem.id !== menuItemId));
+      setOrderItems(prev => prev.filter(item => item.key !== key));
     } else {
       setOrderItems(prev =>
         prev.map(item =>
-          item.menuItem.id === menuItemId
+          item.key === key
             ? { ...item, quantity: newQuantity }
             : item
         )
@@ -93,9 +186,14 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
     }
   };
 
-  const calculateTotal = () => {
-    return orderItems.reduce((total, item) => total + (item.menuItem.price * item.quantity), 0);
-  };
+  const calculateTotals = () => calculateOrderTotals(
+    orderItems.map(item => ({
+      category: item.menuItem.category,
+      amount: getUnitPrice(item.menuItem, item.modifiers) * item.quantity
+    })),
+    parseInt(partySize) || null,
+    pricing
+  );
 
   const groupItemsByCategory = () => {
     const grouped: { [key: string]: MenuItem[] } = {};
@@ -108,7 +206,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
     return grouped;
   };
 
-  const placeOrder = async () => {
+  const handlePlaceOrder = async () => {
     if (!user) {
       setError('User not authenticated');
       return;
@@ -120,8 +218,8 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
       return;
     }
 
-    if (!tableNumber.trim()) {
-      setError('Please enter table number');
+    if (!tableNumber) {
+      setError('Please select a table');
       return;
     }
 
@@ -130,9 +228,22 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
       return;
     }
 
+    const guests = partySize ? parseInt(partySize) : null;
+    if (guests !== null && (isNaN(guests) || guests < 1)) {
+      setError('Party size must be at least 1');
+      return;
+    }
+
     const tableNum = parseInt(tableNumber);
-    if (isNaN(tableNum) || tableNum <= 0) {
-      setError('Please enter a valid table number');
+    const selectedTable = freeTables.find(table => table.number === tableNum);
+    if (!selectedTable) {
+      setError(`Table ${tableNumber} is no longer available. Please pick another table.`);
+      loadFreeTables();
+      return;
+    }
+
+    if ((conflicts.length > 0 || selectedTable.status === 'reserved') && !overrideConflicts) {
+      setError(`Table ${tableNum} is reserved. Confirm the override to seat this party anyway.`);
       return;
     }
 
@@ -140,55 +251,33 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
       setLoading(true);
       setError('');
 
-      const total = calculateTotal();
-
-      // Create the order
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert([
-          {
-            waiter_id: user.id,
-            customer_id: null, // Waiter-created orders don't have a customer_id
-            table_number: tableNum,
-            customer_name: customerName.trim(),
-            status: 'pending',
-            total: total,
-          },
-        ])
-        .select()
-        .single();
-
-      if (orderError) {
-        console.error('Error creating order:', orderError);
-        setError(`Failed to create order: ${orderError.message}`);
+      // Placing the order at a reserved table lifts its hold
+      const { order, error: placeError } = await placeOrder({
+        customerName: customerName.trim(),
+        tableNumber: tableNum,
+        partySize: guests,
+        items: orderItems.map(item => ({
+          menu_item_id: item.menuItem.id,
+          quantity: item.quantity,
+          option_ids: item.modifiers.map(modifier => modifier.option_id)
+        }))
+      });
+
+      if (placeError || !order) {
+        setError(`Failed to create order: ${placeError}`);
+        // Someone may have just seated this table, or an item sold out
+        loadFreeTables();
+        loadMenuItems();
         return;
       }
 
-      // Create order items
-      const orderItemsData = orderItems.map(item => ({
-        order_id: orderData.id,
-        menu_item_id: item.menuItem.id,
-        quantity: item.quantity,
-        price: item.menuItem.price,
-        status: 'pending'
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItemsData);
-
-      if (itemsError) {
-        console.error('Error creating order items:', itemsError);
-        setError(`Failed to add items to order: ${itemsError.message}`);
-        return;
-      }
-
-      setSuccess(`Order placed successfully! Order #${orderData.id.slice(0, 8)}`);
+      setSuccess(`Order placed successfully! Order #${order.id.slice(0, 8)} • $${Number(order.total).toFixed(2)}`);
       
       // Reset form
       setOrderItems([]);
       setCustomerName('');
       setTableNumber('');
+      setPartySize('');
 
       // Close modal and refresh orders after a short delay
       setTimeout(() => {
@@ -208,6 +297,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
   if (!isOpen) return null;
 
   const groupedItems = groupItemsByCategory();
+  const totals = calculateTotals();
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -236,7 +326,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
         <div className="flex-1 flex overflow-hidden">
           {/* Menu Items Section */}
           <div className="flex-1 p-6 overflow-y-auto">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Available Menu Items</h3>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Menu Items</h3>
             
             {loadingMenu ? (
               <div className="flex items-center justify-center h-64">
@@ -251,7 +341,12 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
                     </h4>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       {items.map((item) => (
-                        <div key={item.id} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+                        <div
+                          key={item.id}
+                          className={`border border-gray-200 rounded-lg p-4 transition-shadow ${
+                            item.available ? 'hover:shadow-md' : 'bg-gray-50 opacity-60'
+                          }`}
+                        >
                           <div className="flex items-start justify-between mb-2">
                             <h5 className="font-medium text-gray-900">{item.name}</h5>
                             <span className="text-lg font-bold text-green-600">
@@ -259,12 +354,18 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
                             </span>
                           </div>
                           <p className="text-sm text-gray-600 mb-3">{item.description}</p>
+                          {!item.available && (
+                            <p className="text-xs font-medium text-red-700 mb-3">
+                              86'd{describeUnavailable(item) ? `: ${describeUnavailable(item)}` : ''}
+                            </p>
+                          )}
                           <button
                             onClick={() => addToOrder(item)}
-                            className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2"
+                            disabled={!item.available}
+                            className="w-full bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
                           >
                             <Plus className="w-4 h-4" />
-                            Add to Order
+                            {!item.available ? 'Unavailable' : hasModifiers(item) ? 'Choose Options' : 'Add to Order'}
                           </button>
                         </div>
                       ))}
@@ -298,16 +399,66 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   <MapPin className="w-4 h-4 inline mr-1" />
-                  Table Number *
+                  Table *
                 </label>
-                <input
-                  type="number"
+                <select
                   value={tableNumber}
                   onChange={(e) => setTableNumber(e.target.value)}
-                  placeholder="Enter table number"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  <option value="">Select a free table</option>
+                  {freeTables.map((table) => (
+                    <option key={table.id} value={table.number}>
+                      Table {table.number} • {table.seats} seats{table.section ? ` • ${table.section.name}` : ''}{table.status === 'reserved' ? ' • Reserved' : ''}
+                    </option>
+                  ))}
+                </select>
+                {freeTables.length === 0 && (
+                  <p className="text-xs text-red-600 mt-1">No tables are free right now</p>
+                )}
+                {(conflicts.length > 0 || freeTables.find(t => t.number.toString() === tableNumber)?.status === 'reserved') && (
+                  <div className="mt-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+                    <p className="flex items-center gap-1 font-medium text-yellow-800">
+                      <CalendarDays className="w-4 h-4" />
+                      Reserved table
+                    </p>
+                    {conflicts.map((reservation) => (
+                      <p key={reservation.id} className="text-yellow-700 text-xs mt-1">
+                        {reservation.customer_name} ({reservation.party_size}) at {formatSlotTime(reservation.reserved_for)}
+                      </p>
+                    ))}
+                    <label className="flex items-center gap-2 mt-2 text-xs text-yellow-800">
+                      <input
+                        type="checkbox"
+                        checked={overrideConflicts}
+                        onChange={(e) => setOverrideConflicts(e.target.checked)}
+                      />
+                      Seat this party anyway
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="party-size" className="block text-sm font-medium text-gray-700 mb-2">
+                  <Users className="w-4 h-4 inline mr-1" />
+                  Party Size
+                </label>
+                <input
+                  id="party-size"
+                  type="number"
                   min="1"
+                  value={partySize}
+                  onChange={(e) => setPartySize(e.target.value)}
+                  placeholder={freeTables.find(t => t.number.toString() === tableNumber)?.seats.toString() || 'Guests'}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                 />
+                {pricing?.settings?.service_charge_min_party && Number(pricing.settings.service_charge_rate) > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Parties of {pricing.settings.service_charge_min_party} or more get a {formatRate(pricing.settings.service_charge_rate)} service charge;
+                    left blank, the table's seats are counted
+                  </p>
+                )}
               </div>
             </div>
 
@@ -316,31 +467,36 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
               {orderItems.length > 0 ? (
                 <div className="space-y-3">
                   {orderItems.map((item) => (
-                    <div key={item.menuItem.id} className="bg-white p-3 rounded-lg border border-gray-200">
+                    <div key={item.key} className="bg-white p-3 rounded-lg border border-gray-200">
                       <div className="flex items-start justify-between mb-2">
-                        <h6 className="font-medium text-gray-900 text-sm">{item.menuItem.name}</h6>
+                        <div>
+                          <h6 className="font-medium text-gray-900 text-sm">{item.menuItem.name}</h6>
+                          {item.modifiers.length > 0 && (
+                            <p className="text-xs text-gray-600">{formatModifiers(item.modifiers)}</p>
+                          )}
+                        </div>
                         <span className="text-sm font-bold text-gray-900">
-                          ${(item.menuItem.price * item.quantity).toFixed(2)}
+                          ${(getUnitPrice(item.menuItem, item.modifiers) * item.quantity).toFixed(2)}
                         </span>
                       </div>
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2">
                           <button
-                            onClick={() => updateQuantity(item.menuItem.id, item.quantity - 1)}
+                            onClick={() => updateQuantity(item.key, item.quantity - 1)}
                             className="p-1 rounded-full bg-gray-200 hover:bg-gray-300 transition-colors"
                           >
                             <Minus className="w-3 h-3" />
                           </button>
                           <span className="text-sm font-medium w-8 text-center">{item.quantity}</span>
                           <button
-                            onClick={() => updateQuantity(item.menuItem.id, item.quantity + 1)}
+                            onClick={() => updateQuantity(item.key, item.quantity + 1)}
                             className="p-1 rounded-full bg-gray-200 hover:bg-gray-300 transition-colors"
                           >
                             <Plus className="w-3 h-3" />
                           </button>
                         </div>
                         <span className="text-xs text-gray-500">
-                          ${item.menuItem.price.toFixed(2)} each
+                          ${getUnitPrice(item.menuItem, item.modifiers).toFixed(2)} each
                         </span>
                       </div>
                     </div>
@@ -356,10 +512,24 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
             </div>
 
             {/* Total */}
-            <div className="border-t border-gray-200 pt-4 mb-6">
+            <div className="border-t border-gray-200 pt-4 mb-6 space-y-1">
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>Subtotal</span>
+                <span>${totals.subtotal.toFixed(2)}</span>
+              </div>
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>Tax{pricing?.settings?.tax_inclusive && ' (included)'}</span>
+                <span>${totals.tax.toFixed(2)}</span>
+              </div>
+              {totals.serviceCharge > 0 && (
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <span>Service charge ({formatRate(totals.serviceChargeRate)})</span>
+                  <span>${totals.serviceCharge.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex items-center justify-between text-lg font-bold">
                 <span>Total:</span>
-                <span className="text-green-600">${calculateTotal().toFixed(2)}</span>
+                <span className="text-green-600">${totals.total.toFixed(2)}</span>
               </div>
             </div>
 
@@ -385,7 +555,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
             {/* Action Buttons */}
             <div className="space-y-3">
               <button
-                onClick={placeOrder}
+                onClick={handlePlaceOrder}
                 disabled={loading || orderItems.length === 0}
                 className="w-full bg-gradient-to-r from-green-500 to-green-600 text-white py-3 px-4 rounded-lg font-medium flex items-center justify-center gap-2 hover:shadow-lg transition-all duration-200 transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
               >
@@ -394,7 +564,7 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
                 ) : (
                   <>
                     <ShoppingCart className="w-5 h-5" />
-                    Place Order (${calculateTotal().toFixed(2)})
+                    Place Order (${totals.total.toFixed(2)})
                   </>
                 )}
               </button>
@@ -409,6 +579,15 @@ export default function NewOrderModal({ isOpen, onClose, onOrderPlaced }: NewOrd
           </div>
         </div>
       </div>
+
+      {pickingItem && (
+        <ModifierPickerModal
+          menuItem={pickingItem}
+          onClose={() => setPickingItem(null)}
+          onConfirm={(modifiers) => addToOrder(pickingItem, modifiers)}
+          confirmLabel="Add to Order"
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { OrderStatusEvent } from '../lib/supabase';
+import { orderStatusColors } from '../lib/orderStatus';
+import { getOrderTimings, formatMinutes } from '../lib/orderTiming';
+
+interface OrderTimelineProps {
+  events: OrderStatusEvent[];
+}
+
+export default function OrderTimeline({ events }: OrderTimelineProps) {
+  if (events.length === 0) return null;
+
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  const timings = getOrderTimings(sorted);
+
+  return (
+    <div className="border-t border-gray-100 pt-4 mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-gray-700">Timeline</h4>
+        <div className="flex gap-4 text-xs text-gray-500">
+          <span>Prep: <strong className="text-gray-700">{formatMinutes(timings.prepMinutes)}</strong></span>
+          <span>Ticket: <strong className="text-gray-700">{formatMinutes(timings.ticketMinutes)}</strong></span>
+          <span>Serve: <strong className="text-gray-700">{formatMinutes(timings.serveMinutes)}</strong></span>
+        </div>
+      </div>
+      <ol className="flex flex-wrap items-start gap-y-3">
+        {sorted.map((event, index) => {
+          const previous = sorted[index - 1];
+          const gap = previous
+            ? (new Date(event.created_at).getTime() - new Date(previous.created_at).getTime()) / 60000
+            : null;
+
+          return (
+            <li key={event.id} className="flex items-start">
+              {previous && (
+                <div className="flex flex-col items-center px-2 pt-1">
+                  <span className="text-xs text-gray-400">{formatMinutes(gap)}</span>
+                  <span className="w-10 border-t border-dashed border-gray-300 mt-1"></span>
+                </div>
+              )}
+              <div className="text-center">
+                <span className={`inline-block px-2 py-1 rounded text-xs font-medium capitalize ${orderStatusColors[event.to_status]}`}>
+                  {event.to_status}
+                </span>
+                <p className="text-xs text-gray-500 mt-1">
+                  {new Date(event.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </p>
+                {event.changed_by_name && (
+                  <p className="text-xs text-gray-400">{event.changed_by_name}</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -1,7 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, User, MapPin, DollarSign, AlertCircle, RefreshCw, Eye } from 'lucide-react';
+import { Clock, User, MapPin, DollarSign, AlertCircle, RefreshCw, Eye, X, Download, Receipt, Tag, Ban, RotateCcw } from 'lucide-react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase, Order, OrderItem } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useRealtimeOrders } from '../hooks/useRealtimeOrders';
+import {
+  fetchOrderWithItems, upsertOrder, mergeOrderChange, mergeOrderItemChange, getChangedOrderId
+} from '../lib/liveOrders';
+import { orderStatusColors, getAllowedNextStatuses, getNextStatus, canCancelOrder } from '../lib/orderStatus';
+import { formatModifiers } from '../lib/modifiers';
+import { downloadCsv } from '../lib/export';
+import { toDateInputValue } from '../lib/reports';
+import { getAmountPaid, getBalance, canTakePayment } from '../lib/payments';
+import { canDiscount } from '../lib/discounts';
+import { canVoidItem } from '../lib/voids';
+import { canRefund, getRefundedAmount } from '../lib/refunds';
+import OrderTimeline from './OrderTimeline';
+import SettleBillModal from './SettleBillModal';
+import DiscountModal from './DiscountModal';
+import VoidItemModal from './VoidItemModal';
+import RefundModal from './RefundModal';
 
 interface OrderWithItems extends Order {
   order_items?: (OrderItem & { menu_item: any })[];
@@ -12,6 +30,13 @@ export default function OrdersPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [actionError, setActionError] = useState('');
+  const [cancellingOrderId, setCancellingOrderId] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [settlingOrder, setSettlingOrder] = useState<Order | null>(null);
+  const [discountingOrder, setDiscountingOrder] = useState<Order | null>(null);
+  const [voiding, setVoiding] = useState<{ order: Order; item: NonNullable<OrderWithItems['order_items']>[number] } | null>(null);
+  const [refundingOrder, setRefundingOrder] = useState<Order | null>(null);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -24,7 +49,71 @@ export default function OrdersPage() {
     }
   }, [user, selectedStatus]);
 
-  const loadOrders = async () => {
+  // Whether an order belongs in this page given the user's role and the status filter
+  const isVisibleOrder = (order: Order) => {
+    if (selectedStatus !== 'all' && order.status !== selectedStatus) {
+      return false;
+    }
+
+    switch (user?.role) {
+      case 'waiter':
+        return !order.waiter_id || order.waiter_id === user.id;
+      case 'manager':
+      case 'kitchen':
+        return true;
+      default:
+        return order.customer_id === user?.id;
+    }
+  };
+
+  const refreshOrder = async (orderId: string) => {
+    const order = await fetchOrderWithItems(orderId);
+    setOrders(prev => order && isVisibleOrder(order)
+      ? upsertOrder(prev, order as OrderWithItems)
+      : prev.filter(existing => existing.id !== orderId)
+    );
+  };
+
+  const handleOrderChange = (change: RealtimePostgresChangesPayload<Order>) => {
+    if (change.eventType === 'INSERT') {
+      if (isVisibleOrder(change.new)) {
+        refreshOrder(change.new.id);
+      }
+      return;
+    }
+
+    if (change.eventType === 'UPDATE') {
+      if (isVisibleOrder(change.new)) {
+        // Refetch so the timeline picks up the new status event
+        refreshOrder(change.new.id);
+      } else {
+        setOrders(prev => prev.filter(order => order.id !== change.new.id));
+      }
+      return;
+    }
+
+    setOrders(prev => mergeOrderChange(prev, change));
+  };
+
+  const handleOrderItemChange = (change: RealtimePostgresChangesPayload<OrderItem>) => {
+    const orderId = getChangedOrderId(change);
+    if (change.eventType === 'INSERT') {
+      // Items are inserted just after their order, which may not be loaded yet
+      if (orderId) refreshOrder(orderId);
+      return;
+    }
+
+    setOrders(prev => mergeOrderItemChange(prev, change));
+  };
+
+  useRealtimeOrders({
+    enabled: !!user,
+    onResync: () => loadOrders(false),
+    onOrderChange: handleOrderChange,
+    onOrderItemChange: handleOrderItemChange
+  });
+
+  const loadOrders = async (showSpinner = true) => {
     if (!user) {
       setError('User not found');
       setLoading(false);
@@ -32,7 +121,9 @@ export default function OrdersPage() {
     }
 
     try {
-      setLoading(true);
+      if (showSpinner) {
+        setLoading(true);
+      }
       setError('');
       
       console.log('Loading orders for user:', user.id, 'role:', user.role);
@@ -44,7 +135,11 @@ export default function OrdersPage() {
           order_items (
             *,
             menu_item:menu_items (*)
-          )
+          ),
+          status_events:order_status_events (*),
+          payments (*),
+          order_discounts (*),
+          refunds (*)
         `);
 
       // Apply role-based filtering
@@ -53,7 +148,8 @@ export default function OrdersPage() {
           query = query.eq('customer_id', user.id);
           break;
         case 'waiter':
-          query = query.eq('waiter_id', user.id);
+          // Their own orders, and self-service orders any waiter can take out
+          query = query.or(`waiter_id.eq.${user.id},waiter_id.is.null`);
           break;
         case 'manager':
         case 'kitchen':
@@ -90,67 +186,43 @@ export default function OrdersPage() {
     }
   };
 
-  const updateOrderStatus = async (orderId: string, newStatus: string) => {
+  const updateOrderStatus = async (orderId: string, newStatus: Order['status'], reason?: string) => {
     try {
       console.log('Updating order status:', orderId, 'to', newStatus);
-      
+      setActionError('');
+
       const { error } = await supabase
         .from('orders')
-        .update({ status: newStatus })
+        .update(newStatus === 'cancelled' ? { status: newStatus, cancel_reason: reason } : { status: newStatus })
         .eq('id', orderId);
 
       if (error) {
+        // The database enforces the status flow; its message says what went wrong
         console.error('Error updating order status:', error);
-        setError('Failed to update order status');
-        return;
+        setActionError(`Order #${orderId.slice(0, 8)}: ${error.message}`);
+        return false;
       }
 
       // Reload orders to reflect the change
-      await loadOrders();
-      
+      await loadOrders(false);
+      return true;
     } catch (error) {
       console.error('Error updating order status:', error);
-      setError('Failed to update order status');
+      setActionError('Failed to update order status');
+      return false;
     }
   };
 
-  const getStatusColor = (status: string) => {
-    const colors = {
-      pending: 'bg-yellow-100 text-yellow-800',
-      preparing: 'bg-blue-100 text-blue-800',
-      ready: 'bg-green-100 text-green-800',
-      served: 'bg-purple-100 text-purple-800',
-      completed: 'bg-gray-100 text-gray-800'
-    };
-    return colors[status as keyof typeof colors] || 'bg-gray-100 text-gray-800';
-  };
-
-  const canUpdateStatus = (order: Order) => {
-    switch (user?.role) {
-      case 'manager':
-        return true;
-      case 'waiter':
-        return order.waiter_id === user.id;
-      case 'kitchen':
-        return ['pending', 'preparing'].includes(order.status);
-      default:
-        return false;
+  const cancelOrder = async (orderId: string) => {
+    if (!cancelReason.trim()) {
+      setActionError('Please give a reason for cancelling the order');
+      return;
     }
-  };
 
-  const getNextStatus = (currentStatus: string, userRole: string) => {
-    const statusFlow = {
-      pending: 'preparing',
-      preparing: 'ready',
-      ready: 'served',
-      served: 'completed'
-    };
-
-    if (userRole === 'kitchen' && currentStatus === 'ready') {
-      return null; // Kitchen can't mark as served
+    if (await updateOrderStatus(orderId, 'cancelled', cancelReason.trim())) {
+      setCancellingOrderId(null);
+      setCancelReason('');
     }
-
-    return statusFlow[currentStatus as keyof typeof statusFlow];
   };
 
   // Don't show loading if user is not logged in
@@ -169,6 +241,34 @@ export default function OrdersPage() {
     );
   }
 
+  // Exports what is on screen, so the status filter and role scoping both apply
+  const exportOrders = () => {
+    downloadCsv(
+      `orders-${selectedStatus}-${toDateInputValue(new Date())}.csv`,
+      ['Order', 'Placed', 'Status', 'Customer', 'Table', 'Items', 'Subtotal', 'Discount', 'Tax', 'Service Charge', 'Total', 'Tips', 'Refunds', 'Cancel Reason'],
+      orders.map(order => [
+        order.id.slice(0, 8),
+        new Date(order.created_at).toLocaleString(),
+        order.status,
+        order.customer_name,
+        order.table_number,
+        (order.order_items || []).map(item => {
+          const modifiers = item.modifiers && item.modifiers.length > 0 ? ` (${formatModifiers(item.modifiers)})` : '';
+          const voided = item.voided ? ' [void]' : '';
+          return `${item.quantity}x ${item.menu_item?.name || 'Unknown Item'}${modifiers}${voided}`;
+        }).join('; '),
+        Number(order.subtotal).toFixed(2),
+        Number(order.discount_total).toFixed(2),
+        Number(order.tax_total).toFixed(2),
+        Number(order.service_charge).toFixed(2),
+        Number(order.total).toFixed(2),
+        Number(order.tip_total).toFixed(2),
+        getRefundedAmount(order.refunds || []).toFixed(2),
+        order.cancel_reason
+      ])
+    );
+  };
+
   if (error) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -178,7 +278,7 @@ export default function OrdersPage() {
             <h3 className="text-lg font-semibold text-red-800 mb-2">Orders Loading Error</h3>
             <p className="text-red-700 mb-4">{error}</p>
             <button 
-              onClick={loadOrders}
+              onClick={() => loadOrders()}
               className="flex items-center gap-2 mx-auto px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
             >
               <RefreshCw className="w-4 h-4" />
@@ -225,10 +325,33 @@ export default function OrdersPage() {
             <option value="ready">Ready</option>
             <option value="served">Served</option>
             <option value="completed">Completed</option>
+            <option value="cancelled">Cancelled</option>
           </select>
+          <button
+            onClick={exportOrders}
+            disabled={orders.length === 0}
+            className="ml-auto flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
         </div>
       </div>
 
+      {actionError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-700">{actionError}</p>
+            </div>
+            <button onClick={() => setActionError('')} className="text-red-600 hover:text-red-800">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Debug Info */}
       {process.env.NODE_ENV === 'development' && (
         <div className="bg-gray-100 p-4 rounded-lg text-sm">
@@ -276,12 +399,30 @@ export default function OrdersPage() {
                   </div>
                   
                   <div className="text-right">
-                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(order.status)}`}>
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${orderStatusColors[order.status]}`}>
                       {order.status.toUpperCase()}
                     </span>
                     <p className="text-xl font-bold text-gray-900 mt-2">
                       ${typeof order.total === 'number' ? order.total.toFixed(2) : order.total}
                     </p>
+                    {Number(order.discount_total) > 0 && (
+                      <p className="text-xs text-green-700">-${Number(order.discount_total).toFixed(2)} discounts</p>
+                    )}
+                    {(Number(order.tax_total) > 0 || Number(order.service_charge) > 0) && (
+                      <p className="text-xs text-gray-500">
+                        {order.tax_inclusive ? 'incl.' : '+'} ${Number(order.tax_total).toFixed(2)} tax
+                        {Number(order.service_charge) > 0 && ` • $${Number(order.service_charge).toFixed(2)} service`}
+                      </p>
+                    )}
+                    {order.payments && order.payments.length > 0 && (
+                      <p className="text-sm text-gray-500">
+                        Paid ${getAmountPaid(order.payments).toFixed(2)}
+                        {getBalance(order, order.payments) > 0 && ` • $${getBalance(order, order.payments).toFixed(2)} due`}
+                      </p>
+                    )}
+                    {getRefundedAmount(order.refunds || []) > 0 && (
+                      <p className="text-sm text-red-600">Refunded ${getRefundedAmount(order.refunds || []).toFixed(2)}</p>
+                    )}
                   </div>
                 </div>
 
@@ -291,22 +432,45 @@ export default function OrdersPage() {
                     <h4 className="text-sm font-medium text-gray-700 mb-3">Order Items:</h4>
                     <div className="space-y-2">
                       {order.order_items.map((item) => (
-                        <div key={item.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div key={item.id} className={`flex items-center justify-between p-3 rounded-lg ${item.voided ? 'bg-red-50' : 'bg-gray-50'}`}>
                           <div>
-                            <span className="font-medium text-gray-900">
+                            <span className={`font-medium ${item.voided ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
                               {item.quantity}x {item.menu_item?.name || 'Unknown Item'}
                             </span>
+                            {item.modifiers && item.modifiers.length > 0 && (
+                              <p className="text-sm text-gray-700">{formatModifiers(item.modifiers)}</p>
+                            )}
                             {item.notes && (
                               <p className="text-sm text-gray-600 italic">Note: {item.notes}</p>
                             )}
+                            {item.voided && (
+                              <p className="text-sm text-red-700">
+                                Voided{item.void_reason ? `: ${item.void_reason}` : ''}
+                                {item.voided_by_name && <span className="text-gray-500"> • by {item.voided_by_name}</span>}
+                                {item.void_approved_by_name && item.void_approved_by_name !== item.voided_by_name && (
+                                  <span className="text-gray-500"> • approved by {item.void_approved_by_name}</span>
+                                )}
+                              </p>
+                            )}
                           </div>
-                          <div className="text-right">
-                            <span className="font-medium text-gray-900">
-                              ${typeof item.price === 'number' ? item.price.toFixed(2) : item.price}
-                            </span>
-                            <span className={`block text-xs px-2 py-1 rounded mt-1 ${getStatusColor(item.status)}`}>
-                              {item.status}
-                            </span>
+                          <div className="flex items-center gap-3">
+                            {canVoidItem(order, item, user) && (
+                              <button
+                                onClick={() => setVoiding({ order, item })}
+                                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                title="Void item"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </button>
+                            )}
+                            <div className="text-right">
+                              <span className={`font-medium ${item.voided ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                                ${typeof item.price === 'number' ? item.price.toFixed(2) : item.price}
+                              </span>
+                              <span className={`block text-xs px-2 py-1 rounded mt-1 ${item.voided ? 'bg-red-100 text-red-800' : orderStatusColors[item.status]}`}>
+                                {item.voided ? 'void' : item.status}
+                              </span>
+                            </div>
                           </div>
                         </div>
                       ))}
@@ -314,33 +478,109 @@ export default function OrdersPage() {
                   </div>
                 )}
 
+                {order.status_events && <OrderTimeline events={order.status_events} />}
+
+                {order.status === 'cancelled' && order.cancel_reason && (
+                  <div className="border-t border-gray-100 pt-4 mt-4 text-sm text-red-700">
+                    Cancelled{order.cancelled_at ? ` at ${new Date(order.cancelled_at).toLocaleTimeString()}` : ''}: {order.cancel_reason}
+                  </div>
+                )}
+
                 {/* Action Buttons */}
-                {canUpdateStatus(order) && (
+                {(getAllowedNextStatuses(order, user).length > 0 || canCancelOrder(order, user) || canTakePayment(order, user) || canDiscount(order, user) || canRefund(order, user)) && (
                   <div className="border-t border-gray-100 pt-4 mt-4">
-                    <div className="flex gap-2">
-                      {getNextStatus(order.status, user?.role || '') && (
+                    <div className="flex flex-wrap gap-2">
+                      {/* Completing an order goes through settling its bill */}
+                      {getNextStatus(order, user) && getNextStatus(order, user) !== 'completed' && (
                         <button
-                          onClick={() => updateOrderStatus(order.id, getNextStatus(order.status, user?.role || '') || '')}
+                          onClick={() => updateOrderStatus(order.id, getNextStatus(order, user)!)}
                           className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                         >
-                          Mark as {getNextStatus(order.status, user?.role || '')?.replace('_', ' ')}
+                          Mark as {getNextStatus(order, user)}
+                        </button>
+                      )}
+
+                      {canTakePayment(order, user) && (
+                        <button
+                          onClick={() => setSettlingOrder(order)}
+                          className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                        >
+                          <Receipt className="w-4 h-4" />
+                          Settle Bill
+                        </button>
+                      )}
+
+                      {canDiscount(order, user) && (
+                        <button
+                          onClick={() => setDiscountingOrder(order)}
+                          className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          <Tag className="w-4 h-4" />
+                          Discount
+                        </button>
+                      )}
+
+                      {canRefund(order, user) && (
+                        <button
+                          onClick={() => setRefundingOrder(order)}
+                          className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          Refund
                         </button>
                       )}
-                      
-                      {user?.role === 'manager' && (
+
+                      {user.role === 'manager' && getAllowedNextStatuses(order, user).length > 1 && (
                         <select
-                          value={order.status}
-                          onChange={(e) => updateOrderStatus(order.id, e.target.value)}
+                          value=""
+                          onChange={(e) => e.target.value && updateOrderStatus(order.id, e.target.value as Order['status'])}
                           className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
                         >
-                          <option value="pending">Pending</option>
-                          <option value="preparing">Preparing</option>
-                          <option value="ready">Ready</option>
-                          <option value="served">Served</option>
-                          <option value="completed">Completed</option>
+                          <option value="">Skip to...</option>
+                          {getAllowedNextStatuses(order, user).slice(1).map((status) => (
+                            <option key={status} value={status} className="capitalize">{status}</option>
+                          ))}
                         </select>
                       )}
+
+                      {canCancelOrder(order, user) && cancellingOrderId !== order.id && (
+                        <button
+                          onClick={() => {
+                            setCancellingOrderId(order.id);
+                            setCancelReason('');
+                          }}
+                          className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                        >
+                          Cancel Order
+                        </button>
+                      )}
                     </div>
+
+                    {cancellingOrderId === order.id && (
+                      <div className="flex flex-col md:flex-row gap-2 mt-3">
+                        <input
+                          type="text"
+                          value={cancelReason}
+                          onChange={(e) => setCancelReason(e.target.value)}
+                          placeholder="Reason for cancelling (required)"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                          autoFocus
+                        />
+                        <button
+                          onClick={() => cancelOrder(order.id)}
+                          disabled={!cancelReason.trim()}
+                          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          Confirm Cancel
+                        </button>
+                        <button
+                          onClick={() => setCancellingOrderId(null)}
+                          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          Keep Order
+                        </button>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -373,6 +613,39 @@ export default function OrdersPage() {
           </div>
         </div>
       )}
+
+      {settlingOrder && (
+        <SettleBillModal
+          order={settlingOrder}
+          onClose={() => setSettlingOrder(null)}
+          onChanged={() => loadOrders(false)}
+        />
+      )}
+
+      {discountingOrder && (
+        <DiscountModal
+          order={discountingOrder}
+          onClose={() => setDiscountingOrder(null)}
+          onChanged={() => loadOrders(false)}
+        />
+      )}
+
+      {voiding && (
+        <VoidItemModal
+          order={voiding.order}
+          item={voiding.item}
+          onClose={() => setVoiding(null)}
+          onVoided={() => loadOrders(false)}
+        />
+      )}
+
+      {refundingOrder && (
+        <RefundModal
+          order={refundingOrder}
+          onClose={() => setRefundingOrder(null)}
+          onChanged={() => loadOrders(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,449 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { AlertCircle, CheckCircle, Percent, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  PricingConfig,
+  DEFAULT_TIP_SUGGESTIONS,
+  formatRate,
+  loadPricingConfig,
+  saveTaxRate,
+  deleteTaxRate,
+  setCategoryTaxRate,
+  updatePricingSettings
+} from '../lib/pricing';
+
+export default function PricingSettingsPage() {
+  const [config, setConfig] = useState<PricingConfig | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [actionError, setActionError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [rateName, setRateName] = useState('');
+  const [rateValue, setRateValue] = useState('');
+  const [defaultRateId, setDefaultRateId] = useState('');
+  const [taxInclusive, setTaxInclusive] = useState(false);
+  const [serviceRate, setServiceRate] = useState('');
+  const [serviceMinParty, setServiceMinParty] = useState('');
+  const [tipSuggestions, setTipSuggestions] = useState('');
+  const [approvalPercent, setApprovalPercent] = useState('');
+  const [approvalAmount, setApprovalAmount] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user?.role === 'manager') {
+      loadSettings();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadSettings = async () => {
+    setLoading(true);
+    setError('');
+
+    const [pricingResult, menuResult] = await Promise.all([
+      loadPricingConfig(),
+      supabase.from('menu_items').select('category')
+    ]);
+
+    const failure = pricingResult.error || menuResult.error?.message;
+    if (failure || !pricingResult.config) {
+      setError(`Failed to load tax settings: ${failure || 'not found'}`);
+      setLoading(false);
+      return;
+    }
+
+    const settings = pricingResult.config.settings;
+    setConfig(pricingResult.config);
+    setCategories(Array.from(new Set((menuResult.data || []).map(item => item.category as string))).sort());
+    setDefaultRateId(settings?.default_tax_rate_id || '');
+    setTaxInclusive(!!settings?.tax_inclusive);
+    setServiceRate(settings ? String(Number(settings.service_charge_rate)) : '0');
+    setServiceMinParty(settings?.service_charge_min_party ? String(settings.service_charge_min_party) : '');
+    setTipSuggestions((settings?.tip_suggestions || DEFAULT_TIP_SUGGESTIONS).join(', '));
+    setApprovalPercent(settings ? String(Number(settings.discount_approval_percent)) : '20');
+    setApprovalAmount(settings ? Number(settings.discount_approval_amount).toFixed(2) : '50.00');
+    setLoading(false);
+  };
+
+  const handleAddRate = async () => {
+    const rate = parseFloat(rateValue);
+    if (!rateName.trim()) {
+      setActionError('Give the tax rate a name');
+      return;
+    }
+    if (isNaN(rate) || rate < 0 || rate >= 100) {
+      setActionError('Enter a rate between 0 and 100');
+      return;
+    }
+
+    setActionError('');
+    const { error: saveError } = await saveTaxRate({ name: rateName.trim(), rate });
+    if (saveError) {
+      setActionError(`Failed to add tax rate: ${saveError}`);
+      return;
+    }
+
+    setRateName('');
+    setRateValue('');
+    await loadSettings();
+  };
+
+  const handleDeleteRate = async (rateId: string, name: string) => {
+    if (!confirm(`Delete the ${name} tax rate? Categories using it will fall back to the default rate.`)) return;
+
+    setActionError('');
+    const { error: deleteError } = await deleteTaxRate(rateId);
+    if (deleteError) {
+      setActionError(`Failed to delete tax rate: ${deleteError}`);
+      return;
+    }
+    await loadSettings();
+  };
+
+  const handleCategoryRate = async (category: string, rateId: string) => {
+    setActionError('');
+    const { error: saveError } = await setCategoryTaxRate(category, rateId || null);
+    if (saveError) {
+      setActionError(`Failed to update ${category}: ${saveError}`);
+      return;
+    }
+    await loadSettings();
+  };
+
+  const handleSaveRules = async () => {
+    const serviceChargeRate = parseFloat(serviceRate) || 0;
+    const minParty = serviceMinParty ? parseInt(serviceMinParty) : null;
+    const tips = tipSuggestions
+      .split(',')
+      .map(value => parseInt(value.trim()))
+      .filter(value => !isNaN(value) && value > 0);
+    const discountPercent = parseFloat(approvalPercent) || 0;
+    const discountAmount = parseFloat(approvalAmount) || 0;
+
+    if (serviceChargeRate < 0 || serviceChargeRate > 100) {
+      setActionError('The service charge must be between 0 and 100%');
+      return;
+    }
+    if (minParty !== null && (isNaN(minParty) || minParty < 1)) {
+      setActionError('The party size for the service charge must be at least 1');
+      return;
+    }
+    if (discountPercent < 0 || discountPercent > 100 || discountAmount < 0) {
+      setActionError('Discount limits must be between 0 and 100%, and no less than $0');
+      return;
+    }
+
+    setSaving(true);
+    setActionError('');
+    setSuccess('');
+    const { error: saveError } = await updatePricingSettings({
+      default_tax_rate_id: defaultRateId || null,
+      tax_inclusive: taxInclusive,
+      service_charge_rate: serviceChargeRate,
+      service_charge_min_party: minParty,
+      tip_suggestions: tips.length > 0 ? tips : DEFAULT_TIP_SUGGESTIONS,
+      discount_approval_percent: discountPercent,
+      discount_approval_amount: discountAmount
+    });
+    setSaving(false);
+
+    if (saveError) {
+      setActionError(`Failed to save settings: ${saveError}`);
+      return;
+    }
+
+    setSuccess('Settings saved. They apply to orders placed from now on.');
+    await loadSettings();
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.role !== 'manager') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const taxRates = config?.taxRates || [];
+  const defaultRate = taxRates.find(rate => rate.id === config?.settings?.default_tax_rate_id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Tax & Service</h1>
+          <p className="text-gray-600">Tax rates, service charges, tip suggestions and discount limits</p>
+        </div>
+        <button
+          onClick={loadSettings}
+          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors self-start lg:self-auto"
+          title="Refresh"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-700">{actionError}</p>
+            </div>
+            <button onClick={() => setActionError('')} className="text-red-600 hover:text-red-800">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <p className="text-green-700">{success}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+        </div>
+      ) : config && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-xl shadow-md border border-gray-100">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">Tax Rates</h3>
+              <p className="text-sm text-gray-600">e.g. one rate for food and another for alcohol</p>
+            </div>
+            <div className="p-6 space-y-4">
+              {taxRates.length > 0 ? (
+                <div className="space-y-2">
+                  {taxRates.map(rate => (
+                    <div key={rate.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                      <div>
+                        <span className="font-medium text-gray-900">{rate.name}</span>
+                        <span className="text-gray-600"> • {formatRate(rate.rate)}</span>
+                        {rate.id === config.settings?.default_tax_rate_id && (
+                          <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs font-medium">Default</span>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleDeleteRate(rate.id, rate.name)}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No tax rates yet. Orders are not taxed until one is set up.</p>
+              )}
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={rateName}
+                  onChange={(e) => setRateName(e.target.value)}
+                  placeholder="Name"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="relative w-28">
+                  <input
+                    type="number"
+                    min="0"
+                    max="99.999"
+                    step="0.001"
+                    value={rateValue}
+                    onChange={(e) => setRateValue(e.target.value)}
+                    placeholder="0"
+                    className="w-full pl-3 pr-7 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <Percent className="w-4 h-4 absolute right-2 top-1/2 -translate-y-1/2 text-gray-400" />
+                </div>
+                <button
+                  onClick={handleAddRate}
+                  className="flex items-center gap-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md border border-gray-100">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">Tax by Category</h3>
+              <p className="text-sm text-gray-600">Categories without their own rate use the default</p>
+            </div>
+            <div className="p-6">
+              {categories.length > 0 ? (
+                <div className="space-y-2">
+                  {categories.map(category => (
+                    <div key={category} className="flex items-center justify-between gap-4 text-sm">
+                      <span className="font-medium text-gray-900">{category}</span>
+                      <select
+                        value={config.categoryRates.find(entry => entry.category === category)?.tax_rate_id || ''}
+                        onChange={(e) => handleCategoryRate(category, e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">
+                          Default{defaultRate ? ` (${defaultRate.name}, ${formatRate(defaultRate.rate)})` : ' (no tax)'}
+                        </option>
+                        {taxRates.map(rate => (
+                          <option key={rate.id} value={rate.id}>{rate.name} ({formatRate(rate.rate)})</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Add menu items to set tax by category.</p>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 lg:col-span-2">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">Pricing Rules</h3>
+              <p className="text-sm text-gray-600">Orders keep the rules they were placed under</p>
+            </div>
+            <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="default-tax-rate" className="block text-sm font-medium text-gray-700 mb-1">Default Tax Rate</label>
+                <select
+                  id="default-tax-rate"
+                  value={defaultRateId}
+                  onChange={(e) => setDefaultRateId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">No tax</option>
+                  {taxRates.map(rate => (
+                    <option key={rate.id} value={rate.id}>{rate.name} ({formatRate(rate.rate)})</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Menu Prices</span>
+                <div className="flex gap-2">
+                  {[
+                    { value: false, label: 'Tax added on top' },
+                    { value: true, label: 'Tax included' }
+                  ].map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => setTaxInclusive(option.value)}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                        taxInclusive === option.value ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="service-charge-rate" className="block text-sm font-medium text-gray-700 mb-1">Service Charge (%)</label>
+                  <input
+                    id="service-charge-rate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={serviceRate}
+                    onChange={(e) => setServiceRate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="service-charge-party" className="block text-sm font-medium text-gray-700 mb-1">For Parties Of</label>
+                  <input
+                    id="service-charge-party"
+                    type="number"
+                    min="1"
+                    value={serviceMinParty}
+                    onChange={(e) => setServiceMinParty(e.target.value)}
+                    placeholder="Off"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">or more guests; leave blank for no service charge</p>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="tip-suggestions" className="block text-sm font-medium text-gray-700 mb-1">Tip Suggestions (%)</label>
+                <input
+                  id="tip-suggestions"
+                  type="text"
+                  value={tipSuggestions}
+                  onChange={(e) => setTipSuggestions(e.target.value)}
+                  placeholder={DEFAULT_TIP_SUGGESTIONS.join(', ')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">Offered when taking payment, worked out before tax</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="discount-approval-percent" className="block text-sm font-medium text-gray-700 mb-1">Discount Limit (%)</label>
+                  <input
+                    id="discount-approval-percent"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={approvalPercent}
+                    onChange={(e) => setApprovalPercent(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="discount-approval-amount" className="block text-sm font-medium text-gray-700 mb-1">Discount Limit ($)</label>
+                  <input
+                    id="discount-approval-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={approvalAmount}
+                    onChange={(e) => setApprovalAmount(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-gray-500 -mt-2">
+                  Discounts on an order beyond either limit need a manager and a reason
+                </p>
+              </div>
+
+              <div className="md:col-span-2 flex justify-end">
+                <button
+                  onClick={handleSaveRules}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Rules'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
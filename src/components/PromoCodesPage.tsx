@@ -0,0 +1,410 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Navigate } from 'react-router-dom';
+import { AlertCircle, Pause, Pencil, Play, Plus, RefreshCw, Ticket, X } from 'lucide-react';
+import { PromoCode } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  DiscountType,
+  PromoStatus,
+  describeDiscountValue,
+  getPromoStatus,
+  loadPromoCodes,
+  savePromoCode,
+  setPromoCodeActive
+} from '../lib/discounts';
+import { addDays, parseDateInput, toDateInputValue } from '../lib/reports';
+
+interface PromoForm {
+  id?: string;
+  code: string;
+  description: string;
+  discountType: DiscountType;
+  value: string;
+  startsOn: string;
+  endsOn: string;
+  maxUses: string;
+}
+
+const EMPTY_FORM: PromoForm = {
+  code: '',
+  description: '',
+  discountType: 'percent',
+  value: '',
+  startsOn: '',
+  endsOn: '',
+  maxUses: ''
+};
+
+const statusStyles: Record<PromoStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-100 text-gray-600',
+  'used up': 'bg-gray-100 text-gray-600',
+  paused: 'bg-yellow-100 text-yellow-800'
+};
+
+// The window is kept in whole days: a code ending on the 5th works until midnight
+const formatWindow = (promo: PromoCode) => {
+  const from = promo.starts_at ? new Date(promo.starts_at).toLocaleDateString() : null;
+  const until = promo.ends_at ? addDays(new Date(promo.ends_at), -1).toLocaleDateString() : null;
+  if (from && until) return `${from} – ${until}`;
+  if (from) return `From ${from}`;
+  if (until) return `Until ${until}`;
+  return 'No end date';
+};
+
+export default function PromoCodesPage() {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [actionError, setActionError] = useState('');
+  const [form, setForm] = useState<PromoForm | null>(null);
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user?.role === 'manager') {
+      loadCodes();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadCodes = async () => {
+    setLoading(true);
+    setError('');
+    const { promoCodes: loaded, error: loadError } = await loadPromoCodes();
+    if (loadError) {
+      setError(`Failed to load promo codes: ${loadError}`);
+    }
+    setPromoCodes(loaded);
+    setLoading(false);
+  };
+
+  const openPromo = (promo: PromoCode) => {
+    setFormError('');
+    setForm({
+      id: promo.id,
+      code: promo.code,
+      description: promo.description || '',
+      discountType: promo.discount_type,
+      value: String(Number(promo.value)),
+      startsOn: promo.starts_at ? toDateInputValue(new Date(promo.starts_at)) : '',
+      endsOn: promo.ends_at ? toDateInputValue(addDays(new Date(promo.ends_at), -1)) : '',
+      maxUses: promo.max_uses ? String(promo.max_uses) : ''
+    });
+  };
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user || !form) return;
+
+    const value = parseFloat(form.value);
+    const maxUses = form.maxUses ? parseInt(form.maxUses) : null;
+    if (!form.code.trim()) {
+      setFormError('Enter the code guests will type');
+      return;
+    }
+    if (!value || value <= 0 || (form.discountType === 'percent' && value > 100)) {
+      setFormError(form.discountType === 'percent' ? 'Enter a percentage between 0 and 100' : 'Enter the amount off');
+      return;
+    }
+    if (form.startsOn && form.endsOn && form.endsOn < form.startsOn) {
+      setFormError('The last day cannot be before the first');
+      return;
+    }
+    if (maxUses !== null && (isNaN(maxUses) || maxUses < 1)) {
+      setFormError('The usage limit must be at least 1');
+      return;
+    }
+
+    setSaving(true);
+    setFormError('');
+    const { error: saveError } = await savePromoCode({
+      code: form.code,
+      description: form.description.trim() || null,
+      discount_type: form.discountType,
+      value,
+      starts_at: form.startsOn ? parseDateInput(form.startsOn).toISOString() : null,
+      ends_at: form.endsOn ? addDays(parseDateInput(form.endsOn), 1).toISOString() : null,
+      max_uses: maxUses
+    }, user, form.id);
+    setSaving(false);
+
+    if (saveError) {
+      setFormError(saveError);
+      return;
+    }
+    setForm(null);
+    await loadCodes();
+  };
+
+  const handleToggleActive = async (promo: PromoCode) => {
+    setActionError('');
+    const { error: toggleError } = await setPromoCodeActive(promo.id, !promo.active);
+    if (toggleError) {
+      setActionError(`Failed to update ${promo.code}: ${toggleError}`);
+      return;
+    }
+    setPromoCodes(current => current.map(existing =>
+      existing.id === promo.id ? { ...existing, active: !promo.active } : existing));
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.role !== 'manager') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Promotions</h1>
+          <p className="text-gray-600">Promo codes customers can enter at checkout</p>
+        </div>
+        <div className="flex items-center gap-2 self-start lg:self-auto">
+          <button
+            onClick={loadCodes}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => {
+              setFormError('');
+              setForm(EMPTY_FORM);
+            }}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Code
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-700">{actionError}</p>
+            </div>
+            <button onClick={() => setActionError('')} className="text-red-600 hover:text-red-800">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+        </div>
+      ) : promoCodes.length > 0 ? (
+        <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-6 py-3 font-medium">Code</th>
+                <th className="px-6 py-3 font-medium">Discount</th>
+                <th className="px-6 py-3 font-medium">Valid</th>
+                <th className="px-6 py-3 font-medium">Uses</th>
+                <th className="px-6 py-3 font-medium">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {promoCodes.map(promo => {
+                const status = getPromoStatus(promo);
+                return (
+                  <tr key={promo.id}>
+                    <td className="px-6 py-4">
+                      <span className="font-mono font-medium text-gray-900">{promo.code}</span>
+                      {promo.description && <p className="text-gray-500">{promo.description}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-gray-900">{describeDiscountValue(promo)}</td>
+                    <td className="px-6 py-4 text-gray-600">{formatWindow(promo)}</td>
+                    <td className="px-6 py-4 text-gray-600">
+                      {promo.use_count}{promo.max_uses ? ` of ${promo.max_uses}` : ''}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[status]}`}>
+                        {status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-end gap-1">
+                        <button
+                          onClick={() => openPromo(promo)}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(promo)}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          title={promo.active ? 'Pause' : 'Resume'}
+                        >
+                          {promo.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 p-8">
+            <Ticket className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-600 mb-2">No promo codes yet</h3>
+            <p className="text-gray-500">Create a code to offer customers a discount at checkout.</p>
+          </div>
+        </div>
+      )}
+
+      {form && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <form onSubmit={handleSave} className="bg-white rounded-xl shadow-xl max-w-lg w-full overflow-hidden">
+            <div className="bg-gradient-to-r from-blue-500 to-blue-600 p-6 text-white flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="p-3 bg-white/20 rounded-lg">
+                  <Ticket className="w-6 h-6" />
+                </div>
+                <h2 className="text-xl font-bold">{form.id ? `Edit ${form.code}` : 'New Promo Code'}</h2>
+              </div>
+              <button type="button" onClick={() => setForm(null)} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="promo-code" className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                  <input
+                    id="promo-code"
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    placeholder="SUMMER10"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="promo-value" className="block text-sm font-medium text-gray-700 mb-1">Discount</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={form.discountType}
+                      onChange={(e) => setForm({ ...form, discountType: e.target.value as DiscountType })}
+                      className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="percent">%</option>
+                      <option value="fixed">$</option>
+                    </select>
+                    <input
+                      id="promo-value"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={form.value}
+                      onChange={(e) => setForm({ ...form, value: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="promo-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  id="promo-description"
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Shown to the customer when the code is applied"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="promo-starts" className="block text-sm font-medium text-gray-700 mb-1">First Day</label>
+                  <input
+                    id="promo-starts"
+                    type="date"
+                    value={form.startsOn}
+                    onChange={(e) => setForm({ ...form, startsOn: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="promo-ends" className="block text-sm font-medium text-gray-700 mb-1">Last Day</label>
+                  <input
+                    id="promo-ends"
+                    type="date"
+                    value={form.endsOn}
+                    onChange={(e) => setForm({ ...form, endsOn: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="promo-max-uses" className="block text-sm font-medium text-gray-700 mb-1">Usage Limit</label>
+                  <input
+                    id="promo-max-uses"
+                    type="number"
+                    min="1"
+                    value={form.maxUses}
+                    onChange={(e) => setForm({ ...form, maxUses: e.target.value })}
+                    placeholder="None"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">Leave the dates blank for a code that works straight away and does not expire.</p>
+
+              {formError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+                  <AlertCircle className="w-4 h-4" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Code'}
+                </button>
+              </div>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
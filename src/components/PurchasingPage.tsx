@@ -0,0 +1,852 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import {
+  Truck, ClipboardList, Building2, DollarSign, Plus, Trash2, AlertCircle, AlertTriangle, RefreshCw, PackageCheck, Send, X
+} from 'lucide-react';
+import {
+  supabase, Ingredient, IngredientCost, MenuItem, MenuItemFoodCost, PurchaseOrder, Supplier
+} from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { formatQuantity } from '../lib/inventory';
+import {
+  purchaseOrderStatusLabels,
+  getSuggestedQuantity,
+  buildSuggestedOrders,
+  formatCost,
+  getLineTotal,
+  getPurchaseOrderTotal,
+  getFoodCostPercent,
+  createPurchaseOrder,
+  receivePurchaseOrder
+} from '../lib/purchasing';
+
+type PurchasingTab = 'reorder' | 'orders' | 'suppliers' | 'costs';
+
+interface ReceivingLine {
+  quantity: string;
+  unitCost: string;
+}
+
+const statusStyles: Record<PurchaseOrder['status'], string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-blue-100 text-blue-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+export default function PurchasingPage() {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [costHistory, setCostHistory] = useState<IngredientCost[]>([]);
+  const [menuItems, setMenuItems] = useState<Pick<MenuItem, 'id' | 'name' | 'category'>[]>([]);
+  const [foodCosts, setFoodCosts] = useState<MenuItemFoodCost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [tab, setTab] = useState<PurchasingTab>('reorder');
+  const [orderQuantities, setOrderQuantities] = useState<Record<string, string>>({});
+  const [creatingFor, setCreatingFor] = useState<string | null>(null);
+  const [supplierForm, setSupplierForm] = useState({ name: '', contact_name: '', email: '', phone: '' });
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+  const [receivingLines, setReceivingLines] = useState<Record<string, ReceivingLine>>({});
+  const [receiveError, setReceiveError] = useState('');
+  const [savingReceipt, setSavingReceipt] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user?.role === 'manager') {
+      loadData();
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadData = async () => {
+    try {
+      setError('');
+
+      const [ingredientsResult, suppliersResult, ordersResult, costsResult, menuResult, foodCostsResult] = await Promise.all([
+        supabase
+          .from('ingredients')
+          .select('*')
+          .order('name', { ascending: true }),
+        supabase
+          .from('suppliers')
+          .select('*')
+          .order('name', { ascending: true }),
+        supabase
+          .from('purchase_orders')
+          .select(`
+            *,
+            supplier:suppliers (*),
+            purchase_order_items (
+              *,
+              ingredient:ingredients (*)
+            )
+          `)
+          .order('created_at', { ascending: false })
+          .limit(50),
+        supabase
+          .from('ingredient_costs')
+          .select(`
+            *,
+            ingredient:ingredients (*),
+            supplier:suppliers (*)
+          `)
+          .order('created_at', { ascending: false })
+          .limit(100),
+        supabase
+          .from('menu_items')
+          .select('id, name, category')
+          .order('name', { ascending: true }),
+        supabase
+          .from('menu_item_food_costs')
+          .select('*')
+      ]);
+
+      const failed = [ingredientsResult, suppliersResult, ordersResult, costsResult, menuResult, foodCostsResult]
+        .find(result => result.error);
+      if (failed?.error) {
+        console.error('Error loading purchasing:', failed.error);
+        setError(`Failed to load purchasing: ${failed.error.message}`);
+        return;
+      }
+
+      setIngredients(ingredientsResult.data || []);
+      setSuppliers(suppliersResult.data || []);
+      setPurchaseOrders(ordersResult.data || []);
+      setCostHistory(costsResult.data || []);
+      setMenuItems(menuResult.data || []);
+      setFoodCosts(foodCostsResult.data || []);
+    } catch (err) {
+      console.error('Error loading purchasing:', err);
+      setError('An unexpected error occurred while loading purchasing');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateIngredient = async (ingredient: Ingredient, changes: Partial<Pick<Ingredient, 'par_level' | 'supplier_id'>>) => {
+    const { error: updateError } = await supabase
+      .from('ingredients')
+      .update(changes)
+      .eq('id', ingredient.id);
+
+    if (updateError) {
+      console.error('Error updating ingredient:', updateError);
+      setError(`Failed to update ${ingredient.name}: ${updateError.message}`);
+      return;
+    }
+
+    setIngredients(prev => prev.map(existing =>
+      existing.id === ingredient.id ? { ...existing, ...changes } : existing
+    ));
+  };
+
+  const saveParLevel = (ingredient: Ingredient, value: string) => {
+    const parLevel = parseFloat(value);
+    if (isNaN(parLevel) || parLevel < 0 || parLevel === Number(ingredient.par_level)) return;
+    updateIngredient(ingredient, { par_level: parLevel });
+  };
+
+  const createSuggestedOrder = async (supplierId: string) => {
+    if (!user) return;
+
+    const suggestion = buildSuggestedOrders(ingredients).find(order => order.supplierId === supplierId);
+    if (!suggestion) return;
+
+    const lines = suggestion.lines
+      .map(line => ({ ...line, quantity: parseFloat(orderQuantities[line.ingredient.id] ?? String(line.quantity)) }))
+      .filter(line => !isNaN(line.quantity) && line.quantity > 0);
+
+    if (lines.length === 0) {
+      setError('Nothing to order from this supplier');
+      return;
+    }
+
+    setCreatingFor(supplierId);
+    setError('');
+    const { error: createError } = await createPurchaseOrder(supplierId, lines, user);
+    setCreatingFor(null);
+
+    if (createError) {
+      setError(`Failed to create purchase order: ${createError}`);
+      return;
+    }
+
+    setOrderQuantities({});
+    setTab('orders');
+    loadData();
+  };
+
+  const updateOrderStatus = async (order: PurchaseOrder, status: 'ordered' | 'cancelled') => {
+    if (status === 'cancelled' && !confirm('Cancel this purchase order?')) return;
+
+    const { error: updateError } = await supabase
+      .from('purchase_orders')
+      .update(status === 'ordered' ? { status, ordered_at: new Date().toISOString() } : { status })
+      .eq('id', order.id);
+
+    if (updateError) {
+      console.error('Error updating purchase order:', updateError);
+      setError(`Failed to update purchase order: ${updateError.message}`);
+      return;
+    }
+
+    loadData();
+  };
+
+  const openReceiving = (order: PurchaseOrder) => {
+    const lines: Record<string, ReceivingLine> = {};
+    (order.purchase_order_items || []).forEach(item => {
+      const expectedCost = item.unit_cost ?? item.ingredient?.unit_cost;
+      lines[item.id] = {
+        quantity: String(Number(item.quantity_ordered)),
+        unitCost: expectedCost === null || expectedCost === undefined ? '' : String(Number(expectedCost))
+      };
+    });
+    setReceivingLines(lines);
+    setReceiveError('');
+    setReceiving(order);
+  };
+
+  const submitReceipt = async () => {
+    if (!receiving) return;
+
+    const lines = (receiving.purchase_order_items || []).map(item => {
+      const line = receivingLines[item.id];
+      return {
+        purchase_order_item_id: item.id,
+        quantity_received: parseFloat(line?.quantity) || 0,
+        unit_cost: line?.unitCost === '' || line?.unitCost === undefined ? null : parseFloat(line.unitCost)
+      };
+    });
+
+    if (lines.some(line => line.quantity_received < 0 || (line.unit_cost !== null && (isNaN(line.unit_cost) || line.unit_cost < 0)))) {
+      setReceiveError('Quantities and costs cannot be negative');
+      return;
+    }
+
+    if (lines.some(line => line.quantity_received > 0 && line.unit_cost === null)) {
+      setReceiveError('Please enter a unit cost for every delivered line');
+      return;
+    }
+
+    setSavingReceipt(true);
+    const { error: receiptError } = await receivePurchaseOrder(receiving.id, lines);
+    setSavingReceipt(false);
+
+    if (receiptError) {
+      setReceiveError(receiptError);
+      return;
+    }
+
+    setReceiving(null);
+    loadData();
+  };
+
+  const addSupplier = async () => {
+    const name = supplierForm.name.trim();
+    if (!name) {
+      setError('Please enter a supplier name');
+      return;
+    }
+
+    const { error: insertError } = await supabase
+      .from('suppliers')
+      .insert([{
+        name,
+        contact_name: supplierForm.contact_name.trim() || null,
+        email: supplierForm.email.trim() || null,
+        phone: supplierForm.phone.trim() || null
+      }]);
+
+    if (insertError) {
+      console.error('Error adding supplier:', insertError);
+      setError(insertError.code === '23505'
+        ? `${name} is already a supplier`
+        : `Failed to add supplier: ${insertError.message}`);
+      return;
+    }
+
+    setSupplierForm({ name: '', contact_name: '', email: '', phone: '' });
+    setError('');
+    loadData();
+  };
+
+  const deleteSupplier = async (supplier: Supplier) => {
+    if (!confirm(`Remove ${supplier.name}? Ingredients bought from them will have no supplier.`)) {
+      return;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('suppliers')
+      .delete()
+      .eq('id', supplier.id);
+
+    if (deleteError) {
+      console.error('Error deleting supplier:', deleteError);
+      setError(deleteError.code === '23503'
+        ? `${supplier.name} has purchase orders and cannot be removed`
+        : `Failed to remove supplier: ${deleteError.message}`);
+      return;
+    }
+
+    loadData();
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.role !== 'manager') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const supplierName = (supplierId: string | null | undefined) =>
+    suppliers.find(supplier => supplier.id === supplierId)?.name || 'No supplier';
+  const suggestedOrders = buildSuggestedOrders(ingredients);
+  const belowPar = ingredients.filter(ingredient => getSuggestedQuantity(ingredient) > 0);
+  const openOrders = purchaseOrders.filter(order => order.status === 'draft' || order.status === 'ordered');
+  const foodCostByItem = new Map(foodCosts.map(cost => [cost.menu_item_id, cost]));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Purchasing</h1>
+          <p className="text-gray-600">Par levels, suppliers, purchase orders and food cost</p>
+        </div>
+        <button
+          onClick={loadData}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700 flex-1">{error}</p>
+          <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Below Par</p>
+            <p className="text-2xl font-bold text-gray-900">{belowPar.length}</p>
+          </div>
+          <div className="p-3 bg-red-50 rounded-lg">
+            <AlertTriangle className="w-6 h-6 text-red-600" />
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Open Purchase Orders</p>
+            <p className="text-2xl font-bold text-gray-900">{openOrders.length}</p>
+          </div>
+          <div className="p-3 bg-blue-50 rounded-lg">
+            <Truck className="w-6 h-6 text-blue-600" />
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Suppliers</p>
+            <p className="text-2xl font-bold text-gray-900">{suppliers.length}</p>
+          </div>
+          <div className="p-3 bg-green-50 rounded-lg">
+            <Building2 className="w-6 h-6 text-green-600" />
+          </div>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2 border-b border-gray-200">
+        {([
+          ['reorder', 'Reorder', ClipboardList],
+          ['orders', 'Purchase Orders', Truck],
+          ['suppliers', 'Suppliers', Building2],
+          ['costs', 'Food Cost', DollarSign]
+        ] as const).map(([value, label, Icon]) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`flex items-center gap-2 px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+              tab === value ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'reorder' && (
+        <>
+          {/* Suggested Orders */}
+          <div className="bg-white rounded-xl shadow-md border border-gray-100">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">Suggested Orders</h3>
+              <p className="text-sm text-gray-500">Everything below par, topped back up to par. Adjust quantities before creating a draft.</p>
+            </div>
+            {suggestedOrders.length > 0 ? (
+              <div className="divide-y divide-gray-100">
+                {suggestedOrders.map(({ supplierId, lines }) => (
+                  <div key={supplierId ?? 'none'} className="p-6 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium text-gray-900">{supplierName(supplierId)}</h4>
+                      {supplierId ? (
+                        <button
+                          onClick={() => createSuggestedOrder(supplierId)}
+                          disabled={creatingFor === supplierId}
+                          className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                          <Plus className="w-4 h-4" />
+                          {creatingFor === supplierId ? 'Creating...' : 'Create Draft PO'}
+                        </button>
+                      ) : (
+                        <span className="text-sm text-yellow-700">Assign a supplier below to order these</span>
+                      )}
+                    </div>
+                    <table className="w-full text-sm">
+                      <tbody className="divide-y divide-gray-100">
+                        {lines.map(line => (
+                          <tr key={line.ingredient.id}>
+                            <td className="py-2 text-gray-900">{line.ingredient.name}</td>
+                            <td className="py-2 text-right text-gray-500">
+                              {formatQuantity(line.ingredient.on_hand, line.ingredient.unit)} of {formatQuantity(line.ingredient.par_level, line.ingredient.unit)}
+                            </td>
+                            <td className="py-2 text-right">
+                              <input
+                                type="number"
+                                min="0"
+                                step="any"
+                                value={orderQuantities[line.ingredient.id] ?? String(line.quantity)}
+                                onChange={(e) => setOrderQuantities(prev => ({ ...prev, [line.ingredient.id]: e.target.value }))}
+                                disabled={!supplierId}
+                                className="w-24 px-2 py-1 border border-gray-300 rounded text-right"
+                              />
+                              <span className="ml-1 text-gray-500">{line.ingredient.unit}</span>
+                            </td>
+                            <td className="py-2 text-right text-gray-500 w-28">
+                              {formatCost(line.unitCost)} / {line.ingredient.unit}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-8">Everything is at or above par.</p>
+            )}
+          </div>
+
+          {/* Par Levels */}
+          <div className="bg-white rounded-xl shadow-md border border-gray-100">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">Par Levels</h3>
+              <p className="text-sm text-gray-500">How much of each ingredient to keep, and who it is bought from</p>
+            </div>
+            {ingredients.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="text-left px-6 py-3 font-medium">Ingredient</th>
+                      <th className="text-right px-6 py-3 font-medium">On hand</th>
+                      <th className="text-right px-6 py-3 font-medium">Par</th>
+                      <th className="text-left px-6 py-3 font-medium">Supplier</th>
+                      <th className="text-right px-6 py-3 font-medium">Last cost</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {ingredients.map(ingredient => (
+                      <tr key={ingredient.id} className={getSuggestedQuantity(ingredient) > 0 ? 'bg-yellow-50' : ''}>
+                        <td className="px-6 py-3 font-medium text-gray-900">{ingredient.name}</td>
+                        <td className="px-6 py-3 text-right text-gray-900">
+                          {formatQuantity(ingredient.on_hand, ingredient.unit)}
+                        </td>
+                        <td className="px-6 py-3 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            defaultValue={Number(ingredient.par_level)}
+                            onBlur={(e) => saveParLevel(ingredient, e.target.value)}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded text-right"
+                          />
+                        </td>
+                        <td className="px-6 py-3">
+                          <select
+                            value={ingredient.supplier_id || ''}
+                            onChange={(e) => updateIngredient(ingredient, { supplier_id: e.target.value || null })}
+                            className="px-2 py-1 border border-gray-300 rounded"
+                          >
+                            <option value="">No supplier</option>
+                            {suppliers.map(supplier => (
+                              <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-6 py-3 text-right text-gray-700">
+                          {formatCost(ingredient.unit_cost)} / {ingredient.unit}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-8">No ingredients yet. Add them on the Inventory page.</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {tab === 'orders' && (
+        <div className="space-y-4">
+          {purchaseOrders.length > 0 ? purchaseOrders.map(order => (
+            <div key={order.id} className="bg-white rounded-xl shadow-md border border-gray-100 p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h4 className="font-semibold text-gray-900">
+                    {order.supplier?.name || 'Unknown supplier'}
+                    <span className="ml-2 text-sm font-normal text-gray-500">PO #{order.id.slice(0, 8)}</span>
+                  </h4>
+                  <p className="text-sm text-gray-500">
+                    Raised {new Date(order.created_at).toLocaleDateString()}
+                    {order.created_by_name && ` by ${order.created_by_name}`}
+                    {order.received_at && ` • received ${new Date(order.received_at).toLocaleDateString()}`}
+                    {order.received_by_name && ` by ${order.received_by_name}`}
+                  </p>
+                </div>
+                <span className={`px-3 py-1 rounded-full text-xs font-medium ${statusStyles[order.status]}`}>
+                  {purchaseOrderStatusLabels[order.status]}
+                </span>
+              </div>
+
+              <table className="w-full text-sm mb-4">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="text-left py-1 font-medium">Ingredient</th>
+                    <th className="text-right py-1 font-medium">Ordered</th>
+                    <th className="text-right py-1 font-medium">{order.status === 'received' ? 'Received' : 'Unit cost'}</th>
+                    <th className="text-right py-1 font-medium">{order.status === 'received' ? 'Paid' : 'Expected'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {(order.purchase_order_items || []).map(item => {
+                    const unit = item.ingredient?.unit || 'each';
+                    const lineTotal = order.status === 'received'
+                      ? getLineTotal(item.quantity_received, item.received_unit_cost)
+                      : getLineTotal(item.quantity_ordered, item.unit_cost);
+                    return (
+                      <tr key={item.id}>
+                        <td className="py-2 text-gray-900">{item.ingredient?.name || 'Removed ingredient'}</td>
+                        <td className="py-2 text-right text-gray-700">{formatQuantity(item.quantity_ordered, unit)}</td>
+                        <td className="py-2 text-right text-gray-700">
+                          {order.status === 'received'
+                            ? `${formatQuantity(item.quantity_received ?? 0, unit)} @ ${formatCost(item.received_unit_cost)}`
+                            : formatCost(item.unit_cost)}
+                        </td>
+                        <td className="py-2 text-right text-gray-900">{lineTotal === null ? '—' : `$${lineTotal.toFixed(2)}`}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-gray-900">
+                  {order.status === 'received' ? 'Total paid' : 'Expected total'}: ${getPurchaseOrderTotal(order).toFixed(2)}
+                </span>
+                {(order.status === 'draft' || order.status === 'ordered') && (
+                  <div className="flex gap-2">
+                    {order.status === 'draft' && (
+                      <button
+                        onClick={() => updateOrderStatus(order, 'ordered')}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+                      >
+                        <Send className="w-4 h-4" />
+                        Mark Ordered
+                      </button>
+                    )}
+                    <button
+                      onClick={() => openReceiving(order)}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 transition-colors"
+                    >
+                      <PackageCheck className="w-4 h-4" />
+                      Receive Delivery
+                    </button>
+                    <button
+                      onClick={() => updateOrderStatus(order, 'cancelled')}
+                      className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          )) : (
+            <div className="bg-white rounded-xl shadow-md border border-gray-100 p-8 text-center text-gray-500">
+              No purchase orders yet. Create one from the Reorder tab.
+            </div>
+          )}
+        </div>
+      )}
+
+      {tab === 'suppliers' && (
+        <>
+          <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Add Supplier</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <input
+                type="text"
+                value={supplierForm.name}
+                onChange={(e) => setSupplierForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Company name"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="text"
+                value={supplierForm.contact_name}
+                onChange={(e) => setSupplierForm(prev => ({ ...prev, contact_name: e.target.value }))}
+                placeholder="Contact name"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="email"
+                value={supplierForm.email}
+                onChange={(e) => setSupplierForm(prev => ({ ...prev, email: e.target.value }))}
+                placeholder="Email"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="tel"
+                value={supplierForm.phone}
+                onChange={(e) => setSupplierForm(prev => ({ ...prev, phone: e.target.value }))}
+                placeholder="Phone"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={addSupplier}
+              className="mt-3 flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Supplier
+            </button>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md border border-gray-100">
+            {suppliers.length > 0 ? (
+              <div className="divide-y divide-gray-100">
+                {suppliers.map(supplier => (
+                  <div key={supplier.id} className="px-6 py-4 flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{supplier.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {[supplier.contact_name, supplier.email, supplier.phone].filter(Boolean).join(' • ') || 'No contact details'}
+                        {' • '}{ingredients.filter(ingredient => ingredient.supplier_id === supplier.id).length} ingredients
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => deleteSupplier(supplier)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Remove supplier"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-8">No suppliers yet. Add the first one above.</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {tab === 'costs' && (
+        <>
+          <div className="bg-white rounded-xl shadow-md border border-gray-100">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">Food Cost per Dish</h3>
+              <p className="text-sm text-gray-500">Recipe cost of one portion at the latest delivered prices</p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="text-left px-6 py-3 font-medium">Dish</th>
+                    <th className="text-right px-6 py-3 font-medium">Price</th>
+                    <th className="text-right px-6 py-3 font-medium">Food cost</th>
+                    <th className="text-right px-6 py-3 font-medium">Food cost %</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {menuItems.map(item => {
+                    const cost = foodCostByItem.get(item.id);
+                    const percent = cost ? getFoodCostPercent(cost) : null;
+                    return (
+                      <tr key={item.id}>
+                        <td className="px-6 py-3">
+                          <span className="font-medium text-gray-900">{item.name}</span>
+                          {cost && Number(cost.ingredient_count) === 0 && (
+                            <span className="ml-2 text-xs text-gray-400">no recipe</span>
+                          )}
+                          {cost && Number(cost.uncosted_ingredients) > 0 && (
+                            <span className="ml-2 text-xs text-yellow-700">
+                              {cost.uncosted_ingredients} ingredient{Number(cost.uncosted_ingredients) === 1 ? '' : 's'} not yet costed
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 text-right text-gray-700">${Number(cost?.price ?? 0).toFixed(2)}</td>
+                        <td className="px-6 py-3 text-right text-gray-900">
+                          {cost && Number(cost.ingredient_count) > 0 ? `$${Number(cost.food_cost).toFixed(2)}` : '—'}
+                        </td>
+                        <td className={`px-6 py-3 text-right font-medium ${percent !== null && percent > 35 ? 'text-red-600' : 'text-gray-900'}`}>
+                          {percent === null ? '—' : `${percent.toFixed(1)}%`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md border border-gray-100">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">Ingredient Cost History</h3>
+            </div>
+            {costHistory.length > 0 ? (
+              <div className="divide-y divide-gray-100">
+                {costHistory.map(cost => (
+                  <div key={cost.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">{cost.ingredient?.name || 'Removed ingredient'}</p>
+                      <p className="text-gray-500">
+                        {cost.supplier?.name || 'Unknown supplier'}
+                        {cost.recorded_by_name && ` • ${cost.recorded_by_name}`}
+                        {' • '}{new Date(cost.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium text-gray-900">
+                        {formatCost(cost.unit_cost)} / {cost.ingredient?.unit || 'unit'}
+                      </p>
+                      <p className="text-gray-400">
+                        {cost.ingredient ? formatQuantity(cost.quantity, cost.ingredient.unit) : Number(cost.quantity)} delivered
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-8">No deliveries received yet.</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Receive Delivery Modal */}
+      {receiving && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+            <div className="bg-gradient-to-r from-green-500 to-green-600 p-6 text-white flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold">Receive Delivery</h2>
+                <p className="opacity-90">{receiving.supplier?.name} • PO #{receiving.id.slice(0, 8)}</p>
+              </div>
+              <button onClick={() => setReceiving(null)} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4 overflow-y-auto">
+              {receiveError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{receiveError}</div>
+              )}
+              <p className="text-sm text-gray-500">
+                Enter what actually arrived and what you were charged per unit. Stock goes up by the received amount.
+              </p>
+              <table className="w-full text-sm">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="text-left py-1 font-medium">Ingredient</th>
+                    <th className="text-right py-1 font-medium">Ordered</th>
+                    <th className="text-right py-1 font-medium">Received</th>
+                    <th className="text-right py-1 font-medium">Unit cost ($)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {(receiving.purchase_order_items || []).map(item => (
+                    <tr key={item.id}>
+                      <td className="py-2 text-gray-900">{item.ingredient?.name || 'Removed ingredient'}</td>
+                      <td className="py-2 text-right text-gray-500">
+                        {formatQuantity(item.quantity_ordered, item.ingredient?.unit || 'each')}
+                      </td>
+                      <td className="py-2 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={receivingLines[item.id]?.quantity ?? ''}
+                          onChange={(e) => setReceivingLines(prev => ({ ...prev, [item.id]: { ...prev[item.id], quantity: e.target.value } }))}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded text-right"
+                        />
+                      </td>
+                      <td className="py-2 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={receivingLines[item.id]?.unitCost ?? ''}
+                          onChange={(e) => setReceivingLines(prev => ({ ...prev, [item.id]: { ...prev[item.id], unitCost: e.target.value } }))}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded text-right"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setReceiving(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={submitReceipt}
+                  disabled={savingReceipt}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  {savingReceipt ? 'Saving...' : 'Receive into Stock'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
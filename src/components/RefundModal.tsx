@@ -0,0 +1,307 @@
+import { useState, useEffect } from 'react';
+import { X, RotateCcw, AlertCircle } from 'lucide-react';
+import { Order, OrderItem, MenuItem } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchOrderWithItems } from '../lib/liveOrders';
+import { formatModifiers } from '../lib/modifiers';
+import { paymentMethodLabels, getItemsAmount } from '../lib/payments';
+import { getRefundableAmount, refundPayment } from '../lib/refunds';
+import { getActiveItems } from '../lib/voids';
+
+interface RefundModalProps {
+  order: Order;
+  onClose: () => void;
+  // Called after each refund
+  onChanged: () => void;
+}
+
+type RefundOrder = Order & { order_items?: (OrderItem & { menu_item?: MenuItem })[] };
+
+export default function RefundModal({ order, onClose, onChanged }: RefundModalProps) {
+  const [current, setCurrent] = useState<RefundOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [paymentId, setPaymentId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [managerPin, setManagerPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    loadOrder(order.id);
+  }, [order.id]);
+
+  const loadOrder = async (orderId: string) => {
+    const loaded = await fetchOrderWithItems(orderId) as RefundOrder | null;
+    if (!loaded) {
+      setError('Could not load this order');
+    } else {
+      setCurrent(loaded);
+      // Start on the first payment that still has money to give back
+      const refundable = (loaded.payments || []).find(payment => getRefundableAmount(payment, loaded.refunds || []) > 0);
+      setPaymentId(refundable?.id || '');
+    }
+    setLoading(false);
+  };
+
+  const isManager = user?.role === 'manager';
+  const payments = current?.payments || [];
+  const refunds = current?.refunds || [];
+  const items = getActiveItems(current?.order_items || []);
+  const payment = payments.find(entry => entry.id === paymentId);
+  const refundable = payment ? getRefundableAmount(payment, refunds) : 0;
+
+  // Picking items fills in what they came to, up to what is left on the payment
+  const toggleItem = (itemId: string) => {
+    if (!current) return;
+    const next = selectedItemIds.includes(itemId)
+      ? selectedItemIds.filter(id => id !== itemId)
+      : [...selectedItemIds, itemId];
+    setSelectedItemIds(next);
+    if (next.length > 0) {
+      const itemsAmount = getItemsAmount(items.filter(item => next.includes(item.id)), current);
+      setAmount(Math.min(refundable, itemsAmount).toFixed(2));
+    }
+  };
+
+  const handleRefund = async () => {
+    if (!current || !payment) return;
+
+    const refundAmount = parseFloat(amount) || 0;
+    if (refundAmount <= 0) {
+      setError('Enter an amount to refund');
+      return;
+    }
+    if (refundAmount > refundable + 0.001) {
+      setError(`Only $${refundable.toFixed(2)} of that payment can still be refunded`);
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Give a reason for the refund');
+      return;
+    }
+    if (!isManager && !managerPin.trim()) {
+      setError('A manager needs to enter their PIN');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    setNotice('');
+    const { refund, error: refundError } = await refundPayment({
+      payment,
+      amount: refundAmount,
+      reason: reason.trim(),
+      itemIds: selectedItemIds,
+      managerPin: isManager ? undefined : managerPin.trim()
+    });
+
+    if (refundError || !refund) {
+      setError(refundError || 'Could not refund this payment');
+    } else {
+      setNotice(`Refunded $${Number(refund.amount).toFixed(2)} to ${paymentMethodLabels[refund.method].toLowerCase()}`);
+      setAmount('');
+      setReason('');
+      setSelectedItemIds([]);
+      setManagerPin('');
+      onChanged();
+    }
+    // Reload either way: a pending card refund may have been cancelled
+    await loadOrder(current.id);
+    setSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="bg-gradient-to-r from-blue-500 to-blue-600 p-6 text-white flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-white/20 rounded-lg">
+              <RotateCcw className="w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold">Refund</h2>
+              <p className="opacity-90">
+                Order #{order.id.slice(0, 8)} • {order.table_number ? `Table ${order.table_number}` : order.customer_name}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+          </div>
+        ) : current && (
+          <div className="p-6 space-y-6 overflow-y-auto">
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Payments</h4>
+              <div className="space-y-2">
+                {payments.map(entry => {
+                  const left = getRefundableAmount(entry, refunds);
+                  return (
+                    <label
+                      key={entry.id}
+                      className={`block p-3 rounded-lg text-sm border ${
+                        entry.id === paymentId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-gray-50'
+                      } ${left > 0 ? 'cursor-pointer' : 'text-gray-400'}`}
+                    >
+                      <span className="flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name="refund-payment"
+                            checked={entry.id === paymentId}
+                            disabled={left <= 0}
+                            onChange={() => {
+                              setPaymentId(entry.id);
+                              setSelectedItemIds([]);
+                              setAmount('');
+                            }}
+                          />
+                          <span>
+                            <span className="font-medium">{paymentMethodLabels[entry.method]}</span>
+                            {entry.label && <span> • {entry.label}</span>}
+                            <span className="text-gray-500"> • {new Date(entry.created_at).toLocaleTimeString()}</span>
+                          </span>
+                        </span>
+                        <span className="text-right">
+                          ${Number(entry.amount).toFixed(2)}
+                          <span className="block text-xs text-gray-500">${left.toFixed(2)} refundable</span>
+                        </span>
+                      </span>
+                      {refunds.filter(refund => refund.payment_id === entry.id && refund.status !== 'cancelled').map(refund => (
+                        <span key={refund.id} className="flex justify-between gap-2 mt-1 pl-6 text-xs text-red-700">
+                          <span>
+                            Refunded: {refund.reason}
+                            {refund.created_by_name && <span className="text-gray-500"> • by {refund.created_by_name}</span>}
+                            {refund.approved_by_name && refund.approved_by_name !== refund.created_by_name && (
+                              <span className="text-gray-500"> • approved by {refund.approved_by_name}</span>
+                            )}
+                            {refund.status === 'pending' && <span className="text-yellow-700"> • pending</span>}
+                          </span>
+                          <span>-${Number(refund.amount).toFixed(2)}</span>
+                        </span>
+                      ))}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+                <AlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+
+            {notice && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+                {notice}
+              </div>
+            )}
+
+            {payment ? (
+              <div className="space-y-4">
+                {items.length > 0 && (
+                  <div>
+                    <p className="block text-sm font-medium text-gray-700 mb-1">Items being refunded (optional)</p>
+                    <div className="space-y-1">
+                      {items.map(item => (
+                        <label key={item.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm cursor-pointer hover:bg-gray-100">
+                          <span className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={selectedItemIds.includes(item.id)}
+                              onChange={() => toggleItem(item.id)}
+                              className="rounded border-gray-300"
+                            />
+                            <span>
+                              {item.quantity}x {item.menu_item?.name || 'Unknown Item'}
+                              {item.modifiers && item.modifiers.length > 0 && (
+                                <span className="text-gray-500"> ({formatModifiers(item.modifiers)})</span>
+                              )}
+                            </span>
+                          </span>
+                          <span>${getItemsAmount([item], current).toFixed(2)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="refund-amount" className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount (up to ${refundable.toFixed(2)}; tips are not refunded)
+                  </label>
+                  <input
+                    id="refund-amount"
+                    type="number"
+                    min="0.01"
+                    max={refundable}
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="refund-reason" className="block text-sm font-medium text-gray-700 mb-1">Reason (required)</label>
+                  <input
+                    id="refund-reason"
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Dish was cold"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+
+                {!isManager && (
+                  <div>
+                    <label htmlFor="refund-pin" className="block text-sm font-medium text-gray-700 mb-1">Manager PIN</label>
+                    <input
+                      id="refund-pin"
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="off"
+                      value={managerPin}
+                      onChange={(e) => setManagerPin(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Close
+                  </button>
+                  <button
+                    onClick={handleRefund}
+                    disabled={saving}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    {saving ? 'Refunding...' : 'Refund'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center">Everything paid on this order has been refunded.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
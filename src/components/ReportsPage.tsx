@@ -0,0 +1,470 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import {
+  DollarSign, ClipboardList, Receipt, Utensils, Timer, TrendingUp, TrendingDown, AlertCircle, RefreshCw, Download, Printer
+} from 'lucide-react';
+import { supabase, MenuItem, TimeEntry, User } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  Granularity,
+  SalesOrder,
+  WEEKDAY_LABELS,
+  addDays,
+  dayRange,
+  getPreviousRange,
+  toDateInputValue,
+  parseDateInput,
+  percentChange,
+  formatPercentChange,
+  formatHour,
+  loadSalesOrders,
+  summarizeSales,
+  groupRevenueByPeriod,
+  buildHourlyHeatmap,
+  rankItemSales,
+  revenueByCategory,
+  revenueByWaiter
+} from '../lib/reports';
+import { CsvValue, downloadCsv } from '../lib/export';
+import { printEndOfDay } from '../lib/endOfDay';
+import { loadTimeEntries, getLaborCost, formatHours } from '../lib/timeClock';
+
+const PRESETS = [
+  { label: 'Today', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 }
+];
+
+function ExportButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+      title="Export CSV"
+    >
+      <Download className="w-4 h-4" />
+    </button>
+  );
+}
+
+export default function ReportsPage() {
+  const today = new Date();
+  const [fromDate, setFromDate] = useState(toDateInputValue(addDays(today, -6)));
+  const [toDate, setToDate] = useState(toDateInputValue(today));
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [orders, setOrders] = useState<SalesOrder[]>([]);
+  const [previousOrders, setPreviousOrders] = useState<SalesOrder[]>([]);
+  const [menuItems, setMenuItems] = useState<Pick<MenuItem, 'id' | 'name' | 'category'>[]>([]);
+  const [staff, setStaff] = useState<Pick<User, 'id' | 'name' | 'hourly_rate'>[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [previousTimeEntries, setPreviousTimeEntries] = useState<TimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [printing, setPrinting] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user?.role === 'manager') {
+      loadReport(fromDate, toDate);
+    } else {
+      setLoading(false);
+    }
+  }, [user, fromDate, toDate]);
+
+  const loadReport = async (from: string, to: string) => {
+    if (!from || !to || from > to) {
+      setError('Please choose a start date on or before the end date');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+
+      const range = dayRange(parseDateInput(from), parseDateInput(to));
+      const previousRange = getPreviousRange(range);
+      const [current, previous, menuResult, staffResult, entries, previousEntries] = await Promise.all([
+        loadSalesOrders(range),
+        loadSalesOrders(previousRange),
+        supabase
+          .from('menu_items')
+          .select('id, name, category')
+          .order('name', { ascending: true }),
+        supabase
+          .from('users')
+          .select('id, name, hourly_rate')
+          .neq('role', 'customer'),
+        loadTimeEntries(range),
+        loadTimeEntries(previousRange)
+      ]);
+
+      const failure = current.error || previous.error || menuResult.error?.message || staffResult.error?.message ||
+        entries.error || previousEntries.error;
+      if (failure) {
+        console.error('Error loading report:', failure);
+        setError(`Failed to load the report: ${failure}`);
+        return;
+      }
+
+      setOrders(current.orders);
+      setPreviousOrders(previous.orders);
+      setMenuItems(menuResult.data || []);
+      setStaff(staffResult.data || []);
+      setTimeEntries(entries.entries);
+      setPreviousTimeEntries(previousEntries.entries);
+    } catch (err) {
+      console.error('Error loading report:', err);
+      setError('An unexpected error occurred while loading the report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyPreset = (days: number) => {
+    const end = new Date();
+    setFromDate(toDateInputValue(addDays(end, -(days - 1))));
+    setToDate(toDateInputValue(end));
+  };
+
+  const handlePrintEndOfDay = async () => {
+    setPrinting(true);
+    setError('');
+    const printError = await printEndOfDay(parseDateInput(toDate));
+    if (printError) {
+      setError(printError);
+    }
+    setPrinting(false);
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.role !== 'manager') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const range = fromDate && toDate && fromDate <= toDate
+    ? dayRange(parseDateInput(fromDate), parseDateInput(toDate))
+    : null;
+  const summary = summarizeSales(orders);
+  const previousSummary = summarizeSales(previousOrders);
+  const periods = range ? groupRevenueByPeriod(orders, range, granularity) : [];
+  const maxPeriodRevenue = Math.max(...periods.map(period => period.revenue), 0);
+  const heatmap = buildHourlyHeatmap(orders);
+  const maxHeat = Math.max(...heatmap.flat(), 0);
+  const itemSales = rankItemSales(orders, menuItems);
+  const topSellers = itemSales.slice(0, 5);
+  const bottomSellers = itemSales.length > 5 ? itemSales.slice(-5).reverse() : [];
+  const categories = revenueByCategory(itemSales);
+  const maxCategoryRevenue = Math.max(...categories.map(category => category.revenue), 0);
+  const waiters = revenueByWaiter(orders, Object.fromEntries(staff.map(member => [member.id, member.name])));
+  const labor = getLaborCost(timeEntries, staff);
+  const previousLabor = getLaborCost(previousTimeEntries, staff);
+  const laborPercent = summary.revenue > 0 ? (labor.cost / summary.revenue) * 100 : null;
+  const previousLaborPercent = previousSummary.revenue > 0 ? (previousLabor.cost / previousSummary.revenue) * 100 : null;
+
+  const exportCsv = (name: string, headers: string[], rows: CsvValue[][]) => {
+    downloadCsv(`${name}-${fromDate}-to-${toDate}.csv`, headers, rows);
+  };
+
+  const kpis = [
+    {
+      label: 'Revenue',
+      value: `$${summary.revenue.toFixed(2)}`,
+      change: percentChange(summary.revenue, previousSummary.revenue),
+      icon: DollarSign,
+      style: 'bg-blue-50 text-blue-600',
+      detail: `Before $${summary.tax.toFixed(2)} tax and $${summary.tips.toFixed(2)} tips • after $${summary.discounts.toFixed(2)} discounts`
+    },
+    { label: 'Orders', value: String(summary.orderCount), change: percentChange(summary.orderCount, previousSummary.orderCount), icon: ClipboardList, style: 'bg-green-50 text-green-600' },
+    { label: 'Average Ticket', value: `$${summary.averageTicket.toFixed(2)}`, change: percentChange(summary.averageTicket, previousSummary.averageTicket), icon: Receipt, style: 'bg-purple-50 text-purple-600' },
+    { label: 'Items Sold', value: String(summary.itemsSold), change: percentChange(summary.itemsSold, previousSummary.itemsSold), icon: Utensils, style: 'bg-orange-50 text-orange-600' },
+    {
+      label: 'Labor Cost',
+      value: laborPercent === null ? '—' : `${laborPercent.toFixed(1)}%`,
+      change: laborPercent === null || previousLaborPercent === null ? null : percentChange(laborPercent, previousLaborPercent),
+      icon: Timer,
+      style: 'bg-red-50 text-red-600',
+      // Labor taking a bigger share of sales is the bad direction
+      lowerIsBetter: true,
+      detail: `$${labor.cost.toFixed(2)} for ${formatHours(labor.hours)}` +
+        (labor.unratedHours > 0 ? ` • ${formatHours(labor.unratedHours)} without a pay rate` : '')
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Sales Reports</h1>
+          <p className="text-gray-600">Compared with the same number of days just before</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => applyPreset(preset.days)}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={handlePrintEndOfDay}
+            disabled={printing || !toDate}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+            title="Printable summary of the end date; save it as a PDF from the print dialog"
+          >
+            <Printer className="w-4 h-4" />
+            {printing ? 'Preparing...' : 'Print End of Day'}
+          </button>
+          <button
+            onClick={() => loadReport(fromDate, toDate)}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <>
+          {/* Key Metrics */}
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
+            {kpis.map(({ label, value, change, icon: Icon, style, lowerIsBetter, detail }) => (
+              <div key={label} className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">{label}</p>
+                    <p className="text-2xl font-bold text-gray-900">{value}</p>
+                    {detail && <p className="text-xs text-gray-500">{detail}</p>}
+                  </div>
+                  <div className={`p-3 rounded-lg ${style}`}>
+                    <Icon className="w-6 h-6" />
+                  </div>
+                </div>
+                <div className="mt-4 flex items-center text-sm">
+                  {change !== null && (change >= 0
+                    ? <TrendingUp className={`w-4 h-4 mr-1 ${lowerIsBetter ? 'text-red-500' : 'text-green-500'}`} />
+                    : <TrendingDown className={`w-4 h-4 mr-1 ${lowerIsBetter ? 'text-green-500' : 'text-red-500'}`} />)}
+                  <span className={change === null ? 'text-gray-500' : (change >= 0) !== !!lowerIsBetter ? 'text-green-600' : 'text-red-600'}>
+                    {formatPercentChange(change)}
+                  </span>
+                  <span className="text-gray-500 ml-1">vs previous period</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Revenue Over Time */}
+          <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Revenue</h3>
+              <div className="flex items-center gap-1">
+                {(['day', 'week', 'month'] as const).map(value => (
+                  <button
+                    key={value}
+                    onClick={() => setGranularity(value)}
+                    className={`px-3 py-1 rounded-lg text-sm font-medium capitalize transition-colors ${
+                      granularity === value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    By {value}
+                  </button>
+                ))}
+                <ExportButton
+                  onClick={() => exportCsv(`revenue-by-${granularity}`, ['Period', 'Start', 'Orders', 'Revenue'],
+                    periods.map(period => [period.label, period.key, period.orderCount, period.revenue.toFixed(2)]))}
+                />
+              </div>
+            </div>
+            {maxPeriodRevenue > 0 ? (
+              <>
+                <div className="h-64 flex items-end gap-1">
+                  {periods.map(period => (
+                    <div
+                      key={period.key}
+                      className="flex-1 bg-blue-100 rounded-t h-full flex items-end"
+                      title={`${period.label}: $${period.revenue.toFixed(2)} from ${period.orderCount} orders`}
+                    >
+                      <div
+                        className="bg-blue-500 rounded-t w-full transition-all duration-500"
+                        style={{ height: `${(period.revenue / maxPeriodRevenue) * 100}%` }}
+                      ></div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between mt-2 text-xs text-gray-500">
+                  <span>{periods[0]?.label}</span>
+                  <span>{periods[periods.length - 1]?.label}</span>
+                </div>
+              </>
+            ) : (
+              <p className="text-gray-500 text-center py-16">No sales in this period.</p>
+            )}
+          </div>
+
+          {/* Orders by Hour */}
+          <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 overflow-x-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Orders by Hour</h3>
+              <ExportButton
+                onClick={() => exportCsv('orders-by-hour', ['Day', ...Array.from({ length: 24 }, (_, hour) => formatHour(hour))],
+                  heatmap.map((hours, weekday) => [WEEKDAY_LABELS[weekday], ...hours]))}
+              />
+            </div>
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th></th>
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <th key={hour} className="px-0.5 font-normal text-gray-400 w-7">
+                      {hour % 3 === 0 ? formatHour(hour).replace(' ', '') : ''}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {heatmap.map((hours, weekday) => (
+                  <tr key={WEEKDAY_LABELS[weekday]}>
+                    <td className="pr-2 text-gray-600">{WEEKDAY_LABELS[weekday]}</td>
+                    {hours.map((count, hour) => (
+                      <td key={hour} className="p-0.5">
+                        <div
+                          className="w-6 h-6 rounded bg-gray-100"
+                          style={count > 0 ? { backgroundColor: `rgba(37, 99, 235, ${0.15 + (count / maxHeat) * 0.85})` } : undefined}
+                          title={`${WEEKDAY_LABELS[weekday]} ${formatHour(hour)}: ${count} orders`}
+                        ></div>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Sellers */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {[
+              { title: 'Top Sellers', items: topSellers },
+              { title: 'Bottom Sellers', items: bottomSellers }
+            ].map(({ title, items }) => (
+              <div key={title} className="bg-white rounded-xl shadow-md border border-gray-100">
+                <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+                  {title === 'Top Sellers' && (
+                    <ExportButton
+                      onClick={() => exportCsv('item-sales', ['Item', 'Category', 'Quantity', 'Revenue'],
+                        itemSales.map(item => [item.name, item.category, item.quantity, item.revenue.toFixed(2)]))}
+                    />
+                  )}
+                </div>
+                {items.length > 0 ? (
+                  <div className="divide-y divide-gray-100">
+                    {items.map(item => (
+                      <div key={item.menuItemId} className="px-6 py-3 flex items-center justify-between text-sm">
+                        <div>
+                          <p className="font-medium text-gray-900">{item.name}</p>
+                          <p className="text-gray-500">{item.category}</p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-medium text-gray-900">{item.quantity} sold</p>
+                          <p className="text-gray-500">${item.revenue.toFixed(2)}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500 text-center py-8">Not enough menu items to rank.</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Breakdowns */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Revenue by Category</h3>
+                <ExportButton
+                  onClick={() => exportCsv('revenue-by-category', ['Category', 'Items Sold', 'Revenue'],
+                    categories.map(category => [category.label, category.count, category.revenue.toFixed(2)]))}
+                />
+              </div>
+              <div className="space-y-3">
+                {categories.map(category => (
+                  <div key={category.key}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-900">{category.label}</span>
+                      <span className="text-gray-600">${category.revenue.toFixed(2)} • {category.count} sold</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full">
+                      <div
+                        className="h-2 bg-blue-500 rounded-full"
+                        style={{ width: `${maxCategoryRevenue > 0 ? (category.revenue / maxCategoryRevenue) * 100 : 0}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-md border border-gray-100">
+              <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Revenue by Waiter</h3>
+                <ExportButton
+                  onClick={() => exportCsv('revenue-by-waiter', ['Waiter', 'Orders', 'Revenue', 'Average'],
+                    waiters.map(waiter => [waiter.label, waiter.count, waiter.revenue.toFixed(2), (waiter.revenue / waiter.count).toFixed(2)]))}
+                />
+              </div>
+              {waiters.length > 0 ? (
+                <div className="divide-y divide-gray-100">
+                  {waiters.map(waiter => (
+                    <div key={waiter.key} className="px-6 py-3 flex items-center justify-between text-sm">
+                      <span className="font-medium text-gray-900">{waiter.label}</span>
+                      <span className="text-gray-600">
+                        ${waiter.revenue.toFixed(2)} • {waiter.count} orders • ${(waiter.revenue / waiter.count).toFixed(2)} avg
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-center py-8">No sales in this period.</p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
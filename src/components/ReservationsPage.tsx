@@ -0,0 +1,606 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  CalendarDays, Users, Clock, Phone, Plus, AlertCircle, RefreshCw,
+  UserCheck, UserX, XCircle, Bell, Hourglass
+} from 'lucide-react';
+import { supabase, Reservation, Table, WaitlistEntry } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getElapsedMinutes } from '../lib/floorPlan';
+import { estimateWaitMinutes, formatSlotTime, getDayRange, DEFAULT_DINING_MINUTES } from '../lib/reservations';
+import NewOrderModal from './NewOrderModal';
+
+const toDateInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+export default function ReservationsPage() {
+  const [selectedDate, setSelectedDate] = useState(toDateInputValue(new Date()));
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [tables, setTables] = useState<Table[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showReservationForm, setShowReservationForm] = useState(false);
+  const [reservationForm, setReservationForm] = useState({
+    name: '',
+    phone: '',
+    partySize: '2',
+    time: '19:00',
+    tableId: '',
+    notes: ''
+  });
+  const [waitlistForm, setWaitlistForm] = useState({ name: '', phone: '', partySize: '2', quotedWait: '' });
+  const [seatingEntryId, setSeatingEntryId] = useState<string | null>(null);
+  const [orderModal, setOrderModal] = useState<{ tableNumber?: number; customerName?: string } | null>(null);
+  const { user } = useAuth();
+
+  const loadData = useCallback(async () => {
+    try {
+      setError('');
+
+      const { start, end } = getDayRange(new Date(`${selectedDate}T00:00:00`));
+      const today = getDayRange(new Date());
+
+      const [reservationsResult, waitlistResult, tablesResult] = await Promise.all([
+        supabase
+          .from('reservations')
+          .select(`
+            *,
+            table:tables (*)
+          `)
+          .gte('reserved_for', start)
+          .lt('reserved_for', end)
+          .order('reserved_for', { ascending: true }),
+        supabase
+          .from('waitlist_entries')
+          .select('*')
+          .in('status', ['waiting', 'notified'])
+          .gte('created_at', today.start)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('tables')
+          .select(`
+            *,
+            current_order:orders (*)
+          `)
+          .order('number', { ascending: true })
+      ]);
+
+      const fetchError = reservationsResult.error || waitlistResult.error || tablesResult.error;
+      if (fetchError) {
+        console.error('Error loading reservations:', fetchError);
+        setError(`Failed to load reservations: ${fetchError.message}`);
+        return;
+      }
+
+      setReservations(reservationsResult.data || []);
+      setWaitlist(waitlistResult.data || []);
+      setTables(tablesResult.data || []);
+    } catch (err) {
+      console.error('Error loading reservations:', err);
+      setError('An unexpected error occurred while loading reservations');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedDate]);
+
+  useEffect(() => {
+    if (user && (user.role === 'waiter' || user.role === 'manager')) {
+      loadData();
+    } else {
+      setLoading(false);
+    }
+  }, [user, loadData]);
+
+  const updateReservation = async (reservation: Reservation, updates: Partial<Pick<Reservation, 'status'>> & { table_id?: string | null }) => {
+    const { error: updateError } = await supabase
+      .from('reservations')
+      .update(updates)
+      .eq('id', reservation.id);
+
+    if (updateError) {
+      console.error('Error updating reservation:', updateError);
+      setError(`Failed to update reservation for ${reservation.customer_name}: ${updateError.message}`);
+      return false;
+    }
+
+    await loadData();
+    return true;
+  };
+
+  const seatReservation = async (reservation: Reservation) => {
+    if (!reservation.table_id) {
+      setError(`Assign a table to ${reservation.customer_name} before seating them`);
+      return;
+    }
+
+    // Seating lifts the hold so the order can be placed on the table
+    if (await updateReservation(reservation, { status: 'seated' })) {
+      setOrderModal({ tableNumber: reservation.table?.number, customerName: reservation.customer_name });
+    }
+  };
+
+  const createReservation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!reservationForm.name.trim()) {
+      setError('Please enter the guest name');
+      return;
+    }
+
+    const { error: insertError } = await supabase
+      .from('reservations')
+      .insert([
+        {
+          customer_name: reservationForm.name.trim(),
+          contact_phone: reservationForm.phone.trim() || null,
+          party_size: parseInt(reservationForm.partySize),
+          reserved_for: new Date(`${selectedDate}T${reservationForm.time}`).toISOString(),
+          duration_minutes: DEFAULT_DINING_MINUTES,
+          table_id: reservationForm.tableId || null,
+          notes: reservationForm.notes.trim() || null,
+          created_by: user.id
+        }
+      ]);
+
+    if (insertError) {
+      console.error('Error creating reservation:', insertError);
+      setError(`Failed to create reservation: ${insertError.message}`);
+      return;
+    }
+
+    setReservationForm({ name: '', phone: '', partySize: '2', time: '19:00', tableId: '', notes: '' });
+    setShowReservationForm(false);
+    await loadData();
+  };
+
+  const addToWaitlist = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!waitlistForm.name.trim()) {
+      setError('Please enter the party name');
+      return;
+    }
+
+    const partySize = parseInt(waitlistForm.partySize);
+    const estimate = estimateWaitMinutes(partySize, tables, waitlist) ?? 0;
+    const quotedWait = waitlistForm.quotedWait ? parseInt(waitlistForm.quotedWait) : estimate;
+
+    const { error: insertError } = await supabase
+      .from('waitlist_entries')
+      .insert([
+        {
+          customer_name: waitlistForm.name.trim(),
+          contact_phone: waitlistForm.phone.trim() || null,
+          party_size: partySize,
+          quoted_wait_minutes: quotedWait,
+          created_by: user.id
+        }
+      ]);
+
+    if (insertError) {
+      console.error('Error adding to waitlist:', insertError);
+      setError(`Failed to add party to waitlist: ${insertError.message}`);
+      return;
+    }
+
+    setWaitlistForm({ name: '', phone: '', partySize: '2', quotedWait: '' });
+    await loadData();
+  };
+
+  const updateWaitlistEntry = async (entry: WaitlistEntry, updates: Partial<Pick<WaitlistEntry, 'status' | 'table_id' | 'seated_at'>>) => {
+    const { error: updateError } = await supabase
+      .from('waitlist_entries')
+      .update(updates)
+      .eq('id', entry.id);
+
+    if (updateError) {
+      console.error('Error updating waitlist entry:', updateError);
+      setError(`Failed to update ${entry.customer_name}: ${updateError.message}`);
+      return false;
+    }
+
+    await loadData();
+    return true;
+  };
+
+  const seatWaitlistEntry = async (entry: WaitlistEntry, table: Table) => {
+    const seated = await updateWaitlistEntry(entry, {
+      status: 'seated',
+      table_id: table.id,
+      seated_at: new Date().toISOString()
+    });
+
+    if (seated) {
+      setSeatingEntryId(null);
+      setOrderModal({ tableNumber: table.number, customerName: entry.customer_name });
+    }
+  };
+
+  const getStatusColor = (status: Reservation['status']) => {
+    const colors = {
+      booked: 'bg-blue-100 text-blue-800',
+      seated: 'bg-green-100 text-green-800',
+      completed: 'bg-gray-100 text-gray-800',
+      cancelled: 'bg-red-100 text-red-800',
+      no_show: 'bg-orange-100 text-orange-800'
+    };
+    return colors[status];
+  };
+
+  if (!user || (user.role !== 'waiter' && user.role !== 'manager')) {
+    return null;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-gray-300 border-t-green-600 rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const freeTables = tables.filter(table => table.status === 'available');
+  const partySizeForEstimate = parseInt(waitlistForm.partySize) || 1;
+  const suggestedWait = estimateWaitMinutes(partySizeForEstimate, tables, waitlist);
+  const upcomingCount = reservations.filter(r => r.status === 'booked').length;
+  const coversBooked = reservations
+    .filter(r => r.status === 'booked' || r.status === 'seated')
+    .reduce((sum, r) => sum + r.party_size, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Reservations</h1>
+          <p className="text-gray-600">
+            {upcomingCount} upcoming • {coversBooked} covers booked • {waitlist.length} waiting
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={selectedDate}
+            onChange={(e) => setSelectedDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <button
+            onClick={loadData}
+            className="p-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowReservationForm(prev => !prev)}
+            className="flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Reservation
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-700">{error}</p>
+            </div>
+            <button onClick={() => setError('')} className="text-red-600 hover:text-red-800">
+              <XCircle className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* New Reservation Form */}
+      {showReservationForm && (
+        <form onSubmit={createReservation} className="bg-white p-6 rounded-xl shadow-md border border-gray-100 grid grid-cols-1 md:grid-cols-6 gap-4">
+          <input
+            type="text"
+            value={reservationForm.name}
+            onChange={(e) => setReservationForm(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Guest name *"
+            className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            required
+          />
+          <input
+            type="tel"
+            value={reservationForm.phone}
+            onChange={(e) => setReservationForm(prev => ({ ...prev, phone: e.target.value }))}
+            placeholder="Phone"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <input
+            type="number"
+            min="1"
+            value={reservationForm.partySize}
+            onChange={(e) => setReservationForm(prev => ({ ...prev, partySize: e.target.value }))}
+            title="Party size"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <input
+            type="time"
+            value={reservationForm.time}
+            onChange={(e) => setReservationForm(prev => ({ ...prev, time: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            required
+          />
+          <select
+            value={reservationForm.tableId}
+            onChange={(e) => setReservationForm(prev => ({ ...prev, tableId: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            <option value="">Assign table later</option>
+            {tables
+              .filter(table => table.seats >= (parseInt(reservationForm.partySize) || 1))
+              .map((table) => (
+                <option key={table.id} value={table.id}>T{table.number} ({table.seats} seats)</option>
+              ))}
+          </select>
+          <input
+            type="text"
+            value={reservationForm.notes}
+            onChange={(e) => setReservationForm(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="Notes"
+            className="md:col-span-5 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Save
+          </button>
+        </form>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Reservations */}
+        <div className="xl:col-span-2 bg-white rounded-xl shadow-md border border-gray-100">
+          <div className="p-6 border-b border-gray-100 flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-green-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Bookings</h3>
+          </div>
+          <div className="p-6">
+            {reservations.length > 0 ? (
+              <div className="space-y-3">
+                {reservations.map((reservation) => (
+                  <div key={reservation.id} className="p-4 bg-gray-50 rounded-lg">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                      <div className="flex items-center gap-4">
+                        <div className="text-center w-16">
+                          <div className="text-lg font-bold text-gray-900">{formatSlotTime(reservation.reserved_for)}</div>
+                          <div className="text-xs text-gray-500">{reservation.duration_minutes}m</div>
+                        </div>
+                        <div>
+                          <h4 className="font-medium text-gray-900">{reservation.customer_name}</h4>
+                          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-500">
+                            <span className="flex items-center gap-1">
+                              <Users className="w-4 h-4" />
+                              {reservation.party_size}
+                            </span>
+                            {reservation.contact_phone && (
+                              <span className="flex items-center gap-1">
+                                <Phone className="w-4 h-4" />
+                                {reservation.contact_phone}
+                              </span>
+                            )}
+                            {reservation.contact_email && <span>{reservation.contact_email}</span>}
+                          </div>
+                          {reservation.notes && (
+                            <p className="text-sm text-gray-600 italic">Note: {reservation.notes}</p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(reservation.status)}`}>
+                          {reservation.status.replace('_', ' ').toUpperCase()}
+                        </span>
+                        {reservation.status === 'booked' ? (
+                          <>
+                            <select
+                              value={reservation.table_id || ''}
+                              onChange={(e) => updateReservation(reservation, { table_id: e.target.value || null })}
+                              className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500"
+                            >
+                              <option value="">No table</option>
+                              {tables.map((table) => (
+                                <option key={table.id} value={table.id} disabled={table.seats < reservation.party_size}>
+                                  T{table.number} ({table.seats})
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() => seatReservation(reservation)}
+                              className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                              title="Seat party"
+                            >
+                              <UserCheck className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => updateReservation(reservation, { status: 'no_show' })}
+                              className="p-2 bg-orange-100 text-orange-700 rounded-lg hover:bg-orange-200"
+                              title="Mark no-show"
+                            >
+                              <UserX className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => {
+                                if (confirm(`Cancel the reservation for ${reservation.customer_name}?`)) {
+                                  updateReservation(reservation, { status: 'cancelled' });
+                                }
+                              }}
+                              className="p-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200"
+                              title="Cancel reservation"
+                            >
+                              <XCircle className="w-4 h-4" />
+                            </button>
+                          </>
+                        ) : reservation.table && (
+                          <span className="text-sm text-gray-500">T{reservation.table.number}</span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-8">No reservations for this day.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Waitlist */}
+        <div className="bg-white rounded-xl shadow-md border border-gray-100">
+          <div className="p-6 border-b border-gray-100 flex items-center gap-2">
+            <Hourglass className="w-5 h-5 text-green-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Waitlist</h3>
+          </div>
+          <div className="p-6 space-y-4">
+            <form onSubmit={addToWaitlist} className="space-y-2">
+              <div className="grid grid-cols-3 gap-2">
+                <input
+                  type="text"
+                  value={waitlistForm.name}
+                  onChange={(e) => setWaitlistForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Party name"
+                  className="col-span-2 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  required
+                />
+                <input
+                  type="number"
+                  min="1"
+                  value={waitlistForm.partySize}
+                  onChange={(e) => setWaitlistForm(prev => ({ ...prev, partySize: e.target.value }))}
+                  title="Party size"
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <input
+                  type="tel"
+                  value={waitlistForm.phone}
+                  onChange={(e) => setWaitlistForm(prev => ({ ...prev, phone: e.target.value }))}
+                  placeholder="Phone"
+                  className="col-span-2 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  value={waitlistForm.quotedWait}
+                  onChange={(e) => setWaitlistForm(prev => ({ ...prev, quotedWait: e.target.value }))}
+                  placeholder={suggestedWait === null ? 'min' : `${suggestedWait} min`}
+                  title="Quoted wait (minutes)"
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {suggestedWait === null
+                  ? `No table seats ${partySizeForEstimate} guests`
+                  : suggestedWait === 0
+                    ? 'A table is free now'
+                    : `Suggested quote: about ${suggestedWait} minutes`}
+              </p>
+              <button
+                type="submit"
+                className="w-full flex items-center justify-center gap-2 bg-green-600 text-white py-2 rounded-lg hover:bg-green-700 transition-colors text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                Add to Waitlist
+              </button>
+            </form>
+
+            {waitlist.length > 0 ? (
+              <div className="space-y-3">
+                {waitlist.map((entry) => {
+                  const waited = getElapsedMinutes(entry.created_at);
+                  const overdue = waited > entry.quoted_wait_minutes;
+
+                  return (
+                    <div key={entry.id} className="p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <h4 className="font-medium text-gray-900">
+                            {entry.customer_name} <span className="text-sm text-gray-500">({entry.party_size})</span>
+                          </h4>
+                          <p className={`text-xs flex items-center gap-1 ${overdue ? 'text-red-600' : 'text-gray-500'}`}>
+                            <Clock className="w-3 h-3" />
+                            Waited {waited}m of {entry.quoted_wait_minutes}m quoted
+                          </p>
+                          {entry.status === 'notified' && (
+                            <p className="text-xs text-blue-600">Notified table is ready</p>
+                          )}
+                        </div>
+                        <div className="flex gap-1">
+                          {entry.status === 'waiting' && (
+                            <button
+                              onClick={() => updateWaitlistEntry(entry, { status: 'notified' })}
+                              className="p-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200"
+                              title="Mark notified"
+                            >
+                              <Bell className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setSeatingEntryId(seatingEntryId === entry.id ? null : entry.id)}
+                            className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                            title="Seat party"
+                          >
+                            <UserCheck className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => updateWaitlistEntry(entry, { status: 'left' })}
+                            className="p-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200"
+                            title="Remove from waitlist"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+
+                      {seatingEntryId === entry.id && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {freeTables.filter(table => table.seats >= entry.party_size).length > 0 ? (
+                            freeTables
+                              .filter(table => table.seats >= entry.party_size)
+                              .map((table) => (
+                                <button
+                                  key={table.id}
+                                  onClick={() => seatWaitlistEntry(entry, table)}
+                                  className="px-3 py-1 bg-white border border-green-300 text-green-700 rounded-lg text-sm hover:bg-green-50"
+                                >
+                                  T{table.number} ({table.seats})
+                                </button>
+                              ))
+                          ) : (
+                            <p className="text-xs text-gray-500">No free table fits this party yet.</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-4 text-sm">Nobody is waiting.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <NewOrderModal
+        isOpen={orderModal !== null}
+        onClose={() => setOrderModal(null)}
+        onOrderPlaced={loadData}
+        initialTableNumber={orderModal?.tableNumber}
+        initialCustomerName={orderModal?.customerName}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,462 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Navigate } from 'react-router-dom';
+import { AlertCircle, ChevronLeft, ChevronRight, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { supabase, Shift, TimeEntry, User } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { startOfWeek, addDays, toDateInputValue, parseDateInput } from '../lib/reports';
+import { roleLabels } from '../lib/staff';
+import {
+  buildHoursVariance,
+  getShiftHours,
+  getWorkedHours,
+  formatHours,
+  formatShiftTime,
+  loadShifts,
+  loadTimeEntries,
+  saveShift,
+  deleteShift
+} from '../lib/timeClock';
+
+interface ShiftForm {
+  id?: string;
+  userId: string;
+  date: string;
+  start: string;
+  end: string;
+  notes: string;
+}
+
+const toTimeInputValue = (value: string) => {
+  const date = new Date(value);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+const atTime = (date: string, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = parseDateInput(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+// A shift ending at or before it starts runs past midnight
+const getShiftTimes = (form: ShiftForm) => {
+  const startsAt = atTime(form.date, form.start);
+  const endsAt = atTime(form.date, form.end);
+  if (endsAt <= startsAt) {
+    endsAt.setDate(endsAt.getDate() + 1);
+  }
+  return { startsAt, endsAt };
+};
+
+const formatVariance = (hours: number) =>
+  Math.abs(hours) < 1 / 60 ? '—' : `${hours > 0 ? '+' : '-'}${formatHours(Math.abs(hours))}`;
+
+export default function SchedulePage() {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [staff, setStaff] = useState<User[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState<ShiftForm | null>(null);
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user?.role === 'manager') {
+      loadWeek(weekStart);
+    } else {
+      setLoading(false);
+    }
+  }, [user, weekStart]);
+
+  const loadWeek = async (from: Date) => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const range = { from, to: addDays(from, 7) };
+      const [staffResult, shiftsResult, entriesResult] = await Promise.all([
+        supabase
+          .from('users')
+          .select('*')
+          .in('role', ['waiter', 'kitchen'])
+          .eq('active', true)
+          .order('name', { ascending: true }),
+        loadShifts(range),
+        loadTimeEntries(range)
+      ]);
+
+      const failure = staffResult.error?.message || shiftsResult.error || entriesResult.error;
+      if (failure) {
+        console.error('Error loading schedule:', failure);
+        setError(`Failed to load the schedule: ${failure}`);
+        return;
+      }
+
+      setStaff(staffResult.data || []);
+      setShifts(shiftsResult.shifts);
+      setEntries(entriesResult.entries);
+    } catch (err) {
+      console.error('Error loading schedule:', err);
+      setError('An unexpected error occurred while loading the schedule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openNewShift = (userId: string, day: Date) => {
+    setFormError('');
+    setForm({ userId, date: toDateInputValue(day), start: '09:00', end: '17:00', notes: '' });
+  };
+
+  const openShift = (shift: Shift) => {
+    setFormError('');
+    setForm({
+      id: shift.id,
+      userId: shift.user_id,
+      date: toDateInputValue(new Date(shift.starts_at)),
+      start: toTimeInputValue(shift.starts_at),
+      end: toTimeInputValue(shift.ends_at),
+      notes: shift.notes || ''
+    });
+  };
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user || !form) return;
+
+    if (!form.userId || !form.date || !form.start || !form.end) {
+      setFormError('Choose who is working, the day and the hours');
+      return;
+    }
+
+    const { startsAt, endsAt } = getShiftTimes(form);
+
+    setSaving(true);
+    setFormError('');
+    const { shift, error: saveError } = await saveShift({
+      user_id: form.userId,
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+      notes: form.notes.trim() || null
+    }, user, form.id);
+
+    if (saveError || !shift) {
+      setFormError(saveError || 'Failed to save the shift');
+    } else {
+      setShifts(current => [...current.filter(existing => existing.id !== shift.id), shift]
+        .sort((a, b) => a.starts_at.localeCompare(b.starts_at)));
+      setForm(null);
+    }
+    setSaving(false);
+  };
+
+  const handleDelete = async () => {
+    if (!form?.id || !confirm('Delete this shift?')) return;
+
+    setSaving(true);
+    setFormError('');
+    const shiftId = form.id;
+    const { error: deleteError } = await deleteShift(shiftId);
+    if (deleteError) {
+      setFormError(deleteError);
+    } else {
+      setShifts(current => current.filter(shift => shift.id !== shiftId));
+      setForm(null);
+    }
+    setSaving(false);
+  };
+
+  if (user?.role !== 'manager') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const isSameDay = (value: string, day: Date) => toDateInputValue(new Date(value)) === toDateInputValue(day);
+  const variance = new Map(buildHoursVariance(shifts, entries).map(row => [row.userId, row]));
+  const totals = Array.from(variance.values()).reduce(
+    (sum, row) => ({ scheduled: sum.scheduled + row.scheduledHours, actual: sum.actual + row.actualHours }),
+    { scheduled: 0, actual: 0 }
+  );
+  const onTheClock = entries.filter(entry => !entry.clock_out_at).length;
+  const formTimes = form && form.date && form.start && form.end ? getShiftTimes(form) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Schedule</h1>
+          <p className="text-gray-600">Plan shifts and compare them with the hours actually worked</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setWeekStart(current => addDays(current, -7))}
+            className="p-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            title="Previous week"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="px-2 text-sm font-medium text-gray-900">
+            {weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} –{' '}
+            {addDays(weekStart, 6).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </span>
+          <button
+            onClick={() => setWeekStart(current => addDays(current, 7))}
+            className="p-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            title="Next week"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setWeekStart(startOfWeek(new Date()))}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+          >
+            This Week
+          </button>
+          <button
+            onClick={() => loadWeek(weekStart)}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+              <p className="text-sm font-medium text-gray-600">Scheduled</p>
+              <p className="text-2xl font-bold text-gray-900">{formatHours(totals.scheduled)}</p>
+            </div>
+            <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+              <p className="text-sm font-medium text-gray-600">Worked</p>
+              <p className="text-2xl font-bold text-gray-900">{formatHours(totals.actual)}</p>
+            </div>
+            <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+              <p className="text-sm font-medium text-gray-600">Variance</p>
+              <p className="text-2xl font-bold text-gray-900">{formatVariance(totals.actual - totals.scheduled)}</p>
+            </div>
+            <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+              <p className="text-sm font-medium text-gray-600">On the Clock Now</p>
+              <p className="text-2xl font-bold text-gray-900">{onTheClock}</p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 overflow-x-auto">
+            {staff.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="text-left px-4 py-3 font-medium">Staff</th>
+                    {days.map(day => (
+                      <th key={day.toISOString()} className="text-left px-2 py-3 font-medium min-w-[120px]">
+                        {day.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                      </th>
+                    ))}
+                    <th className="text-right px-4 py-3 font-medium">Scheduled</th>
+                    <th className="text-right px-4 py-3 font-medium">Worked</th>
+                    <th className="text-right px-4 py-3 font-medium">Variance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {staff.map(member => {
+                    const row = variance.get(member.id);
+                    const memberShifts = shifts.filter(shift => shift.user_id === member.id);
+                    const memberEntries = entries.filter(entry => entry.user_id === member.id);
+                    return (
+                      <tr key={member.id} className="align-top">
+                        <td className="px-4 py-3">
+                          <p className="font-medium text-gray-900">{member.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {roleLabels[member.role]}
+                            {row?.onTheClock && <span className="ml-1 text-green-600">• on the clock</span>}
+                          </p>
+                        </td>
+                        {days.map(day => {
+                          const worked = memberEntries
+                            .filter(entry => isSameDay(entry.clock_in_at, day))
+                            .reduce((sum, entry) => sum + getWorkedHours(entry), 0);
+                          return (
+                            <td key={day.toISOString()} className="px-2 py-2">
+                              <div className="space-y-1">
+                                {memberShifts.filter(shift => isSameDay(shift.starts_at, day)).map(shift => (
+                                  <button
+                                    key={shift.id}
+                                    onClick={() => openShift(shift)}
+                                    title={shift.notes || undefined}
+                                    className="block w-full text-left px-2 py-1 bg-blue-50 text-blue-800 rounded hover:bg-blue-100 text-xs"
+                                  >
+                                    {formatShiftTime(shift.starts_at)} – {formatShiftTime(shift.ends_at)}
+                                  </button>
+                                ))}
+                                {worked > 0 && (
+                                  <p className="px-2 text-xs text-gray-500">Worked {formatHours(worked)}</p>
+                                )}
+                                <button
+                                  onClick={() => openNewShift(member.id, day)}
+                                  className="flex items-center justify-center w-full py-1 text-gray-400 hover:text-blue-600 hover:bg-gray-50 rounded"
+                                  title="Add shift"
+                                >
+                                  <Plus className="w-3 h-3" />
+                                </button>
+                              </div>
+                            </td>
+                          );
+                        })}
+                        <td className="px-4 py-3 text-right text-gray-900">{formatHours(row?.scheduledHours || 0)}</td>
+                        <td className="px-4 py-3 text-right text-gray-900">{formatHours(row?.actualHours || 0)}</td>
+                        <td className={`px-4 py-3 text-right font-medium ${
+                          !row || Math.abs(row.variance) < 1 / 60 ? 'text-gray-500' :
+                          row.variance > 0 ? 'text-orange-600' : 'text-blue-600'
+                        }`}>
+                          {formatVariance(row?.variance || 0)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-gray-500 text-center py-8">No active waiters or kitchen staff to schedule.</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {form && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full overflow-hidden">
+            <div className="bg-gradient-to-r from-blue-500 to-blue-600 p-6 text-white flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold">{form.id ? 'Edit Shift' : 'Add Shift'}</h2>
+                <p className="opacity-90">An end time before the start runs into the next day</p>
+              </div>
+              <button onClick={() => setForm(null)} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              {formError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+                  <AlertCircle className="w-4 h-4" />
+                  {formError}
+                </div>
+              )}
+              <div>
+                <label htmlFor="shift-staff" className="block text-sm font-medium text-gray-700 mb-1">Staff</label>
+                <select
+                  id="shift-staff"
+                  value={form.userId}
+                  onChange={(e) => setForm({ ...form, userId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {staff.map(member => (
+                    <option key={member.id} value={member.id}>{member.name} ({roleLabels[member.role]})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="shift-date" className="block text-sm font-medium text-gray-700 mb-1">Day</label>
+                <input
+                  id="shift-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="shift-start" className="block text-sm font-medium text-gray-700 mb-1">Start</label>
+                  <input
+                    id="shift-start"
+                    type="time"
+                    value={form.start}
+                    onChange={(e) => setForm({ ...form, start: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="shift-end" className="block text-sm font-medium text-gray-700 mb-1">End</label>
+                  <input
+                    id="shift-end"
+                    type="time"
+                    value={form.end}
+                    onChange={(e) => setForm({ ...form, end: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+              {formTimes && (
+                <p className="text-sm text-gray-500">
+                  {formatHours(getShiftHours({
+                    starts_at: formTimes.startsAt.toISOString(),
+                    ends_at: formTimes.endsAt.toISOString()
+                  }))} shift
+                </p>
+              )}
+              <div>
+                <label htmlFor="shift-notes" className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes (optional)
+                </label>
+                <input
+                  id="shift-notes"
+                  type="text"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  placeholder="e.g. Patio section, opening duties"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                {form.id ? (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    disabled={saving}
+                    className="flex items-center gap-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                ) : <span />}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setForm(null)}
+                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save Shift'}
+                  </button>
+                </div>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
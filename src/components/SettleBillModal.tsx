@@ -0,0 +1,556 @@
+import { useState, useEffect } from 'react';
+import { X, Receipt, AlertCircle, CheckCircle, CreditCard, Banknote, Wallet } from 'lucide-react';
+import { supabase, Order, OrderItem, MenuItem } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchOrderWithItems } from '../lib/liveOrders';
+import { getAllowedNextStatuses } from '../lib/orderStatus';
+import { formatModifiers } from '../lib/modifiers';
+import {
+  PaymentMethod,
+  paymentMethodLabels,
+  getAmountPaid,
+  getBalance,
+  getPaidItemIds,
+  getItemsAmount,
+  getEvenShare,
+  recordPayment,
+  takeCardPayment,
+  PaymentRequest
+} from '../lib/payments';
+import {
+  SimulatedOutcome,
+  simulatedOutcomeLabels,
+  getPaymentGateway,
+  getSimulatedOutcome,
+  setSimulatedOutcome
+} from '../lib/paymentGateway';
+import { DEFAULT_TIP_SUGGESTIONS, formatRate, getTipSuggestions, loadPricingConfig } from '../lib/pricing';
+import { describeDiscountValue, discountKindLabels } from '../lib/discounts';
+import { getActiveItems } from '../lib/voids';
+
+interface SettleBillModalProps {
+  order: Order;
+  onClose: () => void;
+  // Called after each payment and when the order is completed
+  onChanged: () => void;
+}
+
+type BillOrder = Order & { order_items?: (OrderItem & { menu_item?: MenuItem })[] };
+
+type SplitMode = 'amount' | 'even' | 'items';
+
+const SPLIT_MODES: { value: SplitMode; label: string }[] = [
+  { value: 'amount', label: 'Amount' },
+  { value: 'even', label: 'Split Evenly' },
+  { value: 'items', label: 'By Item' }
+];
+
+const methodIcons = {
+  cash: Banknote,
+  card: CreditCard,
+  other: Wallet
+};
+
+export default function SettleBillModal({ order, onClose, onChanged }: SettleBillModalProps) {
+  const [bill, setBill] = useState<BillOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<SplitMode>('amount');
+  const [method, setMethod] = useState<PaymentMethod>('card');
+  const [amount, setAmount] = useState('');
+  const [tip, setTip] = useState('');
+  const [tendered, setTendered] = useState('');
+  const [guests, setGuests] = useState(2);
+  const [guestsPaid, setGuestsPaid] = useState(0);
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [gateway] = useState(getPaymentGateway);
+  const [simulatedOutcome, setSimulatedOutcomeState] = useState<SimulatedOutcome>(getSimulatedOutcome);
+  const [tipPercentages, setTipPercentages] = useState(DEFAULT_TIP_SUGGESTIONS);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    loadBill(order.id);
+  }, [order.id]);
+
+  useEffect(() => {
+    loadTipPercentages();
+  }, []);
+
+  const loadTipPercentages = async () => {
+    const { config } = await loadPricingConfig();
+    if (config?.settings?.tip_suggestions?.length) {
+      setTipPercentages(config.settings.tip_suggestions);
+    }
+  };
+
+  const loadBill = async (orderId: string) => {
+    const loaded = await fetchOrderWithItems(orderId) as BillOrder | null;
+    if (!loaded) {
+      setError('Could not load this order');
+    } else {
+      setBill(loaded);
+      setAmount(getBalance(loaded, loaded.payments || []).toFixed(2));
+      // Carry on an even split that was started earlier
+      const guestShares = (loaded.payments || [])
+        .map(payment => payment.label?.match(/^Guest \d+ of (\d+)$/)?.[1])
+        .filter((guestCount): guestCount is string => !!guestCount);
+      if (guestShares.length > 0) {
+        setGuestsPaid(guestShares.length);
+        setGuests(Number(guestShares[guestShares.length - 1]));
+      }
+    }
+    setLoading(false);
+  };
+
+  const payments = bill?.payments || [];
+  const items = getActiveItems(bill?.order_items || []);
+  const balance = bill ? getBalance(bill, payments) : 0;
+  const paidItemIds = getPaidItemIds(payments);
+  const guestsLeft = Math.max(1, guests - guestsPaid);
+
+  const unpaidItems = items.filter(item => !paidItemIds.has(item.id));
+  // Whoever takes the last of the items also picks up the rounding
+  const coversRemainingItems = unpaidItems.length > 0 && unpaidItems.every(item => selectedItemIds.includes(item.id));
+
+  const paymentAmount = mode === 'even'
+    ? getEvenShare(balance, guestsLeft)
+    : mode === 'items'
+      ? coversRemainingItems
+        ? balance
+        : Math.min(balance, bill ? getItemsAmount(items.filter(item => selectedItemIds.includes(item.id)), bill) : 0)
+      : parseFloat(amount) || 0;
+  const tipAmount = parseFloat(tip) || 0;
+  // Tips are suggested on this payment's share of the bill before tax
+  const tipBase = bill && Number(bill.total) > 0
+    ? paymentAmount * (Number(bill.subtotal) - Number(bill.discount_total) + Number(bill.service_charge)) / Number(bill.total)
+    : paymentAmount;
+  const tipSuggestions = getTipSuggestions(tipBase, tipPercentages);
+  const tenderedAmount = parseFloat(tendered) || 0;
+  const change = method === 'cash' && tendered ? tenderedAmount - paymentAmount - tipAmount : 0;
+
+  const toggleItem = (itemId: string) => {
+    setSelectedItemIds(current => current.includes(itemId)
+      ? current.filter(id => id !== itemId)
+      : [...current, itemId]);
+  };
+
+  const handlePayment = async () => {
+    if (!bill) return;
+
+    if (paymentAmount <= 0) {
+      setError(mode === 'items' ? 'Choose the items this guest is paying for' : 'Enter an amount to pay');
+      return;
+    }
+    if (paymentAmount > balance + 0.001) {
+      setError(`Only $${balance.toFixed(2)} is still owed`);
+      return;
+    }
+    if (method === 'cash' && tendered && change < 0) {
+      setError('The cash tendered does not cover the payment and tip');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const request: PaymentRequest = {
+      orderId: bill.id,
+      method,
+      amount: paymentAmount,
+      tip: tipAmount,
+      tendered: method === 'cash' && tendered ? tenderedAmount : null,
+      label: mode === 'even' ? `Guest ${guestsPaid + 1} of ${guests}` : mode === 'items' ? 'Split by item' : undefined,
+      itemIds: mode === 'items' ? selectedItemIds : []
+    };
+    const { error: paymentError } = method === 'card'
+      ? await takeCardPayment(request, gateway)
+      : await recordPayment(request);
+
+    if (paymentError) {
+      setError(paymentError);
+    } else {
+      setSelectedItemIds([]);
+      setTip('');
+      setTendered('');
+      await loadBill(bill.id);
+      onChanged();
+    }
+    setSaving(false);
+  };
+
+  const handleSimulatedOutcomeChange = (outcome: SimulatedOutcome) => {
+    setSimulatedOutcome(outcome);
+    setSimulatedOutcomeState(outcome);
+  };
+
+  const handleComplete = async () => {
+    if (!bill) return;
+
+    setSaving(true);
+    setError('');
+    const { error: updateError } = await supabase
+      .from('orders')
+      .update({ status: 'completed' })
+      .eq('id', bill.id);
+
+    if (updateError) {
+      console.error('Error completing order:', updateError);
+      setError(updateError.message);
+      setSaving(false);
+      return;
+    }
+
+    onChanged();
+    onClose();
+  };
+
+  const canComplete = !!bill && !!user && getAllowedNextStatuses(bill, user).includes('completed');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="bg-gradient-to-r from-blue-500 to-blue-600 p-6 text-white flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-white/20 rounded-lg">
+              <Receipt className="w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold">Settle Bill</h2>
+              <p className="opacity-90">
+                Order #{order.id.slice(0, 8)} • {order.table_number ? `Table ${order.table_number}` : order.customer_name}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+          </div>
+        ) : bill && (
+          <div className="p-6 space-y-6 overflow-y-auto">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Total</p>
+                <p className="text-xl font-bold text-gray-900">${Number(bill.total).toFixed(2)}</p>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Paid</p>
+                <p className="text-xl font-bold text-gray-900">${getAmountPaid(payments).toFixed(2)}</p>
+              </div>
+              <div className={`p-4 rounded-lg ${balance > 0 ? 'bg-yellow-50' : 'bg-green-50'}`}>
+                <p className="text-sm text-gray-600">Balance</p>
+                <p className={`text-xl font-bold ${balance > 0 ? 'text-yellow-800' : 'text-green-700'}`}>
+                  ${balance.toFixed(2)}
+                </p>
+              </div>
+            </div>
+
+            <div className="p-4 border border-gray-200 rounded-lg space-y-1 text-sm">
+              <div className="flex justify-between text-gray-700">
+                <span>Subtotal</span>
+                <span>${Number(bill.subtotal).toFixed(2)}</span>
+              </div>
+              {(bill.order_discounts || []).map(discount => (
+                <div key={discount.id} className="flex justify-between text-green-700">
+                  <span>
+                    {discountKindLabels[discount.kind]}: {describeDiscountValue(discount)}
+                    {discount.order_item_id && ` on ${items.find(item => item.id === discount.order_item_id)?.menu_item?.name || 'an item'}`}
+                    {discount.reason && ` (${discount.reason})`}
+                  </span>
+                  <span>-${Number(discount.amount).toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-gray-700">
+                <span>Tax{bill.tax_inclusive && ' (included in prices)'}</span>
+                <span>${Number(bill.tax_total).toFixed(2)}</span>
+              </div>
+              {Number(bill.service_charge) > 0 && (
+                <div className="flex justify-between text-gray-700">
+                  <span>
+                    Service charge ({formatRate(bill.service_charge_rate)}{bill.party_size ? ` for a party of ${bill.party_size}` : ''})
+                  </span>
+                  <span>${Number(bill.service_charge).toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold text-gray-900 pt-1 border-t border-gray-100">
+                <span>Total</span>
+                <span>${Number(bill.total).toFixed(2)}</span>
+              </div>
+              {Number(bill.tip_total) > 0 && (
+                <div className="flex justify-between text-gray-500">
+                  <span>Tips</span>
+                  <span>${Number(bill.tip_total).toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+
+            {payments.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Payments</h4>
+                <div className="space-y-2">
+                  {payments.map(payment => (
+                    <div key={payment.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                      <div>
+                        <span className="font-medium text-gray-900">{paymentMethodLabels[payment.method]}</span>
+                        {payment.label && <span className="text-gray-600"> • {payment.label}</span>}
+                        <span className="text-gray-500"> • {new Date(payment.created_at).toLocaleTimeString()}</span>
+                        {Number(payment.change_given) > 0 && (
+                          <span className="text-gray-500"> • ${Number(payment.change_given).toFixed(2)} change</span>
+                        )}
+                        {payment.gateway_transaction_id && (
+                          <span className="block text-xs text-gray-500 font-mono">{payment.gateway_transaction_id}</span>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <span className="font-medium text-gray-900">${Number(payment.amount).toFixed(2)}</span>
+                        {Number(payment.tip) > 0 && (
+                          <span className="block text-xs text-gray-500">+ ${Number(payment.tip).toFixed(2)} tip</span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+                <AlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+
+            {balance > 0 ? (
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  {SPLIT_MODES.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => {
+                        setMode(option.value);
+                        setError('');
+                      }}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        mode === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                {mode === 'amount' && (
+                  <div>
+                    <label htmlFor="payment-amount" className="block text-sm font-medium text-gray-700 mb-1">
+                      Amount (pay part of the bill by entering less than the balance)
+                    </label>
+                    <input
+                      id="payment-amount"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {mode === 'even' && (
+                  <div className="flex flex-wrap items-center gap-4">
+                    <div>
+                      <label htmlFor="payment-guests" className="block text-sm font-medium text-gray-700 mb-1">Guests</label>
+                      <input
+                        id="payment-guests"
+                        type="number"
+                        min={Math.max(2, guestsPaid + 1)}
+                        value={guests}
+                        onChange={(e) => setGuests(Math.max(guestsPaid + 1, parseInt(e.target.value) || 1))}
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      Guest {guestsPaid + 1} of {guests} pays <span className="font-semibold text-gray-900">${paymentAmount.toFixed(2)}</span>
+                    </p>
+                  </div>
+                )}
+
+                {mode === 'items' && (
+                  <div className="space-y-2">
+                    {items.map(item => {
+                      const paid = paidItemIds.has(item.id);
+                      return (
+                        <label
+                          key={item.id}
+                          className={`flex items-center justify-between p-3 rounded-lg text-sm ${paid ? 'bg-gray-50 text-gray-400' : 'bg-gray-50 cursor-pointer hover:bg-gray-100'}`}
+                        >
+                          <span className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={paid || selectedItemIds.includes(item.id)}
+                              disabled={paid}
+                              onChange={() => toggleItem(item.id)}
+                              className="rounded border-gray-300"
+                            />
+                            <span>
+                              {item.quantity}x {item.menu_item?.name || 'Unknown Item'}
+                              {item.modifiers && item.modifiers.length > 0 && (
+                                <span className="text-gray-500"> ({formatModifiers(item.modifiers)})</span>
+                              )}
+                              {paid && ' • paid'}
+                            </span>
+                          </span>
+                          <span>${getItemsAmount([item], bill).toFixed(2)}</span>
+                        </label>
+                      );
+                    })}
+                    <p className="text-sm text-gray-600">
+                      Selected items come to <span className="font-semibold text-gray-900">${paymentAmount.toFixed(2)}</span>
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map(value => {
+                    const Icon = methodIcons[value];
+                    return (
+                      <button
+                        key={value}
+                        onClick={() => setMethod(value)}
+                        className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                          method === value ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <Icon className="w-4 h-4" />
+                        {paymentMethodLabels[value]}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {method === 'card' && gateway.simulated && (
+                  <div className="flex items-center justify-between gap-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <label htmlFor="simulated-outcome" className="text-sm text-yellow-800">
+                      Simulated card reader — no real card is charged
+                    </label>
+                    <select
+                      id="simulated-outcome"
+                      value={simulatedOutcome}
+                      onChange={(e) => handleSimulatedOutcomeChange(e.target.value as SimulatedOutcome)}
+                      className="px-3 py-1 border border-yellow-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {(Object.keys(simulatedOutcomeLabels) as SimulatedOutcome[]).map(outcome => (
+                        <option key={outcome} value={outcome}>{simulatedOutcomeLabels[outcome]}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="payment-tip" className="block text-sm font-medium text-gray-700 mb-1">Tip</label>
+                    <input
+                      id="payment-tip"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={tip}
+                      onChange={(e) => setTip(e.target.value)}
+                      placeholder="0.00"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    {paymentAmount > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {tipSuggestions.map(suggestion => (
+                          <button
+                            key={suggestion.percent}
+                            type="button"
+                            onClick={() => setTip(suggestion.amount.toFixed(2))}
+                            className={`px-2 py-1 rounded-lg text-xs font-medium transition-colors ${
+                              tipAmount === suggestion.amount ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                          >
+                            {suggestion.percent}% (${suggestion.amount.toFixed(2)})
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  {method === 'cash' && (
+                    <div>
+                      <label htmlFor="payment-tendered" className="block text-sm font-medium text-gray-700 mb-1">
+                        Cash Tendered
+                      </label>
+                      <input
+                        id="payment-tendered"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={tendered}
+                        onChange={(e) => setTendered(e.target.value)}
+                        placeholder={(paymentAmount + tipAmount).toFixed(2)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {method === 'cash' && tendered && change >= 0 && (
+                  <p className="text-sm text-gray-700">
+                    Change due: <span className="font-semibold text-gray-900">${change.toFixed(2)}</span>
+                  </p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Close
+                  </button>
+                  <button
+                    onClick={handlePayment}
+                    disabled={saving || paymentAmount <= 0}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {saving ? (method === 'card' ? 'Processing card...' : 'Recording...') : `Take $${(paymentAmount + tipAmount).toFixed(2)}`}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2">
+                  <CheckCircle className="w-5 h-5 text-green-600" />
+                  <p className="text-green-700">
+                    Paid in full.{!canComplete && bill.status !== 'completed' && ' The order can be completed once it has been served.'}
+                  </p>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Close
+                  </button>
+                  {canComplete && (
+                    <button
+                      onClick={handleComplete}
+                      disabled={saving}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      {saving ? 'Completing...' : 'Complete Order'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
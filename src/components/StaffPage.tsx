@@ -0,0 +1,649 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Navigate } from 'react-router-dom';
+import { AlertCircle, Copy, KeyRound, RefreshCw, Search, UserCheck, UserPlus, UserX, X } from 'lucide-react';
+import { supabase, StaffInvite, User } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  StaffStats,
+  roleLabels,
+  loadStaffStats,
+  updateUserRole,
+  setUserActive,
+  updateHourlyRate,
+  hasApprovalPin,
+  setApprovalPin
+} from '../lib/staff';
+import { formatMinutes } from '../lib/orderTiming';
+import { InviteRole, getInviteLink, isInvitePending, createStaffInvite, revokeStaffInvite } from '../lib/invites';
+
+const PERIODS = [7, 30, 90];
+
+const FILTERS = [
+  { value: 'staff', label: 'Staff' },
+  { value: 'customer', label: 'Customers' },
+  { value: 'inactive', label: 'Deactivated' }
+] as const;
+
+type Filter = typeof FILTERS[number]['value'];
+
+const roleStyles: Record<User['role'], string> = {
+  manager: 'bg-blue-100 text-blue-800',
+  waiter: 'bg-green-100 text-green-800',
+  kitchen: 'bg-orange-100 text-orange-800',
+  customer: 'bg-purple-100 text-purple-800'
+};
+
+export default function StaffPage() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [stats, setStats] = useState<Map<string, StaffStats>>(new Map());
+  const [days, setDays] = useState(30);
+  const [filter, setFilter] = useState<Filter>('staff');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [actionError, setActionError] = useState('');
+  const [invites, setInvites] = useState<StaffInvite[]>([]);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [inviteRole, setInviteRole] = useState<InviteRole>('waiter');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [createdInvite, setCreatedInvite] = useState<StaffInvite | null>(null);
+  const [inviteError, setInviteError] = useState('');
+  const [inviting, setInviting] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [hasPin, setHasPin] = useState(false);
+  const [pin, setPin] = useState('');
+  const [savingPin, setSavingPin] = useState(false);
+  const [pinNotice, setPinNotice] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user?.role === 'manager') {
+      loadStaff(days);
+    } else {
+      setLoading(false);
+    }
+  }, [user, days]);
+
+  const loadStaff = async (periodDays: number) => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - (periodDays - 1));
+
+      const [usersResult, statsResult, invitesResult, pinResult] = await Promise.all([
+        supabase
+          .from('users')
+          .select('*')
+          .order('name', { ascending: true }),
+        loadStaffStats(since),
+        supabase
+          .from('staff_invites')
+          .select('*')
+          .order('created_at', { ascending: false }),
+        hasApprovalPin()
+      ]);
+
+      const failure = usersResult.error?.message || statsResult.error || invitesResult.error?.message || pinResult.error;
+      if (failure) {
+        console.error('Error loading staff:', failure);
+        setError(`Failed to load staff: ${failure}`);
+        return;
+      }
+
+      setUsers(usersResult.data || []);
+      setStats(statsResult.stats);
+      setInvites(invitesResult.data || []);
+      setHasPin(pinResult.hasPin);
+    } catch (err) {
+      console.error('Error loading staff:', err);
+      setError('An unexpected error occurred while loading staff');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replaceUser = (updated: User) => {
+    setUsers(current => current.map(member => (member.id === updated.id ? updated : member)));
+  };
+
+  const handleRoleChange = async (member: User, role: User['role']) => {
+    if (role === member.role) return;
+
+    if (!confirm(`Change ${member.name} from ${roleLabels[member.role]} to ${roleLabels[role]}?`)) {
+      return;
+    }
+
+    setSavingId(member.id);
+    setActionError('');
+    const { user: updated, error: roleError } = await updateUserRole(member.id, role);
+    if (roleError || !updated) {
+      setActionError(roleError || 'Failed to change the role');
+    } else {
+      replaceUser(updated);
+    }
+    setSavingId(null);
+  };
+
+  const handleToggleActive = async (member: User) => {
+    const message = member.active
+      ? `Deactivate ${member.name}? They will be signed out and unable to sign in again until reactivated.`
+      : `Reactivate ${member.name}?`;
+    if (!confirm(message)) {
+      return;
+    }
+
+    setSavingId(member.id);
+    setActionError('');
+    const { user: updated, error: activeError } = await setUserActive(member.id, !member.active);
+    if (activeError || !updated) {
+      setActionError(activeError || 'Failed to change the account status');
+    } else {
+      replaceUser(updated);
+    }
+    setSavingId(null);
+  };
+
+  const handleRateChange = async (member: User, value: string) => {
+    const hourlyRate = value.trim() === '' ? null : parseFloat(value);
+    if (hourlyRate !== null && (isNaN(hourlyRate) || hourlyRate < 0)) {
+      setActionError('Enter a valid hourly rate');
+      return;
+    }
+    if (hourlyRate === (member.hourly_rate ?? null)) return;
+
+    setSavingId(member.id);
+    setActionError('');
+    const { user: updated, error: rateError } = await updateHourlyRate(member.id, hourlyRate);
+    if (rateError || !updated) {
+      setActionError(rateError || 'Failed to change the hourly rate');
+    } else {
+      replaceUser(updated);
+    }
+    setSavingId(null);
+  };
+
+  const handleSavePin = async (e: FormEvent) => {
+    e.preventDefault();
+
+    setSavingPin(true);
+    setActionError('');
+    setPinNotice('');
+    const { error: pinError } = await setApprovalPin(pin.trim());
+    if (pinError) {
+      setActionError(pinError);
+    } else {
+      setHasPin(true);
+      setPin('');
+      setPinNotice('Approval PIN saved');
+    }
+    setSavingPin(false);
+  };
+
+  const openInviteModal = () => {
+    setInviteRole('waiter');
+    setInviteEmail('');
+    setCreatedInvite(null);
+    setInviteError('');
+    setShowInviteModal(true);
+  };
+
+  const handleCreateInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setInviting(true);
+    setInviteError('');
+    const { invite, error: createError } = await createStaffInvite(inviteRole, inviteEmail, user);
+    if (createError || !invite) {
+      setInviteError(createError || 'Failed to create the invite');
+    } else {
+      setInvites(current => [invite, ...current]);
+      setCreatedInvite(invite);
+    }
+    setInviting(false);
+  };
+
+  const handleRevokeInvite = async (invite: StaffInvite) => {
+    if (!confirm(`Revoke the ${roleLabels[invite.role].toLowerCase()} invite${invite.email ? ` for ${invite.email}` : ''}?`)) {
+      return;
+    }
+
+    setActionError('');
+    const { invite: revoked, error: revokeError } = await revokeStaffInvite(invite.id);
+    if (revokeError || !revoked) {
+      setActionError(revokeError || 'Failed to revoke the invite');
+    } else {
+      setInvites(current => current.map(existing => (existing.id === revoked.id ? revoked : existing)));
+    }
+  };
+
+  const copyInviteLink = async (invite: StaffInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(invite.token));
+      setCopiedId(invite.id);
+      setTimeout(() => setCopiedId(current => (current === invite.id ? null : current)), 2000);
+    } catch (err) {
+      console.error('Error copying invite link:', err);
+      setActionError('Could not copy the link; please copy it by hand');
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.role !== 'manager') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const searchTerm = search.trim().toLowerCase();
+  const visibleUsers = users
+    .filter(member => {
+      if (filter === 'inactive') return !member.active;
+      if (!member.active) return false;
+      return filter === 'customer' ? member.role === 'customer' : member.role !== 'customer';
+    })
+    .filter(member => !searchTerm ||
+      member.name.toLowerCase().includes(searchTerm) ||
+      member.email.toLowerCase().includes(searchTerm));
+
+  const pendingInvites = invites.filter(isInvitePending);
+  const activeStaff = users.filter(member => member.active && member.role !== 'customer');
+  const staffCounts = (['manager', 'waiter', 'kitchen'] as const).map(role => ({
+    role,
+    count: activeStaff.filter(member => member.role === role).length
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Staff Overview</h1>
+          <p className="text-gray-600">Manage accounts and see how the team is doing</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={openInviteModal}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <UserPlus className="w-4 h-4" />
+            Invite Staff
+          </button>
+          {PERIODS.map(period => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                days === period ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {period} days
+            </button>
+          ))}
+          <button
+            onClick={() => loadStaff(days)}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-600" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {actionError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-700">{actionError}</p>
+            </div>
+            <button onClick={() => setActionError('')} className="text-red-600 hover:text-red-800">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {staffCounts.map(({ role, count }) => (
+              <div key={role} className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+                <p className="text-sm font-medium text-gray-600">{roleLabels[role]}s</p>
+                <p className="text-2xl font-bold text-gray-900">{count}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-blue-100 rounded-lg">
+                <KeyRound className="w-6 h-6 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Approval PIN</h3>
+                <p className="text-sm text-gray-600">
+                  {hasPin
+                    ? 'Waiters can ask you to approve a void or refund with your PIN.'
+                    : 'Set a PIN so you can approve voids and refunds on a waiter\'s device.'}
+                </p>
+                {pinNotice && <p className="text-sm text-green-700">{pinNotice}</p>}
+              </div>
+            </div>
+            <form onSubmit={handleSavePin} className="flex gap-2">
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                pattern="[0-9]{6,8}"
+                title="6 to 8 digits"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                placeholder={hasPin ? 'New PIN' : '6-8 digits'}
+                required
+                className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={savingPin}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {savingPin ? 'Saving...' : hasPin ? 'Change PIN' : 'Set PIN'}
+              </button>
+            </form>
+          </div>
+
+          {pendingInvites.length > 0 && (
+            <div className="bg-white rounded-xl shadow-md border border-gray-100">
+              <div className="p-6 border-b border-gray-100">
+                <h3 className="text-lg font-semibold text-gray-900">Pending Invites</h3>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {pendingInvites.map(invite => (
+                  <div key={invite.id} className="px-6 py-3 flex items-center justify-between gap-4 text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        <span className={`px-2 py-0.5 mr-2 rounded-full text-xs font-medium ${roleStyles[invite.role]}`}>
+                          {roleLabels[invite.role]}
+                        </span>
+                        {invite.email || 'Anyone with the link'}
+                      </p>
+                      <p className="text-gray-500">
+                        Sent by {invite.created_by_name || 'Unknown'} • expires {new Date(invite.expires_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => copyInviteLink(invite)}
+                        className="flex items-center gap-1 px-3 py-1 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors"
+                      >
+                        <Copy className="w-4 h-4" />
+                        {copiedId === invite.id ? 'Copied' : 'Copy Link'}
+                      </button>
+                      <button
+                        onClick={() => handleRevokeInvite(invite)}
+                        className="px-3 py-1 rounded-lg text-red-600 hover:bg-red-50 transition-colors"
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-md border border-gray-100">
+            <div className="p-4 border-b border-gray-100 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="flex gap-2">
+                {FILTERS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setFilter(option.value)}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      filter === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <div className="relative">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by name or email"
+                  className="pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            {visibleUsers.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="text-left px-6 py-3 font-medium">Name</th>
+                      <th className="text-left px-6 py-3 font-medium">Role</th>
+                      <th className="text-left px-6 py-3 font-medium">Hourly Rate</th>
+                      <th className="text-right px-6 py-3 font-medium">Orders Taken</th>
+                      <th className="text-right px-6 py-3 font-medium">Sales</th>
+                      <th className="text-right px-6 py-3 font-medium">Avg Serve</th>
+                      <th className="text-right px-6 py-3 font-medium">Orders Readied</th>
+                      <th className="text-right px-6 py-3 font-medium">Avg Prep</th>
+                      <th className="text-right px-6 py-3 font-medium">Voids</th>
+                      <th className="text-right px-6 py-3 font-medium">Refunds</th>
+                      <th className="px-6 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleUsers.map(member => {
+                      const memberStats = stats.get(member.id);
+                      const isSelf = member.id === user.id;
+                      return (
+                        <tr key={member.id} className={member.active ? '' : 'bg-gray-50'}>
+                          <td className="px-6 py-3">
+                            <p className="font-medium text-gray-900">
+                              {member.name}
+                              {isSelf && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+                            </p>
+                            <p className="text-gray-500">{member.email}</p>
+                            {!member.active && member.deactivated_at && (
+                              <p className="text-xs text-red-600">
+                                Deactivated {new Date(member.deactivated_at).toLocaleDateString()}
+                              </p>
+                            )}
+                          </td>
+                          <td className="px-6 py-3">
+                            {isSelf ? (
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${roleStyles[member.role]}`}>
+                                {roleLabels[member.role]}
+                              </span>
+                            ) : (
+                              <select
+                                value={member.role}
+                                onChange={(e) => handleRoleChange(member, e.target.value as User['role'])}
+                                disabled={savingId === member.id}
+                                className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                              >
+                                {(Object.keys(roleLabels) as User['role'][]).map(role => (
+                                  <option key={role} value={role}>{roleLabels[role]}</option>
+                                ))}
+                              </select>
+                            )}
+                          </td>
+                          <td className="px-6 py-3">
+                            {member.role === 'customer' ? (
+                              <span className="text-gray-400">—</span>
+                            ) : (
+                              <div className="relative w-24">
+                                <span className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400">$</span>
+                                <input
+                                  key={member.hourly_rate ?? 'unset'}
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  defaultValue={member.hourly_rate ?? ''}
+                                  onBlur={(e) => handleRateChange(member, e.target.value)}
+                                  disabled={savingId === member.id}
+                                  placeholder="0.00"
+                                  className="w-full pl-5 pr-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                                />
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-6 py-3 text-right text-gray-900">{memberStats?.ordersTaken || '—'}</td>
+                          <td className="px-6 py-3 text-right text-gray-900">
+                            {memberStats?.ordersTaken ? `$${memberStats.sales.toFixed(2)}` : '—'}
+                          </td>
+                          <td className="px-6 py-3 text-right text-gray-700">{formatMinutes(memberStats?.serveMinutes ?? null)}</td>
+                          <td className="px-6 py-3 text-right text-gray-900">{memberStats?.ordersReadied || '—'}</td>
+                          <td className="px-6 py-3 text-right text-gray-700">{formatMinutes(memberStats?.prepMinutes ?? null)}</td>
+                          <td className="px-6 py-3 text-right text-gray-900">{memberStats?.voids || '—'}</td>
+                          <td className="px-6 py-3 text-right text-gray-900">{memberStats?.refunds || '—'}</td>
+                          <td className="px-6 py-3 text-right">
+                            {!isSelf && (
+                              <button
+                                onClick={() => handleToggleActive(member)}
+                                disabled={savingId === member.id}
+                                className={`flex items-center gap-1 ml-auto px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                                  member.active
+                                    ? 'text-red-600 hover:bg-red-50'
+                                    : 'text-green-600 hover:bg-green-50'
+                                }`}
+                              >
+                                {member.active ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                                {member.active ? 'Deactivate' : 'Reactivate'}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-8">No accounts match.</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {showInviteModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full overflow-hidden">
+            <div className="bg-gradient-to-r from-blue-500 to-blue-600 p-6 text-white flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold">Invite Staff</h2>
+                <p className="opacity-90">The link works once and expires after a week</p>
+              </div>
+              <button onClick={() => setShowInviteModal(false)} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {createdInvite ? (
+              <div className="p-6 space-y-4">
+                <p className="text-gray-700">
+                  Send this link to your new {roleLabels[createdInvite.role].toLowerCase()}
+                  {createdInvite.email ? ` at ${createdInvite.email}` : ''}. They will pick a password when they sign up.
+                </p>
+                <input
+                  type="text"
+                  readOnly
+                  value={getInviteLink(createdInvite.token)}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => copyInviteLink(createdInvite)}
+                    className="flex items-center gap-2 px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  >
+                    <Copy className="w-4 h-4" />
+                    {copiedId === createdInvite.id ? 'Copied' : 'Copy Link'}
+                  </button>
+                  <button
+                    onClick={() => setShowInviteModal(false)}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Done
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleCreateInvite} className="p-6 space-y-4">
+                {inviteError && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+                    <AlertCircle className="w-4 h-4" />
+                    {inviteError}
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                  <select
+                    id="invite-role"
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="waiter">Waiter</option>
+                    <option value="kitchen">Kitchen</option>
+                    <option value="manager">Manager</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-1">
+                    Email (optional)
+                  </label>
+                  <input
+                    id="invite-email"
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="Only this address can use the invite"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowInviteModal(false)}
+                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={inviting}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {inviting ? 'Creating...' : 'Create Invite'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react';
+import { MapPin, Users, Clock, AlertCircle, RefreshCw, Lock, Unlock, CheckCircle, LayoutGrid, List } from 'lucide-react';
+import { supabase, Table, Section } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { tableStatusColors, getElapsedMinutes } from '../lib/floorPlan';
+import FloorPlan from './FloorPlan';
+
+export default function TablesPage() {
+  const [tables, setTables] = useState<Table[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [view, setView] = useState<'floor' | 'list'>('floor');
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [selectedSection, setSelectedSection] = useState<string>('all');
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    // Only load data if user exists
+    if (user) {
+      loadTables();
+
+      // Keep occupancy fresh while the floor is busy
+      const interval = setInterval(loadTables, 30000);
+      return () => clearInterval(interval);
+    } else {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadTables = async () => {
+    try {
+      setError('');
+
+      const [tablesResult, sectionsResult] = await Promise.all([
+        supabase
+          .from('tables')
+          .select(`
+            *,
+            section:sections (*),
+            current_order:orders (*)
+          `)
+          .order('number', { ascending: true }),
+        supabase
+          .from('sections')
+          .select('*')
+          .order('name', { ascending: true })
+      ]);
+
+      const fetchError = tablesResult.error || sectionsResult.error;
+      if (fetchError) {
+        console.error('Error loading tables:', fetchError);
+        setError(`Failed to load tables: ${fetchError.message}`);
+        return;
+      }
+
+      setTables(tablesResult.data || []);
+      setSections(sectionsResult.data || []);
+    } catch (err) {
+      console.error('Error loading tables:', err);
+      setError('An unexpected error occurred while loading tables');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTableStatus = async (table: Table, status: Table['status']) => {
+    if (status === 'available' && (table.status === 'occupied' || table.status === 'needs_bill') &&
+        !confirm(`Free table ${table.number}? The linked order will no longer be shown here.`)) {
+      return;
+    }
+
+    try {
+      setUpdatingId(table.id);
+
+      const { error: updateError } = await supabase
+        .from('tables')
+        .update({ status })
+        .eq('id', table.id);
+
+      if (updateError) {
+        console.error('Error updating table status:', updateError);
+        setError(`Failed to update table ${table.number}: ${updateError.message}`);
+        return;
+      }
+
+      await loadTables();
+    } catch (err) {
+      console.error('Error updating table status:', err);
+      setError('Failed to update table status');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const getStatusStyles = (status: Table['status']) => {
+    const styles = {
+      available: { card: 'border-green-200 bg-green-50', text: 'text-green-600' },
+      occupied: { card: 'border-red-200 bg-red-50', text: 'text-red-600' },
+      reserved: { card: 'border-yellow-200 bg-yellow-50', text: 'text-yellow-600' },
+      needs_bill: { card: 'border-purple-200 bg-purple-50', text: 'text-purple-600' }
+    };
+    return styles[status];
+  };
+
+  // Don't show anything if user is not logged in
+  if (!user) {
+    return null;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-gray-300 border-t-green-600 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-500">Loading tables...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const visibleTables = selectedSection === 'all'
+    ? tables
+    : tables.filter(table => table.section_id === selectedSection);
+  const selectedTable = tables.find(table => table.id === selectedTableId);
+  const countByStatus = (status: Table['status']) => tables.filter(table => table.status === status).length;
+  const freeSeats = tables
+    .filter(table => table.status === 'available')
+    .reduce((sum, table) => sum + table.seats, 0);
+  const canManageTables = user.role === 'waiter' || user.role === 'manager';
+
+  const renderTableDetails = (table: Table) => {
+    const order = table.current_order;
+
+    return (
+      <>
+        <div className="flex items-start justify-between mb-3">
+          <div>
+            <div className="text-2xl font-bold text-gray-900">T{table.number}</div>
+            <div className="flex items-center gap-3 text-xs text-gray-600 mt-1">
+              <span className="flex items-center gap-1">
+                <Users className="w-3 h-3" />
+                {table.seats} seats
+              </span>
+              <span className="flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {table.section?.name || 'Unassigned'}
+              </span>
+            </div>
+          </div>
+          <span className={`text-xs font-medium ${getStatusStyles(table.status).text}`}>
+            {tableStatusColors[table.status].label.toUpperCase()}
+          </span>
+        </div>
+
+        {order && (
+          <div className="bg-white/70 rounded-lg p-3 mb-3 text-sm">
+            <p className="font-medium text-gray-900">{order.customer_name}</p>
+            <p className="text-gray-500">
+              Order #{order.id.slice(0, 8)} • ${Number(order.total).toFixed(2)}
+            </p>
+            <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+              <span className="capitalize">{order.status}</span>
+              <span className="flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                {getElapsedMinutes(order.created_at)}m
+              </span>
+            </div>
+          </div>
+        )}
+
+        {canManageTables && (
+          <div className="flex gap-2">
+            {table.status === 'available' && (
+              <button
+                onClick={() => updateTableStatus(table, 'reserved')}
+                disabled={updatingId === table.id}
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-yellow-500 text-white rounded-lg text-xs hover:bg-yellow-600 disabled:opacity-50"
+              >
+                <Lock className="w-3 h-3" />
+                Reserve
+              </button>
+            )}
+            {table.status === 'reserved' && (
+              <button
+                onClick={() => updateTableStatus(table, 'available')}
+                disabled={updatingId === table.id}
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg text-xs hover:bg-green-700 disabled:opacity-50"
+              >
+                <Unlock className="w-3 h-3" />
+                Release
+              </button>
+            )}
+            {(table.status === 'occupied' || table.status === 'needs_bill') && user.role === 'manager' && (
+              <button
+                onClick={() => updateTableStatus(table, 'available')}
+                disabled={updatingId === table.id}
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-2 border border-gray-300 bg-white text-gray-700 rounded-lg text-xs hover:bg-gray-50 disabled:opacity-50"
+              >
+                <CheckCircle className="w-3 h-3" />
+                Free Table
+              </button>
+            )}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Table View</h1>
+          <p className="text-gray-600">Live occupancy across the dining room</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-white border border-gray-200 rounded-lg p-1">
+            <button
+              onClick={() => setView('floor')}
+              className={`p-2 rounded ${view === 'floor' ? 'bg-green-600 text-white' : 'text-gray-500 hover:bg-gray-50'}`}
+              title="Floor plan"
+            >
+              <LayoutGrid className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setView('list')}
+              className={`p-2 rounded ${view === 'list' ? 'bg-green-600 text-white' : 'text-gray-500 hover:bg-gray-50'}`}
+              title="List"
+            >
+              <List className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={loadTables}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <p className="text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Occupancy Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+        {(['available', 'occupied', 'reserved', 'needs_bill'] as const).map((status) => (
+          <div key={status} className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+            <p className="text-sm font-medium text-gray-600">{tableStatusColors[status].label}</p>
+            <p className={`text-2xl font-bold ${getStatusStyles(status).text}`}>{countByStatus(status)}</p>
+          </div>
+        ))}
+        <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
+          <p className="text-sm font-medium text-gray-600">Free Seats</p>
+          <p className="text-2xl font-bold text-gray-900">{freeSeats}</p>
+        </div>
+      </div>
+
+      {/* Section Filter */}
+      {sections.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {[{ id: 'all', name: 'All Sections', color: '' }, ...sections].map((section) => (
+            <button
+              key={section.id}
+              onClick={() => setSelectedSection(section.id)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                selectedSection === section.id
+                  ? 'bg-green-600 text-white'
+                  : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {section.color && (
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: section.color }}></span>
+              )}
+              {section.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {tables.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="bg-white rounded-xl shadow-md border border-gray-100 p-8">
+            <MapPin className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-600 mb-2">No tables found</h3>
+            <p className="text-gray-500">Tables set up by your manager will appear here.</p>
+          </div>
+        </div>
+      ) : view === 'floor' ? (
+        /* Floor Plan */
+        <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+          <div className="xl:col-span-3">
+            <FloorPlan
+              tables={visibleTables}
+              sections={sections}
+              colorBy="status"
+              selectedTableId={selectedTableId}
+              onSelectTable={(table) => setSelectedTableId(table.id)}
+            />
+          </div>
+          <div>
+            {selectedTable ? (
+              <div className={`p-5 rounded-xl border-2 ${getStatusStyles(selectedTable.status).card}`}>
+                {renderTableDetails(selectedTable)}
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-md border border-gray-100 p-6 text-sm text-gray-500">
+                Select a table to see its order and actions.
+              </div>
+            )}
+          </div>
+        </div>
+      ) : (
+        /* Tables Grid */
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {visibleTables.map((table) => (
+            <div key={table.id} className={`p-5 rounded-xl border-2 ${getStatusStyles(table.status).card}`}>
+              {renderTableDetails(table)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+interface TagChipsProps {
+  options: { value: string; label: string }[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  tone?: 'red' | 'green' | 'purple';
+}
+
+const toneClasses = {
+  red: 'bg-red-100 text-red-800 border-red-300',
+  green: 'bg-green-100 text-green-800 border-green-300',
+  purple: 'bg-purple-100 text-purple-800 border-purple-300'
+};
+
+export default function TagChips({ options, selected, onChange, tone = 'purple' }: TagChipsProps) {
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => {
+        const active = selected.includes(option.value);
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => toggle(option.value)}
+            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+              active ? toneClasses[tone] : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
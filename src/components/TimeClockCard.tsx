@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { Timer, LogIn, LogOut, Coffee, AlertCircle, X } from 'lucide-react';
+import { supabase, Shift, TimeEntry } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getWorkedHours, getShiftHours, formatHours, formatShiftTime, punchClock } from '../lib/timeClock';
+
+export default function TimeClockCard() {
+  const [entry, setEntry] = useState<TimeEntry | null>(null);
+  const [todayHours, setTodayHours] = useState(0);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [punching, setPunching] = useState(false);
+  const [actionError, setActionError] = useState('');
+  const [now, setNow] = useState(new Date());
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      loadClock(user.id);
+    }
+  }, [user]);
+
+  // Keep the worked time moving while on the clock
+  useEffect(() => {
+    if (!entry) return;
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, [entry]);
+
+  const loadClock = async (userId: string) => {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const nextWeek = new Date();
+    nextWeek.setDate(nextWeek.getDate() + 7);
+
+    try {
+      const [entriesResult, shiftsResult] = await Promise.all([
+        supabase
+          .from('time_entries')
+          .select('*')
+          .eq('user_id', userId)
+          .or(`clock_out_at.is.null,clock_in_at.gte.${startOfToday.toISOString()}`)
+          .order('clock_in_at', { ascending: true }),
+        supabase
+          .from('shifts')
+          .select('*')
+          .eq('user_id', userId)
+          .gte('ends_at', new Date().toISOString())
+          .lt('starts_at', nextWeek.toISOString())
+          .order('starts_at', { ascending: true })
+      ]);
+
+      if (entriesResult.error) throw entriesResult.error;
+      if (shiftsResult.error) throw shiftsResult.error;
+
+      const entries = (entriesResult.data || []) as TimeEntry[];
+      const open = entries.find(item => !item.clock_out_at) || null;
+      setEntry(open);
+      setTodayHours(entries
+        .filter(item => item.clock_out_at)
+        .reduce((sum, item) => sum + getWorkedHours(item), 0));
+      setShifts((shiftsResult.data || []) as Shift[]);
+      setNow(new Date());
+    } catch (error) {
+      console.error('Error loading time clock:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePunch = async (action: Parameters<typeof punchClock>[0]) => {
+    if (!user) return;
+
+    setPunching(true);
+    setActionError('');
+    const { error } = await punchClock(action);
+    if (error) {
+      setActionError(error);
+    }
+    await loadClock(user.id);
+    setPunching(false);
+  };
+
+  if (!user || (user.role !== 'waiter' && user.role !== 'kitchen')) {
+    return null;
+  }
+
+  const onBreak = !!entry?.break_started_at;
+  const since = entry?.break_started_at || entry?.clock_in_at;
+  const workedToday = todayHours + (entry ? getWorkedHours(entry, now) : 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-100">
+      <div className="p-6 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-blue-50 rounded-lg">
+            <Timer className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Time Clock</h3>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : (
+              <p className="text-sm text-gray-500">
+                {since
+                  ? `${onBreak ? 'On break' : 'On the clock'} since ${formatShiftTime(since)}`
+                  : 'Not clocked in'}
+                {' • '}{formatHours(workedToday)} worked today
+              </p>
+            )}
+          </div>
+        </div>
+
+        {!loading && (
+          <div className="flex flex-wrap gap-2">
+            {!entry && (
+              <button
+                onClick={() => handlePunch('clock_in')}
+                disabled={punching}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg flex items-center gap-2 hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                <LogIn className="w-4 h-4" />
+                Clock In
+              </button>
+            )}
+            {entry && !onBreak && (
+              <button
+                onClick={() => handlePunch('start_break')}
+                disabled={punching}
+                className="px-4 py-2 bg-yellow-100 text-yellow-800 rounded-lg flex items-center gap-2 hover:bg-yellow-200 disabled:opacity-50 transition-colors"
+              >
+                <Coffee className="w-4 h-4" />
+                Start Break
+              </button>
+            )}
+            {entry && onBreak && (
+              <button
+                onClick={() => handlePunch('end_break')}
+                disabled={punching}
+                className="px-4 py-2 bg-yellow-100 text-yellow-800 rounded-lg flex items-center gap-2 hover:bg-yellow-200 disabled:opacity-50 transition-colors"
+              >
+                <Coffee className="w-4 h-4" />
+                End Break
+              </button>
+            )}
+            {entry && (
+              <button
+                onClick={() => handlePunch('clock_out')}
+                disabled={punching}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg flex items-center gap-2 hover:bg-red-700 disabled:opacity-50 transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                Clock Out
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {actionError && (
+        <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <p className="text-red-700">{actionError}</p>
+            </div>
+            <button onClick={() => setActionError('')} className="text-red-600 hover:text-red-800">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="p-6">
+        <h4 className="text-sm font-medium text-gray-600 mb-3">Upcoming Shifts</h4>
+        {shifts.length > 0 ? (
+          <div className="space-y-2">
+            {shifts.map(shift => (
+              <div key={shift.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">
+                    {new Date(shift.starts_at).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </span>
+                  <span className="text-gray-600"> • {formatShiftTime(shift.starts_at)} – {formatShiftTime(shift.ends_at)}</span>
+                  {shift.notes && <span className="text-gray-500"> • {shift.notes}</span>}
+                </div>
+                <span className="text-gray-500">{formatHours(getShiftHours(shift))}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No shifts scheduled in the next week.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { X, Ban, AlertCircle } from 'lucide-react';
+import { Order, OrderItem, MenuItem } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { formatModifiers } from '../lib/modifiers';
+import { voidOrderItem } from '../lib/voids';
+
+interface VoidItemModalProps {
+  order: Order;
+  item: OrderItem & { menu_item?: MenuItem };
+  onClose: () => void;
+  // Called once the item is voided
+  onVoided: () => void;
+}
+
+export default function VoidItemModal({ order, item, onClose, onVoided }: VoidItemModalProps) {
+  const [reason, setReason] = useState('');
+  const [managerPin, setManagerPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+
+  const isManager = user?.role === 'manager';
+
+  const handleVoid = async () => {
+    if (!reason.trim()) {
+      setError('Give a reason for the void');
+      return;
+    }
+    if (!isManager && !managerPin.trim()) {
+      setError('A manager needs to enter their PIN');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const { error: voidError } = await voidOrderItem(item.id, reason.trim(), isManager ? undefined : managerPin.trim());
+    setSaving(false);
+
+    if (voidError) {
+      setError(voidError);
+      return;
+    }
+    onVoided();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full overflow-hidden">
+        <div className="bg-gradient-to-r from-blue-500 to-blue-600 p-6 text-white flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-3 bg-white/20 rounded-lg">
+              <Ban className="w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold">Void Item</h2>
+              <p className="opacity-90">
+                Order #{order.id.slice(0, 8)} • {order.table_number ? `Table ${order.table_number}` : order.customer_name}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="p-4 border border-gray-200 rounded-lg flex items-start justify-between gap-4">
+            <div>
+              <p className="font-medium text-gray-900">
+                {item.quantity}x {item.menu_item?.name || 'Unknown Item'}
+              </p>
+              {item.modifiers && item.modifiers.length > 0 && (
+                <p className="text-sm text-gray-700">{formatModifiers(item.modifiers)}</p>
+              )}
+            </div>
+            <span className="font-medium text-gray-900">${Number(item.price).toFixed(2)}</span>
+          </div>
+
+          <p className="text-sm text-gray-600">
+            The line stays on the order marked as void and is taken off the bill.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="void-reason" className="block text-sm font-medium text-gray-700 mb-1">Reason (required)</label>
+            <input
+              id="void-reason"
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Ordered by mistake"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              autoFocus
+            />
+          </div>
+
+          {!isManager && (
+            <div>
+              <label htmlFor="void-pin" className="block text-sm font-medium text-gray-700 mb-1">Manager PIN</label>
+              <input
+                id="void-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={managerPin}
+                onChange={(e) => setManagerPin(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Keep Item
+            </button>
+            <button
+              onClick={handleVoid}
+              disabled={saving}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Voiding...' : 'Void Item'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
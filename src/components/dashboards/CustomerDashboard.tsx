@@ -1,15 +1,29 @@
 import React, { useState, useEffect } from 'react';
-import { Star, Heart, ShoppingCart, Clock, Utensils, AlertCircle } from 'lucide-react';
-import { supabase, MenuItem, Order } from '../../lib/supabase';
+import { Star, Heart, ShoppingCart, Clock, Utensils, AlertCircle, CalendarDays, Users } from 'lucide-react';
+import { supabase, MenuItem, Order, Reservation, SelectedModifier } from '../../lib/supabase';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../hooks/useCart';
+import { formatSlotTime } from '../../lib/reservations';
+import { MENU_ITEM_WITH_MODIFIERS, hasModifiers } from '../../lib/modifiers';
+import { ALLERGENS } from '../../lib/allergens';
+import BookTableModal from '../BookTableModal';
+import ModifierPickerModal from '../ModifierPickerModal';
+import TagChips from '../TagChips';
 
 export default function CustomerDashboard() {
-  const [cartItems, setCartItems] = useState<any[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [recentOrders, setRecentOrders] = useState<Order[]>([]);
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [showBookTable, setShowBookTable] = useState(false);
+  const [pickingItem, setPickingItem] = useState<MenuItem | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
-  const { user } = useAuth();
+  const [allergyDraft, setAllergyDraft] = useState<string[]>([]);
+  const [savingAllergies, setSavingAllergies] = useState(false);
+  const { user, updateAllergies } = useAuth();
+  const { addItem, itemCount } = useCart();
+  const navigate = useNavigate();
 
   useEffect(() => {
     // Only load data if user exists
@@ -21,6 +35,10 @@ export default function CustomerDashboard() {
     }
   }, [user]);
 
+  useEffect(() => {
+    setAllergyDraft(user?.allergies || []);
+  }, [user]);
+
   const loadData = async () => {
     if (!user) {
       setError('User not found');
@@ -36,7 +54,7 @@ export default function CustomerDashboard() {
       console.log('Fetching menu items...');
       const { data: menuData, error: menuError } = await supabase
         .from('menu_items')
-        .select('*')
+        .select(MENU_ITEM_WITH_MODIFIERS)
         .eq('available', true)
         .limit(6); // Show more items on dashboard
 
@@ -64,6 +82,21 @@ export default function CustomerDashboard() {
         console.log('Orders loaded:', ordersData?.length || 0, 'orders');
         setRecentOrders(ordersData || []);
       }
+
+      // Load upcoming reservations
+      const { data: reservationsData, error: reservationsError } = await supabase
+        .from('reservations')
+        .select('*')
+        .eq('customer_id', user.id)
+        .eq('status', 'booked')
+        .gte('reserved_for', new Date().toISOString())
+        .order('reserved_for', { ascending: true });
+
+      if (reservationsError) {
+        console.error('Error loading reservations:', reservationsError);
+      } else {
+        setReservations(reservationsData || []);
+      }
     } catch (error) {
       console.error('Error loading data:', error);
       setError('Failed to load dashboard data');
@@ -72,74 +105,50 @@ export default function CustomerDashboard() {
     }
   };
 
-  const addToCart = async (item: MenuItem) => {
-    if (!user) {
-      setError('Please sign in to add items to cart');
+  const addToCart = async (item: MenuItem, modifiers?: SelectedModifier[], notes?: string) => {
+    // Items with options go through the picker first
+    if (!modifiers && hasModifiers(item)) {
+      setPickingItem(item);
       return;
     }
 
-    try {
-      console.log('Adding item to cart:', item);
-      
-      // Add to local cart state immediately for better UX
-      setCartItems(prev => [...prev, item]);
-      
-      // Create a new order
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert([
-          {
-            customer_id: user.id,
-            customer_name: user.name || 'Customer',
-            status: 'pending',
-            total: item.price,
-          },
-        ])
-        .select()
-        .single();
-
-      if (orderError) {
-        console.error('Error creating order:', orderError);
-        setError('Failed to create order');
-        // Remove from cart if order creation failed
-        setCartItems(prev => prev.filter(cartItem => cartItem.id !== item.id));
-        return;
-      }
+    const { error: cartError } = await addItem(item, 1, notes, modifiers);
+    if (cartError) {
+      setError(cartError);
+      return;
+    }
 
-      console.log('Order created:', orderData);
-
-      // Add order item
-      const { error: orderItemError } = await supabase
-        .from('order_items')
-        .insert([
-          {
-            order_id: orderData.id,
-            menu_item_id: item.id,
-            quantity: 1,
-            price: item.price,
-          },
-        ]);
-
-      if (orderItemError) {
-        console.error('Error creating order item:', orderItemError);
-        setError('Failed to add item to order');
-        return;
-      }
+    setPickingItem(null);
+    setError('');
+  };
 
-      console.log('Order item created successfully');
-      
-      // Refresh orders
-      await loadData();
-      
-      // Clear any previous errors
-      setError('');
-      
-    } catch (error) {
-      console.error('Error adding to cart:', error);
-      setError('Failed to add item to cart');
-      // Remove from cart if there was an error
-      setCartItems(prev => prev.filter(cartItem => cartItem.id !== item.id));
+  const sameAllergies =
+    [...allergyDraft].sort().join(',') === [...(user?.allergies || [])].sort().join(',');
+
+  const saveAllergies = async () => {
+    setSavingAllergies(true);
+    const { error: saveError } = await updateAllergies(allergyDraft);
+    setSavingAllergies(false);
+    setError(saveError || '');
+  };
+
+  const cancelReservation = async (reservation: Reservation) => {
+    if (!confirm(`Cancel your booking for ${formatSlotTime(reservation.reserved_for)} on ${new Date(reservation.reserved_for).toLocaleDateString()}?`)) {
+      return;
+    }
+
+    const { error: cancelError } = await supabase
+      .from('reservations')
+      .update({ status: 'cancelled' })
+      .eq('id', reservation.id);
+
+    if (cancelError) {
+      console.error('Error cancelling reservation:', cancelError);
+      setError('Failed to cancel reservation');
+      return;
     }
+
+    await loadData();
   };
 
   // Don't show loading if user is not logged in
@@ -165,13 +174,20 @@ export default function CustomerDashboard() {
           <h1 className="text-3xl font-bold text-gray-900">Welcome Back, {user?.name}!</h1>
           <p className="text-gray-600">Discover delicious meals crafted with care</p>
         </div>
-        <div className="relative">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowBookTable(true)}
+            className="flex items-center gap-2 border border-purple-600 text-purple-600 px-4 py-2 rounded-lg hover:bg-purple-50 transition-colors"
+          >
+            <CalendarDays className="w-4 h-4" />
+            Book a Table
+          </button>
           <button 
-            onClick={() => console.log('Cart clicked, items:', cartItems)}
+            onClick={() => navigate('/cart')}
             className="flex items-center gap-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
           >
             <ShoppingCart className="w-4 h-4" />
-            Cart ({cartItems.length})
+            Cart ({itemCount})
           </button>
         </div>
       </div>
@@ -203,7 +219,7 @@ export default function CustomerDashboard() {
           <p>User Role: {user?.role}</p>
           <p>Menu Items: {menuItems.length}</p>
           <p>Recent Orders: {recentOrders.length}</p>
-          <p>Cart Items: {cartItems.length}</p>
+          <p>Cart Items: {itemCount}</p>
           <p>Error: {error || 'None'}</p>
         </div>
       )}
@@ -358,6 +374,67 @@ export default function CustomerDashboard() {
         </div>
       </div>
 
+      {/* Allergies */}
+      <div className="bg-white rounded-xl shadow-md border border-gray-100 p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">My Allergies</h3>
+          <button
+            onClick={saveAllergies}
+            disabled={savingAllergies || sameAllergies}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {savingAllergies ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          The kitchen sees these on every order you place and dishes that contain them are flagged on the menu.
+        </p>
+        <TagChips options={ALLERGENS} selected={allergyDraft} onChange={setAllergyDraft} tone="red" />
+      </div>
+
+      {/* Reservations */}
+      <div className="bg-white rounded-xl shadow-md border border-gray-100">
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">My Reservations</h3>
+            <button
+              onClick={() => setShowBookTable(true)}
+              className="text-purple-600 hover:text-purple-700 text-sm font-medium"
+            >
+              Book a Table →
+            </button>
+          </div>
+        </div>
+        <div className="p-6">
+          {reservations.length > 0 ? (
+            <div className="space-y-4">
+              {reservations.map((reservation) => (
+                <div key={reservation.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <h4 className="font-medium text-gray-900">
+                      {new Date(reservation.reserved_for).toLocaleDateString()} at {formatSlotTime(reservation.reserved_for)}
+                    </h4>
+                    <p className="text-sm text-gray-500 flex items-center gap-1">
+                      <Users className="w-4 h-4" />
+                      {reservation.party_size} {reservation.party_size === 1 ? 'guest' : 'guests'}
+                      {reservation.notes && ` • ${reservation.notes}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => cancelReservation(reservation)}
+                    className="text-sm text-red-600 hover:text-red-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-8">No upcoming reservations.</p>
+          )}
+        </div>
+      </div>
+
       {/* Order History */}
       <div className="bg-white rounded-xl shadow-md border border-gray-100">
         <div className="p-6 border-b border-gray-100">
@@ -391,6 +468,22 @@ export default function CustomerDashboard() {
           )}
         </div>
       </div>
+
+      <BookTableModal
+        isOpen={showBookTable}
+        onClose={() => setShowBookTable(false)}
+        onBooked={loadData}
+      />
+
+      {pickingItem && (
+        <ModifierPickerModal
+          menuItem={pickingItem}
+          onClose={() => setPickingItem(null)}
+          onConfirm={(modifiers, notes) => addToCart(pickingItem, modifiers, notes)}
+          confirmLabel="Add to Cart"
+          showNotes
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
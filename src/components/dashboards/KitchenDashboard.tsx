@@ -1,17 +1,34 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, ChefHat, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { Clock, ChefHat, AlertTriangle, CheckCircle2, Bell, X } from 'lucide-react';
 import { supabase, Order, OrderItem } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeOrders } from '../../hooks/useRealtimeOrders';
+import {
+  fetchOrderWithItems, upsertOrder, mergeOrderChange, mergeOrderItemChange,
+  getChangedOrderId, playNewOrderChime
+} from '../../lib/liveOrders';
+import { getAverageTimings, formatMinutes } from '../../lib/orderTiming';
+import { countLowStock } from '../../lib/inventory';
+import AllergyAlert from '../AllergyAlert';
+import EightySixBoard from '../EightySixBoard';
+import TimeClockCard from '../TimeClockCard';
+
+type KitchenOrder = Order & { order_items: (OrderItem & { menu_item: any })[] };
+
+const QUEUE_STATUSES: Order['status'][] = ['pending', 'preparing'];
 
 export default function KitchenDashboard() {
-  const [orders, setOrders] = useState<(Order & { order_items: (OrderItem & { menu_item: any })[] })[]>([]);
+  const [orders, setOrders] = useState<KitchenOrder[]>([]);
   const [loading, setLoading] = useState(true);
+  const [newOrderToast, setNewOrderToast] = useState<string | null>(null);
   const [stats, setStats] = useState({
     pendingOrders: 0,
     completedToday: 0,
-    avgPrepTime: 18,
-    lowStockItems: 3
+    avgPrepTime: null as number | null,
+    lowStockItems: null as number | null
   });
+  const [menuRefreshKey, setMenuRefreshKey] = useState(0);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -25,6 +42,79 @@ export default function KitchenDashboard() {
     }
   }, [user]);
 
+  useEffect(() => {
+    setStats(prev => ({ ...prev, pendingOrders: orders.length }));
+  }, [orders]);
+
+  useEffect(() => {
+    if (!newOrderToast) return;
+    const timeout = setTimeout(() => setNewOrderToast(null), 6000);
+    return () => clearTimeout(timeout);
+  }, [newOrderToast]);
+
+  // Pull a single order into the queue, or drop it if it has left the kitchen
+  const refreshOrder = async (orderId: string) => {
+    const order = await fetchOrderWithItems(orderId);
+    setOrders(prev => order && QUEUE_STATUSES.includes(order.status)
+      ? upsertOrder(prev, order as KitchenOrder, false)
+      : prev.filter(existing => existing.id !== orderId)
+    );
+  };
+
+  const handleOrderChange = (change: RealtimePostgresChangesPayload<Order>) => {
+    if (change.eventType === 'INSERT') {
+      if (QUEUE_STATUSES.includes(change.new.status)) {
+        refreshOrder(change.new.id);
+        setNewOrderToast(
+          `New order${change.new.table_number ? ` for table ${change.new.table_number}` : ''} from ${change.new.customer_name}`
+        );
+        playNewOrderChime();
+      }
+      return;
+    }
+
+    if (change.eventType === 'UPDATE') {
+      const inQueue = QUEUE_STATUSES.includes(change.new.status);
+      setOrders(prev => {
+        if (!inQueue) {
+          return prev.filter(order => order.id !== change.new.id);
+        }
+        return mergeOrderChange(prev, change);
+      });
+
+      if (inQueue && !orders.some(order => order.id === change.new.id)) {
+        refreshOrder(change.new.id);
+      }
+      if (!inQueue) {
+        loadStats();
+      }
+      return;
+    }
+
+    setOrders(prev => mergeOrderChange(prev, change));
+  };
+
+  const handleOrderItemChange = (change: RealtimePostgresChangesPayload<OrderItem>) => {
+    if (change.eventType === 'INSERT') {
+      // New items arrive right after their order; fetch them with menu details
+      const orderId = getChangedOrderId(change);
+      if (orderId) refreshOrder(orderId);
+      return;
+    }
+
+    setOrders(prev => mergeOrderItemChange(prev, change));
+  };
+
+  const { live } = useRealtimeOrders({
+    enabled: !!user && user.role === 'kitchen',
+    onResync: () => {
+      loadOrders();
+      loadStats();
+    },
+    onOrderChange: handleOrderChange,
+    onOrderItemChange: handleOrderItemChange
+  });
+
   const loadOrders = async () => {
     if (!user || user.role !== 'kitchen') {
       setLoading(false);
@@ -48,7 +138,6 @@ export default function KitchenDashboard() {
         console.error('Error loading orders:', error);
       } else {
         setOrders(data || []);
-        setStats(prev => ({ ...prev, pendingOrders: data?.length || 0 }));
       }
     } catch (error) {
       console.error('Error loading orders:', error);
@@ -78,6 +167,24 @@ export default function KitchenDashboard() {
       } else {
         setStats(prev => ({ ...prev, completedToday: data?.length || 0 }));
       }
+
+      // Average cooking time from today's status history
+      const { data: events, error: eventsError } = await supabase
+        .from('order_status_events')
+        .select('*')
+        .in('to_status', ['preparing', 'ready'])
+        .gte('created_at', today.toISOString());
+
+      if (eventsError) {
+        console.error('Error loading prep times:', eventsError);
+      } else {
+        setStats(prev => ({ ...prev, avgPrepTime: getAverageTimings(events || []).prepMinutes }));
+      }
+
+      const lowStockItems = await countLowStock();
+      setStats(prev => ({ ...prev, lowStockItems }));
+      // Finished dishes can run an ingredient out and 86 its menu items
+      setMenuRefreshKey(prev => prev + 1);
     } catch (error) {
       console.error('Error loading stats:', error);
     }
@@ -92,6 +199,7 @@ export default function KitchenDashboard() {
 
       if (error) {
         console.error('Error updating order status:', error);
+        alert(`Could not update order: ${error.message}`);
       } else {
         loadOrders();
         if (status === 'ready') {
@@ -114,6 +222,9 @@ export default function KitchenDashboard() {
         console.error('Error updating order item status:', error);
       } else {
         loadOrders();
+        if (status === 'ready') {
+          loadStats(); // Finished dishes come out of stock
+        }
       }
     } catch (error) {
       console.error('Error updating order item status:', error);
@@ -137,11 +248,28 @@ export default function KitchenDashboard() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-900">Kitchen Dashboard</h1>
-        <div className="text-sm text-gray-500">
-          {stats.pendingOrders} orders in queue
+        <div className="flex items-center gap-3 text-sm text-gray-500">
+          <span className="flex items-center gap-1" title={live ? 'Receiving live updates' : 'Reconnecting, refreshing periodically'}>
+            <span className={`w-2 h-2 rounded-full ${live ? 'bg-green-500' : 'bg-yellow-500'}`}></span>
+            {live ? 'Live' : 'Polling'}
+          </span>
+          <span>{stats.pendingOrders} orders in queue</span>
         </div>
       </div>
 
+      {/* New Order Toast */}
+      {newOrderToast && (
+        <div className="fixed top-4 right-4 z-50 bg-white border-l-4 border-orange-500 rounded-lg shadow-lg p-4 flex items-center gap-3">
+          <div className="p-2 bg-orange-50 rounded-lg">
+            <Bell className="w-5 h-5 text-orange-600" />
+          </div>
+          <p className="font-medium text-gray-900">{newOrderToast}</p>
+          <button onClick={() => setNewOrderToast(null)} className="text-gray-400 hover:text-gray-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Quick Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
@@ -172,7 +300,7 @@ export default function KitchenDashboard() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Avg Prep Time</p>
-              <p className="text-2xl font-bold text-gray-900">{stats.avgPrepTime}m</p>
+              <p className="text-2xl font-bold text-gray-900">{formatMinutes(stats.avgPrepTime)}</p>
             </div>
             <div className="p-3 bg-blue-50 rounded-lg">
               <ChefHat className="w-6 h-6 text-blue-600" />
@@ -184,7 +312,7 @@ export default function KitchenDashboard() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Low Stock Items</p>
-              <p className="text-2xl font-bold text-gray-900">{stats.lowStockItems}</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.lowStockItems ?? '—'}</p>
             </div>
             <div className="p-3 bg-red-50 rounded-lg">
               <AlertTriangle className="w-6 h-6 text-red-600" />
@@ -193,6 +321,8 @@ export default function KitchenDashboard() {
         </div>
       </div>
 
+      <TimeClockCard />
+
       {/* Order Queue */}
       <div className="bg-white rounded-xl shadow-md border border-gray-100">
         <div className="p-6 border-b border-gray-100">
@@ -227,14 +357,37 @@ export default function KitchenDashboard() {
                       </span>
                     </div>
                   </div>
+
+                  <AllergyAlert order={order} />
                   
                   <div className="space-y-2">
-                    {order.order_items?.map((item) => (
+                    {order.order_items?.map((item) => item.voided ? (
+                      <div key={item.id} className="flex items-center justify-between p-2 bg-red-50 rounded">
+                        <div>
+                          <span className="font-medium text-gray-500 line-through">
+                            {item.quantity}x {item.menu_item?.name || 'Unknown Item'}
+                          </span>
+                          {item.void_reason && (
+                            <p className="text-sm text-red-700">{item.void_reason}</p>
+                          )}
+                        </div>
+                        <span className="px-2 py-1 rounded text-xs font-medium bg-red-100 text-red-800">VOID</span>
+                      </div>
+                    ) : (
                       <div key={item.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
                         <div>
                           <span className="font-medium">
                             {item.quantity}x {item.menu_item?.name || 'Unknown Item'}
                           </span>
+                          {item.modifiers && item.modifiers.length > 0 && (
+                            <ul className="text-sm text-gray-800">
+                              {item.modifiers.map((modifier) => (
+                                <li key={modifier.option_id}>
+                                  <span className="text-gray-500">{modifier.group_name}:</span> {modifier.option_name}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                           {item.notes && (
                             <p className="text-sm text-gray-600 italic">Note: {item.notes}</p>
                           )}
@@ -294,6 +447,8 @@ export default function KitchenDashboard() {
           )}
         </div>
       </div>
+
+      <EightySixBoard refreshKey={menuRefreshKey} />
     </div>
   );
 }
\ No newline at end of file
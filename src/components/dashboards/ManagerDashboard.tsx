@@ -1,10 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { 
-  TrendingUp, Users, ClipboardList, DollarSign, 
-  Clock, CheckCircle, AlertTriangle, BarChart3 
+  TrendingUp, TrendingDown, Users, ClipboardList, DollarSign, 
+  Clock, CheckCircle, BarChart3, LogIn, LogOut
 } from 'lucide-react';
-import { supabase, Order } from '../../lib/supabase';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Order, OrderStatusEvent, TimeEntry, User } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeOrders } from '../../hooks/useRealtimeOrders';
+import { upsertOrder, mergeOrderChange } from '../../lib/liveOrders';
+import { getAverageTimings, formatMinutes } from '../../lib/orderTiming';
+import {
+  PeriodRevenue, addDays, dayRange, parseDateInput, loadSalesOrders, summarizeSales, getOrderRevenue,
+  groupRevenueByPeriod, percentChange, formatPercentChange, getPeakHour, formatHour
+} from '../../lib/reports';
+
+interface Activity {
+  id: string;
+  action: string;
+  at: string;
+  type: 'order' | 'complete' | 'clock_in' | 'clock_out';
+}
+
+const formatTimeAgo = (value: string, now: Date) => {
+  const minutes = Math.max(0, Math.floor((now.getTime() - new Date(value).getTime()) / 60000));
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+};
+
+const describeOrder = (order?: Order) =>
+  !order ? 'an order' : order.table_number ? `Table ${order.table_number}` : order.customer_name;
 
 export default function ManagerDashboard() {
   const [orders, setOrders] = useState<Order[]>([]);
@@ -12,9 +38,14 @@ export default function ManagerDashboard() {
   const [stats, setStats] = useState({
     totalRevenue: 0,
     todayOrders: 0,
-    activeStaff: 8, // This would come from a staff query
-    avgOrderTime: 22 // This would be calculated from order data
+    avgOrderTime: null as number | null
   });
+  const [completedEvents, setCompletedEvents] = useState<OrderStatusEvent[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [staff, setStaff] = useState<Pick<User, 'id' | 'name' | 'role'>[]>([]);
+  const [now, setNow] = useState(new Date());
+  const [yesterdayRevenue, setYesterdayRevenue] = useState<number | null>(null);
+  const [salesTrend, setSalesTrend] = useState<PeriodRevenue[]>([]);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -27,6 +58,43 @@ export default function ManagerDashboard() {
     }
   }, [user]);
 
+  // Keep the times in the activity feed current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    // Keep the headline numbers in step with live order changes
+    const totalRevenue = orders
+      .filter(order => order.status !== 'cancelled')
+      .reduce((sum, order) => sum + getOrderRevenue(order), 0);
+    setStats(prev => ({
+      ...prev,
+      totalRevenue,
+      todayOrders: orders.length
+    }));
+  }, [orders]);
+
+  const handleOrderChange = (change: RealtimePostgresChangesPayload<Order>) => {
+    if (change.eventType === 'INSERT') {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      if (new Date(change.new.created_at) >= today) {
+        setOrders(prev => upsertOrder(prev, change.new));
+      }
+      return;
+    }
+
+    setOrders(prev => mergeOrderChange(prev, change));
+  };
+
+  useRealtimeOrders({
+    enabled: !!user && user.role === 'manager',
+    onResync: () => loadDashboardData(),
+    onOrderChange: handleOrderChange
+  });
+
   const loadDashboardData = async () => {
     if (!user || user.role !== 'manager') {
       setLoading(false);
@@ -48,16 +116,54 @@ export default function ManagerDashboard() {
         console.error('Error loading orders:', ordersError);
       } else {
         setOrders(ordersData || []);
-        
-        // Calculate stats
-        const totalRevenue = ordersData?.reduce((sum, order) => sum + Number(order.total), 0) || 0;
-        const todayOrders = ordersData?.length || 0;
-        
-        setStats(prev => ({
-          ...prev,
-          totalRevenue,
-          todayOrders
-        }));
+      }
+
+      // Placed-to-ready time and completions from today's status history
+      const { data: events, error: eventsError } = await supabase
+        .from('order_status_events')
+        .select('*')
+        .in('to_status', ['pending', 'ready', 'completed'])
+        .gte('created_at', today.toISOString());
+
+      if (eventsError) {
+        console.error('Error loading order times:', eventsError);
+      } else {
+        setStats(prev => ({ ...prev, avgOrderTime: getAverageTimings(events || []).ticketMinutes }));
+        setCompletedEvents((events || []).filter(event => event.to_status === 'completed'));
+      }
+
+      // Who is on the clock, and today's clock ins and outs
+      const [entriesResult, staffResult] = await Promise.all([
+        supabase
+          .from('time_entries')
+          .select('*')
+          .or(`clock_out_at.is.null,clock_in_at.gte.${today.toISOString()},clock_out_at.gte.${today.toISOString()}`),
+        supabase
+          .from('users')
+          .select('id, name, role')
+          .in('role', ['waiter', 'kitchen'])
+      ]);
+
+      if (entriesResult.error || staffResult.error) {
+        console.error('Error loading staff hours:', entriesResult.error || staffResult.error);
+      } else {
+        setTimeEntries(entriesResult.data || []);
+        setStaff(staffResult.data || []);
+      }
+      setNow(new Date());
+
+      // Yesterday up to this time of day, so the comparison is like for like
+      const now = new Date();
+      const { orders: yesterdayOrders, error: yesterdayError } = await loadSalesOrders({
+        from: addDays(today, -1),
+        to: addDays(now, -1)
+      });
+      setYesterdayRevenue(yesterdayError ? null : summarizeSales(yesterdayOrders).revenue);
+
+      const week = dayRange(addDays(today, -6), today);
+      const { orders: weekOrders, error: weekError } = await loadSalesOrders(week);
+      if (!weekError) {
+        setSalesTrend(groupRevenueByPeriod(weekOrders, week, 'day'));
       }
     } catch (error) {
       console.error('Error loading dashboard data:', error);
@@ -66,12 +172,57 @@ export default function ManagerDashboard() {
     }
   };
 
-  const recentActivity = [
-    { id: '1', action: 'New order received', time: '2 minutes ago', type: 'order' },
-    { id: '2', action: 'Staff member clocked in', time: '15 minutes ago', type: 'staff' },
-    { id: '3', action: 'Order completed', time: '20 minutes ago', type: 'complete' },
-    { id: '4', action: 'Inventory low alert', time: '1 hour ago', type: 'alert' },
-  ];
+  const revenueChange = yesterdayRevenue === null ? null : percentChange(stats.totalRevenue, yesterdayRevenue);
+  const peakHour = getPeakHour(orders.filter(order => order.status !== 'cancelled'));
+  // Today's bar follows live orders; earlier days come from the last load
+  const trend = salesTrend.map(day =>
+    day.key === salesTrend[salesTrend.length - 1]?.key ? { ...day, revenue: stats.totalRevenue } : day
+  );
+  const maxTrendRevenue = Math.max(...trend.map(day => day.revenue), 0);
+
+  const staffById = new Map(staff.map(member => [member.id, member]));
+  const onTheClock = timeEntries
+    .filter(entry => !entry.clock_out_at)
+    .map(entry => staffById.get(entry.user_id))
+    .filter(member => member !== undefined);
+  const kitchenOnClock = onTheClock.filter(member => member.role === 'kitchen').length;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const ordersById = new Map(orders.map(order => [order.id, order]));
+  const staffName = (userId: string) => staffById.get(userId)?.name || 'A staff member';
+  const recentActivity: Activity[] = [
+    ...orders.map(order => ({
+      id: `order-${order.id}`,
+      action: `New order for ${describeOrder(order)} • $${Number(order.total).toFixed(2)}`,
+      at: order.created_at,
+      type: 'order' as const
+    })),
+    ...completedEvents.map(event => ({
+      id: `complete-${event.id}`,
+      action: `Order completed for ${describeOrder(ordersById.get(event.order_id))}`,
+      at: event.created_at,
+      type: 'complete' as const
+    })),
+    ...timeEntries
+      .filter(entry => new Date(entry.clock_in_at) >= today)
+      .map(entry => ({
+        id: `in-${entry.id}`,
+        action: `${staffName(entry.user_id)} clocked in`,
+        at: entry.clock_in_at,
+        type: 'clock_in' as const
+      })),
+    ...timeEntries
+      .filter(entry => entry.clock_out_at && new Date(entry.clock_out_at) >= today)
+      .map(entry => ({
+        id: `out-${entry.id}`,
+        action: `${staffName(entry.user_id)} clocked out`,
+        at: entry.clock_out_at || entry.clock_in_at,
+        type: 'clock_out' as const
+      }))
+  ]
+    .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
+    .slice(0, 6);
 
   // Don't show loading if user is not logged in or not a manager
   if (!user || user.role !== 'manager') {
@@ -113,9 +264,13 @@ export default function ManagerDashboard() {
             </div>
           </div>
           <div className="mt-4 flex items-center text-sm">
-            <TrendingUp className="w-4 h-4 text-green-500 mr-1" />
-            <span className="text-green-600">+12.5%</span>
-            <span className="text-gray-500 ml-1">vs yesterday</span>
+            {revenueChange !== null && (revenueChange >= 0
+              ? <TrendingUp className="w-4 h-4 text-green-500 mr-1" />
+              : <TrendingDown className="w-4 h-4 text-red-500 mr-1" />)}
+            <span className={revenueChange === null ? 'text-gray-500' : revenueChange >= 0 ? 'text-green-600' : 'text-red-600'}>
+              {formatPercentChange(revenueChange)}
+            </span>
+            <span className="text-gray-500 ml-1">vs this time yesterday</span>
           </div>
         </div>
 
@@ -130,22 +285,26 @@ export default function ManagerDashboard() {
             </div>
           </div>
           <div className="mt-4 flex items-center text-sm">
-            <span className="text-gray-500">Peak: 12-2 PM</span>
+            <span className="text-gray-500">
+              {peakHour === null ? 'No orders yet' : `Peak: ${formatHour(peakHour)}`}
+            </span>
           </div>
         </div>
 
         <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Active Staff</p>
-              <p className="text-2xl font-bold text-gray-900">{stats.activeStaff}</p>
+              <p className="text-sm font-medium text-gray-600">Staff on the Clock</p>
+              <p className="text-2xl font-bold text-gray-900">{onTheClock.length}</p>
             </div>
             <div className="p-3 bg-purple-50 rounded-lg">
               <Users className="w-6 h-6 text-purple-600" />
             </div>
           </div>
           <div className="mt-4 flex items-center text-sm">
-            <span className="text-gray-500">3 Kitchen • 5 Service</span>
+            <span className="text-gray-500">
+              {kitchenOnClock} Kitchen • {onTheClock.length - kitchenOnClock} Service
+            </span>
           </div>
         </div>
 
@@ -153,7 +312,7 @@ export default function ManagerDashboard() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Avg Order Time</p>
-              <p className="text-2xl font-bold text-gray-900">{stats.avgOrderTime}m</p>
+              <p className="text-2xl font-bold text-gray-900">{formatMinutes(stats.avgOrderTime)}</p>
             </div>
             <div className="p-3 bg-orange-50 rounded-lg">
               <Clock className="w-6 h-6 text-orange-600" />
@@ -174,48 +333,56 @@ export default function ManagerDashboard() {
             <BarChart3 className="w-5 h-5 text-gray-400" />
           </div>
           <div className="h-64 flex items-end justify-between space-x-2">
-            {[65, 45, 80, 55, 90, 75, 85].map((height, index) => (
-              <div key={index} className="flex-1 bg-blue-100 rounded-t relative">
+            {trend.map((day) => (
+              <div
+                key={day.key}
+                className="flex-1 h-full bg-blue-100 rounded-t relative flex items-end"
+                title={`${day.label}: $${day.revenue.toFixed(2)}`}
+              >
                 <div 
                   className="bg-blue-500 rounded-t w-full transition-all duration-500"
-                  style={{ height: `${height}%` }}
+                  style={{ height: `${maxTrendRevenue > 0 ? (day.revenue / maxTrendRevenue) * 100 : 0}%` }}
                 ></div>
               </div>
             ))}
           </div>
           <div className="flex justify-between mt-2 text-xs text-gray-500">
-            <span>Mon</span>
-            <span>Tue</span>
-            <span>Wed</span>
-            <span>Thu</span>
-            <span>Fri</span>
-            <span>Sat</span>
-            <span>Sun</span>
+            {trend.map((day) => (
+              <span key={day.key}>
+                {parseDateInput(day.key).toLocaleDateString('en-US', { weekday: 'short' })}
+              </span>
+            ))}
           </div>
         </div>
 
         <div className="bg-white p-6 rounded-xl shadow-md border border-gray-100">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h3>
-          <div className="space-y-4">
-            {recentActivity.map((activity) => (
-              <div key={activity.id} className="flex items-center gap-3">
-                <div className={`p-2 rounded-lg ${
-                  activity.type === 'order' ? 'bg-blue-50' :
-                  activity.type === 'staff' ? 'bg-green-50' :
-                  activity.type === 'complete' ? 'bg-purple-50' : 'bg-red-50'
-                }`}>
-                  {activity.type === 'order' && <ClipboardList className="w-4 h-4 text-blue-600" />}
-                  {activity.type === 'staff' && <Users className="w-4 h-4 text-green-600" />}
-                  {activity.type === 'complete' && <CheckCircle className="w-4 h-4 text-purple-600" />}
-                  {activity.type === 'alert' && <AlertTriangle className="w-4 h-4 text-red-600" />}
-                </div>
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-gray-900">{activity.action}</p>
-                  <p className="text-xs text-gray-500">{activity.time}</p>
+          {recentActivity.length > 0 ? (
+            <div className="space-y-4">
+              {recentActivity.map((activity) => (
+                <div key={activity.id} className="flex items-center gap-3">
+                  <div className={`p-2 rounded-lg ${
+                    activity.type === 'order' ? 'bg-blue-50' :
+                    activity.type === 'complete' ? 'bg-purple-50' :
+                    activity.type === 'clock_in' ? 'bg-green-50' : 'bg-gray-100'
+                  }`}>
+                    {activity.type === 'order' && <ClipboardList className="w-4 h-4 text-blue-600" />}
+                    {activity.type === 'complete' && <CheckCircle className="w-4 h-4 text-purple-600" />}
+                    {activity.type === 'clock_in' && <LogIn className="w-4 h-4 text-green-600" />}
+                    {activity.type === 'clock_out' && <LogOut className="w-4 h-4 text-gray-600" />}
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-gray-900">{activity.action}</p>
+                    <p className="text-xs text-gray-500" title={new Date(activity.at).toLocaleString()}>
+                      {formatTimeAgo(activity.at, now)}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-8">Nothing has happened yet today.</p>
+          )}
         </div>
       </div>
 
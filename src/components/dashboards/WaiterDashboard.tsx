@@ -1,25 +1,66 @@
 import React, { useState, useEffect } from 'react';
 import { Clock, MapPin, CheckCircle, AlertCircle, Plus } from 'lucide-react';
-import { supabase, Order } from '../../lib/supabase';
+import { useNavigate } from 'react-router-dom';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Order, Table } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { useRealtimeOrders } from '../../hooks/useRealtimeOrders';
+import { upsertOrder, mergeOrderChange } from '../../lib/liveOrders';
 import NewOrderModal from '../NewOrderModal';
+import TimeClockCard from '../TimeClockCard';
+import SettleBillModal from '../SettleBillModal';
+import DiscountModal from '../DiscountModal';
+
+const ACTIVE_STATUSES: Order['status'][] = ['pending', 'preparing', 'ready', 'served'];
 
 export default function WaiterDashboard() {
   const [myOrders, setMyOrders] = useState<Order[]>([]);
+  const [tables, setTables] = useState<Table[]>([]);
   const [loading, setLoading] = useState(true);
   const [showNewOrderModal, setShowNewOrderModal] = useState(false);
+  const [selectedTableNumber, setSelectedTableNumber] = useState<number | undefined>();
+  const [settlingOrder, setSettlingOrder] = useState<Order | null>(null);
+  const [discountingOrder, setDiscountingOrder] = useState<Order | null>(null);
   const { user } = useAuth();
+  const navigate = useNavigate();
 
   useEffect(() => {
     // Only load data if user exists and is a waiter
     if (user && user.role === 'waiter') {
       loadMyOrders();
+      loadTables();
     } else if (user) {
       // If user exists but not waiter, stop loading
       setLoading(false);
     }
   }, [user]);
 
+  const handleOrderChange = (change: RealtimePostgresChangesPayload<Order>) => {
+    if (change.eventType === 'INSERT' || change.eventType === 'UPDATE') {
+      const order = change.new;
+      if (order.waiter_id === user?.id) {
+        setMyOrders(prev => ACTIVE_STATUSES.includes(order.status)
+          ? (change.eventType === 'INSERT' ? upsertOrder(prev, order) : mergeOrderChange(prev, change))
+          : prev.filter(existing => existing.id !== order.id)
+        );
+      }
+    } else {
+      setMyOrders(prev => mergeOrderChange(prev, change));
+    }
+
+    // Seating and completing orders change table occupancy
+    loadTables();
+  };
+
+  useRealtimeOrders({
+    enabled: !!user && user.role === 'waiter',
+    onResync: () => {
+      loadMyOrders();
+      loadTables();
+    },
+    onOrderChange: handleOrderChange
+  });
+
   const loadMyOrders = async () => {
     if (!user || user.role !== 'waiter') {
       setLoading(false);
@@ -31,7 +72,7 @@ export default function WaiterDashboard() {
         .from('orders')
         .select('*')
         .eq('waiter_id', user.id)
-        .in('status', ['pending', 'preparing', 'ready', 'served'])
+        .in('status', ACTIVE_STATUSES)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -46,6 +87,26 @@ export default function WaiterDashboard() {
     }
   };
 
+  const loadTables = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tables')
+        .select(`
+          *,
+          section:sections (*)
+        `)
+        .order('number', { ascending: true });
+
+      if (error) {
+        console.error('Error loading tables:', error);
+      } else {
+        setTables(data || []);
+      }
+    } catch (error) {
+      console.error('Error loading tables:', error);
+    }
+  };
+
   const updateOrderStatus = async (orderId: string, newStatus: string) => {
     try {
       const { error } = await supabase
@@ -55,6 +116,7 @@ export default function WaiterDashboard() {
 
       if (error) {
         console.error('Error updating order status:', error);
+        alert(`Could not update order: ${error.message}`);
         return;
       }
 
@@ -66,23 +128,30 @@ export default function WaiterDashboard() {
   };
 
   const handleNewOrderPlaced = () => {
-    // Refresh orders when a new order is placed
+    // Refresh orders and occupancy when a new order is placed
     loadMyOrders();
+    loadTables();
+  };
+
+  const openNewOrder = (tableNumber?: number) => {
+    setSelectedTableNumber(tableNumber);
+    setShowNewOrderModal(true);
   };
 
-  // Mock table data - in a real app, this would come from a tables table
-  const mockTables = [
-    { id: '1', number: 1, seats: 2, status: 'available' },
-    { id: '2', number: 2, seats: 4, status: 'available' },
-    { id: '3', number: 3, seats: 4, status: 'occupied' },
-    { id: '4', number: 4, seats: 6, status: 'available' },
-    { id: '5', number: 5, seats: 2, status: 'occupied' },
-    { id: '6', number: 6, seats: 4, status: 'reserved' },
-    { id: '7', number: 7, seats: 6, status: 'occupied' },
-    { id: '8', number: 8, seats: 8, status: 'available' }
-  ];
+  const handleTableClick = (table: Table) => {
+    if (table.status === 'available') {
+      openNewOrder(table.number);
+    } else {
+      navigate('/tables');
+    }
+  };
 
-  const activeTables = mockTables.filter(table => table.status === 'occupied');
+  // Tables in the sections this waiter covers, plus any table seated with one of their orders
+  const myOrderIds = new Set(myOrders.map(order => order.id));
+  const assignedTables = tables.filter(table =>
+    table.section?.waiter_id === user?.id ||
+    (table.current_order_id && myOrderIds.has(table.current_order_id))
+  );
 
   // Don't show loading if user is not logged in or not a waiter
   if (!user || user.role !== 'waiter') {
@@ -102,7 +171,7 @@ export default function WaiterDashboard() {
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-900">Waiter Dashboard</h1>
         <button 
-          onClick={() => setShowNewOrderModal(true)}
+          onClick={() => openNewOrder()}
           className="bg-green-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 hover:bg-green-700 transition-colors"
         >
           <Plus className="w-4 h-4" />
@@ -128,7 +197,7 @@ export default function WaiterDashboard() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Tables Assigned</p>
-              <p className="text-2xl font-bold text-gray-900">{activeTables.length}</p>
+              <p className="text-2xl font-bold text-gray-900">{assignedTables.length}</p>
             </div>
             <div className="p-3 bg-blue-50 rounded-lg">
               <MapPin className="w-6 h-6 text-blue-600" />
@@ -149,6 +218,8 @@ export default function WaiterDashboard() {
         </div>
       </div>
 
+      <TimeClockCard />
+
       {/* Active Orders */}
       <div className="bg-white rounded-xl shadow-md border border-gray-100">
         <div className="p-6 border-b border-gray-100">
@@ -192,6 +263,20 @@ export default function WaiterDashboard() {
                         Mark Served
                       </button>
                     )}
+                    <button
+                      onClick={() => setDiscountingOrder(order)}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded text-xs hover:bg-gray-50"
+                    >
+                      Discount
+                    </button>
+                    {order.status === 'served' && (
+                      <button
+                        onClick={() => setSettlingOrder(order)}
+                        className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+                      >
+                        Settle Bill
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -205,27 +290,42 @@ export default function WaiterDashboard() {
       {/* Table Status */}
       <div className="bg-white rounded-xl shadow-md border border-gray-100">
         <div className="p-6 border-b border-gray-100">
-          <h3 className="text-lg font-semibold text-gray-900">Table Status</h3>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Table Status</h3>
+            <button
+              onClick={() => navigate('/tables')}
+              className="text-green-600 hover:text-green-700 text-sm font-medium"
+            >
+              Open Table View →
+            </button>
+          </div>
         </div>
         <div className="p-6">
+          {tables.length === 0 && (
+            <p className="text-gray-500 text-center py-4">No tables have been set up yet.</p>
+          )}
           <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
-            {mockTables.map((table) => (
+            {tables.map((table) => (
               <div
                 key={table.id}
+                onClick={() => handleTableClick(table)}
+                title={table.status === 'available' ? `Start an order for table ${table.number}` : `Table ${table.number} is ${table.status}`}
                 className={`p-4 rounded-lg border-2 text-center cursor-pointer transition-all hover:scale-105 ${
                   table.status === 'available' ? 'border-green-200 bg-green-50' :
                   table.status === 'occupied' ? 'border-red-200 bg-red-50' :
+                  table.status === 'needs_bill' ? 'border-purple-200 bg-purple-50' :
                   'border-yellow-200 bg-yellow-50'
-                }`}
+                } ${table.section?.waiter_id === user.id ? 'ring-2 ring-green-400' : ''}`}
               >
                 <div className="text-lg font-bold text-gray-900">T{table.number}</div>
                 <div className="text-xs text-gray-600">{table.seats} seats</div>
                 <div className={`text-xs font-medium mt-1 ${
                   table.status === 'available' ? 'text-green-600' :
                   table.status === 'occupied' ? 'text-red-600' :
+                  table.status === 'needs_bill' ? 'text-purple-600' :
                   'text-yellow-600'
                 }`}>
-                  {table.status.toUpperCase()}
+                  {table.status === 'needs_bill' ? 'NEEDS BILL' : table.status.toUpperCase()}
                 </div>
               </div>
             ))}
@@ -238,7 +338,27 @@ export default function WaiterDashboard() {
         isOpen={showNewOrderModal}
         onClose={() => setShowNewOrderModal(false)}
         onOrderPlaced={handleNewOrderPlaced}
+        initialTableNumber={selectedTableNumber}
       />
+
+      {settlingOrder && (
+        <SettleBillModal
+          order={settlingOrder}
+          onClose={() => setSettlingOrder(null)}
+          onChanged={() => {
+            loadMyOrders();
+            loadTables();
+          }}
+        />
+      )}
+
+      {discountingOrder && (
+        <DiscountModal
+          order={discountingOrder}
+          onClose={() => setDiscountingOrder(null)}
+          onChanged={loadMyOrders}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
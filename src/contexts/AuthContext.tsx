@@ -7,10 +7,11 @@ interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
-  signUp: (email: string, password: string, name: string, role: string) => Promise<{ error: AuthError | null }>;
+  signUp: (email: string, password: string, name: string, inviteToken?: string) => Promise<{ error: AuthError | null }>;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<void>;
   clearAIChatHistory: () => Promise<void>;
+  updateAllergies: (allergies: string[]) => Promise<{ error: string | null }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -109,6 +110,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       if (error) {
         console.error('Error fetching user profile:', error);
         setUser(null);
+      } else if (data && data.active === false) {
+        console.warn('User account is deactivated:', userId);
+        setUser(null);
+        await supabase.auth.signOut();
       } else if (data) {
         console.log('User profile found:', data);
         setUser(data);
@@ -124,15 +129,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const signUp = async (email: string, password: string, name: string, role: string) => {
+  // The profile is created by the database from this metadata; an invite token
+  // gives a staff role, otherwise the account is a customer
+  const signUp = async (email: string, password: string, name: string, inviteToken?: string) => {
     try {
-      console.log('Attempting to sign up user:', email, 'with role:', role);
+      console.log('Attempting to sign up user:', email, inviteToken ? 'with an invite' : 'as a customer');
       
       const { data, error } = await supabase.auth.signUp({
         email,
         password,
         options: {
           emailRedirectTo: window.location.origin,
+          data: {
+            name,
+            invite_token: inviteToken || null
+          }
         }
       });
 
@@ -143,40 +154,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return { error };
       }
 
-      if (data.user) {
-        console.log('User created, now creating profile...');
-        
-        // Wait a moment for the user to be fully created
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Create user profile
-        const { data: profileData, error: profileError } = await supabase
-          .from('users')
-          .insert([
-            {
-              id: data.user.id,
-              email,
-              name,
-              role,
-            },
-          ])
-          .select()
-          .single();
-
-        console.log('Profile creation response:', { profileData, profileError });
-
-        if (profileError) {
-          console.error('Error creating user profile:', profileError);
-          return { error: profileError as AuthError };
-        }
-
-        // If email confirmation is disabled, the user should be signed in immediately
-        if (data.session) {
-          console.log('User signed in immediately');
-          setUser(profileData);
-        }
-      }
-
       return { error: null };
     } catch (error) {
       console.error('Error in signUp:', error);
@@ -195,6 +172,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       console.log('Sign in response:', { data, error });
 
+      if (!error && data.user) {
+        const { data: profile } = await supabase
+          .from('users')
+          .select('active')
+          .eq('id', data.user.id)
+          .maybeSingle();
+
+        if (profile && profile.active === false) {
+          await supabase.auth.signOut();
+          return { error: { message: 'This account has been deactivated. Please speak to a manager.' } as AuthError };
+        }
+      }
+
       return { error };
     } catch (error) {
       console.error('Error in signIn:', error);
@@ -236,6 +226,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const updateAllergies = async (allergies: string[]) => {
+    if (!user) return { error: 'Not signed in' };
+
+    const { error } = await supabase
+      .from('users')
+      .update({ allergies })
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('Error saving allergies:', error);
+      return { error: 'Failed to save your allergies' };
+    }
+
+    setUser(prev => (prev ? { ...prev, allergies } : prev));
+    return { error: null };
+  };
+
   const signOut = async () => {
     try {
       console.log('Starting logout process...');
@@ -288,6 +295,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       signIn,
       signOut,
       clearAIChatHistory,
+      updateAllergies,
     }}>
       {children}
     </AuthContext.Provider>
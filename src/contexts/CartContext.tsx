@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase, CartItem, MenuItem, SelectedModifier } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { placeOrder } from '../lib/orders';
+import { sameModifiers, getUnitPrice } from '../lib/modifiers';
+import { CartContext } from '../hooks/useCart';
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+
+  const reloadCart = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('cart_items')
+        .select(`
+          *,
+          menu_item:menu_items (*)
+        `)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading cart:', error);
+        return;
+      }
+
+      setItems(data || []);
+    } catch (error) {
+      console.error('Error loading cart:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    // The cart lives in the database, so it follows the customer across reloads and devices
+    if (user && user.role === 'customer') {
+      reloadCart();
+    } else {
+      setItems([]);
+    }
+  }, [user, reloadCart]);
+
+  const addItem = async (menuItem: MenuItem, quantity = 1, notes?: string, modifiers: SelectedModifier[] = []) => {
+    if (!user) {
+      return { error: 'Please sign in to add items to cart' };
+    }
+
+    if (!menuItem.available) {
+      return { error: `${menuItem.name} is currently unavailable` };
+    }
+
+    if (modifiers.length === 0 && menuItem.modifier_groups?.some(group => group.required)) {
+      return { error: `Please choose options for ${menuItem.name}` };
+    }
+
+    const trimmedNotes = notes?.trim() || null;
+
+    // Lines with the same dish, options and instructions are merged; anything different gets its own line
+    const existing = items.find(item =>
+      item.menu_item_id === menuItem.id &&
+      (item.notes || null) === trimmedNotes &&
+      sameModifiers(item.modifiers, modifiers)
+    );
+
+    if (existing) {
+      return updateQuantity(existing.id, existing.quantity + quantity);
+    }
+
+    const { data, error } = await supabase
+      .from('cart_items')
+      .insert([
+        {
+          user_id: user.id,
+          menu_item_id: menuItem.id,
+          quantity,
+          notes: trimmedNotes,
+          modifiers
+        }
+      ])
+      .select(`
+        *,
+        menu_item:menu_items (*)
+      `)
+      .single();
+
+    if (error) {
+      console.error('Error adding to cart:', error);
+      return { error: 'Failed to add item to cart' };
+    }
+
+    setItems(prev => [...prev, data]);
+    return { error: null };
+  };
+
+  const updateQuantity = async (cartItemId: string, quantity: number) => {
+    if (quantity <= 0) {
+      return removeItem(cartItemId);
+    }
+
+    const { error } = await supabase
+      .from('cart_items')
+      .update({ quantity })
+      .eq('id', cartItemId);
+
+    if (error) {
+      console.error('Error updating cart quantity:', error);
+      return { error: 'Failed to update quantity' };
+    }
+
+    setItems(prev => prev.map(item => item.id === cartItemId ? { ...item, quantity } : item));
+    return { error: null };
+  };
+
+  const updateNotes = async (cartItemId: string, notes: string) => {
+    const trimmedNotes = notes.trim() || null;
+
+    const { error } = await supabase
+      .from('cart_items')
+      .update({ notes: trimmedNotes })
+      .eq('id', cartItemId);
+
+    if (error) {
+      console.error('Error updating cart notes:', error);
+      return { error: 'Failed to save special instructions' };
+    }
+
+    setItems(prev => prev.map(item =>
+      item.id === cartItemId ? { ...item, notes: trimmedNotes || undefined } : item
+    ));
+    return { error: null };
+  };
+
+  const removeItem = async (cartItemId: string) => {
+    const { error } = await supabase
+      .from('cart_items')
+      .delete()
+      .eq('id', cartItemId);
+
+    if (error) {
+      console.error('Error removing cart item:', error);
+      return { error: 'Failed to remove item from cart' };
+    }
+
+    setItems(prev => prev.filter(item => item.id !== cartItemId));
+    return { error: null };
+  };
+
+  const clearCart = async () => {
+    if (!user) return { error: null };
+
+    const { error } = await supabase
+      .from('cart_items')
+      .delete()
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error clearing cart:', error);
+      return { error: 'Failed to clear cart' };
+    }
+
+    setItems([]);
+    return { error: null };
+  };
+
+  const checkout = async (customerName: string, promoCode?: string | null) => {
+    if (!user) {
+      return { orderId: null, error: 'Please sign in to place an order' };
+    }
+
+    if (items.length === 0) {
+      return { orderId: null, error: 'Your cart is empty' };
+    }
+
+    const unavailable = items.filter(item => !item.menu_item?.available);
+    if (unavailable.length > 0) {
+      return {
+        orderId: null,
+        error: `Please remove unavailable items: ${unavailable.map(item => item.menu_item?.name || 'Unknown item').join(', ')}`
+      };
+    }
+
+    const { order, error } = await placeOrder({
+      customerName: customerName.trim() || user.name || 'Customer',
+      items: items.map(item => ({
+        menu_item_id: item.menu_item_id,
+        quantity: item.quantity,
+        notes: item.notes || null,
+        option_ids: (item.modifiers || []).map(modifier => modifier.option_id)
+      })),
+      promoCode
+    });
+
+    if (error || !order) {
+      return { orderId: null, error: `Failed to place order: ${error}` };
+    }
+
+    await clearCart();
+    return { orderId: order.id, error: null };
+  };
+
+  const itemCount = items.reduce((count, item) => count + item.quantity, 0);
+  const subtotal = items.reduce(
+    (sum, item) => sum + (item.menu_item ? getUnitPrice(item.menu_item, item.modifiers) : 0) * item.quantity,
+    0
+  );
+
+  return (
+    <CartContext.Provider value={{
+      items,
+      loading,
+      itemCount,
+      subtotal,
+      addItem,
+      updateQuantity,
+      updateNotes,
+      removeItem,
+      clearCart,
+      checkout,
+      reloadCart,
+    }}>
+      {children}
+    </CartContext.Provider>
+  );
+}
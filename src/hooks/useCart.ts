@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import { CartItem, MenuItem, SelectedModifier } from '../lib/supabase';
+
+export interface CartContextType {
+  items: CartItem[];
+  loading: boolean;
+  itemCount: number;
+  subtotal: number;
+  addItem: (menuItem: MenuItem, quantity?: number, notes?: string, modifiers?: SelectedModifier[]) => Promise<{ error: string | null }>;
+  updateQuantity: (cartItemId: string, quantity: number) => Promise<{ error: string | null }>;
+  updateNotes: (cartItemId: string, notes: string) => Promise<{ error: string | null }>;
+  removeItem: (cartItemId: string) => Promise<{ error: string | null }>;
+  clearCart: () => Promise<{ error: string | null }>;
+  checkout: (customerName: string, promoCode?: string | null) => Promise<{ orderId: string | null; error: string | null }>;
+  reloadCart: () => Promise<void>;
+}
+
+// Provided by CartProvider in contexts/CartContext
+export const CartContext = createContext<CartContextType | undefined>(undefined);
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+}
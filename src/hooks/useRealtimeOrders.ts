@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { RealtimePostgresChangesPayload, REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js';
+import { supabase, Order, OrderItem } from '../lib/supabase';
+
+interface RealtimeOrdersOptions {
+  enabled: boolean;
+  // Full reload, used after (re)connecting and while polling
+  onResync: () => void;
+  onOrderChange?: (change: RealtimePostgresChangesPayload<Order>) => void;
+  onOrderItemChange?: (change: RealtimePostgresChangesPayload<OrderItem>) => void;
+  pollIntervalMs?: number;
+}
+
+let channelCount = 0;
+
+// Subscribe to order and order item changes. While the channel is down the
+// dashboard falls back to polling `onResync` until the connection comes back.
+export function useRealtimeOrders({
+  enabled,
+  onResync,
+  onOrderChange,
+  onOrderItemChange,
+  pollIntervalMs = 15000
+}: RealtimeOrdersOptions) {
+  const [live, setLive] = useState(false);
+
+  // Keep the latest callbacks without resubscribing on every render
+  const handlers = useRef({ onResync, onOrderChange, onOrderItemChange });
+  handlers.current = { onResync, onOrderChange, onOrderItemChange };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let wasLive = false;
+    let disposed = false;
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      pollTimer = setInterval(() => handlers.current.onResync(), pollIntervalMs);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    // Each mounted dashboard needs its own channel name
+    const channel = supabase
+      .channel(`orders-live-${++channelCount}`)
+      .on<Order>('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, (change) => {
+        handlers.current.onOrderChange?.(change);
+      })
+      .on<OrderItem>('postgres_changes', { event: '*', schema: 'public', table: 'order_items' }, (change) => {
+        handlers.current.onOrderItemChange?.(change);
+      })
+      .subscribe((status, err) => {
+        // Removing the channel reports CLOSED; don't start polling after unmount
+        if (disposed) return;
+
+        if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+          stopPolling();
+          setLive(true);
+          // Pick up anything that changed while we were disconnected
+          if (wasLive) {
+            handlers.current.onResync();
+          }
+          wasLive = true;
+        } else {
+          if (err) {
+            console.error('Realtime channel error:', err);
+          }
+          setLive(false);
+          startPolling();
+        }
+      });
+
+    // Poll until the first subscription succeeds
+    startPolling();
+
+    return () => {
+      disposed = true;
+      stopPolling();
+      setLive(false);
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, pollIntervalMs]);
+
+  return { live };
+}
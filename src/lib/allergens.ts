@@ -0,0 +1,116 @@
+import { Order, OrderItem, MenuItem } from './supabase';
+
+// Keep these lists in step with the CHECK constraints on `menu_items` and `users`
+export const ALLERGENS = [
+  { value: 'gluten', label: 'Gluten' },
+  { value: 'dairy', label: 'Dairy' },
+  { value: 'eggs', label: 'Eggs' },
+  { value: 'nuts', label: 'Tree nuts' },
+  { value: 'peanuts', label: 'Peanuts' },
+  { value: 'shellfish', label: 'Shellfish' },
+  { value: 'fish', label: 'Fish' },
+  { value: 'soy', label: 'Soy' },
+  { value: 'sesame', label: 'Sesame' }
+];
+
+export const DIETARY_TAGS = [
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'halal', label: 'Halal' }
+];
+
+export const allergenLabel = (value: string) =>
+  ALLERGENS.find(allergen => allergen.value === value)?.label || value;
+
+export const dietaryLabel = (value: string) =>
+  DIETARY_TAGS.find(tag => tag.value === value)?.label || value;
+
+// Words guests use in special instructions for each allergen
+const NOTE_KEYWORDS: Record<string, string> = {
+  gluten: 'gluten|wheat',
+  dairy: 'dairy|lactose|milk|cheese|butter|cream',
+  eggs: 'eggs?',
+  nuts: 'tree ?nuts?|nuts?|almonds?|cashews?|walnuts?|hazelnuts?|pecans?|pistachios?',
+  peanuts: 'peanuts?',
+  shellfish: 'shellfish|shrimps?|prawns?|crabs?|lobsters?|mussels?|oysters?',
+  fish: 'fish',
+  soy: 'soya?',
+  sesame: 'sesame'
+};
+
+const ALL_NOTE_WORDS = Object.values(NOTE_KEYWORDS).join('|');
+
+// A word only counts when the guest is keeping it out ("no nuts", "without milk",
+// "gluten-free") or names an allergy to it ("allergic to shellfish", "egg allergy",
+// "lactose intolerant"), so "extra cheese, no onions" raises nothing. Each of these
+// can cover a list: "no fish or nuts", "allergic to nuts and shellfish", "no dairy,
+// eggs", "dairy and egg free".
+const KEPT_OUT = /\b(?:no|without|avoid|(?:allergic|intolerant)\s+to)\s+(?=([^.;!?\n]+))/gi;
+const LIST_SEPARATOR = /\s*(?:,|&|\/|\band\b|\bor\b|\bnor\b)\s*/i;
+// Words that start something else the guest wants rather than another thing to leave out
+const LIST_END = /^(?:extra|add|with|more|double|plus|but|please|then)$/i;
+const NAMED_BEFORE = new RegExp(
+  `\\b(?:${ALL_NOTE_WORDS})(?:(?:\\s*[,&/]\\s*|\\s+(?:and|or)\\s+)(?:${ALL_NOTE_WORDS}))*` +
+  `(?:[\\s-]?free\\b|\\s+(?:allerg|intoleran))`,
+  'gi'
+);
+
+// The parts of a note that name something to keep out
+const keptOutPhrases = (notes: string) => {
+  const phrases: string[] = [];
+
+  for (const match of notes.matchAll(KEPT_OUT)) {
+    for (const entry of match[1].split(LIST_SEPARATOR)) {
+      const words = entry.trim().split(/\s+/).filter(Boolean);
+      if (words.length === 0) continue;
+      if (LIST_END.test(words[0])) break;
+      phrases.push(words.slice(0, 2).join(' '));
+      // A longer entry means the sentence has moved on from the list
+      if (words.length > 2) break;
+    }
+  }
+
+  for (const match of notes.matchAll(NAMED_BEFORE)) {
+    phrases.push(match[0]);
+  }
+
+  return phrases;
+};
+
+const NOTE_PATTERNS = Object.entries(NOTE_KEYWORDS).map(([allergen, words]) => ({
+  allergen,
+  pattern: new RegExp(`\\b(?:${words})\\b`, 'i')
+}));
+
+// Allergens a free-text note asks the kitchen to keep out
+export const detectAllergensInNotes = (notes?: string | null) => {
+  if (!notes) return [];
+  const phrases = keptOutPhrases(notes);
+  return NOTE_PATTERNS
+    .filter(({ allergen, pattern }) =>
+      phrases.some(phrase => pattern.test(phrase)) || (allergen === 'gluten' && /\b(?:coeliac|celiac)/i.test(notes))
+    )
+    .map(({ allergen }) => allergen);
+};
+
+export const containsAny = (item: Pick<MenuItem, 'allergens'>, allergies: string[]) =>
+  (item.allergens || []).filter(allergen => allergies.includes(allergen));
+
+export interface AllergyConflict {
+  item: OrderItem;
+  allergens: string[];
+}
+
+// Everything the kitchen needs to flag a ticket: the allergies declared on the order or
+// in any line's notes, and the lines whose dish contains one of them. Voided lines are not made.
+export const getOrderAllergyWarnings = (order: Order & { order_items?: OrderItem[] }) => {
+  const items = (order.order_items || []).filter(item => !item.voided);
+  const fromNotes = items.flatMap(item => detectAllergensInNotes(item.notes));
+  const declared = [...new Set([...(order.declared_allergies || []), ...fromNotes])];
+
+  const conflicts: AllergyConflict[] = items
+    .map(item => ({ item, allergens: item.menu_item ? containsAny(item.menu_item, declared) : [] }))
+    .filter(conflict => conflict.allergens.length > 0);
+
+  return { declared, conflicts };
+};
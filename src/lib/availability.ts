@@ -0,0 +1,37 @@
+import { supabase, MenuItem } from './supabase';
+
+// Why an item is off the menu, e.g. "Out of Mozzarella" or "Oven down (86'd by Kim)"
+export const describeUnavailable = (item: MenuItem) => {
+  if (item.available || !item.unavailable_reason) return null;
+  if (item.auto_unavailable || !item.eighty_sixed_by_name) return item.unavailable_reason;
+  return `${item.unavailable_reason} (86'd by ${item.eighty_sixed_by_name})`;
+};
+
+// Take an item off the menu now, recording who did it and why
+export const eightySixMenuItem = async (menuItemId: string, reason: string) => {
+  const { data, error } = await supabase.rpc('eighty_six_menu_item', {
+    p_menu_item_id: menuItemId,
+    p_reason: reason
+  });
+
+  if (error) {
+    console.error('Error taking menu item off:', error);
+    return { item: null, error: error.message };
+  }
+
+  return { item: data as MenuItem, error: null };
+};
+
+// Put an item back on the menu; refused while a recipe ingredient is still out
+export const restoreMenuItem = async (menuItemId: string) => {
+  const { data, error } = await supabase.rpc('restore_menu_item', {
+    p_menu_item_id: menuItemId
+  });
+
+  if (error) {
+    console.error('Error restoring menu item:', error);
+    return { item: null, error: error.message };
+  }
+
+  return { item: data as MenuItem, error: null };
+};
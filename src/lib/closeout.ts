@@ -0,0 +1,89 @@
+import { supabase, DayCloseout, DayCloseoutFigures, DayCloseoutPreview } from './supabase';
+import { escapeHtml, htmlTable, printDocument } from './export';
+import { parseDateInput } from './reports';
+
+// Today's date in the restaurant's time zone, as yyyy-mm-dd
+export const getBusinessDate = async () => {
+  const { data, error } = await supabase.rpc('business_date', { p_at: new Date().toISOString() });
+
+  if (error) {
+    console.error('Error loading business date:', error);
+    return { businessDate: null, error: error.message };
+  }
+
+  return { businessDate: data as string, error: null };
+};
+
+export const formatBusinessDate = (businessDate: string) => {
+  return parseDateInput(businessDate).toLocaleDateString('en-US', {
+    weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
+  });
+};
+
+// What closing the day would record, including the orders that are still open
+export const previewCloseout = async (businessDate: string) => {
+  const { data, error } = await supabase.rpc('preview_day_closeout', {
+    p_business_date: businessDate
+  });
+
+  if (error) {
+    console.error('Error previewing closeout:', error);
+    return { preview: null, error: error.message };
+  }
+
+  return { preview: data as DayCloseoutPreview, error: null };
+};
+
+// Close a day for good; its orders are locked once this succeeds
+export const closeBusinessDay = async (businessDate: string, notes: string, acknowledgeOpenOrders: boolean) => {
+  const { data, error } = await supabase.rpc('close_business_day', {
+    p_business_date: businessDate,
+    p_notes: notes,
+    p_acknowledge_open_orders: acknowledgeOpenOrders
+  });
+
+  if (error) {
+    console.error('Error closing business day:', error);
+    return { closeout: null, error: error.message };
+  }
+
+  return { closeout: data as DayCloseout, error: null };
+};
+
+const money = (value: number) => `$${Number(value).toFixed(2)}`;
+
+export const getCloseoutLines = (figures: DayCloseoutFigures) => [
+  { label: 'Gross sales', value: money(figures.gross_sales) },
+  { label: 'Discounts', value: money(figures.discount_total) },
+  { label: 'Net sales', value: money(figures.net_sales) },
+  { label: 'Tax', value: money(figures.tax_total) },
+  { label: 'Tips', value: money(figures.tip_total) },
+  { label: 'Orders', value: String(figures.order_count) },
+  { label: 'Items sold', value: String(figures.items_sold) },
+  { label: 'Voids', value: `${figures.void_count} (${money(figures.void_total)})` },
+  { label: 'Refunds', value: `${figures.refund_count} (${money(figures.refund_total)})` }
+];
+
+// Print a stored closeout as a Z report
+export const printCloseout = (closeout: DayCloseout) => {
+  const payments = Object.entries(closeout.payment_breakdown || {});
+
+  return printDocument(`Z Report ${closeout.business_date}`, `
+    <h1>Z Report</h1>
+    <p>${escapeHtml(formatBusinessDate(closeout.business_date))}</p>
+    <p>Closed by ${escapeHtml(closeout.closed_by_name || 'Unknown')} at ${escapeHtml(new Date(closeout.closed_at).toLocaleString())}</p>
+
+    <h2>Totals</h2>
+    ${htmlTable(['', 'Value'], getCloseoutLines(closeout).map(line => [line.label, line.value]))}
+
+    <h2>Payments</h2>
+    ${payments.length > 0
+      ? htmlTable(['Method', 'Amount'], payments.map(([method, amount]) => [method, money(amount)]))
+      : '<p>No payments recorded.</p>'}
+
+    ${closeout.open_order_count > 0
+      ? `<p>${closeout.open_order_count} order(s) were still open when the day was closed.</p>`
+      : ''}
+    ${closeout.notes ? `<h2>Notes</h2><p>${escapeHtml(closeout.notes)}</p>` : ''}
+  `);
+};
@@ -0,0 +1,125 @@
+import { supabase, Order, OrderDiscount, PromoCode, User } from './supabase';
+import { isFinalStatus } from './orderStatus';
+
+export type DiscountType = OrderDiscount['discount_type'];
+
+export const discountKindLabels: Record<OrderDiscount['kind'], string> = {
+  discount: 'Discount',
+  comp: 'Comp',
+  promo: 'Promo'
+};
+
+export const describeDiscountValue = (discount: Pick<OrderDiscount, 'discount_type' | 'value'>) =>
+  discount.discount_type === 'percent'
+    ? `${Number(discount.value)}% off`
+    : `$${Number(discount.value).toFixed(2)} off`;
+
+export interface DiscountRequest {
+  orderId: string;
+  kind: 'discount' | 'comp';
+  discountType: DiscountType;
+  value: number;
+  reason?: string;
+  // Leave out to discount the whole order
+  orderItemId?: string | null;
+}
+
+// The database recalculates the order and refuses anything already paid for
+export const applyDiscount = async (request: DiscountRequest) => {
+  const { data, error } = await supabase.rpc('apply_order_discount', {
+    p_order_id: request.orderId,
+    p_kind: request.kind,
+    p_discount_type: request.discountType,
+    p_value: request.value,
+    p_reason: request.reason || null,
+    p_order_item_id: request.orderItemId || null
+  });
+
+  if (error) {
+    console.error('Error applying discount:', error);
+    return { order: null, error: error.message };
+  }
+
+  return { order: data as Order, error: null };
+};
+
+export const removeDiscount = async (discountId: string) => {
+  const { data, error } = await supabase.rpc('remove_order_discount', { p_discount_id: discountId });
+
+  if (error) {
+    console.error('Error removing discount:', error);
+    return { order: null, error: error.message };
+  }
+
+  return { order: data as Order, error: null };
+};
+
+// Mirrors the check in `apply_order_discount`; comps also need a manager
+export const canDiscount = (order: Order, user: Pick<User, 'id' | 'role'>) => {
+  if (isFinalStatus(order.status)) return false;
+  return user.role === 'manager' || (user.role === 'waiter' && order.waiter_id === user.id);
+};
+
+export type PromoPreview = Pick<PromoCode, 'code' | 'description' | 'discount_type' | 'value'>;
+
+// Checks a code without using it up; it is only redeemed when the order is placed
+export const checkPromoCode = async (code: string) => {
+  const { data, error } = await supabase.rpc('check_promo_code', { p_code: code });
+
+  if (error) {
+    return { promo: null, error: error.message };
+  }
+
+  return { promo: data as PromoPreview, error: null };
+};
+
+export type PromoStatus = 'active' | 'scheduled' | 'expired' | 'used up' | 'paused';
+
+export const getPromoStatus = (promo: PromoCode, now = new Date()): PromoStatus => {
+  if (!promo.active) return 'paused';
+  if (promo.starts_at && new Date(promo.starts_at) > now) return 'scheduled';
+  if (promo.ends_at && new Date(promo.ends_at) <= now) return 'expired';
+  if (promo.max_uses && promo.use_count >= promo.max_uses) return 'used up';
+  return 'active';
+};
+
+export const loadPromoCodes = async () => {
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading promo codes:', error);
+    return { promoCodes: [] as PromoCode[], error: error.message };
+  }
+
+  return { promoCodes: (data || []) as PromoCode[], error: null };
+};
+
+export type PromoCodeInput = Pick<PromoCode,
+  'code' | 'description' | 'discount_type' | 'value' | 'starts_at' | 'ends_at' | 'max_uses'
+>;
+
+export const savePromoCode = async (promo: PromoCodeInput, manager: Pick<User, 'id'>, promoId?: string) => {
+  const row = { ...promo, code: promo.code.trim().toUpperCase() };
+  const { error } = promoId
+    ? await supabase.from('promo_codes').update(row).eq('id', promoId)
+    : await supabase.from('promo_codes').insert([{ ...row, created_by: manager.id }]);
+
+  if (error) {
+    console.error('Error saving promo code:', error);
+    return { error: error.code === '23505' ? `${row.code} is already in use` : error.message };
+  }
+  return { error: null };
+};
+
+export const setPromoCodeActive = async (promoId: string, active: boolean) => {
+  const { error } = await supabase.from('promo_codes').update({ active }).eq('id', promoId);
+
+  if (error) {
+    console.error('Error updating promo code:', error);
+    return { error: error.message };
+  }
+  return { error: null };
+};
@@ -0,0 +1,138 @@
+import { supabase } from './supabase';
+import {
+  GroupRevenue, ItemSales, SalesSummary, dayRange, formatHour, loadSalesOrders, summarizeSales, getOrderRevenue,
+  rankItemSales, revenueByCategory, revenueByWaiter, discountsByKind
+} from './reports';
+import { escapeHtml, htmlTable, printDocument } from './export';
+
+export interface EndOfDayReport {
+  date: Date;
+  summary: SalesSummary;
+  cancelledCount: number;
+  cancelledValue: number;
+  refundCount: number;
+  refundValue: number;
+  categories: GroupRevenue[];
+  waiters: GroupRevenue[];
+  discounts: GroupRevenue[];
+  items: ItemSales[];
+  hourly: { hour: number; orders: number; revenue: number }[];
+}
+
+export const loadEndOfDay = async (date: Date) => {
+  const range = dayRange(date, date);
+
+  const [sales, cancelledResult, refundsResult, menuResult, staffResult] = await Promise.all([
+    loadSalesOrders(range),
+    supabase
+      .from('orders')
+      .select('total')
+      .eq('status', 'cancelled')
+      .gte('created_at', range.from.toISOString())
+      .lt('created_at', range.to.toISOString()),
+    // Refunds count on the day they were given, like the closeout
+    supabase
+      .from('refunds')
+      .select('amount')
+      .eq('status', 'completed')
+      .gte('created_at', range.from.toISOString())
+      .lt('created_at', range.to.toISOString()),
+    supabase
+      .from('menu_items')
+      .select('id, name, category'),
+    supabase
+      .from('users')
+      .select('id, name')
+      .neq('role', 'customer')
+  ]);
+
+  const failure = sales.error || cancelledResult.error?.message || refundsResult.error?.message
+    || menuResult.error?.message || staffResult.error?.message;
+  if (failure) {
+    console.error('Error loading end of day summary:', failure);
+    return { report: null, error: failure };
+  }
+
+  const staffNames = Object.fromEntries((staffResult.data || []).map(staff => [staff.id, staff.name]));
+  const items = rankItemSales(sales.orders, menuResult.data || []).filter(item => item.quantity > 0);
+
+  const hourly = new Map<number, { hour: number; orders: number; revenue: number }>();
+  sales.orders.forEach(order => {
+    const hour = new Date(order.created_at).getHours();
+    const entry = hourly.get(hour) || { hour, orders: 0, revenue: 0 };
+    entry.orders += 1;
+    entry.revenue += getOrderRevenue(order);
+    hourly.set(hour, entry);
+  });
+
+  const report: EndOfDayReport = {
+    date: range.from,
+    summary: summarizeSales(sales.orders),
+    cancelledCount: (cancelledResult.data || []).length,
+    cancelledValue: (cancelledResult.data || []).reduce((total, order) => total + Number(order.total), 0),
+    refundCount: (refundsResult.data || []).length,
+    refundValue: (refundsResult.data || []).reduce((total, refund) => total + Number(refund.amount), 0),
+    categories: revenueByCategory(items),
+    waiters: revenueByWaiter(sales.orders, staffNames),
+    discounts: discountsByKind(sales.orders),
+    items,
+    hourly: Array.from(hourly.values()).sort((a, b) => a.hour - b.hour)
+  };
+
+  return { report, error: null };
+};
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+export const renderEndOfDayHtml = (report: EndOfDayReport) => {
+  const dateLabel = report.date.toLocaleDateString('en-US', {
+    weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
+  });
+
+  return `
+    <h1>End of Day Summary</h1>
+    <p>${escapeHtml(dateLabel)} • printed ${escapeHtml(new Date().toLocaleString())}</p>
+
+    <h2>Totals</h2>
+    ${htmlTable(['', 'Value'], [
+      ['Revenue', money(report.summary.revenue)],
+      ['Discounts given', money(report.summary.discounts)],
+      ['Tax collected', money(report.summary.tax)],
+      ['Tips', money(report.summary.tips)],
+      ['Orders', report.summary.orderCount],
+      ['Average ticket', money(report.summary.averageTicket)],
+      ['Items sold', report.summary.itemsSold],
+      ['Cancelled orders', `${report.cancelledCount} (${money(report.cancelledValue)})`],
+      ['Refunds', `${report.refundCount} (${money(report.refundValue)})`]
+    ])}
+
+    <h2>Revenue by Category</h2>
+    ${htmlTable(['Category', 'Items sold', 'Revenue'],
+      report.categories.map(category => [category.label, category.count, money(category.revenue)]))}
+
+    <h2>Revenue by Waiter</h2>
+    ${htmlTable(['Waiter', 'Orders', 'Revenue'],
+      report.waiters.map(waiter => [waiter.label, waiter.count, money(waiter.revenue)]))}
+
+    <h2>Discounts</h2>
+    ${htmlTable(['Kind', 'Given', 'Amount'],
+      report.discounts.map(discount => [discount.label, discount.count, money(discount.revenue)]))}
+
+    <h2>Items Sold</h2>
+    ${htmlTable(['Item', 'Quantity', 'Revenue'],
+      report.items.map(item => [item.name, item.quantity, money(item.revenue)]))}
+
+    <h2>By Hour</h2>
+    ${htmlTable(['Hour', 'Orders', 'Revenue'],
+      report.hourly.map(entry => [formatHour(entry.hour), entry.orders, money(entry.revenue)]))}
+  `;
+};
+
+// Load and print a day's summary; returns an error message when it could not be shown
+export const printEndOfDay = async (date: Date) => {
+  const { report, error } = await loadEndOfDay(date);
+  if (error || !report) return error || 'Failed to load the end of day summary';
+
+  const printed = printDocument(`End of Day ${report.date.toLocaleDateString()}`, renderEndOfDayHtml(report));
+  return printed ? null : 'Please allow pop-ups for this site to print the summary';
+};
@@ -0,0 +1,45 @@
+import { Table } from './supabase';
+
+// Floor plan coordinates are stored in this virtual canvas and scaled to fit the screen
+export const FLOOR_WIDTH = 1000;
+export const FLOOR_HEIGHT = 600;
+export const GRID_SIZE = 20;
+
+export const tableStatusColors: Record<Table['status'], { fill: string; stroke: string; label: string }> = {
+  available: { fill: '#dcfce7', stroke: '#16a34a', label: 'Available' },
+  occupied: { fill: '#fee2e2', stroke: '#dc2626', label: 'Occupied' },
+  reserved: { fill: '#fef9c3', stroke: '#ca8a04', label: 'Reserved' },
+  needs_bill: { fill: '#f3e8ff', stroke: '#9333ea', label: 'Needs Bill' }
+};
+
+// Table footprint grows with the number of seats
+export const getTableSize = (table: Pick<Table, 'shape' | 'seats'>) => {
+  switch (table.shape) {
+    case 'round': {
+      const diameter = 56 + table.seats * 4;
+      return { width: diameter, height: diameter };
+    }
+    case 'rectangle':
+      return { width: 60 + table.seats * 12, height: 64 };
+    default: {
+      const side = 56 + table.seats * 4;
+      return { width: side, height: side };
+    }
+  }
+};
+
+// Keep a table's center on the grid and fully inside the canvas
+export const clampTablePosition = (table: Pick<Table, 'shape' | 'seats'>, x: number, y: number) => {
+  const { width, height } = getTableSize(table);
+  const snappedX = Math.round(x / GRID_SIZE) * GRID_SIZE;
+  const snappedY = Math.round(y / GRID_SIZE) * GRID_SIZE;
+
+  return {
+    x: Math.min(FLOOR_WIDTH - width / 2, Math.max(width / 2, snappedX)),
+    y: Math.min(FLOOR_HEIGHT - height / 2, Math.max(height / 2, snappedY))
+  };
+};
+
+export const getElapsedMinutes = (since: string) => {
+  return Math.max(0, Math.floor((Date.now() - new Date(since).getTime()) / 60000));
+};
@@ -0,0 +1,58 @@
+import { supabase, Ingredient, StockAdjustment } from './supabase';
+
+export const INGREDIENT_UNITS: Ingredient['unit'][] = ['g', 'kg', 'ml', 'l', 'each'];
+
+export const adjustmentReasonLabels: Record<StockAdjustment['reason'], string> = {
+  depletion: 'Used in order',
+  count: 'Stock count',
+  delivery: 'Delivery',
+  waste: 'Waste',
+  correction: 'Correction'
+};
+
+// An ingredient with no threshold set is never reported as low
+export const isLowStock = (ingredient: Pick<Ingredient, 'on_hand' | 'low_stock_threshold'>) => {
+  return Number(ingredient.low_stock_threshold) > 0 &&
+    Number(ingredient.on_hand) <= Number(ingredient.low_stock_threshold);
+};
+
+export const formatQuantity = (quantity: number, unit: Ingredient['unit']) => {
+  const rounded = Math.round(Number(quantity) * 1000) / 1000;
+  return unit === 'each' ? `${rounded}` : `${rounded} ${unit}`;
+};
+
+export const countLowStock = async () => {
+  const { data, error } = await supabase
+    .from('ingredients')
+    .select('on_hand, low_stock_threshold');
+
+  if (error) {
+    console.error('Error loading stock levels:', error);
+    return null;
+  }
+
+  return (data || []).filter(isLowStock).length;
+};
+
+// Record a stock movement through the database so it is logged. For a count the
+// quantity is the new level; deliveries and waste are amounts; corrections are signed.
+export const adjustStock = async (
+  ingredientId: string,
+  reason: Exclude<StockAdjustment['reason'], 'depletion'>,
+  quantity: number,
+  note?: string
+) => {
+  const { data, error } = await supabase.rpc('adjust_stock', {
+    p_ingredient_id: ingredientId,
+    p_reason: reason,
+    p_quantity: quantity,
+    p_note: note ?? null
+  });
+
+  if (error) {
+    console.error('Error adjusting stock:', error);
+    return { ingredient: null, error: error.message };
+  }
+
+  return { ingredient: data as Ingredient, error: null };
+};
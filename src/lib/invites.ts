@@ -0,0 +1,60 @@
+import { supabase, StaffInvite, User } from './supabase';
+
+export type InviteRole = StaffInvite['role'];
+
+export const getInviteLink = (token: string) => `${window.location.origin}/?invite=${token}`;
+
+// The token from an invite link the app was opened with, if any
+export const getInviteTokenFromUrl = () => new URLSearchParams(window.location.search).get('invite') || '';
+
+export const isInvitePending = (invite: StaffInvite) =>
+  !invite.accepted_at && !invite.revoked_at && new Date(invite.expires_at) > new Date();
+
+// What an invite is for; null when it is unknown, used, revoked or expired
+export const checkStaffInvite = async (token: string) => {
+  const { data, error } = await supabase.rpc('check_staff_invite', { p_token: token.trim() });
+
+  if (error) {
+    console.error('Error checking invite:', error);
+    return { invite: null, error: error.message };
+  }
+
+  const invite = (data || [])[0] as Pick<StaffInvite, 'role' | 'email' | 'expires_at'> | undefined;
+  return { invite: invite || null, error: null };
+};
+
+export const createStaffInvite = async (role: InviteRole, email: string, manager: User) => {
+  const { data, error } = await supabase
+    .from('staff_invites')
+    .insert({
+      role,
+      email: email.trim() || null,
+      created_by: manager.id,
+      created_by_name: manager.name
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating invite:', error);
+    return { invite: null, error: error.message };
+  }
+
+  return { invite: data as StaffInvite, error: null };
+};
+
+export const revokeStaffInvite = async (inviteId: string) => {
+  const { data, error } = await supabase
+    .from('staff_invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error revoking invite:', error);
+    return { invite: null, error: error.message };
+  }
+
+  return { invite: data as StaffInvite, error: null };
+};
@@ -0,0 +1,127 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Order, OrderItem } from './supabase';
+
+type OrderWithItems = Order & { order_items?: OrderItem[] };
+
+// Fetch one order with its items, menu details and status history, the shape the order lists use
+export const fetchOrderWithItems = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(`
+      *,
+      order_items (
+        *,
+        menu_item:menu_items (*)
+      ),
+      status_events:order_status_events (*),
+      payments (*),
+      order_discounts (*),
+      refunds (*)
+    `)
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading order:', error);
+    return null;
+  }
+
+  return data;
+};
+
+// Insert or replace an order in a list, keeping newest-first or oldest-first order
+export const upsertOrder = <T extends Order>(orders: T[], order: T, newestFirst = true): T[] => {
+  const rest = orders.filter(existing => existing.id !== order.id);
+  const merged = [...rest, order];
+  return merged.sort((a, b) => {
+    const diff = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    return newestFirst ? -diff : diff;
+  });
+};
+
+// Apply an update or delete on `orders` to a list. Inserts need their items
+// fetched separately, so they are left to the caller.
+export const mergeOrderChange = <T extends OrderWithItems>(
+  orders: T[],
+  change: RealtimePostgresChangesPayload<Order>
+): T[] => {
+  if (change.eventType === 'UPDATE') {
+    return orders.map(order =>
+      order.id === change.new.id
+        ? { ...order, ...change.new, order_items: order.order_items }
+        : order
+    );
+  }
+
+  if (change.eventType === 'DELETE') {
+    return orders.filter(order => order.id !== change.old.id);
+  }
+
+  return orders;
+};
+
+// Apply an update or delete on `order_items` to the items nested in each order
+export const mergeOrderItemChange = <T extends OrderWithItems>(
+  orders: T[],
+  change: RealtimePostgresChangesPayload<OrderItem>
+): T[] => {
+  if (change.eventType === 'UPDATE') {
+    return orders.map(order =>
+      order.id === change.new.order_id && order.order_items
+        ? {
+            ...order,
+            order_items: order.order_items.map(item =>
+              item.id === change.new.id ? { ...item, ...change.new, menu_item: item.menu_item } : item
+            )
+          }
+        : order
+    );
+  }
+
+  if (change.eventType === 'DELETE') {
+    return orders.map(order =>
+      order.order_items
+        ? { ...order, order_items: order.order_items.filter(item => item.id !== change.old.id) }
+        : order
+    );
+  }
+
+  return orders;
+};
+
+// The order id a change refers to, whatever the event type
+export const getChangedOrderId = (change: RealtimePostgresChangesPayload<OrderItem>) => {
+  return change.eventType === 'DELETE' ? change.old.order_id : change.new.order_id;
+};
+
+// Short two-note chime for new orders, generated so no audio file is needed
+export const playNewOrderChime = () => {
+  try {
+    const AudioCtx = window.AudioContext ||
+      (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioCtx) return;
+
+    const context = new AudioCtx();
+    [880, 1320].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = context.currentTime + index * 0.18;
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.3);
+
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.32);
+    });
+
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    // Browsers block audio until the page has been interacted with
+    console.warn('Could not play new order chime:', error);
+  }
+};
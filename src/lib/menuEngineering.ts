@@ -0,0 +1,139 @@
+import { supabase, MenuItem, MenuItemFoodCost } from './supabase';
+
+export type MenuClass = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+export interface MenuEngineeringRow {
+  item: Pick<MenuItem, 'id' | 'name' | 'category' | 'price'>;
+  cost: number | null;
+  quantitySold: number;
+  contribution: number | null;
+  totalContribution: number | null;
+  mixPercent: number;
+  classification: MenuClass | null;
+}
+
+export const menuClassLabels: Record<MenuClass, string> = {
+  star: 'Stars',
+  plowhorse: 'Plowhorses',
+  puzzle: 'Puzzles',
+  dog: 'Dogs'
+};
+
+export const menuClassDescriptions: Record<MenuClass, string> = {
+  star: 'Popular and profitable. Keep them visible and consistent.',
+  plowhorse: 'Popular but low margin. Look at portion size, recipe cost or price.',
+  puzzle: 'Profitable but slow. Reposition, rename or have staff recommend them.',
+  dog: 'Neither popular nor profitable. Candidates to rework or remove.'
+};
+
+// Contribution is what one portion leaves after its food cost
+export const getMargin = (price: number, cost: number | null | undefined) => {
+  if (cost === null || cost === undefined) return null;
+  const contribution = Number(price) - Number(cost);
+  return {
+    contribution,
+    marginPercent: Number(price) > 0 ? (contribution / Number(price)) * 100 : null
+  };
+};
+
+export const loadFoodCosts = async () => {
+  const { data, error } = await supabase
+    .from('menu_item_food_costs')
+    .select('*');
+
+  if (error) {
+    console.error('Error loading food costs:', error);
+    return { foodCosts: new Map<string, MenuItemFoodCost>(), error: error.message };
+  }
+
+  return {
+    foodCosts: new Map((data as MenuItemFoodCost[] || []).map(cost => [cost.menu_item_id, cost])),
+    error: null
+  };
+};
+
+// A blank cost removes the manual entry so the recipe cost is used again
+export const saveManualCost = async (menuItemId: string, manualCost: number | null) => {
+  const { error } = manualCost === null
+    ? await supabase
+      .from('menu_item_costs')
+      .delete()
+      .eq('menu_item_id', menuItemId)
+    : await supabase
+      .from('menu_item_costs')
+      .upsert([{ menu_item_id: menuItemId, manual_cost: manualCost, updated_at: new Date().toISOString() }]);
+
+  if (error) {
+    console.error('Error saving menu item cost:', error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
+
+// Portions sold per menu item since a date, leaving out cancelled orders and voided items
+export const loadItemSales = async (since: Date) => {
+  const { data, error } = await supabase
+    .from('order_items')
+    .select('menu_item_id, quantity, orders!inner(status, created_at)')
+    .neq('orders.status', 'cancelled')
+    .eq('voided', false)
+    .gte('orders.created_at', since.toISOString());
+
+  if (error) {
+    console.error('Error loading item sales:', error);
+    return { sales: {} as Record<string, number>, error: error.message };
+  }
+
+  const sales: Record<string, number> = {};
+  (data || []).forEach(line => {
+    sales[line.menu_item_id] = (sales[line.menu_item_id] || 0) + line.quantity;
+  });
+
+  return { sales, error: null };
+};
+
+// Classic menu-engineering matrix. An item is popular when its share of portions sold
+// is at least 70% of an even share, and profitable when its contribution is at or
+// above the sales-weighted average. Items without a cost are listed but not classified.
+export const buildMenuEngineering = (
+  items: Pick<MenuItem, 'id' | 'name' | 'category' | 'price'>[],
+  foodCosts: Map<string, MenuItemFoodCost>,
+  sales: Record<string, number>
+): MenuEngineeringRow[] => {
+  const totalSold = items.reduce((total, item) => total + (sales[item.id] || 0), 0);
+
+  const rows = items.map(item => {
+    const cost = foodCosts.get(item.id)?.cost ?? null;
+    const quantitySold = sales[item.id] || 0;
+    const margin = getMargin(item.price, cost);
+    return {
+      item,
+      cost: cost === null ? null : Number(cost),
+      quantitySold,
+      contribution: margin?.contribution ?? null,
+      totalContribution: margin ? margin.contribution * quantitySold : null,
+      mixPercent: totalSold > 0 ? (quantitySold / totalSold) * 100 : 0,
+      classification: null as MenuClass | null
+    };
+  });
+
+  const costed = rows.filter(row => row.contribution !== null);
+  if (costed.length === 0) return rows;
+
+  const costedSold = costed.reduce((total, row) => total + row.quantitySold, 0);
+  const averageContribution = costedSold > 0
+    ? costed.reduce((total, row) => total + (row.totalContribution ?? 0), 0) / costedSold
+    : costed.reduce((total, row) => total + (row.contribution ?? 0), 0) / costed.length;
+  const popularityThreshold = (100 / items.length) * 0.7;
+
+  costed.forEach(row => {
+    const popular = row.mixPercent >= popularityThreshold;
+    const profitable = (row.contribution ?? 0) >= averageContribution;
+    row.classification = popular
+      ? (profitable ? 'star' : 'plowhorse')
+      : (profitable ? 'puzzle' : 'dog');
+  });
+
+  return rows;
+};
@@ -0,0 +1,165 @@
+import { supabase, MenuItem, ModifierGroup, SelectedModifier } from './supabase';
+
+// Select string for menu items together with their option groups
+export const MENU_ITEM_WITH_MODIFIERS = `
+  *,
+  modifier_groups (
+    *,
+    options:modifier_options (*)
+  )
+`;
+
+// An item's groups and their options in display order
+export const getModifierGroups = (menuItem: MenuItem): ModifierGroup[] => {
+  return [...(menuItem.modifier_groups || [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(group => ({
+      ...group,
+      options: [...(group.options || [])].sort((a, b) => a.sort_order - b.sort_order)
+    }));
+};
+
+export const hasModifiers = (menuItem: MenuItem) => (menuItem.modifier_groups?.length ?? 0) > 0;
+
+export const describeSelectionLimit = (group: ModifierGroup) => {
+  if (group.min_selections === group.max_selections) {
+    return group.required ? `Choose ${group.max_selections}` : `Up to ${group.max_selections}`;
+  }
+  if (group.required) return `Choose ${group.min_selections}–${group.max_selections}`;
+  return `Up to ${group.max_selections}`;
+};
+
+// Mirrors the group checks in `place_order`, which has the final say
+export const validateSelection = (groups: ModifierGroup[], selectedIds: string[]) => {
+  for (const group of groups) {
+    const chosen = (group.options || []).filter(option => selectedIds.includes(option.id)).length;
+    if (chosen < group.min_selections) {
+      return `Choose at least ${group.min_selections} for ${group.name}`;
+    }
+    if (chosen > group.max_selections) {
+      return `Choose at most ${group.max_selections} for ${group.name}`;
+    }
+  }
+  return null;
+};
+
+// Snapshot the chosen options the same way the database stores them on order lines
+export const buildSelection = (groups: ModifierGroup[], selectedIds: string[]): SelectedModifier[] => {
+  return groups.flatMap(group =>
+    (group.options || [])
+      .filter(option => selectedIds.includes(option.id))
+      .map(option => ({
+        group_id: group.id,
+        group_name: group.name,
+        option_id: option.id,
+        option_name: option.name,
+        price_delta: Number(option.price_delta)
+      }))
+  );
+};
+
+export const getModifiersTotal = (modifiers?: SelectedModifier[]) => {
+  return (modifiers || []).reduce((sum, modifier) => sum + Number(modifier.price_delta), 0);
+};
+
+export const getUnitPrice = (menuItem: MenuItem, modifiers?: SelectedModifier[]) => {
+  return menuItem.price + getModifiersTotal(modifiers);
+};
+
+export const formatPriceDelta = (delta: number) => {
+  if (delta === 0) return '';
+  return `${delta > 0 ? '+' : '-'}$${Math.abs(delta).toFixed(2)}`;
+};
+
+// "Size: Large • Extras: Extra cheese, No basil"
+export const formatModifiers = (modifiers?: SelectedModifier[]) => {
+  const byGroup = new Map<string, string[]>();
+  (modifiers || []).forEach(modifier => {
+    byGroup.set(modifier.group_name, [...(byGroup.get(modifier.group_name) || []), modifier.option_name]);
+  });
+  return [...byGroup.entries()].map(([group, options]) => `${group}: ${options.join(', ')}`).join(' • ');
+};
+
+// Two lines with the same dish are the same line only if they have the same options
+export const sameModifiers = (a: SelectedModifier[] = [], b: SelectedModifier[] = []) => {
+  const key = (modifiers: SelectedModifier[]) => modifiers.map(modifier => modifier.option_id).sort().join(',');
+  return key(a) === key(b);
+};
+
+export interface ModifierOptionDraft {
+  id?: string;
+  name: string;
+  priceDelta: string;
+  available: boolean;
+}
+
+export interface ModifierGroupDraft {
+  id?: string;
+  name: string;
+  required: boolean;
+  minSelections: number;
+  maxSelections: number;
+  options: ModifierOptionDraft[];
+}
+
+export const toGroupDrafts = (menuItem: MenuItem): ModifierGroupDraft[] => {
+  return getModifierGroups(menuItem).map(group => ({
+    id: group.id,
+    name: group.name,
+    required: group.required,
+    minSelections: group.min_selections,
+    maxSelections: group.max_selections,
+    options: (group.options || []).map(option => ({
+      id: option.id,
+      name: option.name,
+      priceDelta: Number(option.price_delta).toFixed(2),
+      available: option.available
+    }))
+  }));
+};
+
+export const validateGroupDrafts = (drafts: ModifierGroupDraft[]) => {
+  for (const draft of drafts) {
+    const label = draft.name.trim() || 'Unnamed group';
+    if (!draft.name.trim()) return 'Every option group needs a name';
+    if (draft.options.length === 0) return `${label} needs at least one option`;
+    if (draft.options.some(option => !option.name.trim())) return `Every option in ${label} needs a name`;
+    if (draft.options.some(option => option.priceDelta !== '' && isNaN(parseFloat(option.priceDelta)))) {
+      return `Option prices in ${label} must be numbers`;
+    }
+    if (draft.maxSelections < 1) return `${label} must allow at least one choice`;
+    if (draft.maxSelections > draft.options.length) return `${label} allows more choices than it has options`;
+    if (draft.required && draft.minSelections < 1) return `${label} is required, so it needs a minimum of at least 1`;
+    if (draft.minSelections > draft.maxSelections) return `${label} has a minimum above its maximum`;
+  }
+  return null;
+};
+
+// Bring an item's groups in line with the drafts: update the ones that still exist,
+// add new ones and delete the rest, all in one transaction. Order lines keep their
+// own copy of the options.
+export const saveModifierGroups = async (menuItemId: string, drafts: ModifierGroupDraft[]) => {
+  const { error } = await supabase.rpc('save_modifier_groups', {
+    p_menu_item_id: menuItemId,
+    p_groups: drafts.map(draft => ({
+      id: draft.id || null,
+      name: draft.name.trim(),
+      required: draft.required,
+      min_selections: draft.required ? draft.minSelections : 0,
+      max_selections: draft.maxSelections,
+      options: draft.options.map(option => ({
+        id: option.id || null,
+        name: option.name.trim(),
+        price_delta: parseFloat(option.priceDelta) || 0,
+        available: option.available
+      }))
+    }))
+  });
+
+  if (error) {
+    console.error('Error saving option groups:', error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
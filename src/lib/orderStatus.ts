@@ -0,0 +1,47 @@
+import { Order, User } from './supabase';
+
+type OrderStatus = Order['status'];
+
+// The forward flow every order follows; `cancelled` can branch off before `completed`
+export const ORDER_STATUS_FLOW: OrderStatus[] = ['pending', 'preparing', 'ready', 'served', 'completed'];
+
+export const orderStatusColors: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  preparing: 'bg-blue-100 text-blue-800',
+  ready: 'bg-green-100 text-green-800',
+  served: 'bg-purple-100 text-purple-800',
+  completed: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+export const isFinalStatus = (status: OrderStatus) => status === 'completed' || status === 'cancelled';
+
+// These mirror the rules in the `enforce_order_status_transition` trigger. The database
+// has the final say; the UI only uses them to decide which actions to offer.
+export const getAllowedNextStatuses = (order: Order, user: Pick<User, 'id' | 'role'>): OrderStatus[] => {
+  if (isFinalStatus(order.status)) return [];
+
+  const step = ORDER_STATUS_FLOW.indexOf(order.status);
+  const next = ORDER_STATUS_FLOW[step + 1];
+
+  switch (user.role) {
+    case 'manager':
+      return ORDER_STATUS_FLOW.slice(step + 1);
+    case 'kitchen':
+      return next === 'preparing' || next === 'ready' ? [next] : [];
+    case 'waiter':
+      return (!order.waiter_id || order.waiter_id === user.id) && (next === 'served' || next === 'completed') ? [next] : [];
+    default:
+      return [];
+  }
+};
+
+export const getNextStatus = (order: Order, user: Pick<User, 'id' | 'role'>) => {
+  return getAllowedNextStatuses(order, user)[0] || null;
+};
+
+export const canCancelOrder = (order: Order, user: Pick<User, 'id' | 'role'>) => {
+  if (isFinalStatus(order.status)) return false;
+  if (user.role === 'manager') return true;
+  return user.role === 'waiter' && order.waiter_id === user.id && order.status === 'pending';
+};
@@ -0,0 +1,67 @@
+import { Order, OrderStatusEvent } from './supabase';
+
+type OrderStatus = Order['status'];
+
+export interface OrderTimings {
+  // Placed until the kitchen marks it ready
+  ticketMinutes: number | null;
+  // Kitchen starts cooking until ready
+  prepMinutes: number | null;
+  // Ready until it reaches the table
+  serveMinutes: number | null;
+}
+
+const minutesBetween = (from?: string, to?: string) => {
+  if (!from || !to) return null;
+  return Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / 60000);
+};
+
+// When an order first reached each status
+export const getStatusTimes = (events: OrderStatusEvent[]) => {
+  const times: Partial<Record<OrderStatus, string>> = {};
+  [...events]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .forEach(event => {
+      if (!times[event.to_status]) {
+        times[event.to_status] = event.created_at;
+      }
+    });
+  return times;
+};
+
+export const getOrderTimings = (events: OrderStatusEvent[]): OrderTimings => {
+  const times = getStatusTimes(events);
+  return {
+    ticketMinutes: minutesBetween(times.pending, times.ready),
+    prepMinutes: minutesBetween(times.preparing, times.ready),
+    serveMinutes: minutesBetween(times.ready, times.served)
+  };
+};
+
+export const averageMinutes = (values: (number | null)[]) => {
+  const known = values.filter((value): value is number => value !== null);
+  if (known.length === 0) return null;
+  return Math.round(known.reduce((sum, value) => sum + value, 0) / known.length);
+};
+
+// Average timings across many orders, from a flat list of their events
+export const getAverageTimings = (events: OrderStatusEvent[]): OrderTimings => {
+  const byOrder = new Map<string, OrderStatusEvent[]>();
+  events.forEach(event => {
+    byOrder.set(event.order_id, [...(byOrder.get(event.order_id) || []), event]);
+  });
+
+  const timings = [...byOrder.values()].map(getOrderTimings);
+  return {
+    ticketMinutes: averageMinutes(timings.map(timing => timing.ticketMinutes)),
+    prepMinutes: averageMinutes(timings.map(timing => timing.prepMinutes)),
+    serveMinutes: averageMinutes(timings.map(timing => timing.serveMinutes))
+  };
+};
+
+export const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+};
@@ -0,0 +1,36 @@
+import { supabase, Order } from './supabase';
+
+export interface OrderLineInput {
+  menu_item_id: string;
+  quantity: number;
+  notes?: string | null;
+  option_ids?: string[];
+}
+
+interface PlaceOrderInput {
+  customerName: string;
+  items: OrderLineInput[];
+  tableNumber?: number | null;
+  partySize?: number | null;
+  promoCode?: string | null;
+}
+
+// Create an order and its items in one transaction. The database prices every
+// line from the menu and adds tax and any service charge, so the total returned
+// here is the one to show. A promo code is checked again and used up here.
+export const placeOrder = async ({ customerName, items, tableNumber, partySize, promoCode }: PlaceOrderInput) => {
+  const { data, error } = await supabase.rpc('place_order', {
+    p_customer_name: customerName,
+    p_items: items,
+    p_table_number: tableNumber ?? null,
+    p_party_size: partySize ?? null,
+    p_promo_code: promoCode || null
+  });
+
+  if (error) {
+    console.error('Error placing order:', error);
+    return { order: null, error: error.message };
+  }
+
+  return { order: data as Order, error: null };
+};
@@ -0,0 +1,120 @@
+// Card payments go through a payment gateway. Settlement only talks to the
+// `PaymentGateway` interface, so a real provider can be added to `gateways`
+// without touching the bill screens.
+
+export type GatewayTransactionStatus = 'authorized' | 'captured' | 'voided' | 'refunded';
+
+export interface GatewayTransaction {
+  id: string;
+  status: GatewayTransactionStatus;
+  amount: number;
+}
+
+export interface GatewayResult {
+  transaction: GatewayTransaction | null;
+  error: string | null;
+}
+
+export interface PaymentGateway {
+  name: string;
+  simulated: boolean;
+  authorize(amount: number, reference: string): Promise<GatewayResult>;
+  capture(transactionId: string, amount: number): Promise<GatewayResult>;
+  refund(transactionId: string, amount: number): Promise<GatewayResult>;
+  void(transactionId: string): Promise<GatewayResult>;
+}
+
+export type SimulatedOutcome = 'approve' | 'decline' | 'timeout';
+
+export const simulatedOutcomeLabels: Record<SimulatedOutcome, string> = {
+  approve: 'Approve',
+  decline: 'Decline',
+  timeout: 'Time out'
+};
+
+const SIMULATED_OUTCOME_KEY = 'simulatedGatewayOutcome';
+const GATEWAY_TIMEOUT_MS = 8000;
+
+const isSimulatedOutcome = (value: unknown): value is SimulatedOutcome =>
+  value === 'approve' || value === 'decline' || value === 'timeout';
+
+// Chosen on the bill screen while testing; falls back to the build setting
+export const getSimulatedOutcome = (): SimulatedOutcome => {
+  const stored = localStorage.getItem(SIMULATED_OUTCOME_KEY);
+  if (isSimulatedOutcome(stored)) return stored;
+
+  const configured = import.meta.env.VITE_SIMULATED_GATEWAY_OUTCOME;
+  return isSimulatedOutcome(configured) ? configured : 'approve';
+};
+
+export const setSimulatedOutcome = (outcome: SimulatedOutcome) => {
+  localStorage.setItem(SIMULATED_OUTCOME_KEY, outcome);
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Local stand-in for a card provider. Only authorization can be declined or
+// time out; once a card is authorized the follow-up calls always succeed.
+class SimulatedGateway implements PaymentGateway {
+  name = 'simulated';
+  simulated = true;
+
+  constructor(private latencyMs = 600) {}
+
+  async authorize(amount: number, reference: string): Promise<GatewayResult> {
+    const outcome = getSimulatedOutcome();
+
+    if (outcome === 'timeout') {
+      return new Promise<GatewayResult>(() => {});
+    }
+
+    await wait(this.latencyMs);
+
+    if (outcome === 'decline') {
+      return { transaction: null, error: `Card declined for order ${reference.slice(0, 8)}` };
+    }
+
+    return { transaction: { id: `sim_${crypto.randomUUID()}`, status: 'authorized', amount }, error: null };
+  }
+
+  async capture(transactionId: string, amount: number): Promise<GatewayResult> {
+    await wait(this.latencyMs);
+    return { transaction: { id: transactionId, status: 'captured', amount }, error: null };
+  }
+
+  async refund(transactionId: string, amount: number): Promise<GatewayResult> {
+    await wait(this.latencyMs);
+    return { transaction: { id: transactionId, status: 'refunded', amount }, error: null };
+  }
+
+  async void(transactionId: string): Promise<GatewayResult> {
+    await wait(this.latencyMs);
+    return { transaction: { id: transactionId, status: 'voided', amount: 0 }, error: null };
+  }
+}
+
+const gateways: Record<string, () => PaymentGateway> = {
+  simulated: () => new SimulatedGateway()
+};
+
+export const getPaymentGateway = (): PaymentGateway => {
+  const name = import.meta.env.VITE_PAYMENT_GATEWAY || 'simulated';
+  const create = gateways[name];
+
+  if (!create) {
+    console.error(`Unknown payment gateway "${name}", using the simulated gateway`);
+    return gateways.simulated();
+  }
+
+  return create();
+};
+
+// A provider that never answers must not leave the bill screen waiting forever
+export const callGateway = (request: Promise<GatewayResult>): Promise<GatewayResult> =>
+  Promise.race([
+    request,
+    wait(GATEWAY_TIMEOUT_MS).then(() => ({
+      transaction: null,
+      error: 'The payment provider did not respond in time'
+    }))
+  ]);
@@ -0,0 +1,149 @@
+import { supabase, Order, OrderItem, Payment, User } from './supabase';
+import { isFinalStatus } from './orderStatus';
+import { PaymentGateway, getPaymentGateway, callGateway } from './paymentGateway';
+import { roundMoney } from './pricing';
+
+export type PaymentMethod = Payment['method'];
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  other: 'Other'
+};
+
+export const getAmountPaid = (payments: Payment[]) =>
+  roundMoney(payments.reduce((sum, payment) => sum + Number(payment.amount), 0));
+
+export const getBalance = (order: Pick<Order, 'total'>, payments: Payment[]) =>
+  Math.max(0, roundMoney(Number(order.total) - getAmountPaid(payments)));
+
+// Lines already covered by a split-by-item payment
+export const getPaidItemIds = (payments: Payment[]) =>
+  new Set(payments.flatMap(payment => payment.item_ids || []));
+
+// What the lines come to on the bill: their price less discounts, their tax and
+// their share of the service charge
+export const getItemsAmount = (
+  items: Pick<OrderItem, 'id' | 'price' | 'quantity' | 'tax_amount'>[],
+  order: Pick<Order, 'tax_inclusive' | 'service_charge_rate' | 'order_items' | 'order_discounts'>
+) => {
+  const discounts = order.order_discounts || [];
+  const lineDiscount = (itemId: string) =>
+    Number(discounts.find(discount => discount.order_item_id === itemId)?.amount || 0);
+  const discountedLines = (order.order_items || []).filter(item => !item.voided).reduce((sum, item) =>
+    sum + Number(item.price) * item.quantity - lineDiscount(item.id), 0);
+  const orderDiscount = discounts
+    .filter(discount => !discount.order_item_id)
+    .reduce((sum, discount) => sum + Number(discount.amount), 0);
+  // Order discounts are spread over the lines in proportion
+  const chargedShare = discountedLines > 0 ? (discountedLines - orderDiscount) / discountedLines : 1;
+
+  return roundMoney(items.reduce((sum, item) => {
+    const charged = (Number(item.price) * item.quantity - lineDiscount(item.id)) * chargedShare;
+    const tax = Number(item.tax_amount || 0);
+    const net = order.tax_inclusive ? charged - tax : charged;
+    return sum + net + tax + (net * Number(order.service_charge_rate || 0)) / 100;
+  }, 0));
+};
+
+// One guest's share when the balance is split evenly; the last guest picks up the rounding
+export const getEvenShare = (balance: number, guestsLeft: number) => {
+  if (guestsLeft <= 1) return roundMoney(balance);
+  return roundMoney(Math.floor((balance / guestsLeft) * 100) / 100);
+};
+
+export interface PaymentRequest {
+  orderId: string;
+  method: PaymentMethod;
+  amount: number;
+  tip: number;
+  tendered?: number | null;
+  label?: string;
+  itemIds?: string[];
+  gateway?: string;
+  gatewayTransactionId?: string;
+}
+
+export const loadPayments = async (orderId: string) => {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading payments:', error);
+    return { payments: [] as Payment[], error: error.message };
+  }
+
+  return { payments: (data || []) as Payment[], error: null };
+};
+
+// The database checks the amount against what is still owed
+export const recordPayment = async (request: PaymentRequest) => {
+  const { data, error } = await supabase.rpc('record_payment', {
+    p_order_id: request.orderId,
+    p_method: request.method,
+    p_amount: request.amount,
+    p_tip: request.tip,
+    p_tendered: request.tendered ?? null,
+    p_label: request.label || null,
+    p_item_ids: request.itemIds || [],
+    p_gateway: request.gateway || null,
+    p_gateway_transaction_id: request.gatewayTransactionId || null
+  });
+
+  if (error) {
+    console.error('Error recording payment:', error);
+    return { payment: null, error: error.message };
+  }
+
+  return { payment: data as Payment, error: null };
+};
+
+// Charges the card before the payment is recorded. Anything that fails after
+// authorization is undone with the gateway so the guest is never charged for a
+// payment the bill does not show.
+export const takeCardPayment = async (request: PaymentRequest, gateway: PaymentGateway = getPaymentGateway()) => {
+  const charge = roundMoney(request.amount + request.tip);
+
+  const authorization = await callGateway(gateway.authorize(charge, request.orderId));
+  if (authorization.error || !authorization.transaction) {
+    return { payment: null, error: `Card not charged: ${authorization.error || 'authorization failed'}` };
+  }
+
+  const transactionId = authorization.transaction.id;
+  const capture = await callGateway(gateway.capture(transactionId, charge));
+  if (capture.error) {
+    const release = await callGateway(gateway.void(transactionId));
+    if (release.error) {
+      console.error('Error voiding card authorization:', transactionId, release.error);
+    }
+    return { payment: null, error: `Card not charged: ${capture.error}` };
+  }
+
+  const { payment, error } = await recordPayment({
+    ...request,
+    method: 'card',
+    tendered: null,
+    gateway: gateway.name,
+    gatewayTransactionId: transactionId
+  });
+
+  if (error) {
+    const refund = await callGateway(gateway.refund(transactionId, charge));
+    if (refund.error) {
+      console.error('Error refunding card charge:', transactionId, refund.error);
+      return { payment: null, error: `${error}. The card was charged and could not be refunded automatically (transaction ${transactionId}).` };
+    }
+    return { payment: null, error: `${error}. The card charge was refunded.` };
+  }
+
+  return { payment, error: null };
+};
+
+// Mirrors the check in `record_payment`; any waiter can settle a self-service order
+export const canTakePayment = (order: Order, user: Pick<User, 'id' | 'role'>) => {
+  if (isFinalStatus(order.status)) return false;
+  return user.role === 'manager' || (user.role === 'waiter' && (!order.waiter_id || order.waiter_id === user.id));
+};
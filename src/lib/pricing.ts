@@ -0,0 +1,157 @@
+import { supabase, CategoryTaxRate, OrderDiscount, RestaurantSettings, TaxRate } from './supabase';
+
+export interface PricingConfig {
+  settings: RestaurantSettings | null;
+  taxRates: TaxRate[];
+  categoryRates: CategoryTaxRate[];
+}
+
+export interface OrderTotals {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  serviceCharge: number;
+  serviceChargeRate: number;
+  total: number;
+}
+
+export interface PricedLine {
+  category: string;
+  amount: number;
+}
+
+export const DEFAULT_TIP_SUGGESTIONS = [15, 18, 20];
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const formatRate = (rate: number) => `${Number(rate)}%`;
+
+export const loadPricingConfig = async () => {
+  const [settingsResult, ratesResult, categoriesResult] = await Promise.all([
+    supabase.from('restaurant_settings').select('*').maybeSingle(),
+    supabase.from('tax_rates').select('*').order('name'),
+    supabase.from('category_tax_rates').select('*')
+  ]);
+
+  const error = settingsResult.error || ratesResult.error || categoriesResult.error;
+  if (error) {
+    console.error('Error loading pricing settings:', error);
+    return { config: null, error: error.message };
+  }
+
+  const config: PricingConfig = {
+    settings: settingsResult.data as RestaurantSettings | null,
+    taxRates: (ratesResult.data || []) as TaxRate[],
+    categoryRates: (categoriesResult.data || []) as CategoryTaxRate[]
+  };
+  return { config, error: null };
+};
+
+// Mirrors `category_tax_rate`: the category's own rate, else the default, else none
+export const getCategoryTaxRate = (category: string, config: PricingConfig) => {
+  const rateId = config.categoryRates.find(entry => entry.category === category)?.tax_rate_id
+    || config.settings?.default_tax_rate_id;
+  const rate = config.taxRates.find(entry => entry.id === rateId);
+  return rate ? Number(rate.rate) : 0;
+};
+
+// Mirrors `line_tax`; inclusive prices already contain the tax
+export const getLineTax = (amount: number, rate: number, inclusive: boolean) =>
+  roundMoney(inclusive ? (amount * rate) / (100 + rate) : (amount * rate) / 100);
+
+export const getServiceChargeRate = (partySize: number | null, settings: RestaurantSettings | null) => {
+  const minimum = settings?.service_charge_min_party;
+  if (!settings || !minimum || !partySize || partySize < minimum) return 0;
+  return Number(settings.service_charge_rate);
+};
+
+// An estimate for the order being built; `place_order` prices the real thing.
+// An order discount such as a promo code is spread over the lines before tax.
+export const calculateOrderTotals = (
+  lines: PricedLine[],
+  partySize: number | null,
+  config: PricingConfig | null,
+  orderDiscount?: Pick<OrderDiscount, 'discount_type' | 'value'> | null
+): OrderTotals => {
+  const inclusive = !!config?.settings?.tax_inclusive;
+  const lineTotal = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  const discount = !orderDiscount
+    ? 0
+    : Math.min(lineTotal, orderDiscount.discount_type === 'percent'
+      ? roundMoney((lineTotal * Number(orderDiscount.value)) / 100)
+      : Number(orderDiscount.value));
+  const chargedShare = lineTotal > 0 ? (lineTotal - discount) / lineTotal : 1;
+  const tax = config
+    ? roundMoney(lines.reduce((sum, line) =>
+      sum + getLineTax(line.amount * chargedShare, getCategoryTaxRate(line.category, config), inclusive), 0))
+    : 0;
+  const subtotal = roundMoney(lineTotal - (inclusive ? tax : 0));
+  const serviceChargeRate = getServiceChargeRate(partySize, config?.settings || null);
+  const serviceCharge = roundMoney(((subtotal - discount) * serviceChargeRate) / 100);
+
+  return {
+    subtotal,
+    discount,
+    tax,
+    serviceCharge,
+    serviceChargeRate,
+    total: roundMoney(subtotal - discount + tax + serviceCharge)
+  };
+};
+
+// Tips are suggested on the pre-tax amount
+export const getTipSuggestions = (base: number, percentages: number[] = DEFAULT_TIP_SUGGESTIONS) =>
+  percentages.map(percent => ({ percent, amount: roundMoney((base * percent) / 100) }));
+
+export const saveTaxRate = async (rate: Pick<TaxRate, 'name' | 'rate'>, rateId?: string) => {
+  const { error } = rateId
+    ? await supabase.from('tax_rates').update(rate).eq('id', rateId)
+    : await supabase.from('tax_rates').insert([rate]);
+
+  if (error) {
+    console.error('Error saving tax rate:', error);
+    return { error: error.message };
+  }
+  return { error: null };
+};
+
+export const deleteTaxRate = async (rateId: string) => {
+  const { error } = await supabase.from('tax_rates').delete().eq('id', rateId);
+
+  if (error) {
+    console.error('Error deleting tax rate:', error);
+    return { error: error.message };
+  }
+  return { error: null };
+};
+
+// A category without its own rate falls back to the default
+export const setCategoryTaxRate = async (category: string, rateId: string | null) => {
+  const { error } = rateId
+    ? await supabase.from('category_tax_rates').upsert({ category, tax_rate_id: rateId })
+    : await supabase.from('category_tax_rates').delete().eq('category', category);
+
+  if (error) {
+    console.error('Error saving category tax rate:', error);
+    return { error: error.message };
+  }
+  return { error: null };
+};
+
+export const updatePricingSettings = async (
+  changes: Partial<Pick<RestaurantSettings,
+    'default_tax_rate_id' | 'tax_inclusive' | 'service_charge_rate' | 'service_charge_min_party' | 'tip_suggestions' |
+    'discount_approval_percent' | 'discount_approval_amount'
+  >>
+) => {
+  const { error } = await supabase
+    .from('restaurant_settings')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', true);
+
+  if (error) {
+    console.error('Error saving pricing settings:', error);
+    return { error: error.message };
+  }
+  return { error: null };
+};
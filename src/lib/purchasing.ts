@@ -0,0 +1,133 @@
+import { supabase, Ingredient, MenuItemFoodCost, PurchaseOrder, PurchaseOrderItem, User } from './supabase';
+
+export interface PurchaseLineDraft {
+  ingredient: Ingredient;
+  quantity: number;
+  unitCost: number | null;
+}
+
+export interface SuggestedOrder {
+  supplierId: string | null;
+  lines: PurchaseLineDraft[];
+}
+
+export interface ReceivedLine {
+  purchase_order_item_id: string;
+  quantity_received: number;
+  unit_cost: number | null;
+}
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrder['status'], string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+// How much to order to bring an ingredient back up to par; 0 when no par is set
+export const getSuggestedQuantity = (ingredient: Pick<Ingredient, 'on_hand' | 'par_level'>) => {
+  const shortfall = Number(ingredient.par_level) - Math.max(Number(ingredient.on_hand), 0);
+  return Number(ingredient.par_level) > 0 && shortfall > 0 ? Math.round(shortfall * 1000) / 1000 : 0;
+};
+
+// Everything below par, grouped into one order per supplier. Ingredients without a
+// supplier are grouped under `supplierId: null` so they can be flagged.
+export const buildSuggestedOrders = (ingredients: Ingredient[]): SuggestedOrder[] => {
+  const orders = new Map<string | null, PurchaseLineDraft[]>();
+
+  ingredients.forEach(ingredient => {
+    const quantity = getSuggestedQuantity(ingredient);
+    if (quantity <= 0) return;
+
+    const supplierId = ingredient.supplier_id ?? null;
+    const lines = orders.get(supplierId) || [];
+    lines.push({ ingredient, quantity, unitCost: ingredient.unit_cost ?? null });
+    orders.set(supplierId, lines);
+  });
+
+  return Array.from(orders, ([supplierId, lines]) => ({ supplierId, lines }));
+};
+
+export const formatCost = (cost: number | null | undefined) => {
+  if (cost === null || cost === undefined) return '—';
+  const value = Number(cost);
+  // Per-gram and per-millilitre costs are fractions of a cent
+  return value > 0 && value < 0.1 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+};
+
+export const getLineTotal = (quantity: number | null | undefined, unitCost: number | null | undefined) => {
+  if (quantity === null || quantity === undefined || unitCost === null || unitCost === undefined) return null;
+  return Number(quantity) * Number(unitCost);
+};
+
+// Expected cost of an order, or what was actually paid once it has been received
+export const getPurchaseOrderTotal = (order: PurchaseOrder) => {
+  return (order.purchase_order_items || []).reduce((total, item: PurchaseOrderItem) => {
+    const lineTotal = order.status === 'received'
+      ? getLineTotal(item.quantity_received, item.received_unit_cost)
+      : getLineTotal(item.quantity_ordered, item.unit_cost);
+    return total + (lineTotal ?? 0);
+  }, 0);
+};
+
+// Food cost as a share of the selling price, or null when it cannot be worked out
+export const getFoodCostPercent = (cost: Pick<MenuItemFoodCost, 'food_cost' | 'price' | 'ingredient_count'>) => {
+  if (Number(cost.ingredient_count) === 0 || Number(cost.price) <= 0) return null;
+  return (Number(cost.food_cost) / Number(cost.price)) * 100;
+};
+
+export const createPurchaseOrder = async (
+  supplierId: string,
+  lines: PurchaseLineDraft[],
+  user: Pick<User, 'id' | 'name'>,
+  notes?: string
+) => {
+  const { data: order, error: orderError } = await supabase
+    .from('purchase_orders')
+    .insert([{
+      supplier_id: supplierId,
+      notes: notes?.trim() || null,
+      created_by: user.id,
+      created_by_name: user.name
+    }])
+    .select()
+    .single();
+
+  if (orderError) {
+    console.error('Error creating purchase order:', orderError);
+    return { purchaseOrder: null, error: orderError.message };
+  }
+
+  const { error: itemsError } = await supabase
+    .from('purchase_order_items')
+    .insert(lines.map(line => ({
+      purchase_order_id: order.id,
+      ingredient_id: line.ingredient.id,
+      quantity_ordered: line.quantity,
+      unit_cost: line.unitCost
+    })));
+
+  if (itemsError) {
+    console.error('Error adding purchase order lines:', itemsError);
+    // Don't leave an empty order behind
+    await supabase.from('purchase_orders').delete().eq('id', order.id);
+    return { purchaseOrder: null, error: itemsError.message };
+  }
+
+  return { purchaseOrder: order as PurchaseOrder, error: null };
+};
+
+// Book a delivery in: adds stock, records what was paid and updates ingredient costs
+export const receivePurchaseOrder = async (purchaseOrderId: string, lines: ReceivedLine[]) => {
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    p_purchase_order_id: purchaseOrderId,
+    p_lines: lines
+  });
+
+  if (error) {
+    console.error('Error receiving purchase order:', error);
+    return { purchaseOrder: null, error: error.message };
+  }
+
+  return { purchaseOrder: data as PurchaseOrder, error: null };
+};
@@ -0,0 +1,79 @@
+import { supabase, Order, Payment, Refund, User } from './supabase';
+import { PaymentGateway, getPaymentGateway, callGateway } from './paymentGateway';
+import { roundMoney } from './pricing';
+import { WRONG_PIN_ERROR } from './staff';
+
+export const getRefundedAmount = (refunds: Refund[], paymentId?: string) =>
+  roundMoney(refunds
+    .filter(refund => refund.status !== 'cancelled' && (!paymentId || refund.payment_id === paymentId))
+    .reduce((sum, refund) => sum + Number(refund.amount), 0));
+
+// Mirrors `refundable_amount`: tips are not refunded, and pending card refunds
+// already hold their share
+export const getRefundableAmount = (payment: Payment, refunds: Refund[]) =>
+  Math.max(0, roundMoney(Number(payment.amount) - getRefundedAmount(refunds, payment.id)));
+
+export interface RefundRequest {
+  payment: Payment;
+  amount: number;
+  reason: string;
+  itemIds?: string[];
+  // Needed unless a manager is giving the refund
+  managerPin?: string;
+}
+
+// The database approves the refund first. A card refund is then sent back to the
+// card, and dropped again if the payment provider turns it down.
+export const refundPayment = async (request: RefundRequest, gateway: PaymentGateway = getPaymentGateway()) => {
+  const { data, error } = await supabase.rpc('request_refund', {
+    p_payment_id: request.payment.id,
+    p_amount: request.amount,
+    p_reason: request.reason,
+    p_item_ids: request.itemIds || [],
+    p_manager_pin: request.managerPin || null
+  });
+
+  if (error) {
+    console.error('Error requesting refund:', error);
+    return { refund: null, error: error.message };
+  }
+
+  if (!data?.id) {
+    return { refund: null, error: WRONG_PIN_ERROR };
+  }
+
+  const refund = data as Refund;
+  if (refund.status === 'completed' || !request.payment.gateway_transaction_id) {
+    return { refund, error: null };
+  }
+
+  const result = await callGateway(gateway.refund(request.payment.gateway_transaction_id, Number(refund.amount)));
+  if (result.error || !result.transaction) {
+    const { error: cancelError } = await supabase.rpc('cancel_refund', { p_refund_id: refund.id });
+    if (cancelError) {
+      console.error('Error cancelling refund:', refund.id, cancelError);
+    }
+    return { refund: null, error: `Card not refunded: ${result.error || 'refund failed'}` };
+  }
+
+  const { data: completed, error: completeError } = await supabase.rpc('complete_refund', {
+    p_refund_id: refund.id,
+    p_gateway_transaction_id: result.transaction.id
+  });
+
+  if (completeError) {
+    console.error('Error completing refund:', refund.id, completeError);
+    return {
+      refund: null,
+      error: `The card was refunded but the refund could not be recorded (transaction ${result.transaction.id}): ${completeError.message}`
+    };
+  }
+
+  return { refund: completed as Refund, error: null };
+};
+
+// Mirrors the check in `request_refund`; refunds can follow a completed order
+export const canRefund = (order: Order, user: Pick<User, 'id' | 'role'>) => {
+  if (!order.payments || order.payments.length === 0) return false;
+  return user.role === 'manager' || (user.role === 'waiter' && order.waiter_id === user.id);
+};
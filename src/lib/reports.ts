@@ -0,0 +1,316 @@
+import { supabase, MenuItem, Order, OrderDiscount, OrderItem } from './supabase';
+import { discountKindLabels } from './discounts';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+// `to` is exclusive: a range for the 3rd to the 5th runs up to midnight on the 6th
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export type SalesOrder = Order & {
+  order_items: (Pick<OrderItem, 'id' | 'menu_item_id' | 'quantity' | 'price' | 'tax_amount'>)[];
+  order_discounts?: (Pick<OrderDiscount, 'kind' | 'amount' | 'order_item_id'>)[];
+};
+
+// `revenue` is sales before tax, after discounts and with service charges
+// included; tax, tips and the discounts given are reported apart
+export interface SalesSummary {
+  revenue: number;
+  orderCount: number;
+  averageTicket: number;
+  itemsSold: number;
+  tax: number;
+  tips: number;
+  discounts: number;
+}
+
+export interface PeriodRevenue {
+  key: string;
+  label: string;
+  revenue: number;
+  orderCount: number;
+}
+
+export interface ItemSales {
+  menuItemId: string;
+  name: string;
+  category: string;
+  quantity: number;
+  revenue: number;
+}
+
+// `count` is portions sold for categories and orders taken for waiters
+export interface GroupRevenue {
+  key: string;
+  label: string;
+  revenue: number;
+  count: number;
+}
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const startOfDay = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date) => {
+  const start = startOfDay(date);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+export const addDays = (date: Date, days: number) => {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted;
+};
+
+// Whole days, from the start of `from` to the end of `to`
+export const dayRange = (from: Date, to: Date): DateRange => ({
+  from: startOfDay(from),
+  to: addDays(startOfDay(to), 1)
+});
+
+// The same length of time immediately before a range
+export const getPreviousRange = (range: DateRange): DateRange => {
+  const length = range.to.getTime() - range.from.getTime();
+  return { from: new Date(range.from.getTime() - length), to: new Date(range.from) };
+};
+
+export const toDateInputValue = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Change from the previous figure as a percentage, or null when there is nothing to compare with
+export const percentChange = (current: number, previous: number) => {
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+};
+
+export const formatPercentChange = (change: number | null) => {
+  if (change === null) return '—';
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+};
+
+export const formatHour = (hour: number) => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+};
+
+// Tax is collected for the government, so it is not counted as sales
+export const getOrderRevenue = (order: Pick<Order, 'total' | 'tax_total'>) =>
+  Number(order.total) - Number(order.tax_total || 0);
+
+// The API returns at most this many rows per request, so longer ranges are loaded a page at a time
+const SALES_PAGE_SIZE = 1000;
+
+// Orders placed in a range with their lines; cancelled orders and voided lines are not sales
+export const loadSalesOrders = async (range: DateRange) => {
+  const orders: SalesOrder[] = [];
+
+  for (let start = 0; ; start += SALES_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (id, menu_item_id, quantity, price, tax_amount),
+        order_discounts (kind, amount, order_item_id)
+      `)
+      .neq('status', 'cancelled')
+      .eq('order_items.voided', false)
+      .gte('created_at', range.from.toISOString())
+      .lt('created_at', range.to.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(start, start + SALES_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error loading sales:', error);
+      return { orders: [] as SalesOrder[], error: error.message };
+    }
+
+    orders.push(...((data || []) as SalesOrder[]));
+    if (!data || data.length < SALES_PAGE_SIZE) break;
+  }
+
+  return { orders, error: null };
+};
+
+export const summarizeSales = (orders: SalesOrder[]): SalesSummary => {
+  const revenue = orders.reduce((total, order) => total + getOrderRevenue(order), 0);
+  const itemsSold = orders.reduce((total, order) =>
+    total + (order.order_items || []).reduce((lines, line) => lines + line.quantity, 0), 0);
+
+  return {
+    revenue,
+    orderCount: orders.length,
+    averageTicket: orders.length > 0 ? revenue / orders.length : 0,
+    itemsSold,
+    tax: orders.reduce((total, order) => total + Number(order.tax_total || 0), 0),
+    tips: orders.reduce((total, order) => total + Number(order.tip_total || 0), 0),
+    discounts: orders.reduce((total, order) => total + Number(order.discount_total || 0), 0)
+  };
+};
+
+// Discounts, comps and promo codes given, each with how many times
+export const discountsByKind = (orders: SalesOrder[]): GroupRevenue[] => {
+  const kinds = new Map<string, GroupRevenue>();
+  orders.forEach(order => {
+    (order.order_discounts || []).forEach(discount => {
+      const entry = kinds.get(discount.kind) || {
+        key: discount.kind, label: discountKindLabels[discount.kind], revenue: 0, count: 0
+      };
+      entry.revenue += Number(discount.amount);
+      entry.count += 1;
+      kinds.set(discount.kind, entry);
+    });
+  });
+  return Array.from(kinds.values()).sort((a, b) => b.revenue - a.revenue);
+};
+
+const periodStart = (date: Date, granularity: Granularity) => {
+  if (granularity === 'week') return startOfWeek(date);
+  const start = startOfDay(date);
+  if (granularity === 'month') {
+    start.setDate(1);
+  }
+  return start;
+};
+
+const nextPeriod = (start: Date, granularity: Granularity) => {
+  if (granularity === 'day') return addDays(start, 1);
+  if (granularity === 'week') return addDays(start, 7);
+  return new Date(start.getFullYear(), start.getMonth() + 1, 1);
+};
+
+const periodLabel = (start: Date, granularity: Granularity) => {
+  if (granularity === 'month') {
+    return start.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  }
+  const label = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return granularity === 'week' ? `Week of ${label}` : label;
+};
+
+// Revenue for every day, week or month in the range, including the empty ones
+export const groupRevenueByPeriod = (orders: SalesOrder[], range: DateRange, granularity: Granularity): PeriodRevenue[] => {
+  const periods: PeriodRevenue[] = [];
+  for (let start = periodStart(range.from, granularity); start < range.to; start = nextPeriod(start, granularity)) {
+    periods.push({ key: toDateInputValue(start), label: periodLabel(start, granularity), revenue: 0, orderCount: 0 });
+  }
+
+  const byKey = new Map(periods.map(period => [period.key, period]));
+  orders.forEach(order => {
+    const period = byKey.get(toDateInputValue(periodStart(new Date(order.created_at), granularity)));
+    if (period) {
+      period.revenue += getOrderRevenue(order);
+      period.orderCount += 1;
+    }
+  });
+
+  return periods;
+};
+
+// Order counts by weekday (Monday first) and hour of the day
+export const buildHourlyHeatmap = (orders: Pick<Order, 'created_at'>[]) => {
+  const heatmap = WEEKDAY_LABELS.map(() => Array<number>(24).fill(0));
+  orders.forEach(order => {
+    const placed = new Date(order.created_at);
+    heatmap[(placed.getDay() + 6) % 7][placed.getHours()] += 1;
+  });
+  return heatmap;
+};
+
+// The hour with the most orders, or null when there are none
+export const getPeakHour = (orders: Pick<Order, 'created_at'>[]) => {
+  const counts = Array<number>(24).fill(0);
+  orders.forEach(order => {
+    counts[new Date(order.created_at).getHours()] += 1;
+  });
+  const busiest = Math.max(...counts);
+  return busiest > 0 ? counts.indexOf(busiest) : null;
+};
+
+// What each line brought in before tax. A line discount comes off its own line and
+// order discounts are spread over the lines, as in `recalculate_order_totals`;
+// service charges belong to the order, not to any line.
+const getLineRevenues = (order: SalesOrder) => {
+  const lines = order.order_items || [];
+  const discounts = order.order_discounts || [];
+  const lineDiscount = (lineId: string) => discounts
+    .filter(discount => discount.order_item_id === lineId)
+    .reduce((total, discount) => total + Number(discount.amount), 0);
+
+  const lineTotal = lines.reduce((total, line) => total + Number(line.price) * line.quantity, 0);
+  const afterLineDiscounts = lines.reduce((total, line) => total - lineDiscount(line.id), lineTotal);
+  const orderDiscounts = discounts
+    .filter(discount => !discount.order_item_id)
+    .reduce((total, discount) => total + Number(discount.amount), 0);
+  const chargedShare = afterLineDiscounts > 0 ? (afterLineDiscounts - orderDiscounts) / afterLineDiscounts : 1;
+
+  return lines.map(line => ({
+    line,
+    // Inclusive prices carry the tax, which is not the item's revenue
+    revenue: (Number(line.price) * line.quantity - lineDiscount(line.id)) * chargedShare -
+      (order.tax_inclusive ? Number(line.tax_amount || 0) : 0)
+  }));
+};
+
+// Portions and revenue after discounts for every menu item, best sellers first.
+// Items that did not sell are included so the bottom of the list is meaningful.
+export const rankItemSales = (
+  orders: SalesOrder[],
+  menuItems: Pick<MenuItem, 'id' | 'name' | 'category'>[]
+): ItemSales[] => {
+  const sales = new Map<string, ItemSales>(menuItems.map(item => [
+    item.id,
+    { menuItemId: item.id, name: item.name, category: item.category, quantity: 0, revenue: 0 }
+  ]));
+
+  orders.forEach(order => {
+    getLineRevenues(order).forEach(({ line, revenue }) => {
+      const entry = sales.get(line.menu_item_id);
+      if (!entry) return;
+      entry.quantity += line.quantity;
+      entry.revenue += revenue;
+    });
+  });
+
+  return Array.from(sales.values()).sort((a, b) => b.quantity - a.quantity || b.revenue - a.revenue);
+};
+
+export const revenueByCategory = (items: ItemSales[]): GroupRevenue[] => {
+  const categories = new Map<string, GroupRevenue>();
+  items.forEach(item => {
+    const entry = categories.get(item.category) || { key: item.category, label: item.category, revenue: 0, count: 0 };
+    entry.revenue += item.revenue;
+    entry.count += item.quantity;
+    categories.set(item.category, entry);
+  });
+  return Array.from(categories.values()).sort((a, b) => b.revenue - a.revenue);
+};
+
+// Orders without a waiter were placed by customers themselves
+export const revenueByWaiter = (orders: SalesOrder[], waiterNames: Record<string, string>): GroupRevenue[] => {
+  const waiters = new Map<string, GroupRevenue>();
+  orders.forEach(order => {
+    const key = order.waiter_id || 'self-service';
+    const label = order.waiter_id ? waiterNames[order.waiter_id] || 'Former staff' : 'Customer self-service';
+    const entry = waiters.get(key) || { key, label, revenue: 0, count: 0 };
+    entry.revenue += getOrderRevenue(order);
+    entry.count += 1;
+    waiters.set(key, entry);
+  });
+  return Array.from(waiters.values()).sort((a, b) => b.revenue - a.revenue);
+};
@@ -0,0 +1,83 @@
+import { Table, WaitlistEntry } from './supabase';
+import { getElapsedMinutes } from './floorPlan';
+
+// Typical time a party keeps a table; also the default reservation length
+export const DEFAULT_DINING_MINUTES = 90;
+
+// Bookable hours for the online booking flow
+export const BOOKING_OPEN_HOUR = 11;
+export const BOOKING_CLOSE_HOUR = 22;
+export const BOOKING_SLOT_MINUTES = 30;
+
+// Time slots for a given day, skipping any that have already passed
+export const getTimeSlots = (day: Date) => {
+  const slots: Date[] = [];
+  const slot = new Date(day);
+  slot.setHours(BOOKING_OPEN_HOUR, 0, 0, 0);
+
+  const close = new Date(day);
+  close.setHours(BOOKING_CLOSE_HOUR, 0, 0, 0);
+
+  const now = Date.now();
+  while (slot <= close) {
+    if (slot.getTime() > now) {
+      slots.push(new Date(slot));
+    }
+    slot.setMinutes(slot.getMinutes() + BOOKING_SLOT_MINUTES);
+  }
+
+  return slots;
+};
+
+export const formatSlotTime = (date: Date | string) => {
+  return new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+// Start and end of the calendar day containing `date`, as ISO strings for queries
+export const getDayRange = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+const roundToFive = (minutes: number) => Math.max(5, Math.round(minutes / 5) * 5);
+
+// Estimate how long a walk-in party will wait, based on when tables big enough for
+// them should turn over and how many parties are already waiting ahead of them
+export const estimateWaitMinutes = (partySize: number, tables: Table[], waitlist: WaitlistEntry[]) => {
+  const fittingTables = tables.filter(table => table.seats >= partySize);
+  if (fittingTables.length === 0) {
+    return null;
+  }
+
+  if (fittingTables.some(table => table.status === 'available')) {
+    return 0;
+  }
+
+  const turnTimes = fittingTables
+    .map(table => {
+      if (table.status === 'needs_bill') return 10;
+      if (table.status === 'occupied' && table.current_order) {
+        return DEFAULT_DINING_MINUTES - getElapsedMinutes(table.current_order.created_at);
+      }
+      // Reserved or unknown: assume a full sitting
+      return DEFAULT_DINING_MINUTES;
+    })
+    .map(minutes => Math.max(5, minutes))
+    .sort((a, b) => a - b);
+
+  const largestSeats = Math.max(...fittingTables.map(table => table.seats));
+  const partiesAhead = waitlist.filter(entry =>
+    (entry.status === 'waiting' || entry.status === 'notified') && entry.party_size <= largestSeats
+  ).length;
+
+  if (partiesAhead < turnTimes.length) {
+    return roundToFive(turnTimes[partiesAhead]);
+  }
+
+  // More parties than tables: every extra round of turns costs another sitting
+  const extraRounds = Math.ceil((partiesAhead - turnTimes.length + 1) / turnTimes.length);
+  return roundToFive(turnTimes[turnTimes.length - 1] + extraRounds * DEFAULT_DINING_MINUTES);
+};
@@ -0,0 +1,190 @@
+import { supabase, Order, OrderItem, OrderStatusEvent, Refund, User } from './supabase';
+import { averageMinutes, getOrderTimings } from './orderTiming';
+import { getOrderRevenue } from './reports';
+
+export interface StaffStats {
+  // Orders the person was the waiter on, and the sales from those not cancelled
+  ordersTaken: number;
+  sales: number;
+  serveMinutes: number | null;
+  // Orders the person marked ready in the kitchen
+  ordersReadied: number;
+  prepMinutes: number | null;
+  // Items the person voided and refunds they gave, whoever approved them
+  voids: number;
+  refunds: number;
+}
+
+type StaffOrder = Pick<Order, 'id' | 'waiter_id' | 'total' | 'tax_total' | 'status'> & {
+  status_events: OrderStatusEvent[];
+};
+
+type StaffVoid = Pick<OrderItem, 'voided_by'>;
+type StaffRefund = Pick<Refund, 'created_by'>;
+
+export const roleLabels: Record<User['role'], string> = {
+  manager: 'Manager',
+  waiter: 'Waiter',
+  kitchen: 'Kitchen',
+  customer: 'Customer'
+};
+
+export const buildStaffStats = (orders: StaffOrder[], voids: StaffVoid[] = [], refunds: StaffRefund[] = []) => {
+  const totals = new Map<string, { stats: StaffStats; serve: (number | null)[]; prep: (number | null)[] }>();
+  const entryFor = (userId: string) => {
+    const entry = totals.get(userId) || {
+      stats: { ordersTaken: 0, sales: 0, serveMinutes: null, ordersReadied: 0, prepMinutes: null, voids: 0, refunds: 0 },
+      serve: [],
+      prep: []
+    };
+    totals.set(userId, entry);
+    return entry;
+  };
+
+  orders.forEach(order => {
+    const timings = getOrderTimings(order.status_events || []);
+
+    if (order.waiter_id) {
+      const entry = entryFor(order.waiter_id);
+      entry.stats.ordersTaken += 1;
+      if (order.status !== 'cancelled') {
+        entry.stats.sales += getOrderRevenue(order);
+      }
+      entry.serve.push(timings.serveMinutes);
+    }
+
+    const readied = (order.status_events || []).find(event => event.to_status === 'ready' && event.changed_by);
+    if (readied?.changed_by) {
+      const entry = entryFor(readied.changed_by);
+      entry.stats.ordersReadied += 1;
+      entry.prep.push(timings.prepMinutes);
+    }
+  });
+
+  voids.forEach(item => {
+    if (item.voided_by) entryFor(item.voided_by).stats.voids += 1;
+  });
+
+  refunds.forEach(refund => {
+    if (refund.created_by) entryFor(refund.created_by).stats.refunds += 1;
+  });
+
+  return new Map(Array.from(totals.entries()).map(([userId, entry]) => [userId, {
+    ...entry.stats,
+    serveMinutes: averageMinutes(entry.serve),
+    prepMinutes: averageMinutes(entry.prep)
+  }]));
+};
+
+export const loadStaffStats = async (since: Date) => {
+  const [ordersResult, voidsResult, refundsResult] = await Promise.all([
+    supabase
+      .from('orders')
+      .select(`
+        id, waiter_id, total, tax_total, status,
+        status_events:order_status_events (*)
+      `)
+      .gte('created_at', since.toISOString()),
+    supabase
+      .from('order_items')
+      .select('voided_by')
+      .eq('voided', true)
+      .gte('voided_at', since.toISOString()),
+    supabase
+      .from('refunds')
+      .select('created_by')
+      .neq('status', 'cancelled')
+      .gte('created_at', since.toISOString())
+  ]);
+
+  const error = ordersResult.error || voidsResult.error || refundsResult.error;
+  if (error) {
+    console.error('Error loading staff stats:', error);
+    return { stats: new Map<string, StaffStats>(), error: error.message };
+  }
+
+  return {
+    stats: buildStaffStats(
+      (ordersResult.data || []) as StaffOrder[],
+      (voidsResult.data || []) as StaffVoid[],
+      (refundsResult.data || []) as StaffRefund[]
+    ),
+    error: null
+  };
+};
+
+export const updateUserRole = async (userId: string, role: User['role']) => {
+  const { data, error } = await supabase
+    .from('users')
+    .update({ role })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error changing role:', error);
+    return { user: null, error: error.message };
+  }
+
+  return { user: data as User, error: null };
+};
+
+// Deactivated accounts are signed out and refused at sign in
+export const setUserActive = async (userId: string, active: boolean) => {
+  const { data, error } = await supabase
+    .from('users')
+    .update({ active })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error changing account status:', error);
+    return { user: null, error: error.message };
+  }
+
+  return { user: data as User, error: null };
+};
+
+// Used to cost worked hours; null leaves someone out of labor cost
+export const updateHourlyRate = async (userId: string, hourlyRate: number | null) => {
+  const { data, error } = await supabase
+    .from('users')
+    .update({ hourly_rate: hourlyRate })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error changing hourly rate:', error);
+    return { user: null, error: error.message };
+  }
+
+  return { user: data as User, error: null };
+};
+
+// Voids and refunds come back empty rather than failing on a wrong PIN, so the
+// database keeps count of it
+export const WRONG_PIN_ERROR = 'That PIN does not belong to a manager';
+
+// Managers approve voids and refunds on other people's devices with this PIN
+export const hasApprovalPin = async () => {
+  const { data, error } = await supabase.rpc('has_approval_pin');
+
+  if (error) {
+    console.error('Error checking approval PIN:', error);
+    return { hasPin: false, error: error.message };
+  }
+
+  return { hasPin: !!data, error: null };
+};
+
+export const setApprovalPin = async (pin: string) => {
+  const { error } = await supabase.rpc('set_approval_pin', { p_pin: pin });
+
+  if (error) {
+    console.error('Error setting approval PIN:', error);
+    return { error: error.message };
+  }
+  return { error: null };
+};
@@ -34,6 +34,11 @@ export interface User {
   email: string;
   role: 'manager' | 'waiter' | 'kitchen' | 'customer';
   name: string;
+  allergies?: string[];
+  active: boolean;
+  deactivated_at?: string;
+  deactivated_by?: string;
+  hourly_rate?: number | null;
   created_at: string;
 }
 
@@ -45,7 +50,46 @@ export interface MenuItem {
   category: string;
   image_url?: string;
   available: boolean;
+  unavailable_reason?: string | null;
+  auto_unavailable?: boolean;
+  eighty_sixed_by?: string | null;
+  eighty_sixed_by_name?: string | null;
+  eighty_sixed_at?: string | null;
+  allergens?: string[];
+  dietary_tags?: string[];
   created_at: string;
+  modifier_groups?: ModifierGroup[];
+}
+
+export interface ModifierGroup {
+  id: string;
+  menu_item_id: string;
+  name: string;
+  required: boolean;
+  min_selections: number;
+  max_selections: number;
+  sort_order: number;
+  created_at: string;
+  options?: ModifierOption[];
+}
+
+export interface ModifierOption {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  available: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
+// A chosen option as stored on cart and order lines, copied at the time it was picked
+export interface SelectedModifier {
+  group_id: string;
+  group_name: string;
+  option_id: string;
+  option_name: string;
+  price_delta: number;
 }
 
 export interface Order {
@@ -54,10 +98,107 @@ export interface Order {
   waiter_id?: string;
   table_number?: number;
   customer_name: string;
-  status: 'pending' | 'preparing' | 'ready' | 'served' | 'completed';
+  status: 'pending' | 'preparing' | 'ready' | 'served' | 'completed' | 'cancelled';
+  // `total` is what is owed before tips: subtotal - discount_total + tax_total + service_charge
+  subtotal: number;
+  discount_total: number;
+  tax_total: number;
+  service_charge: number;
+  tip_total: number;
   total: number;
+  tax_inclusive: boolean;
+  service_charge_rate: number;
+  party_size?: number | null;
+  cancel_reason?: string;
+  cancelled_at?: string;
+  cancelled_by?: string;
+  declared_allergies?: string[];
   created_at: string;
   order_items?: OrderItem[];
+  status_events?: OrderStatusEvent[];
+  payments?: Payment[];
+  order_discounts?: OrderDiscount[];
+  refunds?: Refund[];
+}
+
+export interface OrderDiscount {
+  id: string;
+  order_id: string;
+  // Set for a discount on one line; otherwise it is on the whole order
+  order_item_id?: string | null;
+  kind: 'discount' | 'comp' | 'promo';
+  discount_type: 'percent' | 'fixed';
+  value: number;
+  amount: number;
+  reason?: string | null;
+  promo_code_id?: string | null;
+  created_by?: string;
+  created_by_name?: string;
+  created_at: string;
+}
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description?: string | null;
+  discount_type: 'percent' | 'fixed';
+  value: number;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  max_uses?: number | null;
+  use_count: number;
+  active: boolean;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface Payment {
+  id: string;
+  order_id: string;
+  method: 'cash' | 'card' | 'other';
+  amount: number;
+  tip: number;
+  tendered?: number | null;
+  change_given: number;
+  label?: string | null;
+  item_ids: string[];
+  gateway?: string | null;
+  gateway_transaction_id?: string | null;
+  created_by?: string;
+  created_by_name?: string;
+  created_at: string;
+}
+
+export interface Refund {
+  id: string;
+  order_id: string;
+  payment_id: string;
+  amount: number;
+  reason: string;
+  item_ids: string[];
+  method: Payment['method'];
+  // Card refunds are pending until the payment provider has returned the money,
+  // and cancelled if it turned them down
+  status: 'pending' | 'completed' | 'cancelled';
+  gateway?: string | null;
+  gateway_transaction_id?: string | null;
+  approved_by?: string | null;
+  approved_by_name?: string | null;
+  created_by?: string;
+  created_by_name?: string;
+  created_at: string;
+  completed_at?: string | null;
+  cancelled_at?: string | null;
+}
+
+export interface OrderStatusEvent {
+  id: string;
+  order_id: string;
+  from_status?: Order['status'];
+  to_status: Order['status'];
+  changed_by?: string;
+  changed_by_name?: string;
+  created_at: string;
 }
 
 export interface OrderItem {
@@ -67,10 +208,283 @@ export interface OrderItem {
   quantity: number;
   price: number;
   notes?: string;
+  modifiers?: SelectedModifier[];
   status: 'pending' | 'preparing' | 'ready';
+  tax_rate: number;
+  tax_amount: number;
+  // A voided line stays on the order but no longer counts towards it
+  voided: boolean;
+  void_reason?: string | null;
+  voided_at?: string | null;
+  voided_by?: string | null;
+  voided_by_name?: string | null;
+  void_approved_by?: string | null;
+  void_approved_by_name?: string | null;
+  menu_item?: MenuItem;
+}
+
+export interface CartItem {
+  id: string;
+  user_id: string;
+  menu_item_id: string;
+  quantity: number;
+  notes?: string;
+  modifiers?: SelectedModifier[];
+  created_at: string;
+  updated_at: string;
   menu_item?: MenuItem;
 }
 
+export interface Section {
+  id: string;
+  name: string;
+  color: string;
+  waiter_id?: string;
+  created_at: string;
+}
+
+export interface Table {
+  id: string;
+  number: number;
+  seats: number;
+  section_id?: string;
+  shape: 'square' | 'round' | 'rectangle';
+  pos_x: number;
+  pos_y: number;
+  status: 'available' | 'occupied' | 'reserved' | 'needs_bill';
+  current_order_id?: string;
+  held_reservation_id?: string;
+  created_at: string;
+  section?: Section;
+  current_order?: Order;
+}
+
+export interface Reservation {
+  id: string;
+  customer_id?: string;
+  customer_name: string;
+  contact_phone?: string;
+  contact_email?: string;
+  party_size: number;
+  reserved_for: string;
+  duration_minutes: number;
+  table_id?: string;
+  notes?: string;
+  status: 'booked' | 'seated' | 'completed' | 'cancelled' | 'no_show';
+  created_by?: string;
+  created_at: string;
+  table?: Table;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  customer_name: string;
+  contact_phone?: string;
+  party_size: number;
+  quoted_wait_minutes: number;
+  notes?: string;
+  status: 'waiting' | 'notified' | 'seated' | 'left';
+  table_id?: string;
+  created_by?: string;
+  created_at: string;
+  seated_at?: string;
+}
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: 'g' | 'kg' | 'ml' | 'l' | 'each';
+  on_hand: number;
+  low_stock_threshold: number;
+  par_level: number;
+  supplier_id?: string | null;
+  unit_cost?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecipeItem {
+  id: string;
+  menu_item_id: string;
+  ingredient_id: string;
+  quantity: number;
+  created_at: string;
+  ingredient?: Ingredient;
+}
+
+export interface StockAdjustment {
+  id: string;
+  ingredient_id: string;
+  change: number;
+  on_hand_after: number;
+  reason: 'depletion' | 'count' | 'delivery' | 'waste' | 'correction';
+  order_item_id?: string;
+  note?: string;
+  created_by?: string;
+  created_by_name?: string;
+  created_at: string;
+  ingredient?: Ingredient;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+  created_at: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  supplier_id: string;
+  status: 'draft' | 'ordered' | 'received' | 'cancelled';
+  notes?: string;
+  created_by?: string;
+  created_by_name?: string;
+  created_at: string;
+  ordered_at?: string;
+  received_at?: string;
+  received_by?: string;
+  received_by_name?: string;
+  supplier?: Supplier;
+  purchase_order_items?: PurchaseOrderItem[];
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  ingredient_id: string;
+  quantity_ordered: number;
+  unit_cost?: number | null;
+  quantity_received?: number | null;
+  received_unit_cost?: number | null;
+  created_at: string;
+  ingredient?: Ingredient;
+}
+
+export interface IngredientCost {
+  id: string;
+  ingredient_id: string;
+  supplier_id?: string;
+  purchase_order_id?: string;
+  unit_cost: number;
+  quantity: number;
+  recorded_by?: string;
+  recorded_by_name?: string;
+  created_at: string;
+  ingredient?: Ingredient;
+  supplier?: Supplier;
+}
+
+export interface MenuItemFoodCost {
+  menu_item_id: string;
+  price: number;
+  food_cost: number;
+  ingredient_count: number;
+  uncosted_ingredients: number;
+  manual_cost: number | null;
+  cost: number | null;
+  cost_source: 'manual' | 'recipe' | null;
+}
+
+export interface StaffInvite {
+  id: string;
+  token: string;
+  role: Exclude<User['role'], 'customer'>;
+  email?: string;
+  expires_at: string;
+  accepted_by?: string;
+  accepted_at?: string;
+  revoked_at?: string;
+  created_by?: string;
+  created_by_name?: string;
+  created_at: string;
+}
+
+export interface Shift {
+  id: string;
+  user_id: string;
+  starts_at: string;
+  ends_at: string;
+  notes?: string | null;
+  created_by?: string;
+  created_by_name?: string;
+  created_at: string;
+}
+
+export interface TimeEntry {
+  id: string;
+  user_id: string;
+  clock_in_at: string;
+  clock_out_at?: string | null;
+  break_started_at?: string | null;
+  break_seconds: number;
+  edited_by?: string;
+  edited_by_name?: string;
+  created_at: string;
+}
+
+export interface RestaurantSettings {
+  id: boolean;
+  timezone: string;
+  default_tax_rate_id?: string | null;
+  tax_inclusive: boolean;
+  service_charge_rate: number;
+  service_charge_min_party?: number | null;
+  tip_suggestions: number[];
+  // Staff discounts on an order beyond either of these need a manager
+  discount_approval_percent: number;
+  discount_approval_amount: number;
+  updated_at: string;
+}
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number;
+  created_at: string;
+}
+
+export interface CategoryTaxRate {
+  category: string;
+  tax_rate_id: string;
+}
+
+// Payment method name to amount taken
+export type PaymentBreakdown = Record<string, number>;
+
+export interface DayCloseoutFigures {
+  gross_sales: number;
+  order_count: number;
+  items_sold: number;
+  void_count: number;
+  void_total: number;
+  discount_total: number;
+  tax_total: number;
+  tip_total: number;
+  net_sales: number;
+  refund_count: number;
+  refund_total: number;
+  payment_breakdown: PaymentBreakdown;
+}
+
+export interface DayCloseout extends DayCloseoutFigures {
+  id: string;
+  business_date: string;
+  open_order_count: number;
+  notes?: string;
+  closed_by?: string;
+  closed_by_name?: string;
+  closed_at: string;
+}
+
+export interface DayCloseoutPreview extends DayCloseoutFigures {
+  business_date: string;
+  open_orders: Pick<Order, 'id' | 'table_number' | 'customer_name' | 'status' | 'total' | 'created_at'>[];
+}
+
 export interface Message {
   id: string;
   user_id: string;
@@ -0,0 +1,153 @@
+import { supabase, Shift, TimeEntry, User } from './supabase';
+import { DateRange } from './reports';
+
+export interface HoursVariance {
+  userId: string;
+  scheduledHours: number;
+  actualHours: number;
+  // Positive when someone worked longer than scheduled
+  variance: number;
+  onTheClock: boolean;
+}
+
+export interface LaborCost {
+  cost: number;
+  hours: number;
+  // Hours worked by people without a pay rate, so missing from the cost
+  unratedHours: number;
+}
+
+const hoursBetween = (from: Date, to: Date) => Math.max(0, (to.getTime() - from.getTime()) / 3600000);
+
+export const getShiftHours = (shift: Pick<Shift, 'starts_at' | 'ends_at'>) =>
+  hoursBetween(new Date(shift.starts_at), new Date(shift.ends_at));
+
+// Paid time: clocked time less breaks, counting an open entry or break up to now
+export const getWorkedHours = (entry: TimeEntry, now = new Date()) => {
+  const end = entry.clock_out_at ? new Date(entry.clock_out_at) : now;
+  const runningBreak = entry.break_started_at ? hoursBetween(new Date(entry.break_started_at), end) : 0;
+  return Math.max(0, hoursBetween(new Date(entry.clock_in_at), end) - entry.break_seconds / 3600 - runningBreak);
+};
+
+export const formatHours = (hours: number) => {
+  const whole = Math.floor(hours);
+  const minutes = Math.round((hours - whole) * 60);
+  return minutes === 60 ? `${whole + 1}h` : `${whole}h ${String(minutes).padStart(2, '0')}m`;
+};
+
+export const formatShiftTime = (value: string) =>
+  new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// Scheduled against worked hours for everyone with a shift or time entry
+export const buildHoursVariance = (shifts: Shift[], entries: TimeEntry[]): HoursVariance[] => {
+  const rows = new Map<string, HoursVariance>();
+  const rowFor = (userId: string) => {
+    const row = rows.get(userId) || { userId, scheduledHours: 0, actualHours: 0, variance: 0, onTheClock: false };
+    rows.set(userId, row);
+    return row;
+  };
+
+  shifts.forEach(shift => {
+    rowFor(shift.user_id).scheduledHours += getShiftHours(shift);
+  });
+  entries.forEach(entry => {
+    const row = rowFor(entry.user_id);
+    row.actualHours += getWorkedHours(entry);
+    row.onTheClock = row.onTheClock || !entry.clock_out_at;
+  });
+
+  return Array.from(rows.values()).map(row => ({ ...row, variance: row.actualHours - row.scheduledHours }));
+};
+
+export const getLaborCost = (entries: TimeEntry[], staff: Pick<User, 'id' | 'hourly_rate'>[]): LaborCost => {
+  const rates = new Map(staff.map(member => [member.id, member.hourly_rate]));
+  return entries.reduce((total, entry) => {
+    const hours = getWorkedHours(entry);
+    const rate = rates.get(entry.user_id);
+    return {
+      cost: total.cost + (rate ? hours * Number(rate) : 0),
+      hours: total.hours + hours,
+      unratedHours: total.unratedHours + (rate ? 0 : hours)
+    };
+  }, { cost: 0, hours: 0, unratedHours: 0 });
+};
+
+// Time entries started in a range
+export const loadTimeEntries = async (range: DateRange) => {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select('*')
+    .gte('clock_in_at', range.from.toISOString())
+    .lt('clock_in_at', range.to.toISOString())
+    .order('clock_in_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading time entries:', error);
+    return { entries: [] as TimeEntry[], error: error.message };
+  }
+
+  return { entries: (data || []) as TimeEntry[], error: null };
+};
+
+export const loadShifts = async (range: DateRange) => {
+  const { data, error } = await supabase
+    .from('shifts')
+    .select('*')
+    .gte('starts_at', range.from.toISOString())
+    .lt('starts_at', range.to.toISOString())
+    .order('starts_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading shifts:', error);
+    return { shifts: [] as Shift[], error: error.message };
+  }
+
+  return { shifts: (data || []) as Shift[], error: null };
+};
+
+export const saveShift = async (
+  shift: Pick<Shift, 'user_id' | 'starts_at' | 'ends_at' | 'notes'>,
+  manager: User,
+  shiftId?: string
+) => {
+  const query = shiftId
+    ? supabase.from('shifts').update(shift).eq('id', shiftId)
+    : supabase.from('shifts').insert({ ...shift, created_by: manager.id, created_by_name: manager.name });
+
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    console.error('Error saving shift:', error);
+    return { shift: null, error: error.message };
+  }
+
+  return { shift: data as Shift, error: null };
+};
+
+export const deleteShift = async (shiftId: string) => {
+  const { error } = await supabase
+    .from('shifts')
+    .delete()
+    .eq('id', shiftId);
+
+  if (error) {
+    console.error('Error deleting shift:', error);
+    return { error: error.message };
+  }
+
+  return { error: null };
+};
+
+type ClockAction = 'clock_in' | 'start_break' | 'end_break' | 'clock_out';
+
+// Clock in or out and take breaks; the server records the time
+export const punchClock = async (action: ClockAction) => {
+  const { data, error } = await supabase.rpc(action);
+
+  if (error) {
+    console.error('Error using the time clock:', error);
+    return { entry: null, error: error.message };
+  }
+
+  return { entry: data as TimeEntry, error: null };
+};
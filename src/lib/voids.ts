@@ -0,0 +1,32 @@
+import { supabase, Order, OrderItem, User } from './supabase';
+import { WRONG_PIN_ERROR } from './staff';
+
+// Mirrors the checks in `void_order_item`: only lines on orders the kitchen has not started
+export const canVoidItem = (order: Order, item: Pick<OrderItem, 'status' | 'voided'>, user: Pick<User, 'id' | 'role'>) => {
+  if (order.status !== 'pending' || item.voided || item.status !== 'pending') return false;
+  return user.role === 'manager' || (user.role === 'waiter' && order.waiter_id === user.id);
+};
+
+// Lines that still count towards the order
+export const getActiveItems = <T extends Pick<OrderItem, 'voided'>>(items: T[]) =>
+  items.filter(item => !item.voided);
+
+// Waiters need a manager's PIN; a manager's own void is approved by them
+export const voidOrderItem = async (itemId: string, reason: string, managerPin?: string) => {
+  const { data, error } = await supabase.rpc('void_order_item', {
+    p_order_item_id: itemId,
+    p_reason: reason,
+    p_manager_pin: managerPin || null
+  });
+
+  if (error) {
+    console.error('Error voiding item:', error);
+    return { order: null, error: error.message };
+  }
+
+  if (!data?.id) {
+    return { order: null, error: WRONG_PIN_ERROR };
+  }
+
+  return { order: data as Order, error: null };
+};
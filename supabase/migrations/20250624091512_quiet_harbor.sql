@@ -0,0 +1,147 @@
+/*
+  # Dining tables
+
+  1. New Tables
+    - `tables`
+      - `id` (uuid, primary key)
+      - `number` (integer, unique) - the number waiters and guests refer to
+      - `seats` (integer)
+      - `section` (text) - area of the dining room, e.g. Main Hall, Patio
+      - `status` (text) - available, occupied, reserved
+      - `current_order_id` (uuid, references orders, optional)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `tables`
+    - Staff (manager, waiter, kitchen) can read tables
+    - Waiters can update table status (e.g. mark a table reserved)
+    - Managers can create, update and delete tables
+
+  3. Occupancy
+    - Orders placed for a table that is not available are rejected
+    - Placing an order for a table marks it occupied and links the order
+    - Completing the linked order frees the table again
+*/
+
+-- Create tables table
+CREATE TABLE IF NOT EXISTS tables (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  number integer UNIQUE NOT NULL CHECK (number > 0),
+  seats integer NOT NULL DEFAULT 4 CHECK (seats > 0),
+  section text NOT NULL DEFAULT 'Main Hall',
+  status text NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'occupied', 'reserved')),
+  current_order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE tables ENABLE ROW LEVEL SECURITY;
+
+-- Tables policies
+CREATE POLICY "Staff can read tables"
+  ON tables
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen')
+    )
+  );
+
+CREATE POLICY "Waiters can update tables"
+  ON tables
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'waiter'
+    )
+  );
+
+CREATE POLICY "Managers can manage tables"
+  ON tables
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+-- Reject orders for tables that are missing or already taken
+CREATE OR REPLACE FUNCTION check_order_table()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  table_status text;
+BEGIN
+  IF NEW.table_number IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO table_status FROM tables WHERE number = NEW.table_number;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % does not exist', NEW.table_number;
+  END IF;
+
+  IF table_status <> 'available' THEN
+    RAISE EXCEPTION 'Table % is currently %', NEW.table_number, table_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_check_table
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION check_order_table();
+
+-- Keep table occupancy in sync with the orders placed at it
+CREATE OR REPLACE FUNCTION sync_table_occupancy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.table_number IS NOT NULL THEN
+    UPDATE tables
+    SET status = 'occupied', current_order_id = NEW.id
+    WHERE number = NEW.table_number;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+    UPDATE tables
+    SET status = 'available', current_order_id = NULL
+    WHERE current_order_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_sync_table_occupancy
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_table_occupancy();
+
+-- Insert sample tables
+INSERT INTO tables (number, seats, section) VALUES
+  (1, 2, 'Main Hall'),
+  (2, 4, 'Main Hall'),
+  (3, 4, 'Main Hall'),
+  (4, 6, 'Main Hall'),
+  (5, 2, 'Patio'),
+  (6, 4, 'Patio'),
+  (7, 6, 'Patio'),
+  (8, 8, 'Private Room')
+ON CONFLICT (number) DO NOTHING;
@@ -0,0 +1,141 @@
+/*
+  # Floor plan and sections
+
+  1. New Tables
+    - `sections`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `color` (text) - hex color used on the floor plan
+      - `waiter_id` (uuid, references users, optional) - waiter covering the section
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `tables`
+      - `section_id` (uuid, references sections) replaces the free-text `section`
+      - `shape` (text) - square, round, rectangle
+      - `pos_x`, `pos_y` (integer) - position on the floor plan canvas (1000 x 600)
+      - `status` gains `needs_bill`
+    - Existing section names are moved into `sections`
+
+  3. Security
+    - Enable RLS on `sections`; staff can read, managers can manage
+    - `current_user_role()` helper so policies on `users` can check the caller's
+      role without recursing into their own policy
+    - Managers can read all user profiles (needed to assign sections to waiters)
+
+  4. Occupancy
+    - A served order flags its table as `needs_bill` until the order is completed
+*/
+
+-- Role of the signed-in user, bypassing RLS on users
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM users WHERE id = auth.uid();
+$$;
+
+CREATE POLICY "Managers can read all users"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+-- Create sections table
+CREATE TABLE IF NOT EXISTS sections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  color text NOT NULL DEFAULT '#3b82f6',
+  waiter_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read sections"
+  ON sections
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter', 'kitchen')
+    )
+  );
+
+CREATE POLICY "Managers can manage sections"
+  ON sections
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+-- Move free-text sections into the sections table
+INSERT INTO sections (name)
+SELECT DISTINCT section FROM tables
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS section_id uuid REFERENCES sections(id) ON DELETE SET NULL;
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS shape text NOT NULL DEFAULT 'square' CHECK (shape IN ('square', 'round', 'rectangle'));
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS pos_x integer NOT NULL DEFAULT 100 CHECK (pos_x BETWEEN 0 AND 1000);
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS pos_y integer NOT NULL DEFAULT 100 CHECK (pos_y BETWEEN 0 AND 600);
+
+UPDATE tables
+SET section_id = sections.id
+FROM sections
+WHERE sections.name = tables.section;
+
+ALTER TABLE tables DROP COLUMN IF EXISTS section;
+
+-- Allow tables to wait for the bill
+ALTER TABLE tables DROP CONSTRAINT IF EXISTS tables_status_check;
+ALTER TABLE tables ADD CONSTRAINT tables_status_check
+  CHECK (status IN ('available', 'occupied', 'reserved', 'needs_bill'));
+
+CREATE OR REPLACE FUNCTION sync_table_occupancy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.table_number IS NOT NULL THEN
+    UPDATE tables
+    SET status = 'occupied', current_order_id = NEW.id
+    WHERE number = NEW.table_number;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'served' AND OLD.status <> 'served' THEN
+    UPDATE tables
+    SET status = 'needs_bill'
+    WHERE current_order_id = NEW.id;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+    UPDATE tables
+    SET status = 'available', current_order_id = NULL
+    WHERE current_order_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Lay out the sample tables so the floor plan is not empty
+UPDATE tables SET shape = 'round', pos_x = 120, pos_y = 120 WHERE number = 1;
+UPDATE tables SET pos_x = 300, pos_y = 120 WHERE number = 2;
+UPDATE tables SET pos_x = 480, pos_y = 120 WHERE number = 3;
+UPDATE tables SET shape = 'rectangle', pos_x = 300, pos_y = 300 WHERE number = 4;
+UPDATE tables SET shape = 'round', pos_x = 760, pos_y = 120 WHERE number = 5;
+UPDATE tables SET pos_x = 760, pos_y = 300 WHERE number = 6;
+UPDATE tables SET shape = 'rectangle', pos_x = 760, pos_y = 480 WHERE number = 7;
+UPDATE tables SET shape = 'rectangle', pos_x = 300, pos_y = 490 WHERE number = 8;
+
+UPDATE sections SET color = '#3b82f6' WHERE name = 'Main Hall';
+UPDATE sections SET color = '#10b981' WHERE name = 'Patio';
+UPDATE sections SET color = '#8b5cf6' WHERE name = 'Private Room';
@@ -0,0 +1,345 @@
+/*
+  # Reservations and waitlist
+
+  1. New Tables
+    - `reservations`
+      - `id` (uuid, primary key)
+      - `customer_id` (uuid, references users, optional) - set when a customer books themselves
+      - `customer_name` (text)
+      - `contact_phone`, `contact_email` (text, optional)
+      - `party_size` (integer)
+      - `reserved_for` (timestamp) - start of the time slot
+      - `duration_minutes` (integer) - how long the table is blocked
+      - `table_id` (uuid, references tables, optional) - assigned by staff
+      - `notes` (text, optional)
+      - `status` (text) - booked, seated, completed, cancelled, no_show
+      - `created_by` (uuid, references users)
+      - `created_at` (timestamp)
+
+    - `waitlist_entries`
+      - `id` (uuid, primary key)
+      - `customer_name` (text)
+      - `contact_phone` (text, optional)
+      - `party_size` (integer)
+      - `quoted_wait_minutes` (integer)
+      - `notes` (text, optional)
+      - `status` (text) - waiting, notified, seated, left
+      - `table_id` (uuid, references tables, optional)
+      - `created_by` (uuid, references users)
+      - `created_at`, `seated_at` (timestamp)
+
+  2. Changes
+    - `tables.held_reservation_id` records which reservation placed an automatic hold,
+      so holds can be lifted without touching tables reserved by hand
+
+  3. Security
+    - Enable RLS on both tables
+    - Customers can book, read and cancel their own reservations; cancelling is the
+      only change they can make
+    - Waiters and managers can manage all reservations and the waitlist
+    - Waiters can only change a table's status; managers edit the rest
+    - `apply_reservation_holds()` is run by the database only
+
+  4. Holds and conflicts
+    - A table cannot be booked for two overlapping reservations
+    - `apply_reservation_holds()` marks assigned tables reserved 30 minutes before the
+      booking and releases the hold once the reservation is seated, cancelled or more
+      than 15 minutes late; it runs every minute through pg_cron and whenever a
+      reservation changes
+    - `get_table_conflicts()` lists bookings that overlap a walk-in seated now
+    - Staff placing an order at a reserved table take it over in the same step, so
+      the hold is only dropped if the order goes through
+*/
+
+-- Create reservations table
+CREATE TABLE IF NOT EXISTS reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  customer_name text NOT NULL,
+  contact_phone text,
+  contact_email text,
+  party_size integer NOT NULL CHECK (party_size > 0),
+  reserved_for timestamptz NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 90 CHECK (duration_minutes > 0),
+  table_id uuid REFERENCES tables(id) ON DELETE SET NULL,
+  notes text,
+  status text NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'seated', 'completed', 'cancelled', 'no_show')),
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS reservations_reserved_for_idx ON reservations (reserved_for);
+
+-- Create waitlist_entries table
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_name text NOT NULL,
+  contact_phone text,
+  party_size integer NOT NULL CHECK (party_size > 0),
+  quoted_wait_minutes integer NOT NULL DEFAULT 0 CHECK (quoted_wait_minutes >= 0),
+  notes text,
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'notified', 'seated', 'left')),
+  table_id uuid REFERENCES tables(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  seated_at timestamptz
+);
+
+ALTER TABLE tables ADD COLUMN IF NOT EXISTS held_reservation_id uuid REFERENCES reservations(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+-- Reservations policies
+CREATE POLICY "Customers can read own reservations"
+  ON reservations
+  FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Customers can book reservations"
+  ON reservations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    customer_id = auth.uid() AND
+    table_id IS NULL AND
+    status = 'booked'
+  );
+
+CREATE POLICY "Customers can cancel own reservations"
+  ON reservations
+  FOR UPDATE
+  TO authenticated
+  USING (customer_id = auth.uid() AND status = 'booked')
+  WITH CHECK (customer_id = auth.uid() AND status IN ('booked', 'cancelled'));
+
+CREATE POLICY "Staff can manage reservations"
+  ON reservations
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
+
+-- Waitlist policies
+CREATE POLICY "Staff can manage waitlist"
+  ON waitlist_entries
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'waiter')
+    )
+  );
+
+-- Reject a second booking on a table for an overlapping time slot
+CREATE OR REPLACE FUNCTION check_reservation_conflict()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conflicting reservations%ROWTYPE;
+BEGIN
+  IF NEW.table_id IS NULL OR NEW.status <> 'booked' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO conflicting
+  FROM reservations
+  WHERE table_id = NEW.table_id
+  AND id <> NEW.id
+  AND status = 'booked'
+  AND reserved_for < NEW.reserved_for + make_interval(mins => NEW.duration_minutes)
+  AND NEW.reserved_for < reserved_for + make_interval(mins => duration_minutes)
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Table is already booked for % at %',
+      conflicting.customer_name, to_char(conflicting.reserved_for, 'HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Customers may only cancel; the table, time and party size are for staff to change
+CREATE OR REPLACE FUNCTION protect_customer_reservation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_user_role() IN ('manager', 'waiter') THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - 'status' IS DISTINCT FROM to_jsonb(OLD) - 'status' THEN
+    RAISE EXCEPTION 'You can only cancel a reservation; ask the restaurant to change it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reservations_protect_customer_changes
+  BEFORE UPDATE ON reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_customer_reservation();
+
+CREATE TRIGGER reservations_check_conflict
+  BEFORE INSERT OR UPDATE OF table_id, reserved_for, duration_minutes, status ON reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION check_reservation_conflict();
+
+-- Place and lift automatic table holds for upcoming reservations
+CREATE OR REPLACE FUNCTION apply_reservation_holds()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released integer;
+  held integer;
+BEGIN
+  UPDATE tables
+  SET status = 'available', held_reservation_id = NULL
+  FROM reservations
+  WHERE tables.held_reservation_id = reservations.id
+  AND tables.status = 'reserved'
+  AND (
+    reservations.status <> 'booked' OR
+    reservations.table_id IS DISTINCT FROM tables.id OR
+    reservations.reserved_for < now() - interval '15 minutes'
+  );
+  GET DIAGNOSTICS released = ROW_COUNT;
+
+  UPDATE tables
+  SET status = 'reserved', held_reservation_id = reservations.id
+  FROM reservations
+  WHERE reservations.table_id = tables.id
+  AND reservations.status = 'booked'
+  AND reservations.reserved_for BETWEEN now() - interval '15 minutes' AND now() + interval '30 minutes'
+  AND tables.status = 'available';
+  GET DIAGNOSTICS held = ROW_COUNT;
+
+  RETURN released + held;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_reservation_holds()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM apply_reservation_holds();
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER reservations_refresh_holds
+  AFTER INSERT OR UPDATE ON reservations
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_reservation_holds();
+
+-- Holds start 30 minutes before a booking whether or not anything else changes
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('apply-reservation-holds', '* * * * *', 'SELECT apply_reservation_holds()');
+
+REVOKE EXECUTE ON FUNCTION apply_reservation_holds() FROM PUBLIC, anon, authenticated;
+
+-- Staff seating a party at a reserved table take it over with the order itself.
+-- The table is locked first so two orders cannot both take it.
+CREATE OR REPLACE FUNCTION check_order_table()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  table_status text;
+BEGIN
+  IF NEW.table_number IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO table_status FROM tables WHERE number = NEW.table_number FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % does not exist', NEW.table_number;
+  END IF;
+
+  IF table_status = 'reserved' AND current_user_role() IN ('manager', 'waiter') THEN
+    UPDATE tables
+    SET status = 'available', held_reservation_id = NULL
+    WHERE number = NEW.table_number;
+  ELSIF table_status <> 'available' THEN
+    RAISE EXCEPTION 'Table % is currently %', NEW.table_number, table_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Waiters only move a table between statuses; the layout is the managers'. Changes
+-- made by other triggers (occupancy, reservation holds) are the database's own. A
+-- freed table no longer points at an order or a reservation.
+CREATE OR REPLACE FUNCTION protect_table_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND pg_trigger_depth() = 1
+    AND coalesce(current_user_role(), '') <> 'manager'
+    AND to_jsonb(NEW) - 'status' IS DISTINCT FROM to_jsonb(OLD) - 'status' THEN
+    RAISE EXCEPTION 'Only managers can change a table''s details';
+  END IF;
+
+  IF NEW.status = 'available' THEN
+    NEW.current_order_id := NULL;
+    NEW.held_reservation_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER tables_protect_changes
+  BEFORE UPDATE ON tables
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_table_changes();
+
+-- Bookings that would clash with a walk-in seated at a table now
+CREATE OR REPLACE FUNCTION get_table_conflicts(p_table_id uuid, p_duration_minutes integer DEFAULT 90)
+RETURNS SETOF reservations
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM reservations
+  WHERE table_id = p_table_id
+  AND status = 'booked'
+  AND reserved_for < now() + make_interval(mins => p_duration_minutes)
+  AND now() < reserved_for + make_interval(mins => duration_minutes)
+  AND current_user_role() IN ('manager', 'waiter')
+  ORDER BY reserved_for;
+$$;
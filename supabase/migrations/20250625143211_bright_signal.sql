@@ -0,0 +1,29 @@
+/*
+  # Realtime order updates
+
+  1. Changes
+    - Add `orders` and `order_items` to the `supabase_realtime` publication so
+      dashboards receive inserts and updates as they happen
+    - Use full replica identity on both tables so update and delete events carry
+      the complete row, which row level security needs to authorize each event
+*/
+
+ALTER TABLE orders REPLICA IDENTITY FULL;
+ALTER TABLE order_items REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'orders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE orders;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'order_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE order_items;
+  END IF;
+END $$;
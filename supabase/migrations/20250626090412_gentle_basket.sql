@@ -0,0 +1,69 @@
+/*
+  # Customer cart
+
+  1. New Tables
+    - `cart_items`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users) - owner of the cart
+      - `menu_item_id` (uuid, references menu_items)
+      - `quantity` (integer)
+      - `notes` (text, optional) - special instructions for the kitchen
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `cart_items`; customers can only see and change their own cart
+    - Customers can add items to their own orders while they are still pending, so a
+      checkout can write the order and all of its lines
+*/
+
+-- Create cart_items table
+CREATE TABLE IF NOT EXISTS cart_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cart_items_user_id_idx ON cart_items (user_id);
+
+-- Enable RLS
+ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own cart"
+  ON cart_items
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Customers can add items to own pending orders"
+  ON order_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.customer_id = auth.uid()
+      AND orders.status = 'pending'
+    )
+  );
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION touch_cart_item()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cart_items_touch
+  BEFORE UPDATE ON cart_items
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_cart_item();
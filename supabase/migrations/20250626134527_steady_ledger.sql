@@ -0,0 +1,130 @@
+/*
+  # Transactional order placement
+
+  1. New Functions
+    - `place_order(p_customer_name, p_items, p_table_number)` creates an order and all
+      of its items in one transaction and returns the new order
+      - `p_items` is a JSON array of `{ "menu_item_id", "quantity", "notes" }`
+      - Prices and the order total come from `menu_items`, never from the client
+      - Every item must exist and be available, otherwise nothing is written
+      - Waiters and managers place table orders; customers place orders for themselves
+
+  2. Security
+    - Nobody inserts orders or order items directly any more; orders go through
+      `place_order`
+    - Staff keep updating an order item's status (the kitchen moves them along) but
+      can no longer change anything else about it, or insert or delete items
+*/
+
+DROP POLICY IF EXISTS "Customers can add items to own pending orders" ON order_items;
+DROP POLICY IF EXISTS "Users can create orders" ON orders;
+DROP POLICY IF EXISTS "Staff can manage order items" ON order_items;
+
+CREATE POLICY "Staff can update order items"
+  ON order_items
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND (
+        orders.waiter_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM users
+          WHERE users.id = auth.uid()
+          AND users.role IN ('manager', 'kitchen')
+        )
+      )
+    )
+  );
+
+-- Prices and quantities are fixed once ordered; staff only move an item along
+REVOKE UPDATE ON order_items FROM authenticated;
+GRANT UPDATE (status) ON order_items TO authenticated;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_items jsonb,
+  p_table_number integer DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  line jsonb;
+  item menu_items%ROWTYPE;
+  line_quantity integer;
+  order_total numeric(10,2) := 0;
+  new_order orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR caller_role IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF caller_role NOT IN ('customer', 'waiter', 'manager') THEN
+    RAISE EXCEPTION 'Your role cannot place orders';
+  END IF;
+
+  IF coalesce(trim(p_customer_name), '') = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF caller_role = 'customer' AND p_table_number IS NOT NULL THEN
+    RAISE EXCEPTION 'Customers cannot assign a table';
+  END IF;
+
+  -- Validate every line and price it before writing anything
+  FOR line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    line_quantity := coalesce((line->>'quantity')::integer, 0);
+    IF line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be at least 1';
+    END IF;
+
+    SELECT * INTO item FROM menu_items WHERE id = (line->>'menu_item_id')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT item.available THEN
+      RAISE EXCEPTION '% is currently unavailable', item.name;
+    END IF;
+
+    order_total := order_total + item.price * line_quantity;
+  END LOOP;
+
+  INSERT INTO orders (customer_id, waiter_id, table_number, customer_name, status, total)
+  VALUES (
+    CASE WHEN caller_role = 'customer' THEN auth.uid() END,
+    CASE WHEN caller_role <> 'customer' THEN auth.uid() END,
+    p_table_number,
+    trim(p_customer_name),
+    'pending',
+    order_total
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price, notes, status)
+  SELECT
+    new_order.id,
+    menu_items.id,
+    (order_line->>'quantity')::integer,
+    menu_items.price,
+    nullif(trim(order_line->>'notes'), ''),
+    'pending'
+  FROM jsonb_array_elements(p_items) AS order_line
+  JOIN menu_items ON menu_items.id = (order_line->>'menu_item_id')::uuid;
+
+  RETURN new_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, jsonb, integer) TO authenticated;
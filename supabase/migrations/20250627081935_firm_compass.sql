@@ -0,0 +1,175 @@
+/*
+  # Order status state machine
+
+  1. Changes
+    - `orders.status` gains `cancelled`
+    - New columns `cancel_reason`, `cancelled_at` and `cancelled_by` on `orders`
+
+  2. Transition rules (enforced by a trigger on every update)
+    - Orders move forward only: pending → preparing → ready → served → completed
+    - Kitchen staff move orders from pending to preparing and from preparing to ready
+    - Waiters move their own orders, and self-service orders nobody is assigned to,
+      from ready to served and from served to completed, and can cancel their own
+      orders while they are still pending
+    - Managers can move an order forward any number of steps and cancel it at any
+      point before it is completed
+    - Completed and cancelled orders are final
+    - Cancelling requires a reason, and the reason cannot be set or changed at any
+      other time
+
+  3. Occupancy
+    - Cancelling an order frees its table, the same as completing it
+
+  4. Security
+    - Staff can only write an order's `status` and `cancel_reason` directly; who
+      cancelled and when are filled in by the trigger, and totals, the waiter and
+      everything else change only through functions
+    - Waiters can read and move along self-service orders that have no waiter
+*/
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'preparing', 'ready', 'served', 'completed', 'cancelled'));
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancel_reason text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancelled_by uuid REFERENCES users(id);
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  flow text[] := ARRAY['pending', 'preparing', 'ready', 'served', 'completed'];
+  from_step integer := array_position(flow, OLD.status);
+  to_step integer := array_position(flow, NEW.status);
+  allowed boolean := false;
+BEGIN
+  -- Changes made outside a signed-in session (service role, maintenance) are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- The reason is recorded with the cancellation and cannot be rewritten later
+  IF NEW.cancel_reason IS DISTINCT FROM OLD.cancel_reason
+    AND NOT (NEW.status = 'cancelled' AND OLD.status <> 'cancelled') THEN
+    RAISE EXCEPTION 'A cancel reason can only be given when cancelling an order';
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is already % and can no longer change', OLD.status;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    IF coalesce(trim(NEW.cancel_reason), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to cancel an order';
+    END IF;
+
+    allowed := caller_role = 'manager' OR
+      (caller_role = 'waiter' AND OLD.waiter_id = auth.uid() AND OLD.status = 'pending');
+
+    IF NOT allowed THEN
+      IF caller_role = 'waiter' THEN
+        RAISE EXCEPTION 'Only pending orders can be cancelled by a waiter; ask a manager to cancel a % order', OLD.status;
+      END IF;
+      RAISE EXCEPTION 'Your role (%) cannot cancel orders', caller_role;
+    END IF;
+
+    NEW.cancel_reason := trim(NEW.cancel_reason);
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := auth.uid();
+    RETURN NEW;
+  END IF;
+
+  IF to_step IS NULL OR from_step IS NULL OR to_step <= from_step THEN
+    RAISE EXCEPTION 'Orders cannot move back from % to %', OLD.status, NEW.status;
+  END IF;
+
+  allowed := CASE caller_role
+    WHEN 'manager' THEN true
+    WHEN 'kitchen' THEN to_step = from_step + 1 AND NEW.status IN ('preparing', 'ready')
+    WHEN 'waiter' THEN to_step = from_step + 1 AND NEW.status IN ('served', 'completed')
+      AND (OLD.waiter_id = auth.uid() OR OLD.waiter_id IS NULL)
+    ELSE false
+  END;
+
+  IF NOT allowed THEN
+    IF caller_role IN ('kitchen', 'waiter') AND to_step > from_step + 1 THEN
+      RAISE EXCEPTION 'Orders must go through each step; % comes after %', flow[from_step + 1], OLD.status;
+    END IF;
+    IF caller_role = 'waiter' AND OLD.waiter_id IS NOT NULL AND OLD.waiter_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Only the assigned waiter can update this order';
+    END IF;
+    RAISE EXCEPTION 'Your role (%) cannot move an order from % to %', coalesce(caller_role, 'unknown'), OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_enforce_status_transition
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+REVOKE UPDATE ON orders FROM authenticated;
+GRANT UPDATE (status, cancel_reason) ON orders TO authenticated;
+
+-- Self-service orders have no waiter, so any waiter can bring them out and close them
+CREATE POLICY "Waiters can read self-service orders"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (waiter_id IS NULL AND current_user_role() = 'waiter');
+
+CREATE POLICY "Waiters can update self-service orders"
+  ON orders
+  FOR UPDATE
+  TO authenticated
+  USING (waiter_id IS NULL AND current_user_role() = 'waiter');
+
+CREATE POLICY "Waiters can read self-service order items"
+  ON order_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    current_user_role() = 'waiter'
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.waiter_id IS NULL
+    )
+  );
+
+-- Free the table when an order is cancelled as well as when it is completed
+CREATE OR REPLACE FUNCTION sync_table_occupancy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.table_number IS NOT NULL THEN
+    UPDATE tables
+    SET status = 'occupied', current_order_id = NEW.id
+    WHERE number = NEW.table_number;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'served' AND OLD.status <> 'served' THEN
+    UPDATE tables
+    SET status = 'needs_bill'
+    WHERE current_order_id = NEW.id;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status IN ('completed', 'cancelled') AND OLD.status NOT IN ('completed', 'cancelled') THEN
+    UPDATE tables
+    SET status = 'available', current_order_id = NULL
+    WHERE current_order_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
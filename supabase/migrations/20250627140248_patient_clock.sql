@@ -0,0 +1,93 @@
+/*
+  # Order status history
+
+  1. New Tables
+    - `order_status_events`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, references orders)
+      - `from_status` (text, null when the order is created)
+      - `to_status` (text)
+      - `changed_by` (uuid, references users) - who made the change
+      - `changed_by_name` (text) - their name at the time, so every role can read it
+      - `created_at` (timestamp) - when the change happened
+
+  2. Security
+    - Enable RLS; events are readable by anyone who can read the order
+    - Rows are only written by the trigger below
+
+  3. Triggers
+    - Every order insert and status change records an event
+    - Existing orders get a creation event backfilled from `orders.created_at`
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_by_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_status_events_order_id_idx ON order_status_events (order_id, created_at);
+CREATE INDEX IF NOT EXISTS order_status_events_created_at_idx ON order_status_events (created_at);
+
+ALTER TABLE order_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read relevant order status events"
+  ON order_status_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_events.order_id
+      AND (
+        orders.customer_id = auth.uid() OR
+        orders.waiter_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM users
+          WHERE users.id = auth.uid()
+          AND users.role IN ('manager', 'kitchen')
+        )
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION record_order_status_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO order_status_events (order_id, from_status, to_status, changed_by, changed_by_name)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid())
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_record_status_event
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_status_event();
+
+-- Orders placed before history was kept still get a starting point
+INSERT INTO order_status_events (order_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, 'pending', coalesce(waiter_id, customer_id), created_at
+FROM orders
+WHERE NOT EXISTS (
+  SELECT 1 FROM order_status_events WHERE order_status_events.order_id = orders.id
+);
@@ -0,0 +1,404 @@
+/*
+  # Menu item modifiers
+
+  1. New Tables
+    - `modifier_groups`
+      - `id` (uuid, primary key)
+      - `menu_item_id` (uuid, references menu_items)
+      - `name` (text) - e.g. "Size", "Extra toppings"
+      - `required` (boolean) - whether a choice must be made
+      - `min_selections`, `max_selections` (integer) - how many options can be picked
+      - `sort_order` (integer)
+    - `modifier_options`
+      - `id` (uuid, primary key)
+      - `group_id` (uuid, references modifier_groups)
+      - `name` (text) - e.g. "Large", "Extra cheese", "No basil"
+      - `price_delta` (decimal) - added to the item price, may be zero or negative
+      - `available` (boolean)
+      - `sort_order` (integer)
+
+  2. Changes
+    - `cart_items.modifiers` and `order_items.modifiers` (jsonb) hold the chosen options
+      as `{ group_id, group_name, option_id, option_name, price_delta }`, so a ticket still
+      reads correctly after the menu is edited
+    - `place_order` accepts `option_ids` on each line, checks them against the item's
+      groups and prices the line as item price plus option deltas
+
+  3. New Functions
+    - `save_modifier_groups(p_menu_item_id, p_groups)` replaces an item's groups and
+      options with the given tree in one transaction, so a failed save never leaves
+      a half-edited set on the menu
+
+  4. Security
+    - Everyone signed in can read modifiers; managers manage them
+*/
+
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  required boolean NOT NULL DEFAULT false,
+  min_selections integer NOT NULL DEFAULT 0,
+  max_selections integer NOT NULL DEFAULT 1,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (max_selections >= 1 AND min_selections <= max_selections),
+  CHECK ((required AND min_selections >= 1) OR (NOT required AND min_selections = 0))
+);
+
+CREATE TABLE IF NOT EXISTS modifier_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price_delta decimal(10,2) NOT NULL DEFAULT 0,
+  available boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS modifier_groups_menu_item_id_idx ON modifier_groups (menu_item_id);
+CREATE INDEX IF NOT EXISTS modifier_options_group_id_idx ON modifier_options (group_id);
+
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS modifiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS modifiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Enable RLS
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read modifier groups"
+  ON modifier_groups
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage modifier groups"
+  ON modifier_groups
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Anyone can read modifier options"
+  ON modifier_options
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage modifier options"
+  ON modifier_options
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+-- Same contract as before; each line may now also carry `option_ids`
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_items jsonb,
+  p_table_number integer DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  line jsonb;
+  item menu_items%ROWTYPE;
+  line_quantity integer;
+  selected_ids uuid[];
+  matched_count integer;
+  unavailable_option text;
+  grp record;
+  line_modifiers jsonb;
+  unit_price numeric(10,2);
+  priced_lines jsonb := '[]'::jsonb;
+  order_total numeric(10,2) := 0;
+  new_order orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR caller_role IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF caller_role NOT IN ('customer', 'waiter', 'manager') THEN
+    RAISE EXCEPTION 'Your role cannot place orders';
+  END IF;
+
+  IF coalesce(trim(p_customer_name), '') = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF caller_role = 'customer' AND p_table_number IS NOT NULL THEN
+    RAISE EXCEPTION 'Customers cannot assign a table';
+  END IF;
+
+  -- Validate every line and price it before writing anything
+  FOR line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    line_quantity := coalesce((line->>'quantity')::integer, 0);
+    IF line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be at least 1';
+    END IF;
+
+    SELECT * INTO item FROM menu_items WHERE id = (line->>'menu_item_id')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT item.available THEN
+      RAISE EXCEPTION '% is currently unavailable', item.name;
+    END IF;
+
+    selected_ids := ARRAY(
+      SELECT DISTINCT value::uuid
+      FROM jsonb_array_elements_text(coalesce(line->'option_ids', '[]'::jsonb))
+    );
+
+    -- Every chosen option has to belong to this dish
+    SELECT count(*) INTO matched_count
+    FROM modifier_options
+    JOIN modifier_groups ON modifier_groups.id = modifier_options.group_id
+    WHERE modifier_options.id = ANY(selected_ids)
+    AND modifier_groups.menu_item_id = item.id;
+
+    IF matched_count <> cardinality(selected_ids) THEN
+      RAISE EXCEPTION 'Some options chosen for % are no longer offered', item.name;
+    END IF;
+
+    SELECT modifier_options.name INTO unavailable_option
+    FROM modifier_options
+    WHERE modifier_options.id = ANY(selected_ids)
+    AND NOT modifier_options.available
+    LIMIT 1;
+
+    IF unavailable_option IS NOT NULL THEN
+      RAISE EXCEPTION '% for % is currently unavailable', unavailable_option, item.name;
+    END IF;
+
+    FOR grp IN
+      SELECT
+        modifier_groups.name,
+        modifier_groups.min_selections,
+        modifier_groups.max_selections,
+        (
+          SELECT count(*) FROM modifier_options
+          WHERE modifier_options.group_id = modifier_groups.id
+          AND modifier_options.id = ANY(selected_ids)
+        ) AS chosen
+      FROM modifier_groups
+      WHERE modifier_groups.menu_item_id = item.id
+    LOOP
+      IF grp.chosen < grp.min_selections THEN
+        RAISE EXCEPTION 'Choose at least % for % on %', grp.min_selections, grp.name, item.name;
+      END IF;
+
+      IF grp.chosen > grp.max_selections THEN
+        RAISE EXCEPTION 'Choose at most % for % on %', grp.max_selections, grp.name, item.name;
+      END IF;
+    END LOOP;
+
+    SELECT coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'group_id', modifier_groups.id,
+          'group_name', modifier_groups.name,
+          'option_id', modifier_options.id,
+          'option_name', modifier_options.name,
+          'price_delta', modifier_options.price_delta
+        )
+        ORDER BY modifier_groups.sort_order, modifier_options.sort_order
+      ),
+      '[]'::jsonb
+    )
+    INTO line_modifiers
+    FROM modifier_options
+    JOIN modifier_groups ON modifier_groups.id = modifier_options.group_id
+    WHERE modifier_options.id = ANY(selected_ids);
+
+    SELECT item.price + coalesce(sum(price_delta), 0) INTO unit_price
+    FROM modifier_options
+    WHERE id = ANY(selected_ids);
+
+    IF unit_price < 0 THEN
+      RAISE EXCEPTION 'Options for % cannot bring its price below zero', item.name;
+    END IF;
+
+    priced_lines := priced_lines || jsonb_build_array(jsonb_build_object(
+      'menu_item_id', item.id,
+      'quantity', line_quantity,
+      'price', unit_price,
+      'notes', nullif(trim(line->>'notes'), ''),
+      'modifiers', line_modifiers
+    ));
+
+    order_total := order_total + unit_price * line_quantity;
+  END LOOP;
+
+  INSERT INTO orders (customer_id, waiter_id, table_number, customer_name, status, total)
+  VALUES (
+    CASE WHEN caller_role = 'customer' THEN auth.uid() END,
+    CASE WHEN caller_role <> 'customer' THEN auth.uid() END,
+    p_table_number,
+    trim(p_customer_name),
+    'pending',
+    order_total
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price, notes, modifiers, status)
+  SELECT
+    new_order.id,
+    (order_line->>'menu_item_id')::uuid,
+    (order_line->>'quantity')::integer,
+    (order_line->>'price')::numeric,
+    order_line->>'notes',
+    order_line->'modifiers',
+    'pending'
+  FROM jsonb_array_elements(priced_lines) AS order_line;
+
+  RETURN new_order;
+END;
+$$;
+
+-- `p_groups` is a JSON array of `{ "id", "name", "required", "min_selections",
+-- "max_selections", "options": [{ "id", "name", "price_delta", "available" }] }`.
+-- Groups and options with an id are updated, those without are added, and whatever
+-- the item had that is not listed is deleted. Array order is display order.
+CREATE OR REPLACE FUNCTION save_modifier_groups(p_menu_item_id uuid, p_groups jsonb)
+RETURNS SETOF modifier_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  grp jsonb;
+  grp_index bigint;
+  opt jsonb;
+  opt_index bigint;
+  saved_group_id uuid;
+  kept_group_ids uuid[];
+  kept_option_ids uuid[];
+BEGIN
+  IF current_user_role() IS DISTINCT FROM 'manager' THEN
+    RAISE EXCEPTION 'Only managers can edit menu options';
+  END IF;
+
+  PERFORM 1 FROM menu_items WHERE id = p_menu_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu item not found';
+  END IF;
+
+  IF p_groups IS NULL OR jsonb_typeof(p_groups) <> 'array' THEN
+    RAISE EXCEPTION 'Option groups must be a list';
+  END IF;
+
+  kept_group_ids := ARRAY(
+    SELECT (value->>'id')::uuid FROM jsonb_array_elements(p_groups) WHERE value->>'id' IS NOT NULL
+  );
+
+  DELETE FROM modifier_groups
+  WHERE menu_item_id = p_menu_item_id
+  AND NOT (id = ANY(kept_group_ids));
+
+  FOR grp, grp_index IN SELECT * FROM jsonb_array_elements(p_groups) WITH ORDINALITY
+  LOOP
+    IF coalesce(trim(grp->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every option group needs a name';
+    END IF;
+
+    IF jsonb_typeof(grp->'options') IS DISTINCT FROM 'array' OR jsonb_array_length(grp->'options') = 0 THEN
+      RAISE EXCEPTION '% needs at least one option', trim(grp->>'name');
+    END IF;
+
+    IF grp->>'id' IS NOT NULL THEN
+      UPDATE modifier_groups
+      SET
+        name = trim(grp->>'name'),
+        required = coalesce((grp->>'required')::boolean, false),
+        min_selections = coalesce((grp->>'min_selections')::integer, 0),
+        max_selections = coalesce((grp->>'max_selections')::integer, 1),
+        sort_order = grp_index - 1
+      WHERE id = (grp->>'id')::uuid
+      AND menu_item_id = p_menu_item_id
+      RETURNING id INTO saved_group_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Option group % does not belong to this item', trim(grp->>'name');
+      END IF;
+    ELSE
+      INSERT INTO modifier_groups (menu_item_id, name, required, min_selections, max_selections, sort_order)
+      VALUES (
+        p_menu_item_id,
+        trim(grp->>'name'),
+        coalesce((grp->>'required')::boolean, false),
+        coalesce((grp->>'min_selections')::integer, 0),
+        coalesce((grp->>'max_selections')::integer, 1),
+        grp_index - 1
+      )
+      RETURNING id INTO saved_group_id;
+    END IF;
+
+    kept_option_ids := ARRAY(
+      SELECT (value->>'id')::uuid FROM jsonb_array_elements(grp->'options') WHERE value->>'id' IS NOT NULL
+    );
+
+    DELETE FROM modifier_options
+    WHERE group_id = saved_group_id
+    AND NOT (id = ANY(kept_option_ids));
+
+    FOR opt, opt_index IN SELECT * FROM jsonb_array_elements(grp->'options') WITH ORDINALITY
+    LOOP
+      IF coalesce(trim(opt->>'name'), '') = '' THEN
+        RAISE EXCEPTION 'Every option in % needs a name', trim(grp->>'name');
+      END IF;
+
+      IF opt->>'id' IS NOT NULL THEN
+        UPDATE modifier_options
+        SET
+          name = trim(opt->>'name'),
+          price_delta = coalesce((opt->>'price_delta')::numeric, 0),
+          available = coalesce((opt->>'available')::boolean, true),
+          sort_order = opt_index - 1
+        WHERE id = (opt->>'id')::uuid
+        AND group_id = saved_group_id;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Option % does not belong to %', trim(opt->>'name'), trim(grp->>'name');
+        END IF;
+      ELSE
+        INSERT INTO modifier_options (group_id, name, price_delta, available, sort_order)
+        VALUES (
+          saved_group_id,
+          trim(opt->>'name'),
+          coalesce((opt->>'price_delta')::numeric, 0),
+          coalesce((opt->>'available')::boolean, true),
+          opt_index - 1
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN QUERY
+  SELECT * FROM modifier_groups
+  WHERE menu_item_id = p_menu_item_id
+  ORDER BY sort_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_modifier_groups(uuid, jsonb) TO authenticated;
@@ -0,0 +1,67 @@
+/*
+  # Allergens and dietary tags
+
+  1. Changes
+    - `menu_items.allergens` (text[]) - allergens the dish contains
+    - `menu_items.dietary_tags` (text[]) - diets the dish suits (vegan, vegetarian, halal)
+    - `users.allergies` (text[]) - allergies a customer has declared on their profile
+    - `orders.declared_allergies` (text[]) - the customer's allergies at the time of ordering,
+      so the kitchen sees them without reading customer profiles
+
+  2. New Functions
+    - `copy_customer_allergies()` fills `declared_allergies` on new customer orders
+
+  3. Data
+    - Tags the starter menu items with their allergens and diets
+*/
+
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS allergens text[] NOT NULL DEFAULT '{}';
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS dietary_tags text[] NOT NULL DEFAULT '{}';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS allergies text[] NOT NULL DEFAULT '{}';
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS declared_allergies text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE menu_items ADD CONSTRAINT menu_items_allergens_check
+  CHECK (allergens <@ ARRAY['gluten', 'dairy', 'eggs', 'nuts', 'peanuts', 'shellfish', 'fish', 'soy', 'sesame']);
+
+ALTER TABLE menu_items ADD CONSTRAINT menu_items_dietary_tags_check
+  CHECK (dietary_tags <@ ARRAY['vegan', 'vegetarian', 'halal']);
+
+ALTER TABLE users ADD CONSTRAINT users_allergies_check
+  CHECK (allergies <@ ARRAY['gluten', 'dairy', 'eggs', 'nuts', 'peanuts', 'shellfish', 'fish', 'soy', 'sesame']);
+
+CREATE OR REPLACE FUNCTION copy_customer_allergies()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.customer_id IS NOT NULL THEN
+    SELECT array(
+      SELECT DISTINCT allergy
+      FROM unnest(coalesce(NEW.declared_allergies, '{}') || users.allergies) AS allergy
+      ORDER BY allergy
+    )
+    INTO NEW.declared_allergies
+    FROM users
+    WHERE users.id = NEW.customer_id;
+  END IF;
+
+  NEW.declared_allergies := coalesce(NEW.declared_allergies, '{}');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER copy_customer_allergies
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION copy_customer_allergies();
+
+-- Tag the starter menu so filtering works out of the box
+UPDATE menu_items SET allergens = '{gluten,dairy}', dietary_tags = '{vegetarian}' WHERE name = 'Margherita Pizza';
+UPDATE menu_items SET allergens = '{gluten,dairy,eggs,fish}' WHERE name = 'Caesar Salad';
+UPDATE menu_items SET allergens = '{fish,dairy}' WHERE name = 'Grilled Salmon';
+UPDATE menu_items SET allergens = '{gluten,dairy,eggs}', dietary_tags = '{vegetarian}' WHERE name = 'Chocolate Cake';
+UPDATE menu_items SET allergens = '{gluten,dairy}' WHERE name = 'Chicken Alfredo';
+UPDATE menu_items SET allergens = '{dairy}', dietary_tags = '{vegetarian}' WHERE name = 'Greek Salad';
+UPDATE menu_items SET allergens = '{gluten,dairy,eggs}', dietary_tags = '{vegetarian}' WHERE name = 'Tiramisu';
@@ -0,0 +1,278 @@
+/*
+  # Inventory
+
+  1. New Tables
+    - `ingredients`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `unit` (text) - g, kg, ml, l or each
+      - `on_hand` (decimal) - current stock, only changed through `adjust_stock` or depletion
+      - `low_stock_threshold` (decimal) - at or below this the ingredient counts as low
+      - `created_at`, `updated_at` (timestamp)
+    - `recipe_items`
+      - `menu_item_id` (uuid, references menu_items)
+      - `ingredient_id` (uuid, references ingredients)
+      - `quantity` (decimal) - used per portion, in the ingredient's unit
+    - `stock_adjustments`
+      - `ingredient_id` (uuid, references ingredients)
+      - `change` (decimal) - signed change to `on_hand`
+      - `on_hand_after` (decimal)
+      - `reason` (text) - depletion, count, delivery, waste or correction
+      - `order_item_id` (uuid, references order_items) - set for depletions
+      - `note` (text, optional)
+      - `created_by`, `created_by_name` - who made the change
+
+  2. Security
+    - Managers and kitchen staff read and manage ingredients and recipes
+    - `on_hand` cannot be written directly; stock moves go through `adjust_stock`
+      so every change is logged
+    - Adjustments are read-only; they are written by the functions below
+
+  3. Depletion
+    - When an order item is marked ready its recipe is taken out of stock, once
+    - When an order is marked ready, any items the kitchen did not tick off are
+      marked ready too, so they are depleted as well
+*/
+
+CREATE TABLE IF NOT EXISTS ingredients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  unit text NOT NULL DEFAULT 'each' CHECK (unit IN ('g', 'kg', 'ml', 'l', 'each')),
+  on_hand decimal(12,3) NOT NULL DEFAULT 0,
+  low_stock_threshold decimal(12,3) NOT NULL DEFAULT 0 CHECK (low_stock_threshold >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS recipe_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  ingredient_id uuid NOT NULL REFERENCES ingredients(id) ON DELETE RESTRICT,
+  quantity decimal(12,3) NOT NULL CHECK (quantity > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (menu_item_id, ingredient_id)
+);
+
+CREATE TABLE IF NOT EXISTS stock_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ingredient_id uuid NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+  change decimal(12,3) NOT NULL,
+  on_hand_after decimal(12,3) NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('depletion', 'count', 'delivery', 'waste', 'correction')),
+  order_item_id uuid REFERENCES order_items(id) ON DELETE SET NULL,
+  note text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS recipe_items_menu_item_id_idx ON recipe_items (menu_item_id);
+CREATE INDEX IF NOT EXISTS stock_adjustments_ingredient_id_idx ON stock_adjustments (ingredient_id, created_at);
+CREATE INDEX IF NOT EXISTS stock_adjustments_order_item_id_idx ON stock_adjustments (order_item_id);
+
+-- Enable RLS
+ALTER TABLE ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Kitchen and managers can manage ingredients"
+  ON ingredients
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'kitchen')
+    )
+  );
+
+CREATE POLICY "Kitchen and managers can manage recipes"
+  ON recipe_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'kitchen')
+    )
+  );
+
+CREATE POLICY "Kitchen and managers can read stock adjustments"
+  ON stock_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('manager', 'kitchen')
+    )
+  );
+
+-- Stock levels only move through the logged functions below
+REVOKE INSERT, UPDATE ON ingredients FROM authenticated;
+GRANT INSERT (name, unit, low_stock_threshold) ON ingredients TO authenticated;
+GRANT UPDATE (name, unit, low_stock_threshold, updated_at) ON ingredients TO authenticated;
+
+CREATE OR REPLACE FUNCTION touch_ingredient()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_ingredient
+  BEFORE UPDATE ON ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_ingredient();
+
+-- Record a stock movement. A count sets the level outright; deliveries add, waste
+-- subtracts and corrections apply the signed quantity as given.
+CREATE OR REPLACE FUNCTION adjust_stock(
+  p_ingredient_id uuid,
+  p_reason text,
+  p_quantity numeric,
+  p_note text DEFAULT NULL
+)
+RETURNS ingredients
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_ingredient ingredients%ROWTYPE;
+  stock_change numeric(12,3);
+BEGIN
+  IF coalesce(current_user_role(), '') NOT IN ('manager', 'kitchen') THEN
+    RAISE EXCEPTION 'Only kitchen staff and managers can adjust stock';
+  END IF;
+
+  IF p_quantity IS NULL THEN
+    RAISE EXCEPTION 'A quantity is required';
+  END IF;
+
+  SELECT * INTO current_ingredient FROM ingredients WHERE id = p_ingredient_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ingredient not found';
+  END IF;
+
+  stock_change := CASE p_reason
+    WHEN 'count' THEN p_quantity - current_ingredient.on_hand
+    WHEN 'delivery' THEN abs(p_quantity)
+    WHEN 'waste' THEN -abs(p_quantity)
+    WHEN 'correction' THEN p_quantity
+  END;
+
+  IF stock_change IS NULL THEN
+    RAISE EXCEPTION 'Unknown adjustment reason %', p_reason;
+  END IF;
+
+  IF p_reason = 'count' AND p_quantity < 0 THEN
+    RAISE EXCEPTION 'A stock count cannot be negative';
+  END IF;
+
+  UPDATE ingredients
+  SET on_hand = on_hand + stock_change
+  WHERE id = p_ingredient_id
+  RETURNING * INTO current_ingredient;
+
+  INSERT INTO stock_adjustments (ingredient_id, change, on_hand_after, reason, note, created_by, created_by_name)
+  VALUES (
+    p_ingredient_id,
+    stock_change,
+    current_ingredient.on_hand,
+    p_reason,
+    nullif(trim(p_note), ''),
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid())
+  );
+
+  RETURN current_ingredient;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION adjust_stock(uuid, text, numeric, text) TO authenticated;
+
+-- Take an item's recipe out of stock the first time it is marked ready
+CREATE OR REPLACE FUNCTION deplete_stock_for_order_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipe_line record;
+  remaining numeric(12,3);
+BEGIN
+  IF NEW.status <> 'ready' OR OLD.status = 'ready' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM stock_adjustments
+    WHERE order_item_id = NEW.id
+    AND reason = 'depletion'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR recipe_line IN
+    SELECT ingredient_id, quantity FROM recipe_items WHERE menu_item_id = NEW.menu_item_id
+  LOOP
+    UPDATE ingredients
+    SET on_hand = on_hand - recipe_line.quantity * NEW.quantity
+    WHERE id = recipe_line.ingredient_id
+    RETURNING on_hand INTO remaining;
+
+    INSERT INTO stock_adjustments (
+      ingredient_id, change, on_hand_after, reason, order_item_id, created_by, created_by_name
+    )
+    VALUES (
+      recipe_line.ingredient_id,
+      -(recipe_line.quantity * NEW.quantity),
+      remaining,
+      'depletion',
+      NEW.id,
+      auth.uid(),
+      (SELECT name FROM users WHERE id = auth.uid())
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER deplete_stock_for_order_item
+  AFTER UPDATE OF status ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION deplete_stock_for_order_item();
+
+-- An order that is ready has all of its items ready
+CREATE OR REPLACE FUNCTION mark_order_items_ready()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('ready', 'served', 'completed')
+    AND OLD.status IN ('pending', 'preparing') THEN
+    UPDATE order_items
+    SET status = 'ready'
+    WHERE order_id = NEW.id
+    AND status <> 'ready';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_order_items_ready
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_order_items_ready();
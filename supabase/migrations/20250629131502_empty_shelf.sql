@@ -0,0 +1,207 @@
+/*
+  # Automatic and manual 86ing of menu items
+
+  1. Changes
+    - `menu_items.unavailable_reason` (text) - why the item is off the menu
+    - `menu_items.auto_unavailable` (boolean) - set when stock took the item off, so
+      a restock only brings back items that stock removed
+    - `menu_items.eighty_sixed_by`, `eighty_sixed_by_name`, `eighty_sixed_at` - who took
+      it off by hand, and when
+
+  2. New Functions
+    - `sync_menu_item_stock(menu_item_id)` takes an item off when any recipe ingredient
+      is below one portion, and puts it back once every ingredient covers a portion
+    - `eighty_six_menu_item(menu_item_id, reason)` lets kitchen staff and managers take
+      an item off now
+    - `restore_menu_item(menu_item_id)` puts an item back, unless it is still out of stock
+
+  3. Triggers
+    - Stock changes on `ingredients` and recipe changes on `recipe_items` re-check the
+      affected menu items
+
+  4. Security
+    - Staff can no longer change `available` or the 86 details directly; only
+      `eighty_six_menu_item`, `restore_menu_item` and stock changes do
+*/
+
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS unavailable_reason text;
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS auto_unavailable boolean NOT NULL DEFAULT false;
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS eighty_sixed_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS eighty_sixed_by_name text;
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS eighty_sixed_at timestamptz;
+
+-- Names of the recipe ingredients that cannot cover one more portion
+CREATE OR REPLACE FUNCTION missing_ingredients(p_menu_item_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT string_agg(ingredients.name, ', ' ORDER BY ingredients.name)
+  FROM recipe_items
+  JOIN ingredients ON ingredients.id = recipe_items.ingredient_id
+  WHERE recipe_items.menu_item_id = p_menu_item_id
+  AND ingredients.on_hand < recipe_items.quantity;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_menu_item_stock(p_menu_item_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  missing text := missing_ingredients(p_menu_item_id);
+BEGIN
+  IF missing IS NOT NULL THEN
+    -- Items already taken off by hand keep their reason
+    UPDATE menu_items
+    SET available = false,
+        auto_unavailable = true,
+        unavailable_reason = 'Out of ' || missing,
+        eighty_sixed_by = NULL,
+        eighty_sixed_by_name = NULL,
+        eighty_sixed_at = now()
+    WHERE id = p_menu_item_id
+    AND (available OR auto_unavailable);
+  ELSE
+    UPDATE menu_items
+    SET available = true,
+        auto_unavailable = false,
+        unavailable_reason = NULL,
+        eighty_sixed_at = NULL
+    WHERE id = p_menu_item_id
+    AND auto_unavailable;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION missing_ingredients(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_menu_item_stock(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION sync_menu_items_for_ingredient()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected uuid;
+BEGIN
+  FOR affected IN
+    SELECT DISTINCT menu_item_id FROM recipe_items WHERE ingredient_id = NEW.id
+  LOOP
+    PERFORM sync_menu_item_stock(affected);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_menu_items_for_ingredient
+  AFTER UPDATE OF on_hand ON ingredients
+  FOR EACH ROW
+  WHEN (OLD.on_hand IS DISTINCT FROM NEW.on_hand)
+  EXECUTE FUNCTION sync_menu_items_for_ingredient();
+
+CREATE OR REPLACE FUNCTION sync_menu_item_for_recipe()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM sync_menu_item_stock(OLD.menu_item_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM sync_menu_item_stock(NEW.menu_item_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_menu_item_for_recipe
+  AFTER INSERT OR UPDATE OR DELETE ON recipe_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_menu_item_for_recipe();
+
+CREATE OR REPLACE FUNCTION eighty_six_menu_item(p_menu_item_id uuid, p_reason text)
+RETURNS menu_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated menu_items%ROWTYPE;
+BEGIN
+  IF coalesce(current_user_role(), '') NOT IN ('manager', 'kitchen') THEN
+    RAISE EXCEPTION 'Only kitchen staff and managers can 86 menu items';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please give a reason';
+  END IF;
+
+  UPDATE menu_items
+  SET available = false,
+      auto_unavailable = false,
+      unavailable_reason = trim(p_reason),
+      eighty_sixed_by = auth.uid(),
+      eighty_sixed_by_name = (SELECT name FROM users WHERE id = auth.uid()),
+      eighty_sixed_at = now()
+  WHERE id = p_menu_item_id
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu item not found';
+  END IF;
+
+  RETURN updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_menu_item(p_menu_item_id uuid)
+RETURNS menu_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  missing text := missing_ingredients(p_menu_item_id);
+  updated menu_items%ROWTYPE;
+BEGIN
+  IF coalesce(current_user_role(), '') NOT IN ('manager', 'kitchen') THEN
+    RAISE EXCEPTION 'Only kitchen staff and managers can bring menu items back';
+  END IF;
+
+  IF missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Still out of %. Record a delivery or stock count first.', missing;
+  END IF;
+
+  UPDATE menu_items
+  SET available = true,
+      auto_unavailable = false,
+      unavailable_reason = NULL,
+      eighty_sixed_by = NULL,
+      eighty_sixed_by_name = NULL,
+      eighty_sixed_at = NULL
+  WHERE id = p_menu_item_id
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu item not found';
+  END IF;
+
+  RETURN updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION eighty_six_menu_item(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_menu_item(uuid) TO authenticated;
+
+-- Availability only changes through the functions above, so a restore always
+-- checks stock first
+REVOKE UPDATE ON menu_items FROM authenticated;
+GRANT UPDATE (name, description, price, category, image_url, allergens, dietary_tags) ON menu_items TO authenticated;
@@ -0,0 +1,272 @@
+/*
+  # Purchasing
+
+  1. New Tables
+    - `suppliers`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `contact_name`, `email`, `phone`, `notes` (text, optional)
+    - `purchase_orders`
+      - `supplier_id` (uuid, references suppliers)
+      - `status` (text) - draft, ordered, received or cancelled
+      - `notes` (text, optional)
+      - `created_by`, `created_by_name` - who raised it
+      - `ordered_at`, `received_at` (timestamp)
+      - `received_by`, `received_by_name` - who booked the delivery in
+    - `purchase_order_items`
+      - `purchase_order_id` (uuid, references purchase_orders)
+      - `ingredient_id` (uuid, references ingredients)
+      - `quantity_ordered` (decimal) - in the ingredient's unit
+      - `unit_cost` (decimal, optional) - expected cost per unit
+      - `quantity_received`, `received_unit_cost` (decimal) - filled in on delivery
+    - `ingredient_costs`
+      - `ingredient_id` (uuid, references ingredients)
+      - `supplier_id`, `purchase_order_id` (uuid, optional)
+      - `unit_cost` (decimal) - cost per unit paid on that delivery
+      - `quantity` (decimal) - how much was delivered at that cost
+      - `recorded_by`, `recorded_by_name`
+
+  2. Changes
+    - `ingredients.par_level` (decimal) - stock to order back up to
+    - `ingredients.supplier_id` (uuid) - who the ingredient is usually bought from
+    - `ingredients.unit_cost` (decimal) - latest cost per unit, set when a delivery is received
+
+  3. New Views
+    - `menu_item_food_costs` - recipe cost of one portion of each menu item at the latest
+      ingredient costs, and whether every ingredient has a cost yet
+
+  4. Security
+    - Managers manage suppliers and purchase orders and read cost history
+    - Deliveries are booked in through `receive_purchase_order`, which adds stock through
+      `adjust_stock` and records the cost paid
+*/
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  contact_name text,
+  email text,
+  phone text,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ingredients ADD COLUMN IF NOT EXISTS par_level decimal(12,3) NOT NULL DEFAULT 0 CHECK (par_level >= 0);
+ALTER TABLE ingredients ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL;
+ALTER TABLE ingredients ADD COLUMN IF NOT EXISTS unit_cost decimal(14,6) CHECK (unit_cost >= 0);
+
+GRANT INSERT (par_level, supplier_id) ON ingredients TO authenticated;
+GRANT UPDATE (par_level, supplier_id) ON ingredients TO authenticated;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'ordered', 'received', 'cancelled')),
+  notes text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  ordered_at timestamptz,
+  received_at timestamptz,
+  received_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  received_by_name text
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  ingredient_id uuid NOT NULL REFERENCES ingredients(id) ON DELETE RESTRICT,
+  quantity_ordered decimal(12,3) NOT NULL CHECK (quantity_ordered > 0),
+  unit_cost decimal(14,6) CHECK (unit_cost >= 0),
+  quantity_received decimal(12,3) CHECK (quantity_received >= 0),
+  received_unit_cost decimal(14,6) CHECK (received_unit_cost >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (purchase_order_id, ingredient_id)
+);
+
+CREATE TABLE IF NOT EXISTS ingredient_costs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ingredient_id uuid NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+  supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL,
+  purchase_order_id uuid REFERENCES purchase_orders(id) ON DELETE SET NULL,
+  unit_cost decimal(14,6) NOT NULL CHECK (unit_cost >= 0),
+  quantity decimal(12,3) NOT NULL,
+  recorded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  recorded_by_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS purchase_orders_status_idx ON purchase_orders (status, created_at);
+CREATE INDEX IF NOT EXISTS purchase_order_items_order_id_idx ON purchase_order_items (purchase_order_id);
+CREATE INDEX IF NOT EXISTS ingredient_costs_ingredient_id_idx ON ingredient_costs (ingredient_id, created_at);
+
+-- Enable RLS
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingredient_costs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage suppliers"
+  ON suppliers
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can manage purchase orders"
+  ON purchase_orders
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can manage purchase order items"
+  ON purchase_order_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can read ingredient costs"
+  ON ingredient_costs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+-- What was paid is only set when a delivery is received
+REVOKE UPDATE ON purchase_order_items FROM authenticated;
+GRANT UPDATE (quantity_ordered, unit_cost) ON purchase_order_items TO authenticated;
+
+-- Book a delivery in. Each line is {purchase_order_item_id, quantity_received, unit_cost};
+-- lines left out are recorded as not delivered.
+CREATE OR REPLACE FUNCTION receive_purchase_order(p_purchase_order_id uuid, p_lines jsonb)
+RETURNS purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_order purchase_orders%ROWTYPE;
+  order_line purchase_order_items%ROWTYPE;
+  line jsonb;
+  received numeric(12,3);
+  paid numeric(14,6);
+  receiver_name text := (SELECT name FROM users WHERE id = auth.uid());
+BEGIN
+  IF coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only managers can receive deliveries';
+  END IF;
+
+  SELECT * INTO current_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF current_order.status NOT IN ('draft', 'ordered') THEN
+    RAISE EXCEPTION 'This purchase order is already %', current_order.status;
+  END IF;
+
+  FOR order_line IN
+    SELECT * FROM purchase_order_items WHERE purchase_order_id = p_purchase_order_id
+  LOOP
+    SELECT value INTO line
+    FROM jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+    WHERE (value->>'purchase_order_item_id')::uuid = order_line.id;
+
+    received := coalesce((line->>'quantity_received')::numeric, 0);
+    paid := coalesce((line->>'unit_cost')::numeric, order_line.unit_cost);
+
+    IF received < 0 THEN
+      RAISE EXCEPTION 'Received quantities cannot be negative';
+    END IF;
+
+    IF received > 0 AND paid IS NULL THEN
+      RAISE EXCEPTION 'A unit cost is required for every delivered line';
+    END IF;
+
+    IF paid < 0 THEN
+      RAISE EXCEPTION 'Unit costs cannot be negative';
+    END IF;
+
+    UPDATE purchase_order_items
+    SET quantity_received = received,
+        received_unit_cost = CASE WHEN received > 0 THEN paid END
+    WHERE id = order_line.id;
+
+    CONTINUE WHEN received = 0;
+
+    PERFORM adjust_stock(
+      order_line.ingredient_id,
+      'delivery',
+      received,
+      'Purchase order ' || left(p_purchase_order_id::text, 8)
+    );
+
+    UPDATE ingredients SET unit_cost = paid WHERE id = order_line.ingredient_id;
+
+    INSERT INTO ingredient_costs (
+      ingredient_id, supplier_id, purchase_order_id, unit_cost, quantity, recorded_by, recorded_by_name
+    )
+    VALUES (
+      order_line.ingredient_id,
+      current_order.supplier_id,
+      p_purchase_order_id,
+      paid,
+      received,
+      auth.uid(),
+      receiver_name
+    );
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET status = 'received',
+      ordered_at = coalesce(ordered_at, now()),
+      received_at = now(),
+      received_by = auth.uid(),
+      received_by_name = receiver_name
+  WHERE id = p_purchase_order_id
+  RETURNING * INTO current_order;
+
+  RETURN current_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_purchase_order(uuid, jsonb) TO authenticated;
+
+-- Cost of one portion at the latest ingredient costs
+CREATE OR REPLACE VIEW menu_item_food_costs
+WITH (security_invoker = true)
+AS
+SELECT
+  menu_items.id AS menu_item_id,
+  menu_items.price,
+  coalesce(sum(recipe_items.quantity * ingredients.unit_cost), 0) AS food_cost,
+  count(recipe_items.id) AS ingredient_count,
+  count(recipe_items.id) FILTER (WHERE ingredients.unit_cost IS NULL) AS uncosted_ingredients
+FROM menu_items
+LEFT JOIN recipe_items ON recipe_items.menu_item_id = menu_items.id
+LEFT JOIN ingredients ON ingredients.id = recipe_items.ingredient_id
+GROUP BY menu_items.id, menu_items.price;
+
+GRANT SELECT ON menu_item_food_costs TO authenticated;
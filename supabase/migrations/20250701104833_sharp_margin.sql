@@ -0,0 +1,66 @@
+/*
+  # Menu item costs
+
+  1. New Tables
+    - `menu_item_costs`
+      - `menu_item_id` (uuid, primary key, references menu_items)
+      - `manual_cost` (decimal) - cost of one portion entered by hand, for dishes without
+        a recipe or where the recipe does not tell the whole story
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `menu_item_food_costs` gains `manual_cost`, `cost` and `cost_source`. A manual cost
+      takes precedence; otherwise the recipe cost is used once every ingredient is costed.
+
+  3. Security
+    - Costs are kept out of `menu_items` so customers, who can read the menu, never see them
+    - Only managers read and manage manual costs
+*/
+
+CREATE TABLE IF NOT EXISTS menu_item_costs (
+  menu_item_id uuid PRIMARY KEY REFERENCES menu_items(id) ON DELETE CASCADE,
+  manual_cost decimal(10,2) NOT NULL CHECK (manual_cost >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE menu_item_costs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage menu item costs"
+  ON menu_item_costs
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE OR REPLACE VIEW menu_item_food_costs
+WITH (security_invoker = true)
+AS
+SELECT
+  menu_items.id AS menu_item_id,
+  menu_items.price,
+  coalesce(sum(recipe_items.quantity * ingredients.unit_cost), 0) AS food_cost,
+  count(recipe_items.id) AS ingredient_count,
+  count(recipe_items.id) FILTER (WHERE ingredients.unit_cost IS NULL) AS uncosted_ingredients,
+  menu_item_costs.manual_cost,
+  CASE
+    WHEN menu_item_costs.manual_cost IS NOT NULL THEN menu_item_costs.manual_cost
+    WHEN count(recipe_items.id) > 0
+      AND count(recipe_items.id) FILTER (WHERE ingredients.unit_cost IS NULL) = 0
+      THEN sum(recipe_items.quantity * ingredients.unit_cost)
+  END AS cost,
+  CASE
+    WHEN menu_item_costs.manual_cost IS NOT NULL THEN 'manual'
+    WHEN count(recipe_items.id) > 0
+      AND count(recipe_items.id) FILTER (WHERE ingredients.unit_cost IS NULL) = 0
+      THEN 'recipe'
+  END AS cost_source
+FROM menu_items
+LEFT JOIN recipe_items ON recipe_items.menu_item_id = menu_items.id
+LEFT JOIN ingredients ON ingredients.id = recipe_items.ingredient_id
+LEFT JOIN menu_item_costs ON menu_item_costs.menu_item_id = menu_items.id
+GROUP BY menu_items.id, menu_items.price, menu_item_costs.manual_cost;
@@ -0,0 +1,355 @@
+/*
+  # End of day closeout
+
+  1. New Tables
+    - `restaurant_settings` (a single row)
+      - `timezone` (text) - IANA time zone that decides which business day an order belongs to
+      - `updated_at` (timestamp)
+    - `day_closeouts`
+      - `business_date` (date, unique) - one closeout per day
+      - `gross_sales`, `order_count`, `items_sold` - orders that were not cancelled
+      - `void_count`, `void_total` - cancelled orders
+      - `discount_total`, `tax_total`, `tip_total` (decimal)
+      - `net_sales` (decimal) - gross sales less discounts
+      - `payment_breakdown` (jsonb) - amount taken per payment method
+      - `open_order_count` (integer) - orders still open when the day was closed
+      - `notes` (text, optional)
+      - `closed_by`, `closed_by_name`, `closed_at` - who closed the day
+
+  2. Security
+    - Everyone signed in can read the settings; managers change them
+    - Managers read closeouts. They are written only by `close_business_day` and
+      can never be updated or deleted.
+
+  3. Locking
+    - Once a day is closed its orders and order items cannot be created, edited or
+      deleted. Orders that were still open may only move forward to completed, so
+      the tables they hold can be cleared; they cannot be cancelled.
+    - New orders cannot be placed on a day that is already closed.
+*/
+
+CREATE TABLE IF NOT EXISTS restaurant_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  timezone text NOT NULL DEFAULT 'UTC',
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO restaurant_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS day_closeouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_date date UNIQUE NOT NULL,
+  gross_sales decimal(12,2) NOT NULL DEFAULT 0,
+  order_count integer NOT NULL DEFAULT 0,
+  items_sold integer NOT NULL DEFAULT 0,
+  void_count integer NOT NULL DEFAULT 0,
+  void_total decimal(12,2) NOT NULL DEFAULT 0,
+  discount_total decimal(12,2) NOT NULL DEFAULT 0,
+  tax_total decimal(12,2) NOT NULL DEFAULT 0,
+  tip_total decimal(12,2) NOT NULL DEFAULT 0,
+  net_sales decimal(12,2) NOT NULL DEFAULT 0,
+  payment_breakdown jsonb NOT NULL DEFAULT '{}'::jsonb,
+  open_order_count integer NOT NULL DEFAULT 0,
+  notes text,
+  closed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  closed_by_name text,
+  closed_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE restaurant_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE day_closeouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read restaurant settings"
+  ON restaurant_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can update restaurant settings"
+  ON restaurant_settings
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can read day closeouts"
+  ON day_closeouts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'manager'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION prevent_closeout_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Day closeouts are permanent and cannot be changed';
+END;
+$$;
+
+CREATE TRIGGER day_closeouts_immutable
+  BEFORE UPDATE OR DELETE ON day_closeouts
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_closeout_changes();
+
+-- The restaurant's calendar day for a moment in time
+CREATE OR REPLACE FUNCTION business_date(p_at timestamptz)
+RETURNS date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (p_at AT TIME ZONE coalesce((SELECT timezone FROM restaurant_settings LIMIT 1), 'UTC'))::date;
+$$;
+
+CREATE OR REPLACE FUNCTION is_day_closed(p_business_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM day_closeouts WHERE business_date = p_business_date);
+$$;
+
+GRANT EXECUTE ON FUNCTION business_date(timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_day_closed(date) TO authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_order_day_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settled orders%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF is_day_closed(business_date(coalesce(NEW.created_at, now()))) THEN
+      RAISE EXCEPTION 'Today has been closed out; no more orders can be placed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_day_closed(business_date(OLD.created_at)) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  -- An order left open at closeout may still be finished, and nothing else
+  IF TG_OP = 'UPDATE' AND OLD.status NOT IN ('completed', 'cancelled') AND NEW.status <> 'cancelled' THEN
+    settled := NEW;
+    settled.status := OLD.status;
+    IF settled IS NOT DISTINCT FROM OLD THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  RAISE EXCEPTION 'Orders from % have been closed out and can no longer change', business_date(OLD.created_at);
+END;
+$$;
+
+CREATE TRIGGER orders_enforce_day_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_day_lock();
+
+CREATE OR REPLACE FUNCTION enforce_order_item_day_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent orders%ROWTYPE;
+  marked order_items%ROWTYPE;
+BEGIN
+  SELECT * INTO parent FROM orders
+  WHERE id = CASE WHEN TG_OP = 'INSERT' THEN NEW.order_id ELSE OLD.order_id END;
+
+  IF NOT FOUND OR NOT is_day_closed(business_date(parent.created_at)) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  -- Items of an order left open are still marked ready as the order is finished
+  IF TG_OP = 'UPDATE' AND NEW.status = 'ready' AND parent.status <> 'cancelled' THEN
+    marked := NEW;
+    marked.status := OLD.status;
+    IF marked IS NOT DISTINCT FROM OLD THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  RAISE EXCEPTION 'Orders from % have been closed out and can no longer change', business_date(parent.created_at);
+END;
+$$;
+
+CREATE TRIGGER order_items_enforce_day_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_item_day_lock();
+
+-- The figures for one business day. Voids are cancelled orders; everything else
+-- that was ordered counts as a sale, whether or not it has been completed yet.
+CREATE OR REPLACE FUNCTION compute_day_closeout(p_business_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gross numeric(12,2);
+  sales_count integer;
+  sold integer;
+  voids integer;
+  voided numeric(12,2);
+  open_orders jsonb;
+BEGIN
+  SELECT coalesce(sum(total), 0), count(*)
+  INTO gross, sales_count
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status <> 'cancelled';
+
+  SELECT coalesce(sum(order_items.quantity), 0)
+  INTO sold
+  FROM order_items
+  JOIN orders ON orders.id = order_items.order_id
+  WHERE business_date(orders.created_at) = p_business_date
+  AND orders.status <> 'cancelled';
+
+  SELECT coalesce(sum(total), 0), count(*)
+  INTO voided, voids
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status = 'cancelled';
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'table_number', table_number,
+    'customer_name', customer_name,
+    'status', status,
+    'total', total,
+    'created_at', created_at
+  ) ORDER BY created_at), '[]'::jsonb)
+  INTO open_orders
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status NOT IN ('completed', 'cancelled');
+
+  RETURN jsonb_build_object(
+    'business_date', p_business_date,
+    'gross_sales', gross,
+    'order_count', sales_count,
+    'items_sold', sold,
+    'void_count', voids,
+    'void_total', voided,
+    'discount_total', 0,
+    'tax_total', 0,
+    'tip_total', 0,
+    'net_sales', gross,
+    'payment_breakdown', '{}'::jsonb,
+    'open_orders', open_orders
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION preview_day_closeout(p_business_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only managers can close out the day';
+  END IF;
+
+  RETURN compute_day_closeout(p_business_date);
+END;
+$$;
+
+-- Close a business day. Open orders must be acknowledged: they stay open but
+-- can only be completed from then on.
+CREATE OR REPLACE FUNCTION close_business_day(
+  p_business_date date,
+  p_notes text DEFAULT NULL,
+  p_acknowledge_open_orders boolean DEFAULT false
+)
+RETURNS day_closeouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  figures jsonb;
+  open_count integer;
+  closeout day_closeouts%ROWTYPE;
+BEGIN
+  IF coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only managers can close out the day';
+  END IF;
+
+  IF p_business_date > business_date(now()) THEN
+    RAISE EXCEPTION 'A day cannot be closed before it has started';
+  END IF;
+
+  -- Serialise closeouts so a day is only ever closed once
+  PERFORM pg_advisory_xact_lock(hashtext('close_business_day'));
+
+  IF is_day_closed(p_business_date) THEN
+    RAISE EXCEPTION '% has already been closed out', p_business_date;
+  END IF;
+
+  figures := compute_day_closeout(p_business_date);
+  open_count := jsonb_array_length(figures->'open_orders');
+
+  IF open_count > 0 AND NOT coalesce(p_acknowledge_open_orders, false) THEN
+    RAISE EXCEPTION '% order(s) from % are still open', open_count, p_business_date;
+  END IF;
+
+  INSERT INTO day_closeouts (
+    business_date, gross_sales, order_count, items_sold, void_count, void_total,
+    discount_total, tax_total, tip_total, net_sales, payment_breakdown, open_order_count,
+    notes, closed_by, closed_by_name
+  )
+  VALUES (
+    p_business_date,
+    (figures->>'gross_sales')::numeric,
+    (figures->>'order_count')::integer,
+    (figures->>'items_sold')::integer,
+    (figures->>'void_count')::integer,
+    (figures->>'void_total')::numeric,
+    (figures->>'discount_total')::numeric,
+    (figures->>'tax_total')::numeric,
+    (figures->>'tip_total')::numeric,
+    (figures->>'net_sales')::numeric,
+    figures->'payment_breakdown',
+    open_count,
+    nullif(trim(p_notes), ''),
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid())
+  )
+  RETURNING * INTO closeout;
+
+  RETURN closeout;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION compute_day_closeout(date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION preview_day_closeout(date) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_business_day(date, text, boolean) TO authenticated;
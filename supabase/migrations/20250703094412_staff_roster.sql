@@ -0,0 +1,297 @@
+/*
+  # Staff administration
+
+  1. Changes
+    - New columns on `users`
+      - `active` (boolean) - deactivated accounts can no longer use the app
+      - `deactivated_at`, `deactivated_by` - when and by whom
+    - `current_user_role()` returns nothing for deactivated accounts, so every
+      role check in the functions and policies that use it fails for them
+
+  2. Security
+    - Managers can update any user's profile
+    - Only managers can change a role or deactivate an account, and never their
+      own, so there is always an active manager left
+    - Previously anyone could change their own role through "Users can update own
+      data"; the trigger below now refuses that
+    - The policies that looked the role up in `users` directly are recreated on
+      `current_user_role()`, so a deactivated account cannot read or change
+      orders, tables, stock or any other staff data through the API
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS active boolean NOT NULL DEFAULT true;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM users WHERE id = auth.uid() AND active;
+$$;
+
+CREATE POLICY "Managers can update users"
+  ON users
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+CREATE OR REPLACE FUNCTION protect_user_administration()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS NOT DISTINCT FROM OLD.role AND NEW.active IS NOT DISTINCT FROM OLD.active THEN
+    NEW.deactivated_at := OLD.deactivated_at;
+    NEW.deactivated_by := OLD.deactivated_by;
+    RETURN NEW;
+  END IF;
+
+  -- Changes made outside a signed-in session (service role, maintenance) are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only managers can change roles or deactivate accounts';
+  END IF;
+
+  IF OLD.id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own role or deactivate your own account';
+  END IF;
+
+  IF NEW.active IS DISTINCT FROM OLD.active THEN
+    NEW.deactivated_at := CASE WHEN NEW.active THEN NULL ELSE now() END;
+    NEW.deactivated_by := CASE WHEN NEW.active THEN NULL ELSE auth.uid() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER users_protect_administration
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_administration();
+
+-- The earlier policies looked the role up in `users` directly, which ignores
+-- `active`; recreate them on top of current_user_role() so deactivated
+-- accounts lose access everywhere
+DROP POLICY IF EXISTS "Managers can manage menu items" ON menu_items;
+CREATE POLICY "Managers can manage menu items"
+  ON menu_items
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Users can read relevant orders" ON orders;
+CREATE POLICY "Users can read relevant orders"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (
+    current_user_role() IN ('manager', 'kitchen') OR
+    (
+      current_user_role() IS NOT NULL AND
+      (customer_id = auth.uid() OR waiter_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can update orders" ON orders;
+CREATE POLICY "Staff can update orders"
+  ON orders
+  FOR UPDATE
+  TO authenticated
+  USING (
+    current_user_role() IN ('manager', 'kitchen') OR
+    (current_user_role() IS NOT NULL AND waiter_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can read relevant order items" ON order_items;
+CREATE POLICY "Users can read relevant order items"
+  ON order_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    current_user_role() IN ('manager', 'kitchen') OR
+    (
+      current_user_role() IS NOT NULL AND
+      EXISTS (
+        SELECT 1 FROM orders
+        WHERE orders.id = order_items.order_id
+        AND (orders.customer_id = auth.uid() OR orders.waiter_id = auth.uid())
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can update order items" ON order_items;
+CREATE POLICY "Staff can update order items"
+  ON order_items
+  FOR UPDATE
+  TO authenticated
+  USING (
+    current_user_role() IN ('manager', 'kitchen') OR
+    (
+      current_user_role() IS NOT NULL AND
+      EXISTS (
+        SELECT 1 FROM orders
+        WHERE orders.id = order_items.order_id
+        AND orders.waiter_id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read relevant order status events" ON order_status_events;
+CREATE POLICY "Users can read relevant order status events"
+  ON order_status_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    current_user_role() IN ('manager', 'kitchen') OR
+    (
+      current_user_role() IS NOT NULL AND
+      EXISTS (
+        SELECT 1 FROM orders
+        WHERE orders.id = order_status_events.order_id
+        AND (orders.customer_id = auth.uid() OR orders.waiter_id = auth.uid())
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can read tables" ON tables;
+CREATE POLICY "Staff can read tables"
+  ON tables
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('manager', 'waiter', 'kitchen'));
+
+DROP POLICY IF EXISTS "Waiters can update tables" ON tables;
+CREATE POLICY "Waiters can update tables"
+  ON tables
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'waiter');
+
+DROP POLICY IF EXISTS "Managers can manage tables" ON tables;
+CREATE POLICY "Managers can manage tables"
+  ON tables
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Staff can read sections" ON sections;
+CREATE POLICY "Staff can read sections"
+  ON sections
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('manager', 'waiter', 'kitchen'));
+
+DROP POLICY IF EXISTS "Managers can manage sections" ON sections;
+CREATE POLICY "Managers can manage sections"
+  ON sections
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Staff can manage reservations" ON reservations;
+CREATE POLICY "Staff can manage reservations"
+  ON reservations
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() IN ('manager', 'waiter'));
+
+DROP POLICY IF EXISTS "Staff can manage waitlist" ON waitlist_entries;
+CREATE POLICY "Staff can manage waitlist"
+  ON waitlist_entries
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() IN ('manager', 'waiter'));
+
+DROP POLICY IF EXISTS "Managers can manage modifier groups" ON modifier_groups;
+CREATE POLICY "Managers can manage modifier groups"
+  ON modifier_groups
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Managers can manage modifier options" ON modifier_options;
+CREATE POLICY "Managers can manage modifier options"
+  ON modifier_options
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Kitchen and managers can manage ingredients" ON ingredients;
+CREATE POLICY "Kitchen and managers can manage ingredients"
+  ON ingredients
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() IN ('manager', 'kitchen'));
+
+DROP POLICY IF EXISTS "Kitchen and managers can manage recipes" ON recipe_items;
+CREATE POLICY "Kitchen and managers can manage recipes"
+  ON recipe_items
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() IN ('manager', 'kitchen'));
+
+DROP POLICY IF EXISTS "Kitchen and managers can read stock adjustments" ON stock_adjustments;
+CREATE POLICY "Kitchen and managers can read stock adjustments"
+  ON stock_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() IN ('manager', 'kitchen'));
+
+DROP POLICY IF EXISTS "Managers can manage suppliers" ON suppliers;
+CREATE POLICY "Managers can manage suppliers"
+  ON suppliers
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Managers can manage purchase orders" ON purchase_orders;
+CREATE POLICY "Managers can manage purchase orders"
+  ON purchase_orders
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Managers can manage purchase order items" ON purchase_order_items;
+CREATE POLICY "Managers can manage purchase order items"
+  ON purchase_order_items
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Managers can read ingredient costs" ON ingredient_costs;
+CREATE POLICY "Managers can read ingredient costs"
+  ON ingredient_costs
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Managers can manage menu item costs" ON menu_item_costs;
+CREATE POLICY "Managers can manage menu item costs"
+  ON menu_item_costs
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Managers can update restaurant settings" ON restaurant_settings;
+CREATE POLICY "Managers can update restaurant settings"
+  ON restaurant_settings
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+DROP POLICY IF EXISTS "Managers can read day closeouts" ON day_closeouts;
+CREATE POLICY "Managers can read day closeouts"
+  ON day_closeouts
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'manager');
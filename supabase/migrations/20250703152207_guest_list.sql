@@ -0,0 +1,119 @@
+/*
+  # Staff invitations
+
+  1. New Tables
+    - `staff_invites`
+      - `token` (text, unique) - the secret part of the invite link
+      - `role` (text) - manager, waiter or kitchen
+      - `email` (text, optional) - when set, only this address can use the invite
+      - `expires_at` (timestamp) - a week after it was created by default
+      - `accepted_by`, `accepted_at` - the account that used it
+      - `revoked_at` (timestamp) - set when a manager cancels it
+      - `created_by`, `created_by_name` - who sent it
+
+  2. Signup
+    - Profiles are now created by a trigger on `auth.users` from the signup
+      metadata (`name` and an optional `invite_token`) instead of by the client
+    - A valid invite gives the new account the invite's role and is used up;
+      everyone else becomes a customer
+    - `check_staff_invite` lets the signup form show what an invite is for
+      before the account is created
+
+  3. Security
+    - Managers create, read and revoke invites
+    - Profiles inserted directly by the client must be customers, so the role
+      cannot be chosen at signup any more
+*/
+
+CREATE TABLE IF NOT EXISTS staff_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  role text NOT NULL CHECK (role IN ('manager', 'waiter', 'kitchen')),
+  email text,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE staff_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage staff invites"
+  ON staff_invites
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager')
+  WITH CHECK (current_user_role() = 'manager');
+
+-- Only revoking is done by hand; acceptance is recorded at signup
+REVOKE UPDATE ON staff_invites FROM authenticated;
+GRANT UPDATE (revoked_at) ON staff_invites TO authenticated;
+
+DROP POLICY IF EXISTS "Users can insert own data" ON users;
+
+CREATE POLICY "Users can insert own data"
+  ON users
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = id AND role = 'customer');
+
+-- What an invite is for, or nothing when it cannot be used
+CREATE OR REPLACE FUNCTION check_staff_invite(p_token text)
+RETURNS TABLE (role text, email text, expires_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT staff_invites.role, staff_invites.email, staff_invites.expires_at
+  FROM staff_invites
+  WHERE token = trim(p_token)
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+  AND expires_at > now();
+$$;
+
+GRANT EXECUTE ON FUNCTION check_staff_invite(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite staff_invites%ROWTYPE;
+  profile_name text := coalesce(nullif(trim(NEW.raw_user_meta_data->>'name'), ''), split_part(NEW.email, '@', 1));
+BEGIN
+  SELECT * INTO invite
+  FROM staff_invites
+  WHERE token = trim(NEW.raw_user_meta_data->>'invite_token')
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+  AND expires_at > now()
+  AND (staff_invites.email IS NULL OR lower(staff_invites.email) = lower(NEW.email))
+  FOR UPDATE;
+
+  INSERT INTO users (id, email, name, role)
+  VALUES (NEW.id, NEW.email, profile_name, coalesce(invite.role, 'customer'))
+  ON CONFLICT (id) DO NOTHING;
+
+  IF invite.id IS NOT NULL THEN
+    UPDATE staff_invites
+    SET accepted_by = NEW.id, accepted_at = now()
+    WHERE id = invite.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
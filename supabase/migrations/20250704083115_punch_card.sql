@@ -0,0 +1,287 @@
+/*
+  # Shifts and time clock
+
+  1. New Tables
+    - `shifts` - the schedule
+      - `user_id` (uuid, references users)
+      - `starts_at`, `ends_at` (timestamp)
+      - `notes` (text, optional)
+      - `created_by`, `created_by_name` - who scheduled it
+    - `time_entries` - actual hours
+      - `user_id` (uuid, references users)
+      - `clock_in_at`, `clock_out_at` (timestamp) - `clock_out_at` is empty while on the clock
+      - `break_started_at` (timestamp) - set while on a break
+      - `break_seconds` (integer) - total break time so far
+      - `edited_by`, `edited_by_name` - set when a manager corrects an entry
+
+  2. Changes
+    - `users.hourly_rate` (decimal, optional) - used for labor cost
+
+  3. Security
+    - Managers manage the schedule and can correct time entries; staff read their own
+    - Waiters and kitchen staff clock in, take breaks and clock out through the
+      functions below, so the times always come from the server clock
+    - Only managers can set pay rates
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS hourly_rate decimal(8,2) CHECK (hourly_rate >= 0);
+
+CREATE TABLE IF NOT EXISTS shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  notes text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS time_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  clock_in_at timestamptz NOT NULL DEFAULT now(),
+  clock_out_at timestamptz,
+  break_started_at timestamptz,
+  break_seconds integer NOT NULL DEFAULT 0 CHECK (break_seconds >= 0),
+  edited_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  edited_by_name text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (clock_out_at IS NULL OR clock_out_at >= clock_in_at)
+);
+
+CREATE INDEX IF NOT EXISTS shifts_starts_at_idx ON shifts (starts_at);
+CREATE INDEX IF NOT EXISTS shifts_user_id_idx ON shifts (user_id, starts_at);
+CREATE INDEX IF NOT EXISTS time_entries_clock_in_at_idx ON time_entries (clock_in_at);
+CREATE INDEX IF NOT EXISTS time_entries_user_id_idx ON time_entries (user_id, clock_in_at);
+
+-- Nobody can be on the clock twice
+CREATE UNIQUE INDEX IF NOT EXISTS time_entries_one_open_per_user
+  ON time_entries (user_id)
+  WHERE clock_out_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read own shifts"
+  ON shifts
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Managers can manage shifts"
+  ON shifts
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager')
+  WITH CHECK (current_user_role() = 'manager');
+
+CREATE POLICY "Staff can read own time entries"
+  ON time_entries
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Managers can read time entries"
+  ON time_entries
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+CREATE POLICY "Managers can correct time entries"
+  ON time_entries
+  FOR UPDATE
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+REVOKE UPDATE ON time_entries FROM authenticated;
+GRANT UPDATE (clock_in_at, clock_out_at, break_seconds, edited_by, edited_by_name) ON time_entries TO authenticated;
+
+-- Pay rates join roles and account status as manager-only columns
+CREATE OR REPLACE FUNCTION protect_user_administration()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS NOT DISTINCT FROM OLD.role
+    AND NEW.active IS NOT DISTINCT FROM OLD.active
+    AND NEW.hourly_rate IS NOT DISTINCT FROM OLD.hourly_rate THEN
+    NEW.deactivated_at := OLD.deactivated_at;
+    NEW.deactivated_by := OLD.deactivated_by;
+    RETURN NEW;
+  END IF;
+
+  -- Changes made outside a signed-in session (service role, maintenance) are trusted
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only managers can change roles, pay rates or account status';
+  END IF;
+
+  IF OLD.id = auth.uid() AND (NEW.role IS DISTINCT FROM OLD.role OR NEW.active IS DISTINCT FROM OLD.active) THEN
+    RAISE EXCEPTION 'You cannot change your own role or deactivate your own account';
+  END IF;
+
+  IF NEW.active IS DISTINCT FROM OLD.active THEN
+    NEW.deactivated_at := CASE WHEN NEW.active THEN NULL ELSE now() END;
+    NEW.deactivated_by := CASE WHEN NEW.active THEN NULL ELSE auth.uid() END;
+  ELSE
+    NEW.deactivated_at := OLD.deactivated_at;
+    NEW.deactivated_by := OLD.deactivated_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Record a manager's correction to someone's hours
+CREATE OR REPLACE FUNCTION stamp_time_entry_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user_role() = 'manager' THEN
+    NEW.edited_by := auth.uid();
+    NEW.edited_by_name := (SELECT name FROM users WHERE id = auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER time_entries_stamp_edit
+  BEFORE UPDATE ON time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_time_entry_edit();
+
+-- The caller's open time entry, locked, or an error when they are not on the clock
+CREATE OR REPLACE FUNCTION current_time_entry()
+RETURNS time_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry time_entries%ROWTYPE;
+BEGIN
+  IF coalesce(current_user_role(), '') NOT IN ('waiter', 'kitchen') THEN
+    RAISE EXCEPTION 'Only waiters and kitchen staff use the time clock';
+  END IF;
+
+  SELECT * INTO entry
+  FROM time_entries
+  WHERE user_id = auth.uid()
+  AND clock_out_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not clocked in';
+  END IF;
+
+  RETURN entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION clock_in()
+RETURNS time_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry time_entries%ROWTYPE;
+BEGIN
+  IF coalesce(current_user_role(), '') NOT IN ('waiter', 'kitchen') THEN
+    RAISE EXCEPTION 'Only waiters and kitchen staff use the time clock';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM time_entries WHERE user_id = auth.uid() AND clock_out_at IS NULL) THEN
+    RAISE EXCEPTION 'You are already clocked in';
+  END IF;
+
+  INSERT INTO time_entries (user_id)
+  VALUES (auth.uid())
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_break()
+RETURNS time_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry time_entries%ROWTYPE := current_time_entry();
+BEGIN
+  IF entry.break_started_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You are already on a break';
+  END IF;
+
+  UPDATE time_entries
+  SET break_started_at = now()
+  WHERE id = entry.id
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION end_break()
+RETURNS time_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry time_entries%ROWTYPE := current_time_entry();
+BEGIN
+  IF entry.break_started_at IS NULL THEN
+    RAISE EXCEPTION 'You are not on a break';
+  END IF;
+
+  UPDATE time_entries
+  SET break_seconds = break_seconds + extract(epoch FROM now() - break_started_at)::integer,
+      break_started_at = NULL
+  WHERE id = entry.id
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+-- Clocking out ends a break that is still running
+CREATE OR REPLACE FUNCTION clock_out()
+RETURNS time_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry time_entries%ROWTYPE := current_time_entry();
+BEGIN
+  UPDATE time_entries
+  SET break_seconds = break_seconds + coalesce(extract(epoch FROM now() - break_started_at)::integer, 0),
+      break_started_at = NULL,
+      clock_out_at = now()
+  WHERE id = entry.id
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION current_time_entry() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION clock_in() TO authenticated;
+GRANT EXECUTE ON FUNCTION start_break() TO authenticated;
+GRANT EXECUTE ON FUNCTION end_break() TO authenticated;
+GRANT EXECUTE ON FUNCTION clock_out() TO authenticated;
@@ -0,0 +1,300 @@
+/*
+  # Payments and bill settlement
+
+  1. New Tables
+    - `payments` - money taken against an order; an order can have several
+      - `order_id` (uuid, references orders)
+      - `method` (text) - cash, card or other
+      - `amount` (decimal) - what this payment puts towards the bill
+      - `tip` (decimal) - on top of the amount
+      - `tendered` (decimal, optional) - cash handed over
+      - `change_given` (decimal) - cash handed back
+      - `label` (text, optional) - e.g. "Guest 2 of 4" for a split bill
+      - `item_ids` (uuid[]) - the lines a split-by-item payment covered
+      - `created_by`, `created_by_name` - who took the payment
+
+  2. Changes
+    - Orders can only be completed once payments cover the total
+    - Day closeouts now total payments by method and the tips taken
+
+  3. Security
+    - Payments are recorded through `record_payment`, by managers or the order's
+      waiter (any waiter for a self-service order), so they can never exceed what
+      is owed
+    - Managers read every payment; waiters read the payments on the orders they
+      can settle
+    - Payments cannot be edited or deleted
+*/
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  method text NOT NULL CHECK (method IN ('cash', 'card', 'other')),
+  amount decimal(10,2) NOT NULL CHECK (amount > 0),
+  tip decimal(10,2) NOT NULL DEFAULT 0 CHECK (tip >= 0),
+  tendered decimal(10,2),
+  change_given decimal(10,2) NOT NULL DEFAULT 0 CHECK (change_given >= 0),
+  label text,
+  item_ids uuid[] NOT NULL DEFAULT '{}',
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payments_order_id_idx ON payments (order_id);
+CREATE INDEX IF NOT EXISTS payments_created_at_idx ON payments (created_at);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can read payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+-- Self-service orders have no waiter, so any waiter can settle them
+CREATE POLICY "Waiters can read payments on their orders"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    current_user_role() = 'waiter'
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND coalesce(orders.waiter_id, auth.uid()) = auth.uid()
+    )
+  );
+
+-- What is still owed on an order, for the same people who can take payments on it
+CREATE OR REPLACE FUNCTION order_balance(p_order_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  target orders%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Changes made outside a signed-in session (service role, maintenance) are trusted
+  IF auth.uid() IS NOT NULL
+    AND NOT (caller_role = 'manager' OR (caller_role = 'waiter' AND coalesce(target.waiter_id, auth.uid()) = auth.uid())) THEN
+    RAISE EXCEPTION 'Only managers and the assigned waiter can see what is owed on this order';
+  END IF;
+
+  RETURN target.total - coalesce((SELECT sum(amount) FROM payments WHERE order_id = target.id), 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_payment(
+  p_order_id uuid,
+  p_method text,
+  p_amount numeric,
+  p_tip numeric DEFAULT 0,
+  p_tendered numeric DEFAULT NULL,
+  p_label text DEFAULT NULL,
+  p_item_ids uuid[] DEFAULT '{}'
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  target orders%ROWTYPE;
+  balance numeric;
+  pay_amount numeric := round(coalesce(p_amount, 0), 2);
+  pay_tip numeric := round(coalesce(p_tip, 0), 2);
+  cash_tendered numeric := round(p_tendered, 2);
+  covered_items uuid[] := coalesce(p_item_ids, '{}');
+  payment payments%ROWTYPE;
+BEGIN
+  -- Lock the order so two payments cannot both take the last of the balance
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT (caller_role = 'manager' OR (caller_role = 'waiter' AND coalesce(target.waiter_id, auth.uid()) = auth.uid())) THEN
+    RAISE EXCEPTION 'Only managers and the assigned waiter can take payments for this order';
+  END IF;
+
+  IF target.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is already % and cannot take payments', target.status;
+  END IF;
+
+  IF pay_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be more than zero';
+  END IF;
+
+  IF pay_tip < 0 THEN
+    RAISE EXCEPTION 'Tip cannot be negative';
+  END IF;
+
+  balance := order_balance(p_order_id);
+  IF pay_amount > balance THEN
+    RAISE EXCEPTION 'Payment of $% is more than the $% still owed', pay_amount, balance;
+  END IF;
+
+  IF p_method = 'cash' THEN
+    cash_tendered := coalesce(cash_tendered, pay_amount + pay_tip);
+    IF cash_tendered < pay_amount + pay_tip THEN
+      RAISE EXCEPTION 'Cash tendered ($%) does not cover the payment and tip ($%)', cash_tendered, pay_amount + pay_tip;
+    END IF;
+  ELSE
+    cash_tendered := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(covered_items) AS item_id
+    WHERE NOT EXISTS (SELECT 1 FROM order_items WHERE id = item_id AND order_id = p_order_id)
+  ) THEN
+    RAISE EXCEPTION 'Some of the items are not on this order';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payments WHERE order_id = p_order_id AND payments.item_ids && covered_items) THEN
+    RAISE EXCEPTION 'Some of the items have already been paid for';
+  END IF;
+
+  INSERT INTO payments (
+    order_id, method, amount, tip, tendered, change_given, label, item_ids, created_by, created_by_name
+  )
+  VALUES (
+    p_order_id,
+    p_method,
+    pay_amount,
+    pay_tip,
+    cash_tendered,
+    coalesce(cash_tendered - pay_amount - pay_tip, 0),
+    nullif(trim(p_label), ''),
+    covered_items,
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid())
+  )
+  RETURNING * INTO payment;
+
+  RETURN payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION order_balance(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_payment(uuid, text, numeric, numeric, numeric, text, uuid[]) TO authenticated;
+
+-- An order is only completed once it has been paid for
+CREATE OR REPLACE FUNCTION enforce_order_settlement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  balance numeric;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status = 'completed' OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  balance := order_balance(NEW.id);
+  IF balance > 0 THEN
+    RAISE EXCEPTION 'Order still has $% to pay; settle the bill before completing it', balance;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_enforce_settlement
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_settlement();
+
+-- Closeouts now count the money taken that day, by method, and its tips
+CREATE OR REPLACE FUNCTION compute_day_closeout(p_business_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gross numeric(12,2);
+  sales_count integer;
+  sold integer;
+  voids integer;
+  voided numeric(12,2);
+  tips numeric(12,2);
+  breakdown jsonb;
+  open_orders jsonb;
+BEGIN
+  SELECT coalesce(sum(total), 0), count(*)
+  INTO gross, sales_count
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status <> 'cancelled';
+
+  SELECT coalesce(sum(order_items.quantity), 0)
+  INTO sold
+  FROM order_items
+  JOIN orders ON orders.id = order_items.order_id
+  WHERE business_date(orders.created_at) = p_business_date
+  AND orders.status <> 'cancelled';
+
+  SELECT coalesce(sum(total), 0), count(*)
+  INTO voided, voids
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status = 'cancelled';
+
+  SELECT coalesce(sum(tip), 0)
+  INTO tips
+  FROM payments
+  WHERE business_date(created_at) = p_business_date;
+
+  SELECT coalesce(jsonb_object_agg(method, total), '{}'::jsonb)
+  INTO breakdown
+  FROM (
+    SELECT method, sum(amount) AS total
+    FROM payments
+    WHERE business_date(created_at) = p_business_date
+    GROUP BY method
+  ) AS by_method;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'table_number', table_number,
+    'customer_name', customer_name,
+    'status', status,
+    'total', total,
+    'created_at', created_at
+  ) ORDER BY created_at), '[]'::jsonb)
+  INTO open_orders
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status NOT IN ('completed', 'cancelled');
+
+  RETURN jsonb_build_object(
+    'business_date', p_business_date,
+    'gross_sales', gross,
+    'order_count', sales_count,
+    'items_sold', sold,
+    'void_count', voids,
+    'void_total', voided,
+    'discount_total', 0,
+    'tax_total', 0,
+    'tip_total', tips,
+    'net_sales', gross,
+    'payment_breakdown', breakdown,
+    'open_orders', open_orders
+  );
+END;
+$$;
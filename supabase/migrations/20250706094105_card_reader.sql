@@ -0,0 +1,126 @@
+/*
+  # Card payments through a payment provider
+
+  1. Changes
+    - `payments.gateway` (text, optional) - which payment provider processed the card
+    - `payments.gateway_transaction_id` (text, optional, unique) - the provider's
+      reference, needed to refund the charge later
+    - `record_payment` takes both, so card payments are stored with the
+      transaction that paid them
+
+  2. Security
+    - A provider transaction can only be recorded once, and only on a card payment
+*/
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS gateway text;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS gateway_transaction_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payments_gateway_transaction_id_key
+  ON payments (gateway, gateway_transaction_id)
+  WHERE gateway_transaction_id IS NOT NULL;
+
+DROP FUNCTION IF EXISTS record_payment(uuid, text, numeric, numeric, numeric, text, uuid[]);
+
+CREATE OR REPLACE FUNCTION record_payment(
+  p_order_id uuid,
+  p_method text,
+  p_amount numeric,
+  p_tip numeric DEFAULT 0,
+  p_tendered numeric DEFAULT NULL,
+  p_label text DEFAULT NULL,
+  p_item_ids uuid[] DEFAULT '{}',
+  p_gateway text DEFAULT NULL,
+  p_gateway_transaction_id text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  target orders%ROWTYPE;
+  balance numeric;
+  pay_amount numeric := round(coalesce(p_amount, 0), 2);
+  pay_tip numeric := round(coalesce(p_tip, 0), 2);
+  cash_tendered numeric := round(p_tendered, 2);
+  covered_items uuid[] := coalesce(p_item_ids, '{}');
+  payment payments%ROWTYPE;
+BEGIN
+  -- Lock the order so two payments cannot both take the last of the balance
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT (caller_role = 'manager' OR (caller_role = 'waiter' AND coalesce(target.waiter_id, auth.uid()) = auth.uid())) THEN
+    RAISE EXCEPTION 'Only managers and the assigned waiter can take payments for this order';
+  END IF;
+
+  IF target.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is already % and cannot take payments', target.status;
+  END IF;
+
+  IF pay_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be more than zero';
+  END IF;
+
+  IF pay_tip < 0 THEN
+    RAISE EXCEPTION 'Tip cannot be negative';
+  END IF;
+
+  balance := order_balance(p_order_id);
+  IF pay_amount > balance THEN
+    RAISE EXCEPTION 'Payment of $% is more than the $% still owed', pay_amount, balance;
+  END IF;
+
+  IF p_method = 'cash' THEN
+    cash_tendered := coalesce(cash_tendered, pay_amount + pay_tip);
+    IF cash_tendered < pay_amount + pay_tip THEN
+      RAISE EXCEPTION 'Cash tendered ($%) does not cover the payment and tip ($%)', cash_tendered, pay_amount + pay_tip;
+    END IF;
+  ELSE
+    cash_tendered := NULL;
+  END IF;
+
+  IF p_gateway_transaction_id IS NOT NULL AND p_method <> 'card' THEN
+    RAISE EXCEPTION 'Only card payments go through the payment provider';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(covered_items) AS item_id
+    WHERE NOT EXISTS (SELECT 1 FROM order_items WHERE id = item_id AND order_id = p_order_id)
+  ) THEN
+    RAISE EXCEPTION 'Some of the items are not on this order';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payments WHERE order_id = p_order_id AND payments.item_ids && covered_items) THEN
+    RAISE EXCEPTION 'Some of the items have already been paid for';
+  END IF;
+
+  INSERT INTO payments (
+    order_id, method, amount, tip, tendered, change_given, label, item_ids,
+    gateway, gateway_transaction_id, created_by, created_by_name
+  )
+  VALUES (
+    p_order_id,
+    p_method,
+    pay_amount,
+    pay_tip,
+    cash_tendered,
+    coalesce(cash_tendered - pay_amount - pay_tip, 0),
+    nullif(trim(p_label), ''),
+    covered_items,
+    nullif(trim(p_gateway), ''),
+    nullif(trim(p_gateway_transaction_id), ''),
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid())
+  )
+  RETURNING * INTO payment;
+
+  RETURN payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_payment(uuid, text, numeric, numeric, numeric, text, uuid[], text, text) TO authenticated;
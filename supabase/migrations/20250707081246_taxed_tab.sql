@@ -0,0 +1,531 @@
+/*
+  # Tax, service charge and tips
+
+  1. New Tables
+    - `tax_rates`
+      - `id` (uuid, primary key)
+      - `name` (text, unique) - e.g. "Food", "Alcohol"
+      - `rate` (decimal) - percentage, e.g. 8.875
+    - `category_tax_rates` - which rate a menu category is taxed at
+      - `category` (text, primary key)
+      - `tax_rate_id` (uuid, references tax_rates)
+
+  2. Changes
+    - `restaurant_settings` gains
+      - `default_tax_rate_id` - the rate for categories without their own
+      - `tax_inclusive` (boolean) - whether menu prices already include tax
+      - `service_charge_rate` (decimal) and `service_charge_min_party` (integer) -
+        the automatic service charge and the party size it starts at; no minimum
+        means no service charge
+      - `tip_suggestions` (integer[]) - tip percentages offered when paying
+    - `orders` now stores its figures separately: `subtotal` (before tax),
+      `tax_total`, `service_charge`, `tip_total` and `total` (what is owed, before
+      tips). The tax mode, service charge rate and `party_size` are kept with the
+      order so it always prices the same way.
+    - `order_items.tax_rate` and `order_items.tax_amount` record the tax on each line
+    - `place_order` takes the party size and prices tax and service charge. A dine-in
+      order without a party size is charged for the table's seats.
+    - `recalculate_order_totals` rebuilds an order's figures from its lines
+    - `orders.tip_total` follows the tips on the order's payments, and can still
+      change on an order left open at closeout
+    - Day closeouts count gross sales before tax and report the tax collected
+
+  3. Security
+    - Everyone signed in can read tax rates; managers manage them
+*/
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  rate decimal(6,3) NOT NULL CHECK (rate >= 0 AND rate < 100),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS category_tax_rates (
+  category text PRIMARY KEY,
+  tax_rate_id uuid NOT NULL REFERENCES tax_rates(id) ON DELETE CASCADE
+);
+
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS default_tax_rate_id uuid REFERENCES tax_rates(id) ON DELETE SET NULL;
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS tax_inclusive boolean NOT NULL DEFAULT false;
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS service_charge_rate decimal(5,2) NOT NULL DEFAULT 0
+  CHECK (service_charge_rate >= 0 AND service_charge_rate <= 100);
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS service_charge_min_party integer
+  CHECK (service_charge_min_party > 0);
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS tip_suggestions integer[] NOT NULL DEFAULT '{15,18,20}';
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_total decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS service_charge decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tip_total decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_inclusive boolean NOT NULL DEFAULT false;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS service_charge_rate decimal(5,2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS party_size integer CHECK (party_size > 0);
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_rate decimal(6,3) NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_amount decimal(10,2) NOT NULL DEFAULT 0;
+
+-- Existing orders had no tax or service charge, so their total is their subtotal.
+-- Closed days are locked against edits, so the lock is lifted for the backfill only.
+ALTER TABLE orders DISABLE TRIGGER orders_enforce_day_lock;
+
+UPDATE orders
+SET
+  subtotal = total,
+  tip_total = coalesce((SELECT sum(tip) FROM payments WHERE payments.order_id = orders.id), 0);
+
+ALTER TABLE orders ENABLE TRIGGER orders_enforce_day_lock;
+
+-- Enable RLS
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE category_tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read tax rates"
+  ON tax_rates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage tax rates"
+  ON tax_rates
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager')
+  WITH CHECK (current_user_role() = 'manager');
+
+CREATE POLICY "Anyone can read category tax rates"
+  ON category_tax_rates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can manage category tax rates"
+  ON category_tax_rates
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager')
+  WITH CHECK (current_user_role() = 'manager');
+
+-- The rate a menu category is taxed at: its own, else the default, else none
+CREATE OR REPLACE FUNCTION category_tax_rate(p_category text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT tax_rates.rate
+      FROM category_tax_rates
+      JOIN tax_rates ON tax_rates.id = category_tax_rates.tax_rate_id
+      WHERE category_tax_rates.category = p_category
+    ),
+    (
+      SELECT tax_rates.rate
+      FROM restaurant_settings
+      JOIN tax_rates ON tax_rates.id = restaurant_settings.default_tax_rate_id
+      WHERE restaurant_settings.id
+    ),
+    0
+  );
+$$;
+
+-- Tax on a line. Inclusive prices already contain it, so it is backed out of the amount.
+CREATE OR REPLACE FUNCTION line_tax(p_amount numeric, p_rate numeric, p_inclusive boolean)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_inclusive THEN round(p_amount * p_rate / (100 + p_rate), 2)
+    ELSE round(p_amount * p_rate / 100, 2)
+  END;
+$$;
+
+-- Rebuilds an order's subtotal, tax, service charge and total from its lines, using
+-- the tax mode and service charge rate the order was placed with
+CREATE OR REPLACE FUNCTION recalculate_order_totals(p_order_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target orders%ROWTYPE;
+  line_total numeric(10,2);
+  taxes numeric(10,2);
+  net numeric(10,2);
+  service numeric(10,2);
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT coalesce(sum(price * quantity), 0), coalesce(sum(tax_amount), 0)
+  INTO line_total, taxes
+  FROM order_items
+  WHERE order_id = p_order_id;
+
+  net := line_total - CASE WHEN target.tax_inclusive THEN taxes ELSE 0 END;
+  service := round(net * target.service_charge_rate / 100, 2);
+
+  UPDATE orders
+  SET
+    subtotal = net,
+    tax_total = taxes,
+    service_charge = service,
+    total = net + taxes + service
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION recalculate_order_totals(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION category_tax_rate(text) TO authenticated;
+
+DROP FUNCTION IF EXISTS place_order(text, jsonb, integer);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_items jsonb,
+  p_table_number integer DEFAULT NULL,
+  p_party_size integer DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  line jsonb;
+  item menu_items%ROWTYPE;
+  line_quantity integer;
+  selected_ids uuid[];
+  matched_count integer;
+  unavailable_option text;
+  grp record;
+  line_modifiers jsonb;
+  unit_price numeric(10,2);
+  line_rate numeric;
+  priced_lines jsonb := '[]'::jsonb;
+  guests integer := p_party_size;
+  settings restaurant_settings%ROWTYPE;
+  new_order orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR caller_role IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF caller_role NOT IN ('customer', 'waiter', 'manager') THEN
+    RAISE EXCEPTION 'Your role cannot place orders';
+  END IF;
+
+  IF coalesce(trim(p_customer_name), '') = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF caller_role = 'customer' AND p_table_number IS NOT NULL THEN
+    RAISE EXCEPTION 'Customers cannot assign a table';
+  END IF;
+
+  IF p_party_size IS NOT NULL AND p_party_size < 1 THEN
+    RAISE EXCEPTION 'Party size must be at least 1';
+  END IF;
+
+  -- A table left without a party size counts as full, so a large party cannot
+  -- skip the service charge by leaving it blank
+  IF guests IS NULL AND p_table_number IS NOT NULL THEN
+    SELECT seats INTO guests FROM tables WHERE number = p_table_number;
+  END IF;
+
+  SELECT * INTO settings FROM restaurant_settings WHERE id;
+
+  -- Validate every line and price it before writing anything
+  FOR line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    line_quantity := coalesce((line->>'quantity')::integer, 0);
+    IF line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be at least 1';
+    END IF;
+
+    SELECT * INTO item FROM menu_items WHERE id = (line->>'menu_item_id')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT item.available THEN
+      RAISE EXCEPTION '% is currently unavailable', item.name;
+    END IF;
+
+    selected_ids := ARRAY(
+      SELECT DISTINCT value::uuid
+      FROM jsonb_array_elements_text(coalesce(line->'option_ids', '[]'::jsonb))
+    );
+
+    -- Every chosen option has to belong to this dish
+    SELECT count(*) INTO matched_count
+    FROM modifier_options
+    JOIN modifier_groups ON modifier_groups.id = modifier_options.group_id
+    WHERE modifier_options.id = ANY(selected_ids)
+    AND modifier_groups.menu_item_id = item.id;
+
+    IF matched_count <> cardinality(selected_ids) THEN
+      RAISE EXCEPTION 'Some options chosen for % are no longer offered', item.name;
+    END IF;
+
+    SELECT modifier_options.name INTO unavailable_option
+    FROM modifier_options
+    WHERE modifier_options.id = ANY(selected_ids)
+    AND NOT modifier_options.available
+    LIMIT 1;
+
+    IF unavailable_option IS NOT NULL THEN
+      RAISE EXCEPTION '% for % is currently unavailable', unavailable_option, item.name;
+    END IF;
+
+    FOR grp IN
+      SELECT
+        modifier_groups.name,
+        modifier_groups.min_selections,
+        modifier_groups.max_selections,
+        (
+          SELECT count(*) FROM modifier_options
+          WHERE modifier_options.group_id = modifier_groups.id
+          AND modifier_options.id = ANY(selected_ids)
+        ) AS chosen
+      FROM modifier_groups
+      WHERE modifier_groups.menu_item_id = item.id
+    LOOP
+      IF grp.chosen < grp.min_selections THEN
+        RAISE EXCEPTION 'Choose at least % for % on %', grp.min_selections, grp.name, item.name;
+      END IF;
+
+      IF grp.chosen > grp.max_selections THEN
+        RAISE EXCEPTION 'Choose at most % for % on %', grp.max_selections, grp.name, item.name;
+      END IF;
+    END LOOP;
+
+    SELECT coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'group_id', modifier_groups.id,
+          'group_name', modifier_groups.name,
+          'option_id', modifier_options.id,
+          'option_name', modifier_options.name,
+          'price_delta', modifier_options.price_delta
+        )
+        ORDER BY modifier_groups.sort_order, modifier_options.sort_order
+      ),
+      '[]'::jsonb
+    )
+    INTO line_modifiers
+    FROM modifier_options
+    JOIN modifier_groups ON modifier_groups.id = modifier_options.group_id
+    WHERE modifier_options.id = ANY(selected_ids);
+
+    SELECT item.price + coalesce(sum(price_delta), 0) INTO unit_price
+    FROM modifier_options
+    WHERE id = ANY(selected_ids);
+
+    IF unit_price < 0 THEN
+      RAISE EXCEPTION 'Options for % cannot bring its price below zero', item.name;
+    END IF;
+
+    line_rate := category_tax_rate(item.category);
+
+    priced_lines := priced_lines || jsonb_build_array(jsonb_build_object(
+      'menu_item_id', item.id,
+      'quantity', line_quantity,
+      'price', unit_price,
+      'notes', nullif(trim(line->>'notes'), ''),
+      'modifiers', line_modifiers,
+      'tax_rate', line_rate,
+      'tax_amount', line_tax(unit_price * line_quantity, line_rate, coalesce(settings.tax_inclusive, false))
+    ));
+  END LOOP;
+
+  INSERT INTO orders (
+    customer_id, waiter_id, table_number, customer_name, status, total,
+    party_size, tax_inclusive, service_charge_rate
+  )
+  VALUES (
+    CASE WHEN caller_role = 'customer' THEN auth.uid() END,
+    CASE WHEN caller_role <> 'customer' THEN auth.uid() END,
+    p_table_number,
+    trim(p_customer_name),
+    'pending',
+    0,
+    guests,
+    coalesce(settings.tax_inclusive, false),
+    CASE
+      WHEN guests >= settings.service_charge_min_party THEN settings.service_charge_rate
+      ELSE 0
+    END
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price, notes, modifiers, status, tax_rate, tax_amount)
+  SELECT
+    new_order.id,
+    (order_line->>'menu_item_id')::uuid,
+    (order_line->>'quantity')::integer,
+    (order_line->>'price')::numeric,
+    order_line->>'notes',
+    order_line->'modifiers',
+    'pending',
+    (order_line->>'tax_rate')::numeric,
+    (order_line->>'tax_amount')::numeric
+  FROM jsonb_array_elements(priced_lines) AS order_line;
+
+  RETURN recalculate_order_totals(new_order.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, jsonb, integer, integer) TO authenticated;
+
+-- Tips live on the payments; the order keeps their total
+CREATE OR REPLACE FUNCTION sync_order_tip_total()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE orders
+  SET tip_total = coalesce((SELECT sum(tip) FROM payments WHERE order_id = NEW.order_id), 0)
+  WHERE id = NEW.order_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payments_sync_order_tip_total
+  AFTER INSERT ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_tip_total();
+
+CREATE OR REPLACE FUNCTION enforce_order_day_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settled orders%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF is_day_closed(business_date(coalesce(NEW.created_at, now()))) THEN
+      RAISE EXCEPTION 'Today has been closed out; no more orders can be placed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_day_closed(business_date(OLD.created_at)) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  -- An order left open at closeout may still be paid and finished, and nothing else
+  IF TG_OP = 'UPDATE' AND OLD.status NOT IN ('completed', 'cancelled') AND NEW.status <> 'cancelled' THEN
+    settled := NEW;
+    settled.status := OLD.status;
+    settled.tip_total := OLD.tip_total;
+    IF settled IS NOT DISTINCT FROM OLD THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  RAISE EXCEPTION 'Orders from % have been closed out and can no longer change', business_date(OLD.created_at);
+END;
+$$;
+
+-- Gross sales are now counted before tax, with the tax collected reported separately
+CREATE OR REPLACE FUNCTION compute_day_closeout(p_business_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gross numeric(12,2);
+  taxes numeric(12,2);
+  sales_count integer;
+  sold integer;
+  voids integer;
+  voided numeric(12,2);
+  tips numeric(12,2);
+  breakdown jsonb;
+  open_orders jsonb;
+BEGIN
+  SELECT coalesce(sum(subtotal + service_charge), 0), coalesce(sum(tax_total), 0), count(*)
+  INTO gross, taxes, sales_count
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status <> 'cancelled';
+
+  SELECT coalesce(sum(order_items.quantity), 0)
+  INTO sold
+  FROM order_items
+  JOIN orders ON orders.id = order_items.order_id
+  WHERE business_date(orders.created_at) = p_business_date
+  AND orders.status <> 'cancelled';
+
+  SELECT coalesce(sum(total), 0), count(*)
+  INTO voided, voids
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status = 'cancelled';
+
+  SELECT coalesce(sum(tip), 0)
+  INTO tips
+  FROM payments
+  WHERE business_date(created_at) = p_business_date;
+
+  SELECT coalesce(jsonb_object_agg(method, total), '{}'::jsonb)
+  INTO breakdown
+  FROM (
+    SELECT method, sum(amount) AS total
+    FROM payments
+    WHERE business_date(created_at) = p_business_date
+    GROUP BY method
+  ) AS by_method;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'table_number', table_number,
+    'customer_name', customer_name,
+    'status', status,
+    'total', total,
+    'created_at', created_at
+  ) ORDER BY created_at), '[]'::jsonb)
+  INTO open_orders
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status NOT IN ('completed', 'cancelled');
+
+  RETURN jsonb_build_object(
+    'business_date', p_business_date,
+    'gross_sales', gross,
+    'order_count', sales_count,
+    'items_sold', sold,
+    'void_count', voids,
+    'void_total', voided,
+    'discount_total', 0,
+    'tax_total', taxes,
+    'tip_total', tips,
+    'net_sales', gross,
+    'payment_breakdown', breakdown,
+    'open_orders', open_orders
+  );
+END;
+$$;
@@ -0,0 +1,778 @@
+/*
+  # Discounts, comps and promo codes
+
+  1. New Tables
+    - `promo_codes`
+      - `code` (text, unique regardless of case) - what the customer types
+      - `description` (text, optional)
+      - `discount_type` (text) - percent or fixed
+      - `value` (decimal) - the percentage, or the amount off
+      - `starts_at`, `ends_at` (timestamptz, optional) - when the code can be used
+      - `max_uses` (integer, optional) and `use_count` (integer)
+      - `active` (boolean)
+    - `order_discounts` - money taken off an order or one of its lines
+      - `order_id` (uuid, references orders)
+      - `order_item_id` (uuid, optional, references order_items) - set for a line
+        discount; a line carries at most one
+      - `kind` (text) - discount, comp or promo
+      - `discount_type` (text) - percent or fixed
+      - `value` (decimal) - as entered
+      - `amount` (decimal) - what it takes off the bill, kept up to date by
+        `recalculate_order_totals`
+      - `reason` (text, optional) - required for comps
+      - `promo_code_id` (uuid, optional, references promo_codes)
+      - `created_by`, `created_by_name` - who applied it
+
+  2. Changes
+    - `orders.discount_total` (decimal). The total is now
+      subtotal - discount_total + tax_total + service_charge
+    - Line discounts come off their line; order discounts come off what is left,
+      spread over the lines so each is taxed on what is actually charged
+    - `restaurant_settings` gains `discount_approval_percent` and
+      `discount_approval_amount` - how much staff can discount an order without a manager
+    - `place_order` takes an optional promo code
+    - Day closeouts report discounts, and net sales are gross sales less discounts
+
+  3. Security
+    - Discounts are applied through `apply_order_discount` by managers or the
+      order's waiter; only managers can comp, and a comp needs a reason
+    - Once an order's discounts pass `restaurant_settings.discount_approval_percent`
+      of the order or `discount_approval_amount`, only a manager can add more, and
+      only with a reason
+    - Only a comp can make a line or the whole order free
+    - Only managers remove discounts, or replace a comp or someone else's
+      discount on a line
+    - Managers manage promo codes; everyone else checks a code through
+      `check_promo_code`, so codes cannot be listed
+    - Discounts can be read by anyone who can read the order
+*/
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL CHECK (code = upper(trim(code)) AND code <> ''),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  value decimal(10,2) NOT NULL CHECK (value > 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  max_uses integer CHECK (max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0 CHECK (use_count >= 0),
+  active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percent' OR value <= 100),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS promo_codes_code_key ON promo_codes (code);
+
+CREATE TABLE IF NOT EXISTS order_discounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id uuid UNIQUE REFERENCES order_items(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('discount', 'comp', 'promo')),
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  value decimal(10,2) NOT NULL CHECK (value > 0),
+  amount decimal(10,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  reason text,
+  promo_code_id uuid REFERENCES promo_codes(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percent' OR value <= 100),
+  CHECK (kind <> 'comp' OR coalesce(trim(reason), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS order_discounts_order_id_idx ON order_discounts (order_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_total decimal(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS discount_approval_percent decimal(5,2) NOT NULL DEFAULT 20
+  CHECK (discount_approval_percent >= 0 AND discount_approval_percent <= 100);
+ALTER TABLE restaurant_settings ADD COLUMN IF NOT EXISTS discount_approval_amount decimal(10,2) NOT NULL DEFAULT 50
+  CHECK (discount_approval_amount >= 0);
+
+-- Enable RLS
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage promo codes"
+  ON promo_codes
+  FOR ALL
+  TO authenticated
+  USING (current_user_role() = 'manager')
+  WITH CHECK (current_user_role() = 'manager');
+
+-- Orders are already limited to the people who can see them
+CREATE POLICY "Users can read discounts on orders they can see"
+  ON order_discounts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM orders WHERE orders.id = order_discounts.order_id)
+  );
+
+-- A promo code that can be used right now, or an error saying why not
+CREATE OR REPLACE FUNCTION find_promo_code(p_code text, p_lock boolean DEFAULT false)
+RETURNS promo_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  promo promo_codes%ROWTYPE;
+BEGIN
+  IF p_lock THEN
+    SELECT * INTO promo FROM promo_codes WHERE code = upper(trim(p_code)) FOR UPDATE;
+  ELSE
+    SELECT * INTO promo FROM promo_codes WHERE code = upper(trim(p_code));
+  END IF;
+
+  IF NOT FOUND OR NOT promo.active THEN
+    RAISE EXCEPTION 'Promo code % is not valid', upper(trim(p_code));
+  END IF;
+
+  IF promo.starts_at IS NOT NULL AND promo.starts_at > now() THEN
+    RAISE EXCEPTION 'Promo code % cannot be used yet', promo.code;
+  END IF;
+
+  IF promo.ends_at IS NOT NULL AND promo.ends_at <= now() THEN
+    RAISE EXCEPTION 'Promo code % has expired', promo.code;
+  END IF;
+
+  IF promo.max_uses IS NOT NULL AND promo.use_count >= promo.max_uses THEN
+    RAISE EXCEPTION 'Promo code % has been used up', promo.code;
+  END IF;
+
+  RETURN promo;
+END;
+$$;
+
+-- What a customer needs to see before checking out with a code
+CREATE OR REPLACE FUNCTION check_promo_code(p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  promo promo_codes%ROWTYPE;
+BEGIN
+  promo := find_promo_code(p_code);
+
+  RETURN jsonb_build_object(
+    'code', promo.code,
+    'description', promo.description,
+    'discount_type', promo.discount_type,
+    'value', promo.value
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_promo_code(text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_promo_code(text) TO authenticated;
+
+-- Rebuilds an order's figures from its lines and discounts, using the tax mode and
+-- service charge rate the order was placed with
+CREATE OR REPLACE FUNCTION recalculate_order_totals(p_order_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target orders%ROWTYPE;
+  order_discount record;
+  line_total numeric(10,2);
+  line_discounts numeric(10,2);
+  remaining numeric(10,2);
+  amount_off numeric(10,2);
+  charged_share numeric := 1;
+  taxes numeric(10,2);
+  discounts numeric(10,2);
+  net numeric(10,2);
+  service numeric(10,2);
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- A line discount never takes off more than the line is worth
+  UPDATE order_discounts
+  SET amount = least(
+    order_items.price * order_items.quantity,
+    CASE
+      WHEN order_discounts.discount_type = 'percent'
+        THEN round(order_items.price * order_items.quantity * order_discounts.value / 100, 2)
+      ELSE order_discounts.value
+    END
+  )
+  FROM order_items
+  WHERE order_items.id = order_discounts.order_item_id
+  AND order_discounts.order_id = p_order_id;
+
+  SELECT coalesce(sum(order_items.price * order_items.quantity), 0), coalesce(sum(line_discount.amount), 0)
+  INTO line_total, line_discounts
+  FROM order_items
+  LEFT JOIN order_discounts AS line_discount ON line_discount.order_item_id = order_items.id
+  WHERE order_items.order_id = p_order_id;
+
+  -- Order discounts come off what is left, in the order they were given
+  remaining := line_total - line_discounts;
+  FOR order_discount IN
+    SELECT * FROM order_discounts
+    WHERE order_id = p_order_id AND order_item_id IS NULL
+    ORDER BY created_at
+  LOOP
+    amount_off := least(
+      remaining,
+      CASE
+        WHEN order_discount.discount_type = 'percent' THEN round(remaining * order_discount.value / 100, 2)
+        ELSE order_discount.value
+      END
+    );
+    UPDATE order_discounts SET amount = amount_off WHERE id = order_discount.id;
+    remaining := remaining - amount_off;
+  END LOOP;
+
+  IF line_total - line_discounts > 0 THEN
+    charged_share := remaining / (line_total - line_discounts);
+  END IF;
+
+  -- Each line is taxed on what is actually charged for it
+  WITH taxed AS (
+    SELECT
+      order_items.id,
+      line_tax(
+        (order_items.price * order_items.quantity - coalesce(line_discount.amount, 0)) * charged_share,
+        order_items.tax_rate,
+        target.tax_inclusive
+      ) AS tax
+    FROM order_items
+    LEFT JOIN order_discounts AS line_discount ON line_discount.order_item_id = order_items.id
+    WHERE order_items.order_id = p_order_id
+  )
+  UPDATE order_items
+  SET tax_amount = taxed.tax
+  FROM taxed
+  WHERE order_items.id = taxed.id
+  AND order_items.tax_amount <> taxed.tax;
+
+  SELECT coalesce(sum(tax_amount), 0) INTO taxes FROM order_items WHERE order_id = p_order_id;
+
+  discounts := line_total - remaining;
+  net := line_total - CASE WHEN target.tax_inclusive THEN taxes ELSE 0 END;
+  service := round((net - discounts) * target.service_charge_rate / 100, 2);
+
+  UPDATE orders
+  SET
+    subtotal = net,
+    discount_total = discounts,
+    tax_total = taxes,
+    service_charge = service,
+    total = net - discounts + taxes + service
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_order_discount(
+  p_order_id uuid,
+  p_kind text,
+  p_discount_type text,
+  p_value numeric,
+  p_reason text DEFAULT NULL,
+  p_order_item_id uuid DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  target orders%ROWTYPE;
+  discount_type text := p_discount_type;
+  discount_value numeric := round(coalesce(p_value, 0), 2);
+  settings restaurant_settings%ROWTYPE;
+  order_value numeric;
+  discounted numeric;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT (caller_role = 'manager' OR (caller_role = 'waiter' AND target.waiter_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Only managers and the assigned waiter can discount this order';
+  END IF;
+
+  IF target.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is already % and cannot be discounted', target.status;
+  END IF;
+
+  IF p_kind NOT IN ('discount', 'comp') THEN
+    RAISE EXCEPTION 'Promo codes are entered at checkout';
+  END IF;
+
+  -- A comp makes the line or the order free, and a manager has to own it
+  IF p_kind = 'comp' THEN
+    IF caller_role <> 'manager' THEN
+      RAISE EXCEPTION 'Only managers can comp';
+    END IF;
+    IF coalesce(trim(p_reason), '') = '' THEN
+      RAISE EXCEPTION 'Give a reason for the comp';
+    END IF;
+    discount_type := 'percent';
+    discount_value := 100;
+  END IF;
+
+  IF discount_type NOT IN ('percent', 'fixed') THEN
+    RAISE EXCEPTION 'Unknown discount type %', discount_type;
+  END IF;
+
+  IF discount_value <= 0 OR (discount_type = 'percent' AND discount_value > 100) THEN
+    RAISE EXCEPTION 'Enter a discount of more than zero, and no more than 100%%';
+  END IF;
+
+  IF p_order_item_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM order_items WHERE id = p_order_item_id AND order_id = p_order_id) THEN
+      RAISE EXCEPTION 'That item is not on this order';
+    END IF;
+
+    -- A waiter can only replace a discount they gave themselves, never a comp
+    -- or a manager's discount
+    IF caller_role <> 'manager' AND EXISTS (
+      SELECT 1 FROM order_discounts
+      WHERE order_item_id = p_order_item_id
+      AND (kind <> 'discount' OR created_by IS DISTINCT FROM auth.uid())
+    ) THEN
+      RAISE EXCEPTION 'Only a manager can change the discount on that item';
+    END IF;
+
+    -- The new discount replaces whatever the line had
+    DELETE FROM order_discounts WHERE order_item_id = p_order_item_id;
+  END IF;
+
+  INSERT INTO order_discounts (
+    order_id, order_item_id, kind, discount_type, value, reason, created_by, created_by_name
+  )
+  VALUES (
+    p_order_id,
+    p_order_item_id,
+    p_kind,
+    discount_type,
+    discount_value,
+    nullif(trim(p_reason), ''),
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid())
+  );
+
+  target := recalculate_order_totals(p_order_id);
+
+  -- Only a comp may make a line or the whole order free
+  IF p_kind = 'discount' THEN
+    IF target.total <= 0 THEN
+      RAISE EXCEPTION 'That would make the order free; comp it instead';
+    END IF;
+    IF p_order_item_id IS NOT NULL AND EXISTS (
+      SELECT 1
+      FROM order_discounts
+      JOIN order_items ON order_items.id = order_discounts.order_item_id
+      WHERE order_discounts.order_item_id = p_order_item_id
+      AND order_discounts.amount >= order_items.price * order_items.quantity
+    ) THEN
+      RAISE EXCEPTION 'That would make the item free; comp it instead';
+    END IF;
+
+    -- Large discounts, including several smaller ones on the same order, need a
+    -- manager and a reason. Line totals are before any tax taken out of them.
+    SELECT * INTO settings FROM restaurant_settings WHERE id;
+    order_value := target.subtotal + CASE WHEN target.tax_inclusive THEN target.tax_total ELSE 0 END;
+    SELECT coalesce(sum(amount), 0) INTO discounted
+    FROM order_discounts
+    WHERE order_id = p_order_id AND kind = 'discount';
+
+    IF (discount_type = 'percent' AND discount_value > settings.discount_approval_percent)
+      OR discounted > settings.discount_approval_amount
+      OR discounted * 100 > order_value * settings.discount_approval_percent THEN
+      IF caller_role <> 'manager' THEN
+        RAISE EXCEPTION 'Discounts over % or $% on an order need a manager',
+          trim_scale(settings.discount_approval_percent) || '%', settings.discount_approval_amount;
+      END IF;
+      IF coalesce(trim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'Give a reason for a discount this large';
+      END IF;
+    END IF;
+  END IF;
+
+  IF order_balance(p_order_id) < 0 THEN
+    RAISE EXCEPTION 'The order has already been paid past that amount';
+  END IF;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_order_discount(p_discount_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  removed order_discounts%ROWTYPE;
+  target orders%ROWTYPE;
+BEGIN
+  IF coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only managers can remove discounts';
+  END IF;
+
+  SELECT * INTO removed FROM order_discounts WHERE id = p_discount_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount not found';
+  END IF;
+
+  SELECT * INTO target FROM orders WHERE id = removed.order_id FOR UPDATE;
+
+  IF target.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is already % and its discounts cannot change', target.status;
+  END IF;
+
+  DELETE FROM order_discounts WHERE id = p_discount_id;
+
+  -- The code was not used after all
+  IF removed.promo_code_id IS NOT NULL THEN
+    UPDATE promo_codes SET use_count = greatest(use_count - 1, 0) WHERE id = removed.promo_code_id;
+  END IF;
+
+  RETURN recalculate_order_totals(removed.order_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_order_discount(uuid, text, text, numeric, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_order_discount(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS place_order(text, jsonb, integer, integer);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_customer_name text,
+  p_items jsonb,
+  p_table_number integer DEFAULT NULL,
+  p_party_size integer DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  line jsonb;
+  item menu_items%ROWTYPE;
+  line_quantity integer;
+  selected_ids uuid[];
+  matched_count integer;
+  unavailable_option text;
+  grp record;
+  line_modifiers jsonb;
+  unit_price numeric(10,2);
+  line_rate numeric;
+  priced_lines jsonb := '[]'::jsonb;
+  guests integer := p_party_size;
+  settings restaurant_settings%ROWTYPE;
+  promo promo_codes%ROWTYPE;
+  new_order orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR caller_role IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order';
+  END IF;
+
+  IF caller_role NOT IN ('customer', 'waiter', 'manager') THEN
+    RAISE EXCEPTION 'Your role cannot place orders';
+  END IF;
+
+  IF coalesce(trim(p_customer_name), '') = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF caller_role = 'customer' AND p_table_number IS NOT NULL THEN
+    RAISE EXCEPTION 'Customers cannot assign a table';
+  END IF;
+
+  IF p_party_size IS NOT NULL AND p_party_size < 1 THEN
+    RAISE EXCEPTION 'Party size must be at least 1';
+  END IF;
+
+  -- A table left without a party size counts as full, so a large party cannot
+  -- skip the service charge by leaving it blank
+  IF guests IS NULL AND p_table_number IS NOT NULL THEN
+    SELECT seats INTO guests FROM tables WHERE number = p_table_number;
+  END IF;
+
+  SELECT * INTO settings FROM restaurant_settings WHERE id;
+
+  -- Checked up front so a bad code fails before anything is written
+  IF nullif(trim(p_promo_code), '') IS NOT NULL THEN
+    promo := find_promo_code(p_promo_code, true);
+  END IF;
+
+  -- Validate every line and price it before writing anything
+  FOR line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    line_quantity := coalesce((line->>'quantity')::integer, 0);
+    IF line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be at least 1';
+    END IF;
+
+    SELECT * INTO item FROM menu_items WHERE id = (line->>'menu_item_id')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT item.available THEN
+      RAISE EXCEPTION '% is currently unavailable', item.name;
+    END IF;
+
+    selected_ids := ARRAY(
+      SELECT DISTINCT value::uuid
+      FROM jsonb_array_elements_text(coalesce(line->'option_ids', '[]'::jsonb))
+    );
+
+    -- Every chosen option has to belong to this dish
+    SELECT count(*) INTO matched_count
+    FROM modifier_options
+    JOIN modifier_groups ON modifier_groups.id = modifier_options.group_id
+    WHERE modifier_options.id = ANY(selected_ids)
+    AND modifier_groups.menu_item_id = item.id;
+
+    IF matched_count <> cardinality(selected_ids) THEN
+      RAISE EXCEPTION 'Some options chosen for % are no longer offered', item.name;
+    END IF;
+
+    SELECT modifier_options.name INTO unavailable_option
+    FROM modifier_options
+    WHERE modifier_options.id = ANY(selected_ids)
+    AND NOT modifier_options.available
+    LIMIT 1;
+
+    IF unavailable_option IS NOT NULL THEN
+      RAISE EXCEPTION '% for % is currently unavailable', unavailable_option, item.name;
+    END IF;
+
+    FOR grp IN
+      SELECT
+        modifier_groups.name,
+        modifier_groups.min_selections,
+        modifier_groups.max_selections,
+        (
+          SELECT count(*) FROM modifier_options
+          WHERE modifier_options.group_id = modifier_groups.id
+          AND modifier_options.id = ANY(selected_ids)
+        ) AS chosen
+      FROM modifier_groups
+      WHERE modifier_groups.menu_item_id = item.id
+    LOOP
+      IF grp.chosen < grp.min_selections THEN
+        RAISE EXCEPTION 'Choose at least % for % on %', grp.min_selections, grp.name, item.name;
+      END IF;
+
+      IF grp.chosen > grp.max_selections THEN
+        RAISE EXCEPTION 'Choose at most % for % on %', grp.max_selections, grp.name, item.name;
+      END IF;
+    END LOOP;
+
+    SELECT coalesce(
+      jsonb_agg(
+        jsonb_build_object(
+          'group_id', modifier_groups.id,
+          'group_name', modifier_groups.name,
+          'option_id', modifier_options.id,
+          'option_name', modifier_options.name,
+          'price_delta', modifier_options.price_delta
+        )
+        ORDER BY modifier_groups.sort_order, modifier_options.sort_order
+      ),
+      '[]'::jsonb
+    )
+    INTO line_modifiers
+    FROM modifier_options
+    JOIN modifier_groups ON modifier_groups.id = modifier_options.group_id
+    WHERE modifier_options.id = ANY(selected_ids);
+
+    SELECT item.price + coalesce(sum(price_delta), 0) INTO unit_price
+    FROM modifier_options
+    WHERE id = ANY(selected_ids);
+
+    IF unit_price < 0 THEN
+      RAISE EXCEPTION 'Options for % cannot bring its price below zero', item.name;
+    END IF;
+
+    line_rate := category_tax_rate(item.category);
+
+    priced_lines := priced_lines || jsonb_build_array(jsonb_build_object(
+      'menu_item_id', item.id,
+      'quantity', line_quantity,
+      'price', unit_price,
+      'notes', nullif(trim(line->>'notes'), ''),
+      'modifiers', line_modifiers,
+      'tax_rate', line_rate,
+      'tax_amount', line_tax(unit_price * line_quantity, line_rate, coalesce(settings.tax_inclusive, false))
+    ));
+  END LOOP;
+
+  INSERT INTO orders (
+    customer_id, waiter_id, table_number, customer_name, status, total,
+    party_size, tax_inclusive, service_charge_rate
+  )
+  VALUES (
+    CASE WHEN caller_role = 'customer' THEN auth.uid() END,
+    CASE WHEN caller_role <> 'customer' THEN auth.uid() END,
+    p_table_number,
+    trim(p_customer_name),
+    'pending',
+    0,
+    guests,
+    coalesce(settings.tax_inclusive, false),
+    CASE
+      WHEN guests >= settings.service_charge_min_party THEN settings.service_charge_rate
+      ELSE 0
+    END
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (order_id, menu_item_id, quantity, price, notes, modifiers, status, tax_rate, tax_amount)
+  SELECT
+    new_order.id,
+    (order_line->>'menu_item_id')::uuid,
+    (order_line->>'quantity')::integer,
+    (order_line->>'price')::numeric,
+    order_line->>'notes',
+    order_line->'modifiers',
+    'pending',
+    (order_line->>'tax_rate')::numeric,
+    (order_line->>'tax_amount')::numeric
+  FROM jsonb_array_elements(priced_lines) AS order_line;
+
+  IF promo.id IS NOT NULL THEN
+    UPDATE promo_codes SET use_count = use_count + 1 WHERE id = promo.id;
+
+    INSERT INTO order_discounts (
+      order_id, kind, discount_type, value, reason, promo_code_id, created_by, created_by_name
+    )
+    VALUES (
+      new_order.id,
+      'promo',
+      promo.discount_type,
+      promo.value,
+      promo.code,
+      promo.id,
+      auth.uid(),
+      (SELECT name FROM users WHERE id = auth.uid())
+    );
+  END IF;
+
+  RETURN recalculate_order_totals(new_order.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, jsonb, integer, integer, text) TO authenticated;
+
+-- Net sales are now gross sales less the discounts given
+CREATE OR REPLACE FUNCTION compute_day_closeout(p_business_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gross numeric(12,2);
+  discounts numeric(12,2);
+  taxes numeric(12,2);
+  sales_count integer;
+  sold integer;
+  voids integer;
+  voided numeric(12,2);
+  tips numeric(12,2);
+  breakdown jsonb;
+  open_orders jsonb;
+BEGIN
+  SELECT
+    coalesce(sum(subtotal + service_charge), 0),
+    coalesce(sum(discount_total), 0),
+    coalesce(sum(tax_total), 0),
+    count(*)
+  INTO gross, discounts, taxes, sales_count
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status <> 'cancelled';
+
+  SELECT coalesce(sum(order_items.quantity), 0)
+  INTO sold
+  FROM order_items
+  JOIN orders ON orders.id = order_items.order_id
+  WHERE business_date(orders.created_at) = p_business_date
+  AND orders.status <> 'cancelled';
+
+  SELECT coalesce(sum(total), 0), count(*)
+  INTO voided, voids
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status = 'cancelled';
+
+  SELECT coalesce(sum(tip), 0)
+  INTO tips
+  FROM payments
+  WHERE business_date(created_at) = p_business_date;
+
+  SELECT coalesce(jsonb_object_agg(method, total), '{}'::jsonb)
+  INTO breakdown
+  FROM (
+    SELECT method, sum(amount) AS total
+    FROM payments
+    WHERE business_date(created_at) = p_business_date
+    GROUP BY method
+  ) AS by_method;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'table_number', table_number,
+    'customer_name', customer_name,
+    'status', status,
+    'total', total,
+    'created_at', created_at
+  ) ORDER BY created_at), '[]'::jsonb)
+  INTO open_orders
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status NOT IN ('completed', 'cancelled');
+
+  RETURN jsonb_build_object(
+    'business_date', p_business_date,
+    'gross_sales', gross,
+    'order_count', sales_count,
+    'items_sold', sold,
+    'void_count', voids,
+    'void_total', voided,
+    'discount_total', discounts,
+    'tax_total', taxes,
+    'tip_total', tips,
+    'net_sales', gross - discounts,
+    'payment_breakdown', breakdown,
+    'open_orders', open_orders
+  );
+END;
+$$;
@@ -0,0 +1,847 @@
+/*
+  # Item voids and refunds with manager approval
+
+  1. New Tables
+    - `manager_pins` - the PIN each manager approves voids and refunds with
+      - `user_id` (uuid, primary key, references users)
+      - `pin_hash` (text) - only ever stored hashed
+      - `updated_at` (timestamp)
+    - `approval_pin_attempts` - wrong PINs entered by each member of staff
+      - `user_id` (uuid, primary key, references users)
+      - `failed_count` (integer) - wrong PINs in a row
+      - `locked_until` (timestamp, optional) - when they can try a PIN again
+      - `updated_at` (timestamp)
+    - `refunds` - money given back against a payment
+      - `order_id`, `payment_id` (uuid)
+      - `amount` (decimal) - never more than what is left of the payment
+      - `reason` (text)
+      - `item_ids` (uuid[]) - the lines being refunded, when it is for particular items
+      - `method` (text) - the payment's method
+      - `status` (text) - pending while a card refund is with the payment provider,
+        then completed, or cancelled when the provider turned it down
+      - `gateway`, `gateway_transaction_id` (text, optional) - the card refund
+      - `approved_by`, `approved_by_name` - the manager who approved it
+      - `created_by`, `created_by_name` - who gave it
+      - `completed_at`, `cancelled_at` (timestamp)
+
+  2. Changes
+    - `order_items` gain `voided`, `void_reason`, `voided_at`, `voided_by`,
+      `voided_by_name`, `void_approved_by` and `void_approved_by_name`. A voided line
+      stays on the order but is left out of its totals, the kitchen's work and stock.
+      It can no longer change.
+    - Only items on orders the kitchen has not started can be voided, and never an
+      order's last item or one already paid for
+    - Day closeouts count voided items with the voids, and record refunds
+      (`refund_count`, `refund_total`) on the day they were given
+
+  3. Security
+    - Voids and refunds need a manager: a manager does it, or the order's waiter
+      enters a manager's PIN
+    - PINs are 6 to 8 digits, set and checked only through functions, and can
+      never be read
+    - Every manager's PIN is different. One that is taken is refused with the same
+      message as one that is easy to guess, so setting a PIN cannot be used to find
+      out another manager's.
+    - Five wrong PINs in a row stop that member of staff trying another for 15
+      minutes
+    - Voids go through `void_order_item`; staff still only change an order item's
+      status directly
+    - Refunds are given through `request_refund`. Managers read every refund;
+      waiters read the refunds on their orders.
+    - Refunds are never deleted; a card refund the provider turned down is kept
+      as cancelled and no longer counts against the payment
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS manager_pins (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  pin_hash text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS approval_pin_attempts (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  failed_count integer NOT NULL DEFAULT 0 CHECK (failed_count >= 0),
+  locked_until timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS voided boolean NOT NULL DEFAULT false;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS void_reason text;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS voided_at timestamptz;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS voided_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS voided_by_name text;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS void_approved_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS void_approved_by_name text;
+
+CREATE INDEX IF NOT EXISTS order_items_voided_at_idx ON order_items (voided_at) WHERE voided;
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  payment_id uuid NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  amount decimal(10,2) NOT NULL CHECK (amount > 0),
+  reason text NOT NULL CHECK (trim(reason) <> ''),
+  item_ids uuid[] NOT NULL DEFAULT '{}',
+  method text NOT NULL CHECK (method IN ('cash', 'card', 'other')),
+  status text NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'cancelled')),
+  gateway text,
+  gateway_transaction_id text,
+  approved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  approved_by_name text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz,
+  cancelled_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS refunds_order_id_idx ON refunds (order_id);
+CREATE INDEX IF NOT EXISTS refunds_payment_id_idx ON refunds (payment_id);
+CREATE INDEX IF NOT EXISTS refunds_created_at_idx ON refunds (created_at);
+
+ALTER TABLE day_closeouts ADD COLUMN IF NOT EXISTS refund_count integer NOT NULL DEFAULT 0;
+ALTER TABLE day_closeouts ADD COLUMN IF NOT EXISTS refund_total decimal(12,2) NOT NULL DEFAULT 0;
+
+-- Enable RLS. Nobody reads or writes PINs or PIN attempts directly.
+ALTER TABLE manager_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE approval_pin_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can read refunds"
+  ON refunds
+  FOR SELECT
+  TO authenticated
+  USING (current_user_role() = 'manager');
+
+CREATE POLICY "Waiters can read refunds on their orders"
+  ON refunds
+  FOR SELECT
+  TO authenticated
+  USING (
+    current_user_role() = 'waiter'
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = refunds.order_id
+      AND orders.waiter_id = auth.uid()
+    )
+  );
+
+-- A voided line stays exactly as it was when it was voided
+CREATE OR REPLACE FUNCTION protect_voided_order_item()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.voided THEN
+    RAISE EXCEPTION 'That item has been voided and can no longer change';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER order_items_protect_voided
+  BEFORE UPDATE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_voided_order_item();
+
+-- Voided lines are not made, so an order that is ready leaves them alone
+CREATE OR REPLACE FUNCTION mark_order_items_ready()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('ready', 'served', 'completed')
+    AND OLD.status IN ('pending', 'preparing') THEN
+    UPDATE order_items
+    SET status = 'ready'
+    WHERE order_id = NEW.id
+    AND status <> 'ready'
+    AND NOT voided;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_approval_pin(p_pin text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pin text := trim(p_pin);
+BEGIN
+  IF coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only managers have an approval PIN';
+  END IF;
+
+  IF pin IS NULL OR pin !~ '^[0-9]{6,8}$' THEN
+    RAISE EXCEPTION 'The PIN must be 6 to 8 digits';
+  END IF;
+
+  -- Each PIN has to point to one manager. A PIN that is taken gets the same
+  -- answer as one that is easy to guess, so this does not confirm another
+  -- manager's PIN.
+  IF pin ~ '^(.)\1*$'
+    OR position(pin IN '0123456789') > 0
+    OR position(pin IN '9876543210') > 0
+    OR EXISTS (
+      SELECT 1 FROM manager_pins
+      WHERE user_id <> auth.uid()
+      AND pin_hash = extensions.crypt(pin, pin_hash)
+    ) THEN
+    RAISE EXCEPTION 'That PIN cannot be used; choose another';
+  END IF;
+
+  INSERT INTO manager_pins (user_id, pin_hash, updated_at)
+  VALUES (auth.uid(), extensions.crypt(pin, extensions.gen_salt('bf')), now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash, updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_approval_pin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM manager_pins WHERE user_id = auth.uid());
+$$;
+
+-- The manager approving a void or refund: the caller when they are a manager,
+-- otherwise the active manager the PIN belongs to. A wrong PIN counts against the
+-- caller and gives NULL rather than an error, so that the count is kept; callers
+-- return NULL straight away.
+CREATE OR REPLACE FUNCTION approving_manager(p_manager_pin text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  approver_id uuid;
+  attempts approval_pin_attempts%ROWTYPE;
+BEGIN
+  IF current_user_role() = 'manager' THEN
+    RETURN auth.uid();
+  END IF;
+
+  IF coalesce(trim(p_manager_pin), '') = '' THEN
+    RAISE EXCEPTION 'A manager has to approve this';
+  END IF;
+
+  -- Make sure there is a row to lock, so two tries at once are counted one after
+  -- the other
+  INSERT INTO approval_pin_attempts (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO attempts FROM approval_pin_attempts WHERE user_id = auth.uid() FOR UPDATE;
+
+  IF attempts.locked_until > now() THEN
+    RAISE EXCEPTION 'Too many wrong PINs; try again in % minutes',
+      ceil(extract(epoch FROM attempts.locked_until - now()) / 60);
+  END IF;
+
+  SELECT users.id INTO approver_id
+  FROM manager_pins
+  JOIN users ON users.id = manager_pins.user_id
+  WHERE users.role = 'manager'
+  AND users.active
+  AND manager_pins.pin_hash = extensions.crypt(trim(p_manager_pin), manager_pins.pin_hash);
+
+  IF approver_id IS NOT NULL THEN
+    DELETE FROM approval_pin_attempts WHERE user_id = auth.uid();
+    RETURN approver_id;
+  END IF;
+
+  -- The count starts again once a lock has run out
+  UPDATE approval_pin_attempts
+  SET
+    failed_count = CASE WHEN locked_until IS NULL THEN failed_count + 1 ELSE 1 END,
+    locked_until = NULL,
+    updated_at = now()
+  WHERE user_id = auth.uid()
+  RETURNING * INTO attempts;
+
+  IF attempts.failed_count >= 5 THEN
+    UPDATE approval_pin_attempts
+    SET locked_until = now() + interval '15 minutes'
+    WHERE user_id = auth.uid();
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION approving_manager(text) FROM PUBLIC, anon, authenticated;
+
+-- Voided lines no longer count towards the order
+CREATE OR REPLACE FUNCTION recalculate_order_totals(p_order_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target orders%ROWTYPE;
+  order_discount record;
+  line_total numeric(10,2);
+  line_discounts numeric(10,2);
+  remaining numeric(10,2);
+  amount_off numeric(10,2);
+  charged_share numeric := 1;
+  taxes numeric(10,2);
+  discounts numeric(10,2);
+  net numeric(10,2);
+  service numeric(10,2);
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- A line discount never takes off more than the line is worth
+  UPDATE order_discounts
+  SET amount = least(
+    order_items.price * order_items.quantity,
+    CASE
+      WHEN order_discounts.discount_type = 'percent'
+        THEN round(order_items.price * order_items.quantity * order_discounts.value / 100, 2)
+      ELSE order_discounts.value
+    END
+  )
+  FROM order_items
+  WHERE order_items.id = order_discounts.order_item_id
+  AND order_discounts.order_id = p_order_id
+  AND NOT order_items.voided;
+
+  SELECT coalesce(sum(order_items.price * order_items.quantity), 0), coalesce(sum(line_discount.amount), 0)
+  INTO line_total, line_discounts
+  FROM order_items
+  LEFT JOIN order_discounts AS line_discount ON line_discount.order_item_id = order_items.id
+  WHERE order_items.order_id = p_order_id
+  AND NOT order_items.voided;
+
+  -- Order discounts come off what is left, in the order they were given
+  remaining := line_total - line_discounts;
+  FOR order_discount IN
+    SELECT * FROM order_discounts
+    WHERE order_id = p_order_id AND order_item_id IS NULL
+    ORDER BY created_at
+  LOOP
+    amount_off := least(
+      remaining,
+      CASE
+        WHEN order_discount.discount_type = 'percent' THEN round(remaining * order_discount.value / 100, 2)
+        ELSE order_discount.value
+      END
+    );
+    UPDATE order_discounts SET amount = amount_off WHERE id = order_discount.id;
+    remaining := remaining - amount_off;
+  END LOOP;
+
+  IF line_total - line_discounts > 0 THEN
+    charged_share := remaining / (line_total - line_discounts);
+  END IF;
+
+  -- Each line is taxed on what is actually charged for it
+  WITH taxed AS (
+    SELECT
+      order_items.id,
+      line_tax(
+        (order_items.price * order_items.quantity - coalesce(line_discount.amount, 0)) * charged_share,
+        order_items.tax_rate,
+        target.tax_inclusive
+      ) AS tax
+    FROM order_items
+    LEFT JOIN order_discounts AS line_discount ON line_discount.order_item_id = order_items.id
+    WHERE order_items.order_id = p_order_id
+    AND NOT order_items.voided
+  )
+  UPDATE order_items
+  SET tax_amount = taxed.tax
+  FROM taxed
+  WHERE order_items.id = taxed.id
+  AND order_items.tax_amount <> taxed.tax;
+
+  SELECT coalesce(sum(tax_amount), 0) INTO taxes
+  FROM order_items
+  WHERE order_id = p_order_id
+  AND NOT voided;
+
+  discounts := line_total - remaining;
+  net := line_total - CASE WHEN target.tax_inclusive THEN taxes ELSE 0 END;
+  service := round((net - discounts) * target.service_charge_rate / 100, 2);
+
+  UPDATE orders
+  SET
+    subtotal = net,
+    discount_total = discounts,
+    tax_total = taxes,
+    service_charge = service,
+    total = net - discounts + taxes + service
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION void_order_item(
+  p_order_item_id uuid,
+  p_reason text,
+  p_manager_pin text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  line order_items%ROWTYPE;
+  target orders%ROWTYPE;
+  approver_id uuid;
+  approver users%ROWTYPE;
+BEGIN
+  SELECT * INTO line FROM order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  SELECT * INTO target FROM orders WHERE id = line.order_id FOR UPDATE;
+
+  IF NOT (caller_role = 'manager' OR (caller_role = 'waiter' AND target.waiter_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Only managers and the assigned waiter can void items on this order';
+  END IF;
+
+  IF target.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Order is already % and its items cannot be voided', target.status;
+  END IF;
+
+  IF target.status <> 'pending' THEN
+    RAISE EXCEPTION 'The kitchen has already started on this order, so its items cannot be voided';
+  END IF;
+
+  IF line.voided THEN
+    RAISE EXCEPTION 'That item has already been voided';
+  END IF;
+
+  -- Once the kitchen has started on an item it can be comped, but not voided
+  IF line.status <> 'pending' THEN
+    RAISE EXCEPTION 'The kitchen has already started on that item, so it cannot be voided';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for the void';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = line.order_id
+    AND id <> line.id
+    AND NOT voided
+  ) THEN
+    RAISE EXCEPTION 'That is the last item on the order; cancel the order instead';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payments WHERE order_id = line.order_id AND line.id = ANY (item_ids)) THEN
+    RAISE EXCEPTION 'That item has already been paid for; refund it instead';
+  END IF;
+
+  -- A wrong PIN changes nothing but the caller's count of wrong PINs
+  approver_id := approving_manager(p_manager_pin);
+  IF approver_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  SELECT * INTO approver FROM users WHERE id = approver_id;
+
+  DELETE FROM order_discounts WHERE order_item_id = line.id;
+
+  UPDATE order_items
+  SET
+    voided = true,
+    void_reason = trim(p_reason),
+    voided_at = now(),
+    voided_by = auth.uid(),
+    voided_by_name = (SELECT name FROM users WHERE id = auth.uid()),
+    void_approved_by = approver.id,
+    void_approved_by_name = approver.name,
+    tax_amount = 0
+  WHERE id = line.id;
+
+  target := recalculate_order_totals(line.order_id);
+
+  IF order_balance(line.order_id) < 0 THEN
+    RAISE EXCEPTION 'The order has already been paid past its new total; give a refund instead';
+  END IF;
+
+  RETURN target;
+END;
+$$;
+
+-- What can still be given back from a payment, counting refunds still with the
+-- payment provider but not cancelled ones
+CREATE OR REPLACE FUNCTION refundable_amount(p_payment_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT payments.amount - coalesce((
+    SELECT sum(amount) FROM refunds WHERE payment_id = payments.id AND status <> 'cancelled'
+  ), 0)
+  FROM payments
+  WHERE payments.id = p_payment_id;
+$$;
+
+-- Cash and other refunds are completed straight away. A card refund stays pending
+-- until the payment provider has returned the money.
+CREATE OR REPLACE FUNCTION request_refund(
+  p_payment_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_item_ids uuid[] DEFAULT '{}',
+  p_manager_pin text DEFAULT NULL
+)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := current_user_role();
+  payment payments%ROWTYPE;
+  target orders%ROWTYPE;
+  approver_id uuid;
+  approver users%ROWTYPE;
+  refund_amount numeric := round(coalesce(p_amount, 0), 2);
+  available numeric;
+  on_card boolean;
+  refund refunds%ROWTYPE;
+BEGIN
+  -- Lock the payment so two refunds cannot both take what is left of it
+  SELECT * INTO payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  SELECT * INTO target FROM orders WHERE id = payment.order_id;
+
+  IF NOT (caller_role = 'manager' OR (caller_role = 'waiter' AND target.waiter_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Only managers and the assigned waiter can refund this order';
+  END IF;
+
+  IF is_day_closed(business_date(now())) THEN
+    RAISE EXCEPTION 'Today has been closed out; no more refunds can be given';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Give a reason for the refund';
+  END IF;
+
+  IF refund_amount <= 0 THEN
+    RAISE EXCEPTION 'Enter an amount to refund';
+  END IF;
+
+  available := refundable_amount(p_payment_id);
+  IF refund_amount > available THEN
+    RAISE EXCEPTION 'Only $% of that payment can still be refunded', available;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(coalesce(p_item_ids, '{}')) AS refunded(item_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_items.id = refunded.item_id
+      AND order_items.order_id = payment.order_id
+      AND NOT order_items.voided
+    )
+  ) THEN
+    RAISE EXCEPTION 'Refunded items must be on this order';
+  END IF;
+
+  -- A wrong PIN changes nothing but the caller's count of wrong PINs
+  approver_id := approving_manager(p_manager_pin);
+  IF approver_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  SELECT * INTO approver FROM users WHERE id = approver_id;
+  on_card := payment.method = 'card' AND payment.gateway_transaction_id IS NOT NULL;
+
+  INSERT INTO refunds (
+    order_id, payment_id, amount, reason, item_ids, method, status, gateway,
+    approved_by, approved_by_name, created_by, created_by_name, completed_at
+  )
+  VALUES (
+    payment.order_id,
+    payment.id,
+    refund_amount,
+    trim(p_reason),
+    coalesce(p_item_ids, '{}'),
+    payment.method,
+    CASE WHEN on_card THEN 'pending' ELSE 'completed' END,
+    CASE WHEN on_card THEN payment.gateway END,
+    approver.id,
+    approver.name,
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid()),
+    CASE WHEN on_card THEN NULL ELSE now() END
+  )
+  RETURNING * INTO refund;
+
+  RETURN refund;
+END;
+$$;
+
+-- Record that the payment provider returned the money for a pending card refund
+CREATE OR REPLACE FUNCTION complete_refund(p_refund_id uuid, p_gateway_transaction_id text)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  refund refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO refund FROM refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF refund.created_by IS DISTINCT FROM auth.uid() AND coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only whoever gave the refund or a manager can complete it';
+  END IF;
+
+  IF refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'That refund has already been %', refund.status;
+  END IF;
+
+  UPDATE refunds
+  SET status = 'completed', gateway_transaction_id = p_gateway_transaction_id, completed_at = now()
+  WHERE id = p_refund_id
+  RETURNING * INTO refund;
+
+  RETURN refund;
+END;
+$$;
+
+-- Cancel a card refund the payment provider turned down, so the amount can be
+-- refunded again. The row stays as a record of the attempt.
+CREATE OR REPLACE FUNCTION cancel_refund(p_refund_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  refund refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO refund FROM refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF refund.created_by IS DISTINCT FROM auth.uid() AND coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only whoever gave the refund or a manager can cancel it';
+  END IF;
+
+  IF refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'That refund has already been %', refund.status;
+  END IF;
+
+  UPDATE refunds SET status = 'cancelled', cancelled_at = now() WHERE id = p_refund_id;
+END;
+$$;
+
+-- Voids are cancelled orders and voided items; refunds count on the day they were given
+CREATE OR REPLACE FUNCTION compute_day_closeout(p_business_date date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  gross numeric(12,2);
+  discounts numeric(12,2);
+  taxes numeric(12,2);
+  sales_count integer;
+  sold integer;
+  voids integer;
+  voided_value numeric(12,2);
+  item_voids integer;
+  item_voided_value numeric(12,2);
+  tips numeric(12,2);
+  refund_count integer;
+  refunded numeric(12,2);
+  breakdown jsonb;
+  open_orders jsonb;
+BEGIN
+  SELECT
+    coalesce(sum(subtotal + service_charge), 0),
+    coalesce(sum(discount_total), 0),
+    coalesce(sum(tax_total), 0),
+    count(*)
+  INTO gross, discounts, taxes, sales_count
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status <> 'cancelled';
+
+  SELECT
+    coalesce(sum(order_items.quantity) FILTER (WHERE NOT order_items.voided), 0),
+    count(*) FILTER (WHERE order_items.voided),
+    coalesce(sum(order_items.price * order_items.quantity) FILTER (WHERE order_items.voided), 0)
+  INTO sold, item_voids, item_voided_value
+  FROM order_items
+  JOIN orders ON orders.id = order_items.order_id
+  WHERE business_date(orders.created_at) = p_business_date
+  AND orders.status <> 'cancelled';
+
+  SELECT coalesce(sum(total), 0), count(*)
+  INTO voided_value, voids
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status = 'cancelled';
+
+  SELECT coalesce(sum(tip), 0)
+  INTO tips
+  FROM payments
+  WHERE business_date(created_at) = p_business_date;
+
+  SELECT coalesce(jsonb_object_agg(method, total), '{}'::jsonb)
+  INTO breakdown
+  FROM (
+    SELECT method, sum(amount) AS total
+    FROM payments
+    WHERE business_date(created_at) = p_business_date
+    GROUP BY method
+  ) AS by_method;
+
+  SELECT count(*), coalesce(sum(amount), 0)
+  INTO refund_count, refunded
+  FROM refunds
+  WHERE business_date(created_at) = p_business_date
+  AND status = 'completed';
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'table_number', table_number,
+    'customer_name', customer_name,
+    'status', status,
+    'total', total,
+    'created_at', created_at
+  ) ORDER BY created_at), '[]'::jsonb)
+  INTO open_orders
+  FROM orders
+  WHERE business_date(created_at) = p_business_date
+  AND status NOT IN ('completed', 'cancelled');
+
+  RETURN jsonb_build_object(
+    'business_date', p_business_date,
+    'gross_sales', gross,
+    'order_count', sales_count,
+    'items_sold', sold,
+    'void_count', voids + item_voids,
+    'void_total', voided_value + item_voided_value,
+    'discount_total', discounts,
+    'tax_total', taxes,
+    'tip_total', tips,
+    'net_sales', gross - discounts,
+    'refund_count', refund_count,
+    'refund_total', refunded,
+    'payment_breakdown', breakdown,
+    'open_orders', open_orders
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION close_business_day(
+  p_business_date date,
+  p_notes text DEFAULT NULL,
+  p_acknowledge_open_orders boolean DEFAULT false
+)
+RETURNS day_closeouts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  figures jsonb;
+  open_count integer;
+  closeout day_closeouts%ROWTYPE;
+BEGIN
+  IF coalesce(current_user_role(), '') <> 'manager' THEN
+    RAISE EXCEPTION 'Only managers can close out the day';
+  END IF;
+
+  IF p_business_date > business_date(now()) THEN
+    RAISE EXCEPTION 'A day cannot be closed before it has started';
+  END IF;
+
+  -- Serialise closeouts so a day is only ever closed once
+  PERFORM pg_advisory_xact_lock(hashtext('close_business_day'));
+
+  IF is_day_closed(p_business_date) THEN
+    RAISE EXCEPTION '% has already been closed out', p_business_date;
+  END IF;
+
+  figures := compute_day_closeout(p_business_date);
+  open_count := jsonb_array_length(figures->'open_orders');
+
+  IF open_count > 0 AND NOT coalesce(p_acknowledge_open_orders, false) THEN
+    RAISE EXCEPTION '% order(s) from % are still open', open_count, p_business_date;
+  END IF;
+
+  INSERT INTO day_closeouts (
+    business_date, gross_sales, order_count, items_sold, void_count, void_total,
+    discount_total, tax_total, tip_total, net_sales, refund_count, refund_total,
+    payment_breakdown, open_order_count, notes, closed_by, closed_by_name
+  )
+  VALUES (
+    p_business_date,
+    (figures->>'gross_sales')::numeric,
+    (figures->>'order_count')::integer,
+    (figures->>'items_sold')::integer,
+    (figures->>'void_count')::integer,
+    (figures->>'void_total')::numeric,
+    (figures->>'discount_total')::numeric,
+    (figures->>'tax_total')::numeric,
+    (figures->>'tip_total')::numeric,
+    (figures->>'net_sales')::numeric,
+    (figures->>'refund_count')::integer,
+    (figures->>'refund_total')::numeric,
+    figures->'payment_breakdown',
+    open_count,
+    nullif(trim(p_notes), ''),
+    auth.uid(),
+    (SELECT name FROM users WHERE id = auth.uid())
+  )
+  RETURNING * INTO closeout;
+
+  RETURN closeout;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refundable_amount(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_approval_pin(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_approval_pin() TO authenticated;
+GRANT EXECUTE ON FUNCTION void_order_item(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_refund(uuid, numeric, text, uuid[], text) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_refund(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_refund(uuid) TO authenticated;